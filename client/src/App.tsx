@@ -17,6 +17,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/create" component={CreateEvent} />
       <Route path="/event/:id" component={EventDetail} />
+      <Route path="/event/:id/edit" component={CreateEvent} />
       <Route path="/event/:id/attendance" component={EventAttendance} />
       <Route path="/event/:id/expenses" component={ExpenseSplitting} />
       <Route component={NotFound} />
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { CalendarSearch } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import type { AttendanceSuggestion, DateOption } from '@shared/schema';
+
+interface BusyTimeImportProps {
+  eventId: string;
+  dateOptions: DateOption[];
+  onApply: (suggestions: AttendanceSuggestion[]) => void;
+}
+
+const STATUS_LABELS: Record<AttendanceSuggestion['status'], string> = {
+  available: '◯',
+  maybe: '△',
+  unavailable: '×',
+};
+
+// 予定の時間帯（日本時間）
+function formatConflictTime(start: string, end: string): string {
+  const format = (value: string) => new Date(value).toLocaleString('ja-JP', {
+    timeZone: 'Asia/Tokyo',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return `${format(start)} - ${format(end)}`;
+}
+
+// 手持ちのカレンダー（.ics）から出欠の回答案を作る
+// ファイルはサーバーで読み込むだけで保存しない。回答案は送信前に確認・修正できる
+export default function BusyTimeImport({ eventId, dateOptions, onApply }: BusyTimeImportProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [ics, setIcs] = useState('');
+  const [suggestions, setSuggestions] = useState<AttendanceSuggestion[] | null>(null);
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      // カレンダーはそのまま本文で送る（apiRequest は JSON 用なので fetch を使う）
+      const res = await fetch(`/api/events/${eventId}/attendance-suggestions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/calendar' },
+        body: ics,
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || 'カレンダーの読み込みに失敗しました');
+      }
+      return res.json() as Promise<AttendanceSuggestion[]>;
+    },
+    onSuccess: (data) => {
+      setSuggestions(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "カレンダーの読み込みに失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setIcs(String(reader.result || ''));
+      setSuggestions(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setIcs('');
+      setSuggestions(null);
+    }
+  };
+
+  const handleApply = () => {
+    if (!suggestions) return;
+    onApply(suggestions);
+    handleOpenChange(false);
+    toast({
+      title: "回答案を反映しました",
+      description: "内容を確認してから回答を送信してください",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <CalendarSearch className="mr-2 h-4 w-4" />
+          カレンダーから入力
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            カレンダーから回答案を作成
+          </DialogTitle>
+          <DialogDescription>
+            予定と重なる日程は×、前後1時間以内に予定がある日程は△、それ以外は◯を提案します
+          </DialogDescription>
+        </DialogHeader>
+
+        {suggestions ? (
+          <div className="space-y-4">
+            <ul className="max-h-80 overflow-y-auto space-y-2">
+              {dateOptions.map((option) => {
+                const suggestion = suggestions.find(s => s.dateOptionId === option.id);
+                if (!suggestion) return null;
+                return (
+                  <li key={option.id} className="rounded-md border p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>
+                        {formatDate(new Date(option.date))}
+                        <span className="ml-2 text-slate-500">{option.startTime} - {option.endTime}</span>
+                      </span>
+                      <span className={`availability-button active ${suggestion.status}`}>
+                        {STATUS_LABELS[suggestion.status]}
+                      </span>
+                    </div>
+                    {suggestion.conflicts.length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5 text-xs text-slate-500">
+                        {suggestion.conflicts.map((conflict, index) => (
+                          <li key={index}>
+                            {conflict.summary || '（件名なし）'}：{formatConflictTime(conflict.start, conflict.end)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setSuggestions(null)}>
+                読み込み直す
+              </Button>
+              <Button type="button" onClick={handleApply}>
+                回答に反映
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (ics.trim()) suggestMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-1.5">
+              <Label htmlFor="ics-file" className="text-sm">.ics ファイル</Label>
+              <Input
+                id="ics-file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="ics-text" className="text-sm">または内容を貼り付け</Label>
+              <Textarea
+                id="ics-text"
+                value={ics}
+                onChange={(e) => setIcs(e.target.value)}
+                placeholder="BEGIN:VCALENDAR..."
+                className="h-32 font-mono text-xs"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={!ics.trim() || suggestMutation.isPending}>
+                {suggestMutation.isPending ? '読み込み中...' : '回答案を作成'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarPlus, Download, Rss } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface CalendarExportButtonProps {
+  eventId: string;
+}
+
+// 確定した日程をカレンダーに追加する
+// 1件だけの .ics ファイルと、参加中のイベントをまとめた購読用URLを選べる
+export default function CalendarExportButton({ eventId }: CalendarExportButtonProps) {
+  const { toast } = useToast();
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/feed');
+      return response.json() as Promise<{ id: string; url: string }>;
+    },
+    onSuccess: (data) => {
+      navigator.clipboard.writeText(data.url);
+      toast({
+        title: "購読用URLをコピーしました",
+        description: "カレンダーアプリの「URLで追加」に貼り付けてください。参加中のイベントの日程が自動で反映されます",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "購読用URLの作成に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full md:w-auto">
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          カレンダーに追加
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center">
+        <DropdownMenuItem asChild>
+          <a href={`/api/events/${eventId}/calendar.ics`} download>
+            <Download className="mr-2 h-4 w-4" />
+            このイベントをダウンロード（.ics）
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => subscribeMutation.mutate()}
+          disabled={subscribeMutation.isPending}
+        >
+          <Rss className="mr-2 h-4 w-4" />
+          参加中のイベントをまとめて購読
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
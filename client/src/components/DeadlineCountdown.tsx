@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { Clock, Lock } from 'lucide-react';
+import { isResponseClosed } from '@shared/deadline';
+
+interface DeadlineCountdownProps {
+  deadline: string | Date;
+  autoFinalize?: boolean; // 締切後に自動で確定する
+}
+
+// 残り時間の表示（1時間を切ったら秒まで）
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}日${hours}時間`;
+  if (hours > 0) return `${hours}時間${minutes}分`;
+  return `${minutes}分${seconds}秒`;
+}
+
+// 回答締切までのカウントダウンと、締切後の状態
+export default function DeadlineCountdown({ deadline, autoFinalize }: DeadlineCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+  const deadlineDate = new Date(deadline);
+  const closed = isResponseClosed({ responseDeadline: deadlineDate }, now);
+
+  useEffect(() => {
+    if (closed) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [closed]);
+
+  const deadlineLabel = format(deadlineDate, 'M月d日(EEE) HH:mm', { locale: ja });
+
+  if (closed) {
+    return (
+      <div className="flex items-start gap-2 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+        <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+        <div>
+          <p className="font-medium">回答を締め切りました（{deadlineLabel}）</p>
+          <p className="text-xs text-slate-500">
+            {autoFinalize
+              ? 'まもなく最も参加しやすい日程で自動的に確定されます'
+              : '主催者が日程を確定するまでお待ちください'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+      <Clock className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">
+          回答締切まで あと{formatRemaining(deadlineDate.getTime() - now.getTime())}
+        </p>
+        <p className="text-xs text-amber-800">
+          締切: {deadlineLabel}
+          {autoFinalize && '（締切後に自動で確定します）'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { storeEventToken } from '@/hooks/use-event-identity';
+import { apiRequest } from '@/lib/queryClient';
+import type { Event } from '@shared/schema';
+
+interface DuplicateEventDialogProps {
+  event: Event;
+}
+
+// 定例の集まり向けに、タイトル・詳細・デフォルト時間・メモ・参加者を引き継いで新しい候補日で作り直す
+export default function DuplicateEventDialog({ event }: DuplicateEventDialogProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState(event.title);
+  const [dates, setDates] = useState<Date[]>([]);
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/events/${event.id}/duplicate`, {
+        title,
+        dateOptions: [...dates]
+          .sort((a, b) => a.getTime() - b.getTime())
+          .map(date => ({ date: format(date, 'yyyy-MM-dd') })),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      // 主催者用リンクのトークンを保存
+      if (data.organizerToken) {
+        storeEventToken(data.id, data.organizerToken);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
+
+      setOpen(false);
+      toast({
+        title: "予定を複製しました",
+        description: "参加者に共有して日程調整を始めましょう",
+      });
+      navigate(`/event/${data.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "予定の複製に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setTitle(event.title);
+      setDates([]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          複製
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            予定を複製
+          </DialogTitle>
+          <DialogDescription>
+            詳細・デフォルト時間（{event.defaultStartTime || '19:00'} - {event.defaultEndTime || '21:00'}）・メモ・参加者を引き継ぎます。出欠の回答と支払いは引き継ぎません。
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (title.trim() && dates.length > 0) duplicateMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="duplicate-title" className="text-sm">タイトル</Label>
+            <Input
+              id="duplicate-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-sm">新しい候補日</Label>
+            <Calendar
+              mode="multiple"
+              selected={dates}
+              onSelect={(selected) => setDates(selected || [])}
+              locale={ja}
+              className="rounded-md border"
+            />
+            {dates.length > 0 && (
+              <p className="text-xs text-slate-500">{dates.length}日を選択中</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={!title.trim() || dates.length === 0 || duplicateMutation.isPending}>
+              {duplicateMutation.isPending ? '作成中...' : '新しい予定を作成'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Loader2, MessageSquare, Send, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useEventIdentity } from '@/hooks/use-event-identity';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import type { DateOption, EventComment, Expense } from '@shared/schema';
+
+interface EventCommentsProps {
+  eventId: string;
+  comments: EventComment[];
+  isLoading: boolean;
+  lastSeenId: number; // タブを開いた時点で読んでいたコメント（これより新しいものに印を付ける）
+  dateOptions: DateOption[];
+}
+
+// コメントの対象（"general": イベント全体、"date:<候補日ID>"、"expense:<支払いID>"）
+type Topic = string;
+
+function commentTopic(comment: EventComment): Topic {
+  if (comment.dateOptionId) return `date:${comment.dateOptionId}`;
+  if (comment.expenseId) return `expense:${comment.expenseId}`;
+  return 'general';
+}
+
+function topicPayload(topic: Topic): { dateOptionId?: string; expenseId?: string } {
+  if (topic.startsWith('date:')) return { dateOptionId: topic.slice(5) };
+  if (topic.startsWith('expense:')) return { expenseId: topic.slice(8) };
+  return {};
+}
+
+const COMMENT_MAX_LENGTH = 1000;
+
+// イベントの話し合い（候補日・支払いごとのコメントにもできる）
+export default function EventComments({ eventId, comments, isLoading, lastSeenId, dateOptions }: EventCommentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { identity } = useEventIdentity(eventId);
+
+  const [body, setBody] = useState('');
+  const [filter, setFilter] = useState<'all' | Topic>('all');
+  const [topic, setTopic] = useState<Topic>('general');
+  // タブを開いた時点の既読位置（開いている間は新着の印を残す）
+  const [seenAtOpen] = useState(lastSeenId);
+
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: [`/api/events/${eventId}/expenses`],
+  });
+
+  const topicLabel = (value: Topic): string => {
+    if (value.startsWith('date:')) {
+      const option = dateOptions.find(o => o.id === value.slice(5));
+      return option ? `候補日 ${formatDate(new Date(option.date))}` : '削除された候補日';
+    }
+    if (value.startsWith('expense:')) {
+      const expense = expenses.find(e => e.id === value.slice(8));
+      return expense ? `支払い「${expense.description}」` : '削除された支払い';
+    }
+    return 'イベント全体';
+  };
+
+  const topics: Topic[] = [
+    'general',
+    ...dateOptions.map(option => `date:${option.id}`),
+    ...expenses.map(expense => `expense:${expense.id}`),
+  ];
+  // 削除された候補日・支払いへのコメントも絞り込めるようにする
+  const filterTopics = Array.from(new Set([...topics, ...comments.map(commentTopic)]));
+
+  const visibleComments = filter === 'all' ? comments : comments.filter(comment => commentTopic(comment) === filter);
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/events/${eventId}/comments`, {
+        body: body.trim(),
+        ...topicPayload(topic),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setBody('');
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/comments`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "コメントを投稿できませんでした",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest('DELETE', `/api/events/${eventId}/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/comments`] });
+      toast({ title: "コメントを削除しました" });
+    },
+    onError: (error) => {
+      toast({
+        title: "コメントを削除できませんでした",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // 投稿した本人または主催者（最終的な確認はサーバー側で行う）
+  const canDelete = (comment: EventComment) => {
+    if (!identity) return false;
+    if (identity.role === 'organizer') return true;
+    return comment.authorMemberId && identity.memberId
+      ? comment.authorMemberId === identity.memberId
+      : comment.authorName === identity.name;
+  };
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value);
+    // 対象を絞り込んだときは、その対象へのコメントとして投稿する
+    if (topics.includes(value)) setTopic(value);
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="text-lg">コメント</CardTitle>
+            <CardDescription>
+              日程の相談や支払いの確認など、参加者同士でやり取りできます
+            </CardDescription>
+          </div>
+          <Select value={filter} onValueChange={handleFilterChange}>
+            <SelectTrigger className="w-44 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">すべてのコメント</SelectItem>
+              {filterTopics.map(value => (
+                <SelectItem key={value} value={value}>{topicLabel(value)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary/70" />
+          </div>
+        ) : visibleComments.length === 0 ? (
+          <div className="p-6 text-center text-sm text-slate-400">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2 text-slate-300" />
+            まだコメントはありません
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {visibleComments.map(comment => {
+              const isNew = comment.id > seenAtOpen && !comment.deletedAt && comment.authorName !== identity?.name;
+              return (
+                <li key={comment.id} className="py-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 text-sm min-w-0">
+                      <span className="font-medium truncate">{comment.authorName}</span>
+                      <span className="text-xs text-slate-500 shrink-0">
+                        {new Date(comment.createdAt).toLocaleString('ja-JP')}
+                      </span>
+                      {isNew && (
+                        <span className="rounded-full bg-primary px-1.5 text-[10px] font-medium text-white shrink-0">新着</span>
+                      )}
+                    </div>
+                    {!comment.deletedAt && canDelete(comment) && (
+                      <button
+                        type="button"
+                        onClick={() => deleteMutation.mutate(comment.id)}
+                        disabled={deleteMutation.isPending}
+                        className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                        aria-label="削除"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  {commentTopic(comment) !== 'general' && (
+                    <button
+                      type="button"
+                      onClick={() => handleFilterChange(commentTopic(comment))}
+                      className="mt-1 text-xs text-primary hover:underline"
+                    >
+                      {topicLabel(commentTopic(comment))}
+                    </button>
+                  )}
+                  {comment.deletedAt ? (
+                    <p className="mt-1 text-sm italic text-slate-400">このコメントは削除されました</p>
+                  ) : (
+                    <p className="mt-1 text-sm text-slate-800 whitespace-pre-wrap break-words">{comment.body}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {identity ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (body.trim()) postMutation.mutate();
+            }}
+            className="space-y-2 border-t pt-4"
+          >
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="コメントを入力（例: 19:30開始にしませんか？）"
+              className="min-h-[80px]"
+              maxLength={COMMENT_MAX_LENGTH}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <Select value={topic} onValueChange={setTopic}>
+                <SelectTrigger className="w-52 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {topics.map(value => (
+                    <SelectItem key={value} value={value}>{topicLabel(value)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" size="sm" disabled={!body.trim() || postMutation.isPending} className="flex items-center gap-1.5">
+                {postMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+                送信
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="border-t pt-4 text-xs text-slate-500">
+            出欠を登録するか、参加用リンクから開くとコメントできます
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   Card, 
@@ -10,55 +10,16 @@ import {
 } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Loader2, Edit, Save, Clock, User, AlertCircle, LockIcon, UnlockIcon, RotateCcw } from 'lucide-react';
+import { Loader2, Edit, Save, Clock, User, AlertCircle, PencilLine, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useEventIdentity } from '@/hooks/use-event-identity';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 import { apiRequest } from '@/lib/queryClient';
-import { Attendance } from '../../../shared/schema';
-
-// リンクの検出用正規表現
-const URL_REGEX = /(https?:\/\/[^\s]+)/g;
-
-// メモ内のURLを自動でリンクに変換する関数
-function autoLinkUrls(text: string): React.ReactNode[] {
-  // テキストが空の場合は空配列を返す
-  if (!text) return [];
-
-  // URLで分割してリンクとテキストの配列を作成
-  const parts = text.split(URL_REGEX);
-  const matches = text.match(URL_REGEX) || [];
-  
-  // 結果を格納する配列
-  const result: React.ReactNode[] = [];
-  
-  // 分割した部分とマッチしたURLを交互に配列に追加
-  let matchIndex = 0;
-  
-  parts.forEach((part, index) => {
-    // テキスト部分を追加
-    if (part) {
-      result.push(<span key={`text-${index}`}>{part}</span>);
-    }
-    
-    // その後にURLがあれば追加
-    if (matchIndex < matches.length) {
-      const url = matches[matchIndex++];
-      result.push(
-        <a 
-          key={`link-${index}`} 
-          href={url} 
-          target="_blank" 
-          rel="noopener noreferrer"
-          className="text-blue-600 hover:underline break-all"
-        >
-          {url}
-        </a>
-      );
-    }
-  });
-  
-  return result;
-}
+import MemoMergePanel from '@/components/MemoMergePanel';
+import MemoHistorySheet from '@/components/MemoHistorySheet';
+import MemoContent from '@/components/MemoContent';
+import type { MemoMerge } from '@shared/memo-merge';
+import type { MemoChecklistItem } from '@shared/memo-blocks';
 
 // メモ最終更新情報コンポーネント
 function LastEditInfo({ lastEditedBy, lastEditedAt }: { lastEditedBy: string | null | undefined, lastEditedAt: string | null | undefined }) {
@@ -88,230 +49,152 @@ interface EventMemoProps {
   eventId: string;
 }
 
+// メモの内容と版番号（保存するときは編集を始めた時点の版番号を送る）
+interface MemoData {
+  memo: string;
+  revision: number;
+  lastEditedBy: string | null;
+  lastEditedAt: string | null;
+  typing: { name: string; since: string } | null; // 入力中の参加者（目安）
+}
+
+// 他の参加者が先に保存していた場合の応答（409）
+interface MemoConflict {
+  message: string;
+  current: MemoData;
+  merge: MemoMerge;
+}
+
+const TYPING_HEARTBEAT_MS = 10000; // 入力中の表示を延長する間隔（サーバー側の有効期間より短くする）
+
 export default function EventMemo({ eventId }: EventMemoProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   const [memo, setMemo] = useState<string>('');
-  const [userName, setUserName] = useState<string>('');
   const [isEditing, setIsEditing] = useState<boolean>(false);
-  const [isSaving, setIsSaving] = useState<boolean>(false);
-  const [isLocked, setIsLocked] = useState<boolean>(false);
-  const [lockInfo, setLockInfo] = useState<any>(null);
+  // 編集を始めた時点のメモ（保存時の版番号の確認と統合に使う）
+  const [base, setBase] = useState<{ memo: string; revision: number } | null>(null);
+  const [conflict, setConflict] = useState<MemoConflict | null>(null);
   
   // エディタの自動フォーカス用
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const lastTypingSentAt = useRef(0);
   
-  // ユーザー名の初期値を設定
-  useEffect(() => {
-    // イベント参加時の名前またはRecentEventsから参加者名を取得する
-    const storedName = localStorage.getItem('userName');
-    const recentEvents = localStorage.getItem('recentEvents');
-    
-    // イベント出席時に使用した名前があればそれを使用
-    if (storedName) {
-      console.log("ローカルストレージから名前を取得:", storedName);
-      setUserName(storedName);
-    } 
-    // なければイベント作成者名を使用
-    else if (recentEvents) {
-      try {
-        const events = JSON.parse(recentEvents);
-        const event = events.find((e: any) => e.id === eventId);
-        if (event && event.participantName) {
-          console.log("最近のイベントから名前を取得:", event.participantName);
-          setUserName(event.participantName);
-        }
-      } catch (error) {
-        console.error('Failed to parse recent events:', error);
-      }
-    }
-    
-    // デフォルト名を設定（上記で名前が設定されていない場合）
-    setTimeout(() => {
-      if (!userName) {
-        console.log("デフォルト名を設定: 匿名");
-        setUserName("匿名");
-      }
-    }, 500);
-  }, [eventId]);
+  // メモの編集は参加用リンクで認証済みの参加者・主催者のみ
+  const { identity } = useEventIdentity(eventId);
+  const isLive = useLiveUpdates(eventId);
   
-  // メモデータの型を定義
-  interface MemoData {
-    memo: string;
-    lastEditedBy: string | null;
-    lastEditedAt: string | null;
-    editLock: {
-      lockedBy: string;
-      lockedAt: string;
-      lockExpiration: string;
-    } | null;
-  }
-
   // メモ取得クエリ
-  const { 
-    data: memoData,
-    isLoading,
-    refetch: refetchMemo 
-  } = useQuery<MemoData>({
+  const { data: memoData, isLoading } = useQuery<MemoData>({
     queryKey: [`/api/events/${eventId}/memo`],
-    refetchInterval: isEditing ? false : 10000, // 編集中でなければ10秒ごとに更新
+    refetchInterval: isLive ? false : 10000, // リアルタイム更新中でなければ10秒ごとに更新
   });
   
-  // メモ内容の更新
+  // チェック項目（チェックはメモ本文とは別に保存される）
+  const itemsQueryKey = [`/api/events/${eventId}/memo/items`];
+  const { data: items } = useQuery<MemoChecklistItem[]>({
+    queryKey: itemsQueryKey,
+    refetchInterval: isLive ? false : 10000,
+  });
+  
+  // 編集中でなければ最新のメモを表示
   useEffect(() => {
-    if (memoData) {
-      if (!isEditing) {
-        // 編集中でなければメモを更新
-        setMemo(memoData.memo || '');
-      }
-      
-      // ロック情報の更新
-      setLockInfo(memoData.editLock);
-      setIsLocked(!!memoData.editLock);
+    if (memoData && !isEditing) {
+      setMemo(memoData.memo || '');
     }
   }, [memoData, isEditing]);
   
-  // 編集ロック取得ミューテーション
-  const acquireLockMutation = useMutation({
-    mutationFn: async () => {
-      // ユーザー名が空の場合は「匿名」を設定
-      const effectiveUserName = userName.trim() || '匿名';
-      
-      // ユーザー名をローカルストレージに保存
-      localStorage.setItem('userName', effectiveUserName);
-      setUserName(effectiveUserName);
-      
-      const response = await apiRequest('POST', `/api/events/${eventId}/memo/lock`, { 
-        userName: effectiveUserName
-      });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      if (data.success) {
-        setIsEditing(true);
-        setIsLocked(true);
-        // フォーカスを設定
-        setTimeout(() => textareaRef.current?.focus(), 100);
-        toast({
-          title: "編集モードを開始しました",
-          description: "変更が完了したら保存ボタンをクリックしてください",
-        });
-      } else {
-        // ロック取得に失敗した場合
-        toast({
-          title: "編集できません",
-          description: data.message || "他のユーザーが編集中です",
-          variant: "destructive",
+  // 入力中の表示（自分以外）
+  const typingName = memoData?.typing && memoData.typing.name !== identity?.name ? memoData.typing.name : null;
+  // 編集中に他の参加者が保存した
+  const updatedWhileEditing = isEditing && !!base && !!memoData && memoData.revision !== base.revision;
+  
+  // 入力中であることを知らせる（失敗しても編集は続けられる）
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (now - lastTypingSentAt.current < TYPING_HEARTBEAT_MS) return;
+    lastTypingSentAt.current = now;
+    apiRequest('POST', `/api/events/${eventId}/memo/typing`).catch(() => {});
+  };
+  
+  const stopTyping = () => {
+    if (!lastTypingSentAt.current) return;
+    lastTypingSentAt.current = 0;
+    apiRequest('DELETE', `/api/events/${eventId}/memo/typing`).catch(() => {});
+  };
+  
+  // 編集中に画面を離れた場合も入力中の表示を消す
+  const stopTypingRef = useRef(stopTyping);
+  stopTypingRef.current = stopTyping;
+  useEffect(() => () => stopTypingRef.current(), []);
+  
+  const finishEditing = () => {
+    setIsEditing(false);
+    setBase(null);
+    setConflict(null);
+  };
+  
+  // メモ保存ミューテーション
+  const saveMemoMutation = useMutation({
+    mutationFn: async (): Promise<{ saved: MemoData } | { conflict: MemoConflict }> => {
+      try {
+        const response = await apiRequest('POST', `/api/events/${eventId}/memo`, { 
+          memo: memo.trim(),
+          baseRevision: base!.revision,
+          baseMemo: base!.memo,
         });
-        // 最新のロック情報を反映
-        if (data.lockInfo) {
-          setLockInfo(data.lockInfo);
+        return { saved: await response.json() };
+      } catch (error) {
+        // 他の参加者が先に保存していた場合（"409: {...}" 形式）は統合画面を表示する
+        if (error instanceof Error && error.message.startsWith('409: ')) {
+          return { conflict: JSON.parse(error.message.slice(5)) };
         }
-        // メモデータを再取得
-        refetchMemo();
+        throw error;
       }
     },
+    onSuccess: (result) => {
+      if ('conflict' in result) {
+        setConflict(result.conflict);
+        queryClient.setQueryData([`/api/events/${eventId}/memo`], result.conflict.current);
+        return;
+      }
+      
+      lastTypingSentAt.current = 0; // 保存時にサーバー側で入力中の表示も消える
+      queryClient.setQueryData([`/api/events/${eventId}/memo`], result.saved);
+      queryClient.invalidateQueries({ queryKey: itemsQueryKey });
+      finishEditing();
+      toast({
+        title: "メモを保存しました",
+      });
+    },
     onError: (error: any) => {
       toast({
-        title: "エラーが発生しました",
-        description: error.message || "編集権限の取得に失敗しました",
+        title: "メモの保存に失敗しました",
+        description: error.message,
         variant: "destructive",
       });
     }
   });
   
-  // 編集ロック解放ミューテーション
-  const releaseLockMutation = useMutation({
-    mutationFn: async () => {
-      // ユーザー名が空の場合は自動的に「匿名」を使用
-      const effectiveUserName = userName.trim() || '匿名';
-      
-      try {
-        const response = await apiRequest('POST', `/api/events/${eventId}/memo/unlock`, { 
-          userName: effectiveUserName
-        });
-        return response.json();
-      } catch (err) {
-        console.error("ロック解除APIでエラーが発生しましたが成功扱い:", err);
-        // エラーが発生しても成功したとみなす
-        return { success: true };
-      }
-    },
-    onSuccess: (data) => {
-      // 常に成功として扱う
-      setIsEditing(false);
-      setIsLocked(false);
-      // メモデータを再取得
-      refetchMemo();
-      
-      // トーストメッセージは、保存処理から呼ばれた場合は表示しない
-      if (!isSaving) {
-        toast({
-          title: "編集モードを終了しました",
-        });
-      }
+  // チェック項目のチェック（編集中でなくても、認証済みの参加者なら誰でも切り替えられる）
+  const toggleItemMutation = useMutation({
+    mutationFn: async ({ item, checked }: { item: MemoChecklistItem; checked: boolean }) => {
+      const response = await apiRequest('POST', `/api/events/${eventId}/memo/items`, { key: item.key, checked });
+      return response.json() as Promise<MemoChecklistItem[]>;
     },
-    onError: (error: any) => {
-      // エラー時も成功として扱う
-      console.error("ロック解除に失敗しましたが成功として扱います:", error);
-      setIsEditing(false);
-      setIsLocked(false);
-      
-      // 静かに失敗（エラーメッセージを表示しない）
-    }
-  });
-  
-  // メモ保存ミューテーション
-  const saveMemoMutation = useMutation({
-    mutationFn: async () => {
-      setIsSaving(true);
-      // ユーザー名が空の場合は「匿名」を使用
-      const effectiveUserName = userName.trim() || '匿名';
-      
-      const response = await apiRequest('POST', `/api/events/${eventId}/memo`, { 
-        memo: memo.trim(), 
-        editorName: effectiveUserName
-      });
-      return response.json();
+    onMutate: ({ item, checked }) => {
+      queryClient.setQueryData<MemoChecklistItem[]>(itemsQueryKey, prev =>
+        prev?.map(i => (i.key === item.key ? { ...i, checked } : i))
+      );
     },
-    onSuccess: (data) => {
-      setIsSaving(false);
-      
-      // ロックを解放（失敗してもキャッチして処理を続行）
-      try {
-        releaseLockMutation.mutate();
-      } catch (err) {
-        console.error("ロック解除に失敗しましたが処理を続行:", err);
-      }
-      
-      // キャッシュを更新
-      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/memo`] });
-      
-      toast({
-        title: "メモを保存しました",
-      });
-      
-      // 編集モードを強制的に終了
-      setIsEditing(false);
-      setIsLocked(false);
+    onSuccess: (updatedItems) => {
+      queryClient.setQueryData(itemsQueryKey, updatedItems);
     },
-    onError: (error: any) => {
-      setIsSaving(false);
-      
-      // エラー時もロックを解放しておく
-      try {
-        releaseLockMutation.mutate();
-      } catch (err) {
-        console.error("エラー後のロック解除に失敗:", err);
-      }
-      
-      // 編集モードを強制的に終了
-      setIsEditing(false);
-      setIsLocked(false);
-      
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: itemsQueryKey });
       toast({
-        title: "メモの保存に失敗しました",
+        title: "チェックの変更に失敗しました",
         description: error.message,
         variant: "destructive",
       });
@@ -320,103 +203,44 @@ export default function EventMemo({ eventId }: EventMemoProps) {
   
   // 編集開始処理
   const handleStartEditing = () => {
-    // ユーザー名が空の場合は匿名とする
-    if (!userName) {
-      console.log("編集開始時に匿名に設定");
-      setUserName("匿名");
-      // 少し待ってからロックを取得（名前が更新されるのを待つ）
-      setTimeout(() => {
-        acquireLockMutation.mutate();
-      }, 100);
-    } else {
-      acquireLockMutation.mutate();
+    if (!identity) {
+      toast({
+        title: "編集できません",
+        description: "出欠を登録するか、参加用リンクから開くとメモを編集できます",
+        variant: "destructive",
+      });
+      return;
     }
+    
+    setBase({ memo: memoData?.memo || '', revision: memoData?.revision ?? 0 });
+    setMemo(memoData?.memo || '');
+    setConflict(null);
+    setIsEditing(true);
+    // フォーカスを設定
+    setTimeout(() => textareaRef.current?.focus(), 100);
   };
   
   // 編集キャンセル処理
   const handleCancelEditing = () => {
-    if (isEditing) {
-      // ロックを解放
-      releaseLockMutation.mutate();
-      // メモの内容を元に戻す
-      setMemo(memoData?.memo || '');
-    }
+    stopTyping();
+    finishEditing();
+    // メモの内容を元に戻す
+    setMemo(memoData?.memo || '');
   };
   
-  // 保存処理
-  const handleSave = () => {
-    // 名前がなければ匿名を設定
-    if (!userName.trim()) {
-      setUserName('匿名');
-      // 名前を設定してから少し待ってから保存
-      setTimeout(() => {
-        saveMemoMutation.mutate();
-      }, 100);
-    } else {
-      saveMemoMutation.mutate();
-    }
+  const handleChange = (value: string) => {
+    setMemo(value);
+    notifyTyping();
   };
   
-  // ロックタイマーの表示用
-  const formatLockTimeRemaining = useCallback(() => {
-    if (!lockInfo || !lockInfo.lockExpiration) return null;
-    
-    const expirationTime = new Date(lockInfo.lockExpiration).getTime();
-    const now = new Date().getTime();
-    const diff = Math.max(0, expirationTime - now);
-    
-    // 残り分数と秒数を計算
-    const minutes = Math.floor(diff / (60 * 1000));
-    const seconds = Math.floor((diff % (60 * 1000)) / 1000);
-    
-    return `${minutes}分${seconds}秒`;
-  }, [lockInfo]);
-  
-  // 参加者データを取得してユーザー名リストを構築
-  const { data: attendances } = useQuery<Attendance[]>({
-    queryKey: [`/api/events/${eventId}/attendances`]
-  });
-  
-  // 参加者データが取得できたらユーザー名を設定
-  useEffect(() => {
-    if (attendances && attendances.length > 0 && !userName) {
-      // 最新の出席者名を使用 (まだuserNameが設定されていない場合)
-      const firstAttendance = attendances[0];
-      console.log("出席者データから名前を取得:", firstAttendance.name);
-      setUserName(firstAttendance.name);
-    }
-  }, [attendances, userName]);
-  
-  // ロックタイマーの更新
-  const [lockTimeRemaining, setLockTimeRemaining] = useState<string | null>(null);
-  
-  useEffect(() => {
-    if (isLocked) {
-      const timer = setInterval(() => {
-        const timeRemaining = formatLockTimeRemaining();
-        setLockTimeRemaining(timeRemaining);
-        
-        // ロック期限が切れた場合（0秒になった場合）
-        if (timeRemaining === '0分0秒') {
-          clearInterval(timer);
-          // 自分がロックを持っている場合
-          if (lockInfo?.lockedBy === userName) {
-            setIsEditing(false);
-            setIsLocked(false);
-            toast({
-              title: "編集時間が終了しました",
-              description: "変更内容は保存されません",
-              variant: "destructive",
-            });
-          }
-          // メモデータを再取得
-          refetchMemo();
-        }
-      }, 1000);
-      
-      return () => clearInterval(timer);
-    }
-  }, [isLocked, lockInfo, formatLockTimeRemaining, userName, refetchMemo]);
+  // 統合した内容で編集を続ける（次の保存は他の参加者が保存した版を基準にする）
+  const handleApplyMerge = (merged: string) => {
+    if (!conflict) return;
+    setBase({ memo: conflict.current.memo, revision: conflict.current.revision });
+    setMemo(merged);
+    setConflict(null);
+    setTimeout(() => textareaRef.current?.focus(), 100);
+  };
   
   if (isLoading) {
     return (
@@ -428,6 +252,8 @@ export default function EventMemo({ eventId }: EventMemoProps) {
     );
   }
   
+  const isSaving = saveMemoMutation.isPending;
+  
   return (
     <Card className="w-full">
       <CardHeader className="pb-3">
@@ -443,7 +269,6 @@ export default function EventMemo({ eventId }: EventMemoProps) {
             <Button
               variant="outline"
               onClick={handleStartEditing}
-              disabled={isLocked && lockInfo?.lockedBy !== userName}
               className="flex items-center gap-2"
             >
               <Edit className="h-4 w-4" />
@@ -460,38 +285,54 @@ export default function EventMemo({ eventId }: EventMemoProps) {
                 <RotateCcw className="h-4 w-4" />
                 キャンセル
               </Button>
-              <Button
-                variant="default"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="flex items-center gap-2"
-              >
-                {isSaving ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Save className="h-4 w-4" />
-                )}
-                保存
-              </Button>
+              {!conflict && (
+                <Button
+                  variant="default"
+                  onClick={() => saveMemoMutation.mutate()}
+                  disabled={isSaving}
+                  className="flex items-center gap-2"
+                >
+                  {isSaving ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4" />
+                  )}
+                  保存
+                </Button>
+              )}
             </div>
           )}
         </div>
       </CardHeader>
       
       <CardContent>
-        {isLocked && lockInfo?.lockedBy !== userName && (
-          <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-md flex items-center gap-2 text-amber-800">
-            <AlertCircle className="h-5 w-5 text-amber-500 shrink-0" />
-            <div className="flex-1">
-              <p>
-                <span className="font-medium">{lockInfo?.lockedBy}</span>さんが現在編集中です
-                {lockTimeRemaining && <span>（残り時間: {lockTimeRemaining}）</span>}
-              </p>
-            </div>
+        {typingName && !conflict && (
+          <div className="mb-4 p-3 bg-sky-50 border border-sky-200 rounded-md flex items-center gap-2 text-sm text-sky-800">
+            <PencilLine className="h-4 w-4 text-sky-500 shrink-0" />
+            <p>
+              <span className="font-medium">{typingName}</span>さんが入力中です
+              {isEditing && '（同じ部分を変更した場合は保存時に統合できます）'}
+            </p>
+          </div>
+        )}
+        
+        {updatedWhileEditing && !conflict && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md flex items-center gap-2 text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 text-amber-500 shrink-0" />
+            <p>
+              {memoData?.lastEditedBy || '他の参加者'}さんがメモを更新しました。保存時に変更を統合します
+            </p>
           </div>
         )}
         
-        {isEditing ? (
+        {isEditing && conflict ? (
+          <MemoMergePanel
+            merge={conflict.merge}
+            theirName={conflict.current.lastEditedBy || '他の参加者'}
+            onApply={handleApplyMerge}
+            onDiscard={handleCancelEditing}
+          />
+        ) : isEditing ? (
           <div className="space-y-4">            
             <div>
               <div className="mb-1">
@@ -503,28 +344,29 @@ export default function EventMemo({ eventId }: EventMemoProps) {
                 ref={textareaRef}
                 id="memo"
                 value={memo}
-                onChange={(e) => setMemo(e.target.value)}
+                onChange={(e) => handleChange(e.target.value)}
                 placeholder="イベントに関するメモを入力してください"
                 className="min-h-[200px] w-full"
                 maxLength={1000}
               />
-              <div className="mt-1 text-right text-xs text-slate-500">
-                {memo.length}/1000文字
+              <div className="mt-1 flex justify-between gap-4 text-xs text-slate-500">
+                <p>
+                  「# 見出し」「- 箇条書き」「- [ ] 持ち物 @名前」（チェック項目と担当者）「[表示名](URL)」が使えます
+                </p>
+                <span className="shrink-0">{memo.length}/1000文字</span>
               </div>
             </div>
-            
-            {isLocked && lockInfo?.lockedBy === userName && lockTimeRemaining && (
-              <div className="flex items-center gap-2 text-sm text-slate-500">
-                <LockIcon className="h-4 w-4" />
-                <span>編集時間: 残り {lockTimeRemaining}</span>
-              </div>
-            )}
           </div>
         ) : (
           <div>
             {memo ? (
-              <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 whitespace-pre-wrap break-words min-h-[200px]">
-                {autoLinkUrls(memo)}
+              <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 min-h-[200px]">
+                <MemoContent
+                  memo={memo}
+                  items={items}
+                  canCheck={!!identity}
+                  onToggle={(item, checked) => toggleItemMutation.mutate({ item, checked })}
+                />
               </div>
             ) : (
               <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 min-h-[200px] flex justify-center items-center text-slate-400">
@@ -541,20 +383,15 @@ export default function EventMemo({ eventId }: EventMemoProps) {
             lastEditedBy={memoData?.lastEditedBy || null} 
             lastEditedAt={memoData?.lastEditedAt || null} 
           />
-          
-          {isLocked && lockInfo?.lockedBy === userName && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => releaseLockMutation.mutate()}
-              className="flex items-center gap-1 text-slate-500"
-            >
-              <UnlockIcon className="h-3.5 w-3.5" />
-              編集ロックを解除
-            </Button>
+          {!!memoData?.revision && (
+            <MemoHistorySheet
+              eventId={eventId}
+              currentRevision={memoData.revision}
+              canRestore={!!identity}
+            />
           )}
         </CardFooter>
       )}
     </Card>
   );
-}
\ No newline at end of file
+}
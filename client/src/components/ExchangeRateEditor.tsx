@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { CURRENCIES, CURRENCY_CODES } from '@shared/currency';
+import { ExchangeRate } from '@shared/schema';
+
+interface ExchangeRateEditorProps {
+  eventId: string;
+  canEdit: boolean; // 主催者のみ基準通貨・レートを変更できる
+}
+
+// 基準通貨と為替レートの設定（レートは手入力）
+export default function ExchangeRateEditor({ eventId, canEdit }: ExchangeRateEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  const { data, isLoading } = useQuery<{ baseCurrency: string; rates: ExchangeRate[] }>({
+    queryKey: [`/api/events/${eventId}/exchange-rates`],
+  });
+
+  const baseCurrency = data?.baseCurrency || 'JPY';
+  const baseSymbol = CURRENCIES[baseCurrency as keyof typeof CURRENCIES]?.symbol || baseCurrency;
+
+  // レート変更時は精算結果とイベント情報も再取得
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/exchange-rates`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/settlements`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "エラーが発生しました",
+      description: error.message || "為替レートの更新に失敗しました",
+      variant: "destructive",
+    });
+  };
+
+  const changeBaseCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest('PUT', `/api/events/${eventId}/base-currency`, { baseCurrency: currency });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "基準通貨を変更しました",
+        description: "為替レートを設定し直してください",
+      });
+    },
+    onError,
+  });
+
+  const saveRateMutation = useMutation({
+    mutationFn: async ({ currency, rate }: { currency: string; rate: number }) => {
+      const response = await apiRequest('PUT', `/api/events/${eventId}/exchange-rates/${currency}`, { rate });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewCurrency('');
+      setNewRate('');
+      toast({
+        title: "為替レートを保存しました",
+      });
+    },
+    onError,
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      await apiRequest('DELETE', `/api/events/${eventId}/exchange-rates/${currency}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const handleAddRate = () => {
+    const rate = parseFloat(newRate);
+    if (!newCurrency || isNaN(rate) || rate <= 0) {
+      toast({
+        title: "入力エラー",
+        description: "通貨と有効なレートを入力してください",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveRateMutation.mutate({ currency: newCurrency, rate });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary/70" />
+      </div>
+    );
+  }
+
+  const availableCurrencies = CURRENCY_CODES.filter(
+    code => code !== baseCurrency && !data?.rates.some(rate => rate.currency === code)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label className="text-sm">基準通貨</Label>
+        <Select
+          value={baseCurrency}
+          onValueChange={(value) => changeBaseCurrencyMutation.mutate(value)}
+          disabled={!canEdit || changeBaseCurrencyMutation.isPending}
+        >
+          <SelectTrigger className="w-full h-9 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCY_CODES.map((code) => (
+              <SelectItem key={code} value={code}>
+                {code}（{CURRENCIES[code].label}）
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-500">精算金額はこの通貨で計算されます</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-sm">為替レート</Label>
+        {data?.rates && data.rates.length > 0 ? (
+          <div className="border rounded-md divide-y">
+            {data.rates.map((rate) => (
+              <div key={rate.currency} className="flex items-center justify-between px-3 py-1.5 text-xs">
+                <span>1 {rate.currency} = {parseFloat(rate.rate)} {baseSymbol}</span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => deleteRateMutation.mutate(rate.currency)}
+                    disabled={deleteRateMutation.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {canEdit ? '外貨の支払いがある場合はレートを設定してください' : 'レートは主催者が設定します'}
+          </p>
+        )}
+
+        {canEdit && availableCurrencies.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={newCurrency} onValueChange={setNewCurrency}>
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue placeholder="通貨" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableCurrencies.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value.replace(/[^0-9.]/g, ''))}
+              placeholder={`1単位あたりの${baseSymbol}`}
+              inputMode="decimal"
+              className="h-8 text-xs flex-1"
+            />
+            <Button
+              type="button"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={handleAddRate}
+              disabled={saveRateMutation.isPending}
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import { useEventMembers } from '@/hooks/use-event-members';
+import { SPLIT_MODE_LABELS, type SplitMode } from '@shared/split';
+import type { ExpenseChange, ExpenseRevision } from '@shared/schema';
+
+interface ExpenseHistoryProps {
+  eventId: string;
+  expenseId: string;
+  currency: string;
+}
+
+// 変更された項目の表示名
+const FIELD_LABELS: Record<ExpenseChange['field'], string> = {
+  payerId: '支払者',
+  description: '項目',
+  amount: '金額',
+  currency: '通貨',
+  participantIds: '割り勘対象者',
+  splitMode: '分割方法',
+  splitShares: '負担の内訳',
+};
+
+// 変更前後の値を表示用の文字列にする
+// メンバーIDは名簿の表示名に置き換える
+function formatValue(
+  change: ExpenseChange,
+  value: unknown,
+  currency: string,
+  memberName: (memberId: string) => string,
+): string {
+  if (value === null || value === undefined || value === '') return '未設定';
+
+  switch (change.field) {
+    case 'payerId':
+      return memberName(String(value));
+    case 'amount':
+      return formatCurrency(parseFloat(String(value)), currency);
+    case 'participantIds':
+      return (value as string[]).map(memberName).join('、') || '全員';
+    case 'splitMode':
+      return SPLIT_MODE_LABELS[value as SplitMode] || String(value);
+    case 'splitShares':
+      return Object.entries(value as Record<string, number>)
+        .map(([memberId, share]) => `${memberName(memberId)}: ${share}`)
+        .join('、');
+    default:
+      return String(value);
+  }
+}
+
+// 支払いの変更履歴（誰が・いつ・何を変更したか）
+export default function ExpenseHistory({ eventId, expenseId, currency }: ExpenseHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { memberName } = useEventMembers(eventId);
+
+  // 開いたときだけ取得する
+  const { data: revisions, isLoading } = useQuery<ExpenseRevision[]>({
+    queryKey: [`/api/events/${eventId}/expenses/${expenseId}/revisions`],
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="変更履歴">
+          <History className="h-4 w-4 text-slate-500" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3">
+        <h4 className="font-medium text-sm mb-2">変更履歴</h4>
+        {isLoading ? (
+          <div className="flex justify-center p-2">
+            <Loader2 className="h-4 w-4 animate-spin text-primary/70" />
+          </div>
+        ) : revisions && revisions.length > 0 ? (
+          <div className="max-h-64 overflow-y-auto divide-y text-xs">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="py-1.5">
+                <p className="text-slate-500">
+                  {new Date(revision.createdAt).toLocaleString('ja-JP')}・{revision.editorName}さんが
+                  {revision.action === 'create' ? '登録' : '変更'}
+                </p>
+                {revision.action === 'update' && (
+                  <ul className="mt-0.5 space-y-0.5">
+                    {revision.changes.map((change) => (
+                      <li key={change.field}>
+                        <span className="font-medium">{FIELD_LABELS[change.field]}</span>:{' '}
+                        {formatValue(change, change.before, currency, memberName)} → {formatValue(change, change.after, currency, memberName)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">変更履歴はありません</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,207 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, Paperclip, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { ExpenseAttachment } from '@shared/schema';
+
+interface ExpenseReceiptsProps {
+  eventId: string;
+  expenseId: string;
+  attachments: ExpenseAttachment[];
+  canEdit: boolean; // 支払者本人または主催者のみ添付・削除できる
+}
+
+const MAX_RECEIPTS = 5; // 1件の支払いにつき（サーバー側と同じ）
+const MAX_RECEIPT_MB = 10;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// 画像はセッションで認証して配信する（同じオリジンなので img からも Cookie が送られる）
+const receiptUrl = (attachment: ExpenseAttachment, variant: 'original' | 'thumbnail') =>
+  `/api/events/${attachment.eventId}/expenses/${attachment.expenseId}/attachments/${attachment.id}/${variant}`;
+
+// 支払いのレシート画像（サムネイルの一覧、タップで拡大）
+export default function ExpenseReceipts({ eventId, expenseId, attachments, canEdit }: ExpenseReceiptsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [viewing, setViewing] = useState<ExpenseAttachment | null>(null);
+
+  const invalidateAttachments = () =>
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/attachments`] });
+
+  // 画像そのものを本文で送る（apiRequest は JSON 用なので fetch を使う）
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch(`/api/events/${eventId}/expenses/${expenseId}/attachments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.type,
+          'X-File-Name': encodeURIComponent(file.name),
+        },
+        body: file,
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || 'レシートの添付に失敗しました');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAttachments();
+      toast({ title: "レシートを添付しました" });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: ExpenseAttachment) => {
+      await apiRequest('DELETE', `/api/events/${eventId}/expenses/${expenseId}/attachments/${attachment.id}`);
+    },
+    onSuccess: () => {
+      setViewing(null);
+      invalidateAttachments();
+      toast({ title: "レシートを削除しました" });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "レシートの削除に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 同じファイルを続けて選べるようにする
+    if (!file) return;
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      toast({ title: "JPEG・PNG・WebP の画像を選択してください", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_RECEIPT_MB * 1024 * 1024) {
+      toast({ title: `画像は${MAX_RECEIPT_MB}MBまでです`, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  if (attachments.length === 0 && !canEdit) return null;
+
+  const canAdd = canEdit && attachments.length < MAX_RECEIPTS;
+
+  return (
+    <div className="mt-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_TYPES.join(',')}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {attachments.length === 0 ? (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-primary"
+        >
+          {uploadMutation.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Paperclip className="h-3 w-3" />
+          )}
+          レシートを添付
+        </button>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {attachments.map(attachment => (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setViewing(attachment)}
+              className="h-12 w-12 overflow-hidden rounded border bg-slate-50 hover:ring-2 hover:ring-primary/40"
+              title={attachment.fileName}
+            >
+              <img
+                src={receiptUrl(attachment, 'thumbnail')}
+                alt={attachment.fileName}
+                loading="lazy"
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+          {canAdd && (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              className="flex h-12 w-12 items-center justify-center rounded border border-dashed text-slate-400 hover:text-primary hover:border-primary"
+              aria-label="レシートを追加"
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+            </button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="text-base font-medium truncate">{viewing.fileName}</DialogTitle>
+                <DialogDescription>
+                  {viewing.uploadedBy}さんが{new Date(viewing.createdAt).toLocaleString('ja-JP')}に添付
+                </DialogDescription>
+              </DialogHeader>
+              <a href={receiptUrl(viewing, 'original')} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={receiptUrl(viewing, 'original')}
+                  alt={viewing.fileName}
+                  className="mx-auto max-h-[70vh] w-auto rounded"
+                />
+              </a>
+              {canEdit && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(viewing)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-500 hover:text-red-600"
+                  >
+                    <Trash2 className="mr-1.5 h-4 w-4" />
+                    削除
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
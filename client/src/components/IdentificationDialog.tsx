@@ -11,13 +11,15 @@ interface IdentificationDialogProps {
   onClose: () => void;
   eventId: string;
   onIdentify: (name: string) => void;
+  identityName?: string | null; // 参加用リンクで認証済みの名前
 }
 
 export default function IdentificationDialog({ 
   isOpen, 
   onClose, 
   eventId, 
-  onIdentify 
+  onIdentify,
+  identityName
 }: IdentificationDialogProps) {
   const [name, setName] = useState('');
   const [attendances, setAttendances] = useState<{id: string, name: string}[]>([]);
@@ -63,26 +65,23 @@ export default function IdentificationDialog({
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4 mt-2">
-          {attendances.length > 0 && (
+          {identityName ? (
             <div className="space-y-3">
-              <Label className="text-sm font-medium text-slate-700">登録済み参加者から選択</Label>
+              <Label className="text-sm font-medium text-slate-700">登録済みの名前で回答</Label>
               <div className="flex flex-wrap gap-2">
-                {attendances.map((attendance) => (
-                  <Button 
-                    key={attendance.id} 
-                    type="button"
-                    variant="outline"
-                    className="hover:bg-primary/10"
-                    onClick={() => {
-                      setName(attendance.name);
-                      // すぐに送信
-                      onIdentify(attendance.name);
-                      onClose();
-                    }}
-                  >
-                    {attendance.name}
-                  </Button>
-                ))}
+                <Button 
+                  type="button"
+                  variant="outline"
+                  className="hover:bg-primary/10"
+                  onClick={() => {
+                    setName(identityName);
+                    // すぐに送信
+                    onIdentify(identityName);
+                    onClose();
+                  }}
+                >
+                  {identityName}
+                </Button>
               </div>
               <div className="flex items-center my-3">
                 <div className="flex-grow border-t border-slate-200"></div>
@@ -90,6 +89,11 @@ export default function IdentificationDialog({
                 <div className="flex-grow border-t border-slate-200"></div>
               </div>
             </div>
+          ) : attendances.length > 0 && (
+            <p className="text-sm text-slate-500">
+              登録済みの方（{attendances.map(attendance => attendance.name).join('、')}）は、
+              ご本人の参加用リンクから開いてください
+            </p>
           )}
           
           <div className="space-y-2">
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import type { EventMember, MemberReferences } from '@shared/schema';
+
+export type MemberManageMode = 'rename' | 'merge';
+
+interface MemberManageDialogProps {
+  eventId: string;
+  member: EventMember | null; // 操作する参加者（統合の場合は統合元）
+  mode: MemberManageMode;
+  members: EventMember[]; // 統合先の候補（名簿の有効なメンバー）
+  onClose: () => void;
+}
+
+// 参加者の名前変更・統合（主催者のみ）
+// 実行前に、影響を受ける支払いと送金記録をプレビューする
+export default function MemberManageDialog({ eventId, member, mode, members, onClose }: MemberManageDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [displayName, setDisplayName] = useState('');
+  const [targetId, setTargetId] = useState('');
+
+  useEffect(() => {
+    setDisplayName(member?.displayName || '');
+    setTargetId('');
+  }, [member, mode]);
+
+  const { data: references, isLoading: referencesLoading } = useQuery<MemberReferences>({
+    queryKey: [`/api/events/${eventId}/members/${member?.id}/references`],
+    enabled: !!member,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const response = mode === 'rename'
+        ? await apiRequest('PATCH', `/api/events/${eventId}/members/${member!.id}`, { displayName })
+        : await apiRequest('POST', `/api/events/${eventId}/members/${member!.id}/merge`, { targetId });
+      return response.json();
+    },
+    onSuccess: () => {
+      // 名簿・出欠・支払い・送金記録のすべてが変わりうるので、イベントのクエリをまとめて更新する
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/events/${eventId}`),
+      });
+      toast({
+        title: mode === 'rename' ? "参加者名を変更しました" : "参加者を統合しました",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || (mode === 'rename' ? "参加者名の変更に失敗しました" : "参加者の統合に失敗しました"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const targets = members.filter(other => other.id !== member?.id);
+  const targetName = targets.find(other => other.id === targetId)?.displayName;
+  const canSubmit = mode === 'rename'
+    ? displayName.trim() !== '' && displayName.trim() !== member?.displayName
+    : targetId !== '';
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            {mode === 'rename' ? '参加者名の変更' : '参加者の統合'}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'rename'
+              ? '出欠の回答や支払いの記録はそのまま、表示名だけが変わります'
+              : `${member?.displayName}さんの出欠・支払い・送金記録を統合先にまとめ、${member?.displayName}さんは名簿から外します`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSubmit) mutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          {mode === 'rename' ? (
+            <div className="space-y-1.5">
+              <Label htmlFor="member-name" className="text-sm">新しい名前</Label>
+              <Input
+                id="member-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                autoFocus
+              />
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <Label className="text-sm">統合先の参加者</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="同じ人の登録を選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((target) => (
+                    <SelectItem key={target.id} value={target.id}>{target.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* 影響を受ける支払いのプレビュー */}
+          <div className="rounded-md border bg-slate-50 p-3 text-xs">
+            {referencesLoading ? (
+              <div className="flex justify-center">
+                <Loader2 className="h-4 w-4 animate-spin text-primary/70" />
+              </div>
+            ) : references && (references.expenses.length > 0 || references.paymentCount > 0) ? (
+              <>
+                <p className="font-medium text-slate-700 mb-1.5">
+                  {mode === 'rename'
+                    ? '以下の支払いの表示名が変わります'
+                    : targetName
+                      ? `以下の支払いが${targetName}さんに付け替えられます`
+                      : '以下の支払いが統合先に付け替えられます'}
+                </p>
+                <ul className="max-h-40 overflow-y-auto space-y-1">
+                  {references.expenses.map((expense) => (
+                    <li key={expense.id} className="flex justify-between gap-2">
+                      <span className="truncate">
+                        {expense.description}
+                        <span className="ml-1 text-slate-500">
+                          （{[expense.asPayer && '支払者', expense.asParticipant && '割り勘対象'].filter(Boolean).join('・')}）
+                        </span>
+                      </span>
+                      <span>{formatCurrency(parseFloat(expense.amount), expense.currency)}</span>
+                    </li>
+                  ))}
+                </ul>
+                {references.paymentCount > 0 && (
+                  <p className="mt-1.5 text-slate-500">送金記録 {references.paymentCount}件も対象です</p>
+                )}
+              </>
+            ) : (
+              <p className="text-slate-500">この参加者が関わる支払いはありません</p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={onClose}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={!canSubmit || mutation.isPending}>
+              {mutation.isPending ? '処理中...' : mode === 'rename' ? '変更する' : '統合する'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
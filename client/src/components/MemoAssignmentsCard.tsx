@@ -0,0 +1,75 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Check, Package } from 'lucide-react';
+import { summarizeMemoAssignments, type MemoChecklistItem } from '@shared/memo-blocks';
+
+interface MemoAssignmentsCardProps {
+  eventId: string;
+  memberNames: string[]; // 名簿の参加者（担当者の名前が名簿にない場合に知らせる）
+}
+
+// 誰が何を持っていくか（メモのチェック項目を担当者ごとにまとめる）
+export default function MemoAssignmentsCard({ eventId, memberNames }: MemoAssignmentsCardProps) {
+  const { data: items } = useQuery<MemoChecklistItem[]>({
+    queryKey: [`/api/events/${eventId}/memo/items`],
+  });
+
+  // チェック項目がなければ表示しない
+  if (!items || items.length === 0) return null;
+
+  const assignments = summarizeMemoAssignments(items);
+  const doneCount = items.filter(item => item.checked).length;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Package className="h-5 w-5 text-primary/70" />
+          持ち物・担当
+        </CardTitle>
+        <CardDescription>
+          メモのチェック項目から集計しています（{doneCount}/{items.length}件完了）
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {assignments.map(({ assignee, items: assigneeItems }) => (
+            <div key={assignee ?? ''} className="py-2.5 flex flex-col sm:flex-row sm:gap-4">
+              <div className="sm:w-32 shrink-0 text-sm font-medium">
+                {assignee ? (
+                  <>
+                    {assignee}
+                    {!memberNames.includes(assignee) && (
+                      <span className="block text-xs font-normal text-slate-400">名簿にいない名前です</span>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-slate-500">担当未定</span>
+                )}
+              </div>
+              <ul className="flex flex-wrap gap-1.5 mt-1 sm:mt-0">
+                {assigneeItems.map(item => (
+                  <li
+                    key={item.key}
+                    className={`inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs ${
+                      item.checked ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white text-slate-700'
+                    }`}
+                  >
+                    {item.checked && <Check className="h-3 w-3" />}
+                    {item.label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
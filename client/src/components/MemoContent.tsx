@@ -0,0 +1,105 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { User } from 'lucide-react';
+import {
+  parseMemo,
+  type MemoChecklistItem,
+  type MemoInline,
+} from '@shared/memo-blocks';
+
+interface MemoContentProps {
+  memo: string;
+  items: MemoChecklistItem[] | undefined; // 保存されたチェックを反映した項目（読み込み前は本文の [ ] / [x]）
+  canCheck: boolean;
+  onToggle: (item: MemoChecklistItem, checked: boolean) => void;
+}
+
+const HEADING_STYLES = {
+  1: 'text-lg font-bold text-slate-800 mt-2',
+  2: 'text-base font-bold text-slate-800 mt-2',
+  3: 'text-sm font-bold text-slate-700 mt-1',
+} as const;
+
+function Inline({ content }: { content: MemoInline[] }) {
+  return (
+    <>
+      {content.map((part, index) =>
+        part.type === 'link' ? (
+          <a
+            key={index}
+            href={part.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline break-all"
+          >
+            {part.text}
+          </a>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// メモの表示（見出し・箇条書き・チェック項目・リンク）
+export default function MemoContent({ memo, items, canCheck, onToggle }: MemoContentProps) {
+  const itemsByKey = new Map(items?.map(item => [item.key, item]));
+
+  return (
+    <div className="space-y-0.5 break-words">
+      {parseMemo(memo).map((block, index) => {
+        if (block.type === 'heading') {
+          return (
+            <p key={index} className={HEADING_STYLES[block.level]}>
+              <Inline content={block.content} />
+            </p>
+          );
+        }
+
+        if (block.type === 'bullet') {
+          return (
+            <div key={index} className="flex gap-2 pl-1">
+              <span className="text-slate-400">•</span>
+              <span className="flex-1"><Inline content={block.content} /></span>
+            </div>
+          );
+        }
+
+        if (block.type === 'check') {
+          const item = itemsByKey.get(block.item.key);
+          const checked = item ? item.checked : block.item.checked;
+          return (
+            <div key={index} className="flex items-start gap-2 py-0.5">
+              <Checkbox
+                id={`memo-item-${index}`}
+                checked={checked}
+                disabled={!canCheck || !item}
+                onCheckedChange={(value) => item && onToggle(item, value === true)}
+                className="mt-0.5"
+              />
+              <label
+                htmlFor={`memo-item-${index}`}
+                title={item?.checkedBy ? `${item.checkedBy}さんが${item.checked ? 'チェックしました' : 'チェックを外しました'}` : undefined}
+                className={`flex-1 ${checked ? 'line-through text-slate-400' : 'text-slate-800'}`}
+              >
+                <Inline content={block.content} />
+              </label>
+              {block.item.assignee && (
+                <span className="inline-flex items-center gap-0.5 rounded-full bg-primary/10 px-2 text-xs text-primary shrink-0">
+                  <User className="h-3 w-3" />
+                  {block.item.assignee}
+                </span>
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <p key={index} className="whitespace-pre-wrap min-h-[1.5em]">
+            <Inline content={block.content} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { MemoRevision } from '@shared/schema';
+import type { MemoDiffLine } from '@shared/memo-merge';
+
+interface MemoHistorySheetProps {
+  eventId: string;
+  currentRevision: number;
+  canRestore: boolean; // 認証済みの参加者・主催者のみ戻せる
+}
+
+type MemoDiff = {
+  from: number | null;
+  to: number;
+  lines: MemoDiffLine[];
+};
+
+const DIFF_STYLES: Record<MemoDiffLine['type'], string> = {
+  same: 'text-slate-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700 line-through',
+};
+
+const DIFF_MARKS: Record<MemoDiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+};
+
+// メモの保存履歴（版ごとの行単位の差分と、過去の版に戻す操作）
+export default function MemoHistorySheet({ eventId, currentRevision, canRestore }: MemoHistorySheetProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [against, setAgainst] = useState<'previous' | 'current'>('previous');
+
+  // 開いたときだけ取得する
+  const { data: revisions, isLoading } = useQuery<MemoRevision[]>({
+    queryKey: [`/api/events/${eventId}/memo/revisions`],
+    enabled: open,
+  });
+
+  const selected = revisions?.find(revision => revision.id === selectedId) ?? revisions?.[0];
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<MemoDiff>({
+    queryKey: [`/api/events/${eventId}/memo/revisions/${selected?.id}/diff?against=${against}`],
+    enabled: open && !!selected,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: MemoRevision) => {
+      const response = await apiRequest('POST', `/api/events/${eventId}/memo/restore/${revision.id}`);
+      return response.json();
+    },
+    onSuccess: (data, revision) => {
+      queryClient.setQueryData([`/api/events/${eventId}/memo`], data);
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/memo/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/memo/items`] });
+      setSelectedId(null);
+      setAgainst('previous');
+      toast({
+        title: `第${revision.revision}版に戻しました`,
+        description: "戻したことも履歴に残ります",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "メモを戻せませんでした",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-1 text-slate-500">
+          <History className="h-3.5 w-3.5" />
+          履歴
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>メモの履歴</SheetTitle>
+          <SheetDescription>
+            保存するたびに版として残ります。誤って消した内容も過去の版に戻せます。
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary/70" />
+          </div>
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="mt-6 text-sm text-slate-500">まだ履歴はありません</p>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <ul className="border rounded-md divide-y max-h-56 overflow-y-auto text-sm">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-3 py-2 hover:bg-slate-50 ${revision.id === selected?.id ? 'bg-slate-100' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        第{revision.revision}版
+                        {revision.revision === currentRevision && (
+                          <span className="ml-1.5 text-xs font-normal text-primary">現在</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {new Date(revision.createdAt).toLocaleString('ja-JP')}
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {revision.editorName}さんが
+                      {revision.restoredFrom !== null ? `第${revision.restoredFrom}版に戻しました` : '保存'}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={against === 'previous' ? 'default' : 'outline'}
+                      className="h-7 text-xs"
+                      onClick={() => setAgainst('previous')}
+                    >
+                      前の版との差分
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={against === 'current' ? 'default' : 'outline'}
+                      className="h-7 text-xs"
+                      onClick={() => setAgainst('current')}
+                      disabled={selected.revision === currentRevision}
+                    >
+                      戻したときの変更
+                    </Button>
+                  </div>
+                  {canRestore && selected.revision !== currentRevision && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs flex items-center gap-1"
+                      onClick={() => restoreMutation.mutate(selected)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      この版に戻す
+                    </Button>
+                  )}
+                </div>
+
+                {isDiffLoading || !diff ? (
+                  <div className="flex justify-center p-4">
+                    <Loader2 className="h-4 w-4 animate-spin text-primary/70" />
+                  </div>
+                ) : diff.lines.length === 0 ? (
+                  <p className="text-xs text-slate-500">メモは空です</p>
+                ) : (
+                  <pre className="border rounded-md text-xs font-mono whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+                    {diff.lines.map((line, index) => (
+                      <div key={index} className={`px-2 ${DIFF_STYLES[line.type]}`}>
+                        {DIFF_MARKS[line.type]} {line.line}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { GitMerge } from 'lucide-react';
+import {
+  resolveMemoMerge,
+  type MemoConflictResolution,
+  type MemoMerge,
+} from '@shared/memo-merge';
+
+interface MemoMergePanelProps {
+  merge: MemoMerge;
+  theirName: string; // 先に保存した参加者
+  onApply: (memo: string) => void;
+  onDiscard: () => void;
+}
+
+const RESOLUTION_LABELS: Record<MemoConflictResolution, string> = {
+  mine: '自分の変更',
+  theirs: '相手の変更',
+  both: '両方残す',
+};
+
+function Lines({ lines, className }: { lines: string[]; className: string }) {
+  return (
+    <pre className={`whitespace-pre-wrap break-words font-sans text-sm px-3 py-2 ${className}`}>
+      {lines.length > 0 ? lines.join('\n') : <span className="italic text-slate-400">（削除）</span>}
+    </pre>
+  );
+}
+
+// 他の参加者が先に保存したときの統合画面（両方が変更した部分ごとにどちらを残すか選ぶ）
+export default function MemoMergePanel({ merge, theirName, onApply, onDiscard }: MemoMergePanelProps) {
+  const [resolutions, setResolutions] = useState<MemoConflictResolution[]>(
+    () => Array.from({ length: merge.conflicts }, () => 'theirs')
+  );
+
+  let conflictIndex = 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+        <p className="font-medium flex items-center gap-1.5">
+          <GitMerge className="h-4 w-4" />
+          {theirName}さんが先にメモを更新しました
+        </p>
+        <p className="text-xs mt-1">
+          {merge.conflicts > 0
+            ? `同じ部分を変更した箇所が${merge.conflicts}件あります。残す内容を選んでください。`
+            : '重なる変更はありません。統合した内容を確認して保存してください。'}
+        </p>
+      </div>
+
+      <div className="border rounded-md divide-y max-h-[360px] overflow-y-auto">
+        {merge.chunks.map((chunk, index) => {
+          if (chunk.type === 'ok') {
+            return <Lines key={index} lines={chunk.lines} className="text-slate-600 bg-white" />;
+          }
+          const current = conflictIndex++;
+          const resolution = resolutions[current];
+          return (
+            <div key={index} className="bg-slate-50 p-2 space-y-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <div className={`rounded border ${resolution !== 'theirs' ? 'border-primary' : 'border-slate-200'}`}>
+                  <p className="text-xs text-slate-500 px-3 pt-2">自分の変更</p>
+                  <Lines lines={chunk.mine} className="text-slate-800" />
+                </div>
+                <div className={`rounded border ${resolution !== 'mine' ? 'border-primary' : 'border-slate-200'}`}>
+                  <p className="text-xs text-slate-500 px-3 pt-2">{theirName}さんの変更</p>
+                  <Lines lines={chunk.theirs} className="text-slate-800" />
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {(Object.keys(RESOLUTION_LABELS) as MemoConflictResolution[]).map(option => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={resolution === option ? 'default' : 'outline'}
+                    className="h-7 text-xs"
+                    onClick={() => setResolutions(prev => prev.map((r, i) => (i === current ? option : r)))}
+                  >
+                    {RESOLUTION_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onDiscard} className="text-slate-500">
+          自分の変更を破棄
+        </Button>
+        <Button type="button" onClick={() => onApply(resolveMemoMerge(merge, resolutions))}>
+          統合して編集を続ける
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Copy, Loader2, Smartphone } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// 作成・参加したイベントとテンプレートを、復元コードで別の端末に引き継ぐ
+export default function ProfileTransferDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+
+  // 開いたときだけ取得する（未作成ならこのとき作成される）
+  const { data: profile, isLoading } = useQuery<{ recoveryCode: string }>({
+    queryKey: ['/api/me'],
+    enabled: open,
+  });
+
+  const recoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/me/recover', { recoveryCode });
+      return response.json();
+    },
+    onSuccess: () => {
+      // イベントごとの役割も復元されるので、すべて読み込み直す
+      queryClient.invalidateQueries();
+      setOpen(false);
+      toast({
+        title: "引き継ぎが完了しました",
+        description: "作成・参加したイベントを表示しています",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "引き継ぎに失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const copyRecoveryCode = async () => {
+    if (!profile) return;
+    try {
+      await navigator.clipboard.writeText(profile.recoveryCode);
+      toast({ title: "復元コードをコピーしました" });
+    } catch (error) {
+      console.error('Failed to copy recovery code:', error);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) setRecoveryCode('');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs px-3">
+          <Smartphone className="mr-1.5 h-3.5 w-3.5" />
+          端末の引き継ぎ
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            別の端末に引き継ぐ
+          </DialogTitle>
+          <DialogDescription>
+            作成・参加したイベントと保存したテンプレートを、復元コードで別の端末やブラウザに引き継げます。復元コードは他の人に教えないでください。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-1.5">
+            <Label className="text-sm">この端末の復元コード</Label>
+            {isLoading || !profile ? (
+              <div className="flex h-10 items-center">
+                <Loader2 className="h-4 w-4 animate-spin text-primary/70" />
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded-md border bg-slate-50 px-3 py-2 font-mono text-sm tracking-wider">
+                  {profile.recoveryCode}
+                </code>
+                <Button type="button" variant="outline" size="icon" onClick={copyRecoveryCode} aria-label="コピー">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (recoveryCode.trim()) recoverMutation.mutate();
+            }}
+            className="space-y-1.5 border-t pt-4"
+          >
+            <Label htmlFor="recovery-code" className="text-sm">別の端末の復元コードを入力</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="recovery-code"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX-XXXX"
+                className="font-mono"
+                autoComplete="off"
+              />
+              <Button type="submit" disabled={!recoveryCode.trim() || recoverMutation.isPending}>
+                {recoverMutation.isPending ? '確認中...' : '引き継ぐ'}
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+              この端末で作成・参加したイベントも、引き継いだプロフィールに追加されます。
+            </p>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
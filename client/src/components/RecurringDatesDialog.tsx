@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { format, addDays } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Repeat } from 'lucide-react';
+import {
+  expandDateRule,
+  MAX_GENERATED_DATES,
+  WEEKDAY_LABELS,
+  type DateRule,
+  type GeneratedDate,
+  type HolidayMode,
+} from '@shared/date-rules';
+
+type RuleKind = DateRule['kind'];
+
+interface RecurringDatesDialogProps {
+  onGenerate: (dates: GeneratedDate[]) => void;
+}
+
+// 繰り返しルール（毎週・期間内の曜日・毎月第n曜日）から候補日をまとめて追加する
+export default function RecurringDatesDialog({ onGenerate }: RecurringDatesDialogProps) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<RuleKind>('weekly');
+  const [weekdays, setWeekdays] = useState<string[]>(['5', '6']);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(format(addDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [weeks, setWeeks] = useState(6);
+  const [nth, setNth] = useState(1);
+  const [monthlyWeekday, setMonthlyWeekday] = useState(0);
+  const [months, setMonths] = useState(3);
+  const [holidayMode, setHolidayMode] = useState<HolidayMode>('include');
+
+  const rule: DateRule | null = useMemo(() => {
+    if (!startDate) return null;
+    const days = weekdays.map(Number);
+    switch (kind) {
+      case 'weekly':
+        return days.length > 0 && weeks > 0 ? { kind, weekdays: days, startDate, weeks } : null;
+      case 'range':
+        return days.length > 0 && endDate >= startDate ? { kind, weekdays: days, startDate, endDate } : null;
+      case 'monthly':
+        return months > 0 ? { kind, nth, weekday: monthlyWeekday, startDate, months } : null;
+    }
+  }, [kind, weekdays, startDate, endDate, weeks, nth, monthlyWeekday, months]);
+
+  const preview = useMemo(
+    () => (rule ? expandDateRule(rule, { holidays: holidayMode }) : []),
+    [rule, holidayMode]
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) setStartDate(format(new Date(), 'yyyy-MM-dd'));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="flex items-center gap-2">
+          <Repeat className="h-4 w-4" />
+          繰り返しで追加
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            繰り返しで候補日を追加
+          </DialogTitle>
+          <DialogDescription>
+            ルールに合う日を候補日に追加します。すでに選択している日と個別の時間設定はそのまま残ります。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label className="text-sm">ルール</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as RuleKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">毎週の曜日（n週間）</SelectItem>
+                <SelectItem value="range">期間内の曜日</SelectItem>
+                <SelectItem value="monthly">毎月第n曜日</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="rule-start" className="text-sm">開始日</Label>
+              <Input
+                id="rule-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            {kind === 'weekly' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="rule-weeks" className="text-sm">期間（週）</Label>
+                <Input
+                  id="rule-weeks"
+                  type="number"
+                  min={1}
+                  max={26}
+                  value={weeks}
+                  onChange={(e) => setWeeks(Number(e.target.value))}
+                />
+              </div>
+            )}
+            {kind === 'range' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="rule-end" className="text-sm">終了日</Label>
+                <Input
+                  id="rule-end"
+                  type="date"
+                  min={startDate}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            )}
+            {kind === 'monthly' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="rule-months" className="text-sm">期間（か月）</Label>
+                <Input
+                  id="rule-months"
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={months}
+                  onChange={(e) => setMonths(Number(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+
+          {kind === 'monthly' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-sm">週</Label>
+                <Select value={String(nth)} onValueChange={(value) => setNth(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map(n => (
+                      <SelectItem key={n} value={String(n)}>第{n}</SelectItem>
+                    ))}
+                    <SelectItem value="-1">最終</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-sm">曜日</Label>
+                <Select value={String(monthlyWeekday)} onValueChange={(value) => setMonthlyWeekday(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <SelectItem key={day} value={String(day)}>{label}曜日</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">曜日</Label>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setWeekdays(['1', '2', '3', '4', '5'])}
+                >
+                  平日を選択
+                </Button>
+              </div>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                value={weekdays}
+                onValueChange={setWeekdays}
+                className="justify-start"
+              >
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <ToggleGroupItem key={day} value={String(day)} className="h-9 w-9 p-0">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label className="text-sm">祝日</Label>
+            <Select value={holidayMode} onValueChange={(value) => setHolidayMode(value as HolidayMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="include">含める（祝日と表示）</SelectItem>
+                <SelectItem value="exclude">除外する</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border bg-slate-50 p-3">
+            <p className="text-sm font-medium text-slate-700 mb-2">
+              {preview.length}日が該当します
+              {preview.length >= MAX_GENERATED_DATES && `（一度に追加できるのは${MAX_GENERATED_DATES}日までです）`}
+            </p>
+            {preview.length > 0 && (
+              <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                {preview.map(({ date, holiday }) => (
+                  <Badge
+                    key={date}
+                    variant="outline"
+                    className={holiday ? 'border-red-200 bg-red-50 text-red-700' : 'bg-white'}
+                    title={holiday}
+                  >
+                    {format(new Date(`${date}T00:00:00`), 'M/d')}({WEEKDAY_LABELS[new Date(`${date}T00:00:00`).getDay()]})
+                    {holiday && ' 祝'}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+              キャンセル
+            </Button>
+            <Button
+              type="button"
+              disabled={preview.length === 0}
+              onClick={() => {
+                onGenerate(preview);
+                setOpen(false);
+              }}
+            >
+              候補日に追加
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
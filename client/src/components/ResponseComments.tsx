@@ -0,0 +1,51 @@
+import { MessageSquare } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { Attendance } from '@shared/schema';
+
+const STATUS_MARKS = { available: '◯', maybe: '△', unavailable: '×' } as const;
+
+export type ResponseComment = {
+  name: string;
+  status: keyof typeof STATUS_MARKS;
+  comment: string;
+};
+
+// 候補日ごとのコメントを出欠の一覧から集める
+export function collectResponseComments(
+  attendances: Pick<Attendance, 'name' | 'responses'>[],
+  dateOptionId: string,
+): ResponseComment[] {
+  return attendances.flatMap(attendance => {
+    const response = attendance.responses.find(r => r.dateOptionId === dateOptionId);
+    return response?.comment ? [{ name: attendance.name, status: response.status, comment: response.comment }] : [];
+  });
+}
+
+interface ResponseCommentsProps {
+  comments: ResponseComment[];
+}
+
+// 候補日へのコメント（件数を表示し、ホバーで内容を表示する）
+export default function ResponseComments({ comments }: ResponseCommentsProps) {
+  if (comments.length === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button type="button" className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700">
+          <MessageSquare className="h-3.5 w-3.5" />
+          コメント {comments.length}件
+        </button>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <ul className="space-y-1">
+          {comments.map((comment, index) => (
+            <li key={index}>
+              <span className="font-medium">{comment.name}（{STATUS_MARKS[comment.status]}）</span>: {comment.comment}
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { LayoutTemplate } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { Event } from '@shared/schema';
+
+interface SaveTemplateDialogProps {
+  event: Event;
+}
+
+// 予定をテンプレートとして保存する（新しい予定の作成画面で選べるようになる）
+export default function SaveTemplateDialog({ event }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(event.title);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/events/${event.id}/template`, { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setOpen(false);
+      toast({
+        title: "テンプレートを保存しました",
+        description: "新しい予定を作成するときに選べます",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "テンプレートの保存に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) setName(event.title);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <LayoutTemplate className="h-4 w-4" />
+          テンプレート保存
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800">
+            テンプレートとして保存
+          </DialogTitle>
+          <DialogDescription>
+            タイトル・詳細・デフォルト時間・メモ・参加者を保存します。テンプレートはこのブラウザのプロフィールに保存されます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) saveMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="template-name" className="text-sm">テンプレート名</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="例: 月例飲み会"
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending ? '保存中...' : '保存する'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowRight, Check, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useEventIdentity } from '@/hooks/use-event-identity';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { SettlementPayment } from '@shared/schema';
+import type { SettlementStatus, SettlementTransfer } from '@shared/settlement';
+import { currencyDecimals } from '@shared/currency';
+
+interface SettlementTransfersProps {
+  eventId: string;
+  transfers: SettlementTransfer[];
+  members: Record<string, string>; // メンバーID -> 表示名
+  baseCurrency: string;
+}
+
+// 送金の状態ごとの表示
+const STATUS_STYLES: Record<SettlementStatus, { label: string; card: string; badge: string }> = {
+  pending: {
+    label: '未払い',
+    card: 'border-green-200 bg-green-50',
+    badge: 'bg-amber-100 text-amber-700',
+  },
+  partial: {
+    label: '一部支払い済み',
+    card: 'border-blue-200 bg-blue-50',
+    badge: 'bg-blue-100 text-blue-700',
+  },
+  settled: {
+    label: '支払い済み',
+    card: 'border-slate-200 bg-slate-50',
+    badge: 'bg-green-100 text-green-700',
+  },
+};
+
+// 精算指示ごとの支払い状況と送金記録
+export default function SettlementTransfers({ eventId, transfers, members, baseCurrency }: SettlementTransfersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const memberName = (memberId: string) => members[memberId] ?? '不明な参加者';
+
+  // 送金した人・受け取った人本人または主催者のみ記録・取り消しできる（最終的な確認はサーバー側で行う）
+  const { identity, isOrganizer } = useEventIdentity(eventId);
+  const myMemberId = identity?.memberId
+    ?? Object.keys(members).find(memberId => members[memberId] === identity?.name);
+  const canRecord = (fromMemberId: string, toMemberId: string) =>
+    isOrganizer || (!!myMemberId && (myMemberId === fromMemberId || myMemberId === toMemberId));
+
+  // 送金を記録中の精算指示（送金元→送金先）
+  const [recordingKey, setRecordingKey] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentNote, setPaymentNote] = useState('');
+
+  const { data: payments } = useQuery<SettlementPayment[]>({
+    queryKey: [`/api/events/${eventId}/payments`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/payments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/settlements`] });
+  };
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async (data: { fromMemberId: string; toMemberId: string; amount: number; note: string }) => {
+      const response = await apiRequest('POST', `/api/events/${eventId}/payments`, {
+        ...data,
+        currency: baseCurrency,
+        note: data.note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setRecordingKey(null);
+      toast({
+        title: "送金を記録しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "送金の記録に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      await apiRequest('DELETE', `/api/events/${eventId}/payments/${paymentId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "送金記録を取り消しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "送金記録の取り消しに失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const startRecording = (transfer: SettlementTransfer) => {
+    setRecordingKey(`${transfer.from}→${transfer.to}`);
+    setPaymentAmount(String(transfer.remaining));
+    setPaymentNote('');
+  };
+
+  const handleRecord = (transfer: SettlementTransfer) => {
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "入力エラー",
+        description: "有効な金額を入力してください",
+        variant: "destructive"
+      });
+      return;
+    }
+    recordPaymentMutation.mutate({ fromMemberId: transfer.from, toMemberId: transfer.to, amount, note: paymentNote });
+  };
+
+  const decimals = currencyDecimals(baseCurrency);
+
+  return (
+    <div className="space-y-3">
+      {transfers.map((transfer) => {
+        const key = `${transfer.from}→${transfer.to}`;
+        const style = STATUS_STYLES[transfer.status];
+
+        return (
+          <div key={key} className={`p-3 rounded-md border ${style.card}`}>
+            <div className="flex items-center justify-between text-sm">
+              <div className="font-medium">{memberName(transfer.from)}</div>
+              <div className="flex items-center">
+                <ArrowRight className="h-4 w-4 text-green-600 mx-1" />
+              </div>
+              <div className="font-medium">{memberName(transfer.to)}</div>
+            </div>
+            <div className="mt-1.5 text-center">
+              <span className={`text-base font-bold ${transfer.status === 'settled' ? 'text-slate-500 line-through' : 'text-green-700'}`}>
+                {formatCurrency(transfer.status === 'settled' ? transfer.amount : transfer.remaining, baseCurrency)}
+              </span>
+              <span className="ml-1 text-xs text-green-700">
+                {transfer.status === 'settled' ? '' : transfer.status === 'partial' ? '残り' : '支払う'}
+              </span>
+            </div>
+            <div className="mt-1.5 flex items-center justify-between">
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${style.badge}`}>
+                {style.label}
+                {transfer.status === 'partial' && `（${formatCurrency(transfer.paid, baseCurrency)} / ${formatCurrency(transfer.amount, baseCurrency)}）`}
+              </span>
+              {transfer.status !== 'settled' && recordingKey !== key && canRecord(transfer.from, transfer.to) && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs px-2"
+                  onClick={() => startRecording(transfer)}
+                >
+                  <Check className="h-3.5 w-3.5 mr-1" />
+                  支払いを記録
+                </Button>
+              )}
+            </div>
+
+            {recordingKey === key && (
+              <div className="mt-2 space-y-2 border-t pt-2">
+                <Input
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value.replace(decimals > 0 ? /[^0-9.]/g : /[^0-9]/g, ''))}
+                  placeholder="送金した金額"
+                  inputMode={decimals > 0 ? 'decimal' : 'numeric'}
+                  className="h-8 text-xs bg-white"
+                />
+                <Input
+                  value={paymentNote}
+                  onChange={(e) => setPaymentNote(e.target.value)}
+                  placeholder="メモ（例: PayPayで送金）"
+                  className="h-8 text-xs bg-white"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setRecordingKey(null)}
+                  >
+                    キャンセル
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleRecord(transfer)}
+                    disabled={recordPaymentMutation.isPending}
+                  >
+                    {recordPaymentMutation.isPending ? '記録中...' : '記録する'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* 送金記録の履歴 */}
+      {payments && payments.length > 0 && (
+        <div className="mt-4">
+          <h3 className="font-medium text-sm text-slate-700 mb-2">送金記録</h3>
+          <div className="border rounded-md divide-y text-xs">
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between px-3 py-1.5">
+                <div>
+                  <p>
+                    {memberName(payment.fromMemberId)} → {memberName(payment.toMemberId)}
+                    <span className="ml-2 font-medium">
+                      {formatCurrency(parseFloat(payment.amount), payment.currency)}
+                    </span>
+                  </p>
+                  <p className="text-slate-400">
+                    {new Date(payment.paidAt).toLocaleString('ja-JP')}
+                    {payment.note && ` ・ ${payment.note}`}
+                  </p>
+                </div>
+                {canRecord(payment.fromMemberId, payment.toMemberId) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => deletePaymentMutation.mutate(payment.id)}
+                    disabled={deletePaymentMutation.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { slotGridDates, slotGridTimes, slotKey, type SlotGrid } from '@shared/slot-grid';
+
+interface SlotGridPickerProps {
+  grid: SlotGrid;
+  value: string[]; // 参加できるコマ（yyyy-MM-ddTHH:mm）
+  onChange: (slots: string[]) => void;
+}
+
+// グリッドの列見出し（例: 12/1(月)）
+export function formatGridDate(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'M/d(EEE)', { locale: ja });
+}
+
+// 時間帯グリッドで参加できるコマを塗る
+// 最初に押したコマが未選択なら塗る、選択済みなら消すモードになり、ドラッグした範囲に同じ操作をする
+export default function SlotGridPicker({ grid, value, onChange }: SlotGridPickerProps) {
+  const dates = useMemo(() => slotGridDates(grid), [grid]);
+  const times = useMemo(() => slotGridTimes(grid), [grid]);
+  const selected = useMemo(() => new Set(value), [value]);
+
+  // ドラッグ中の操作（塗る・消す）と、最新の選択状態
+  const dragModeRef = useRef<'add' | 'remove' | null>(null);
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
+
+  const apply = (key: string) => {
+    const mode = dragModeRef.current;
+    if (!mode || selectedRef.current.has(key) === (mode === 'add')) return;
+    const next = new Set(selectedRef.current);
+    if (mode === 'add') next.add(key);
+    else next.delete(key);
+    selectedRef.current = next;
+    onChange(Array.from(next).sort());
+  };
+
+  // タッチ操作ではポインターの下のコマを探す
+  const slotAt = (x: number, y: number) =>
+    (document.elementFromPoint(x, y) as HTMLElement | null)?.dataset.slot;
+
+  useEffect(() => {
+    const stop = () => {
+      dragModeRef.current = null;
+    };
+    window.addEventListener('pointerup', stop);
+    window.addEventListener('pointercancel', stop);
+    return () => {
+      window.removeEventListener('pointerup', stop);
+      window.removeEventListener('pointercancel', stop);
+    };
+  }, []);
+
+  return (
+    <div className="overflow-x-auto">
+      <table
+        className="border-separate border-spacing-0 select-none touch-none text-xs"
+        onPointerDown={(e) => {
+          const key = (e.target as HTMLElement).dataset.slot;
+          if (!key) return;
+          e.preventDefault();
+          dragModeRef.current = selectedRef.current.has(key) ? 'remove' : 'add';
+          apply(key);
+        }}
+        onPointerMove={(e) => {
+          if (!dragModeRef.current) return;
+          const key = slotAt(e.clientX, e.clientY);
+          if (key) apply(key);
+        }}
+      >
+        <thead>
+          <tr>
+            <th className="w-12" />
+            {dates.map((date) => (
+              <th key={date} className="px-1 pb-1 font-medium text-slate-600 whitespace-nowrap">
+                {formatGridDate(date)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.map((time) => (
+            <tr key={time}>
+              <td className="pr-2 text-right align-top text-slate-500 leading-none">
+                {time.endsWith(':00') ? time : ''}
+              </td>
+              {dates.map((date) => {
+                const key = slotKey(date, time);
+                return (
+                  <td
+                    key={key}
+                    data-slot={key}
+                    title={`${formatGridDate(date)} ${time}`}
+                    className={`h-5 min-w-[3rem] border-b border-r border-white cursor-pointer ${
+                      selected.has(key) ? 'bg-green-400' : 'bg-slate-100 hover:bg-green-100'
+                    }`}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
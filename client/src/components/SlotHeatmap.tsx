@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import {
+  SLOT_MINUTES,
+  minutesToTime,
+  slotGridDates,
+  slotGridTimes,
+  slotKey,
+  timeToMinutes,
+  type SlotPollResult,
+} from '@shared/slot-grid';
+import { formatGridDate } from '@/components/SlotGridPicker';
+
+interface SlotHeatmapProps {
+  result: SlotPollResult;
+  selectedStart?: string | null; // 確定候補の時間帯の開始コマ
+  onSelectStart?: (key: string) => void; // 主催者がコマを押して確定候補を選ぶ
+}
+
+// 参加できる人の割合に応じた色（0人は灰色）
+const HEAT_CLASSES = ['bg-slate-100', 'bg-green-100', 'bg-green-200', 'bg-green-300', 'bg-green-400', 'bg-green-600'];
+
+function heatClass(count: number, total: number): string {
+  if (count === 0 || total === 0) return HEAT_CLASSES[0];
+  return HEAT_CLASSES[Math.max(1, Math.ceil((count / total) * (HEAT_CLASSES.length - 1)))];
+}
+
+// 時間帯グリッドのヒートマップ（コマごとに参加できる人数を色の濃さで表す）
+export default function SlotHeatmap({ result, selectedStart, onSelectStart }: SlotHeatmapProps) {
+  const { grid, counts, availabilities } = result;
+  const dates = useMemo(() => slotGridDates(grid), [grid]);
+  const times = useMemo(() => slotGridTimes(grid), [grid]);
+  const total = availabilities.length;
+
+  // 選択中の時間帯に含まれるコマ
+  const selectedKeys = useMemo(() => {
+    if (!selectedStart) return new Set<string>();
+    const [date, time] = selectedStart.split('T');
+    const start = timeToMinutes(time);
+    const keys = new Set<string>();
+    for (let minutes = start; minutes < start + grid.durationMinutes; minutes += SLOT_MINUTES) {
+      keys.add(slotKey(date, minutesToTime(minutes)));
+    }
+    return keys;
+  }, [selectedStart, grid.durationMinutes]);
+
+  // 開催時間がグリッドに収まるコマだけ開始位置として選べる
+  const lastStart = timeToMinutes(grid.dayEndTime) - grid.durationMinutes;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0 text-xs">
+        <thead>
+          <tr>
+            <th className="w-12" />
+            {dates.map((date) => (
+              <th key={date} className="px-1 pb-1 font-medium text-slate-600 whitespace-nowrap">
+                {formatGridDate(date)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.map((time) => (
+            <tr key={time}>
+              <td className="pr-2 text-right align-top text-slate-500 leading-none">
+                {time.endsWith(':00') ? time : ''}
+              </td>
+              {dates.map((date) => {
+                const key = slotKey(date, time);
+                const count = counts[key] || 0;
+                const names = availabilities
+                  .filter(availability => availability.slots.includes(key))
+                  .map(availability => availability.name);
+                const selectable = !!onSelectStart && timeToMinutes(time) <= lastStart;
+                return (
+                  <td
+                    key={key}
+                    title={`${formatGridDate(date)} ${time}　${count}/${total}人${names.length > 0 ? `\n${names.join('、')}` : ''}`}
+                    onClick={selectable ? () => onSelectStart!(key) : undefined}
+                    className={`h-5 min-w-[3rem] border-b border-r border-white ${heatClass(count, total)} ${
+                      selectedKeys.has(key) ? 'outline outline-2 -outline-offset-2 outline-primary' : ''
+                    } ${selectable ? 'cursor-pointer' : ''}`}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-slate-500">
+        色が濃いほど参加できる人が多い時間帯です（回答 {total}人）
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useCallback, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { EventComment } from "@shared/schema";
+
+const seenStorageKey = (eventId: string) => `commentsSeen:${eventId}`;
+
+function getLastSeenCommentId(eventId: string | undefined): number {
+  if (!eventId) return 0;
+  return Number(localStorage.getItem(seenStorageKey(eventId))) || 0;
+}
+
+// イベントのコメントと未読の件数
+// 最後に読んだコメントのIDはこのブラウザに保存する
+export function useEventComments(eventId: string | undefined, refetchInterval: number | false = false) {
+  const { data: comments = [], isLoading } = useQuery<EventComment[]>({
+    queryKey: [`/api/events/${eventId}/comments`],
+    enabled: !!eventId,
+    refetchInterval,
+  });
+
+  const [lastSeenId, setLastSeenId] = useState(() => getLastSeenCommentId(eventId));
+
+  const latestId = comments.length > 0 ? comments[comments.length - 1].id : 0;
+  const unreadCount = comments.filter(comment => comment.id > lastSeenId && !comment.deletedAt).length;
+
+  // 表示中のコメントをすべて既読にする
+  const markSeen = useCallback(() => {
+    if (!eventId || latestId <= lastSeenId) return;
+    localStorage.setItem(seenStorageKey(eventId), String(latestId));
+    setLastSeenId(latestId);
+  }, [eventId, latestId, lastSeenId]);
+
+  return { comments, isLoading, unreadCount, lastSeenId, markSeen };
+}
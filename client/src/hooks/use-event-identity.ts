@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { EventIdentity } from "@shared/schema";
+
+const TOKENS_KEY = "eventTokens";
+
+// イベントごとの参加用・主催者用トークン（セッションが切れた場合の再認証用）
+function loadTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function getEventToken(eventId: string): string | undefined {
+  return loadTokens()[eventId];
+}
+
+export function storeEventToken(eventId: string, token: string) {
+  localStorage.setItem(TOKENS_KEY, JSON.stringify({ ...loadTokens(), [eventId]: token }));
+}
+
+export function removeEventToken(eventId: string) {
+  const { [eventId]: _removed, ...rest } = loadTokens();
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(rest));
+}
+
+// リンクを共有するためのURL
+export function eventLinkUrl(eventId: string, token: string) {
+  return `${window.location.origin}/event/${eventId}?key=${encodeURIComponent(token)}`;
+}
+
+type MeResponse = EventIdentity | { role: null; name: null };
+
+// このブラウザのイベントでの役割を取得
+// URLの ?key= や保存済みのトークンがあれば、セッションを認証する
+export function useEventIdentity(eventId: string | undefined) {
+  const queryClient = useQueryClient();
+  const redeemedRef = useRef(false);
+
+  const { data, isLoading } = useQuery<MeResponse>({
+    queryKey: [`/api/events/${eventId}/me`],
+    enabled: !!eventId,
+  });
+
+  useEffect(() => {
+    if (!eventId || redeemedRef.current) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const urlToken = params.get("key");
+    const storedToken = getEventToken(eventId);
+
+    // URLのトークンを優先し、なければ未認証の場合のみ保存済みトークンを使う
+    const token = urlToken || (data && !data.role ? storedToken : undefined);
+    if (!token) return;
+
+    redeemedRef.current = true;
+    if (urlToken) {
+      // トークンをURLに残さない
+      params.delete("key");
+      const query = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    }
+
+    apiRequest("POST", `/api/events/${eventId}/auth`, { token })
+      .then(() => {
+        storeEventToken(eventId, token);
+        queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/me`] });
+        queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
+      })
+      .catch(() => {
+        // 無効なトークンは破棄する
+        if (token === storedToken) removeEventToken(eventId);
+      });
+  }, [eventId, data, queryClient]);
+
+  const identity = data?.role ? data : null;
+
+  return {
+    identity,
+    isOrganizer: identity?.role === "organizer",
+    isLoading,
+  };
+}
@@ -0,0 +1,23 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { EventMember } from "@shared/schema";
+
+// イベントの参加者名簿を取得する
+// 支払いや精算はメンバーIDで参加者を参照するため、表示名はここから引く
+export function useEventMembers(eventId: string | undefined, refetchInterval: number | false = false) {
+  const { data: members = [], isLoading } = useQuery<EventMember[]>({
+    queryKey: [`/api/events/${eventId}/members`],
+    enabled: !!eventId,
+    refetchInterval,
+  });
+
+  // 名簿から外したメンバーは選択肢に出さない
+  const activeMembers = useMemo(() => members.filter(member => member.active), [members]);
+
+  const memberName = useCallback(
+    (memberId: string) => members.find(member => member.id === memberId)?.displayName ?? "不明な参加者",
+    [members],
+  );
+
+  return { members, activeMembers, memberName, isLoading };
+}
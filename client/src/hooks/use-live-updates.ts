@@ -0,0 +1,136 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { QueryClient } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { livePath, type LiveChange, type LiveChangeType } from "@shared/live";
+
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000]; // 再接続までの待ち時間
+
+// 変更の種類ごとに再取得するクエリ
+const INVALIDATIONS: Record<LiveChangeType, (eventId: string) => string[]> = {
+  "event-updated": (id) => [`/api/events/${id}`, `/api/events/${id}/date-ranking`, `/api/events/${id}/slots`, `/api/events/${id}/settlements`],
+  "event-deleted": (id) => [`/api/events/${id}`],
+  "event-finalized": (id) => [`/api/events/${id}`, `/api/events/${id}/attendances`],
+  "attendance-updated": (id) => [`/api/events/${id}`, `/api/events/${id}/me`, `/api/events/${id}/comments`, `/api/events/${id}/attendances`, `/api/events/${id}/members`, `/api/events/${id}/date-ranking`, `/api/events/${id}/slots`, `/api/events/${id}/expenses`, `/api/events/${id}/settlements`],
+  "expense-added": (id) => [`/api/events/${id}/expenses`, `/api/events/${id}/settlements`],
+  "expense-updated": (id) => [`/api/events/${id}/expenses`, `/api/events/${id}/settlements`, `/api/events/${id}/attachments`],
+  "expense-deleted": (id) => [`/api/events/${id}/expenses`, `/api/events/${id}/settlements`, `/api/events/${id}/attachments`],
+  "payment-updated": (id) => [`/api/events/${id}/payments`, `/api/events/${id}/settlements`],
+  "exchange-rates-updated": (id) => [`/api/events/${id}`, `/api/events/${id}/exchange-rates`, `/api/events/${id}/settlements`],
+  "memo-updated": (id) => [`/api/events/${id}/memo`],
+  "memo-typing": (id) => [`/api/events/${id}/memo`],
+  "memo-item-checked": (id) => [`/api/events/${id}/memo/items`],
+  "comment-added": (id) => [`/api/events/${id}/comments`],
+  "comment-deleted": (id) => [`/api/events/${id}/comments`],
+};
+
+// 変更通知に対応するクエリを無効化する（支払いの変更履歴など、前方一致するクエリも対象）
+function applyChange(client: QueryClient, change: LiveChange) {
+  const prefixes = INVALIDATIONS[change.type]?.(change.eventId) || [];
+  client.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && prefixes.some(prefix =>
+        key === prefix || (prefix !== `/api/events/${change.eventId}` && key.startsWith(`${prefix}/`))
+      );
+    },
+  });
+}
+
+// イベントごとの接続（同じイベントを表示する複数のコンポーネントで共有する）
+type Channel = {
+  socket: WebSocket | null;
+  connected: boolean;
+  subscribers: number;
+  retries: number;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  listeners: Set<() => void>;
+};
+
+const channels = new Map<string, Channel>();
+
+function getChannel(eventId: string): Channel {
+  let channel = channels.get(eventId);
+  if (!channel) {
+    channel = { socket: null, connected: false, subscribers: 0, retries: 0, listeners: new Set() };
+    channels.set(eventId, channel);
+  }
+  return channel;
+}
+
+function setConnected(channel: Channel, connected: boolean) {
+  if (channel.connected === connected) return;
+  channel.connected = connected;
+  channel.listeners.forEach(listener => listener());
+}
+
+function connect(eventId: string, channel: Channel) {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const socket = new WebSocket(`${protocol}//${window.location.host}${livePath(eventId)}`);
+  channel.socket = socket;
+
+  socket.onopen = () => {
+    channel.retries = 0;
+    setConnected(channel, true);
+    // 切断中の変更を取りこぼさないよう、接続時に最新の状態を取得する
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/events/${eventId}`),
+    });
+  };
+
+  socket.onmessage = (message) => {
+    try {
+      applyChange(queryClient, JSON.parse(message.data));
+    } catch {
+      // 不正なメッセージは無視する
+    }
+  };
+
+  socket.onclose = () => {
+    setConnected(channel, false);
+    if (channel.socket !== socket || channel.subscribers === 0) return;
+
+    // 接続が切れたら時間をおいて再接続（その間はポーリングで更新される）
+    const delay = RECONNECT_DELAYS[Math.min(channel.retries, RECONNECT_DELAYS.length - 1)];
+    channel.retries++;
+    channel.retryTimer = setTimeout(() => connect(eventId, channel), delay);
+  };
+}
+
+function subscribe(eventId: string) {
+  const channel = getChannel(eventId);
+  channel.subscribers++;
+  if (channel.subscribers === 1) {
+    connect(eventId, channel);
+  }
+
+  return () => {
+    channel.subscribers--;
+    if (channel.subscribers === 0) {
+      clearTimeout(channel.retryTimer);
+      const socket = channel.socket;
+      channel.socket = null;
+      socket?.close();
+      setConnected(channel, false);
+      channels.delete(eventId);
+    }
+  };
+}
+
+// イベントのリアルタイム更新を受け取る
+// 接続中は true を返すので、呼び出し側はその間ポーリングを止める
+export function useLiveUpdates(eventId: string | undefined): boolean {
+  useEffect(() => {
+    if (!eventId) return;
+    return subscribe(eventId);
+  }, [eventId]);
+
+  return useSyncExternalStore(
+    (listener) => {
+      if (!eventId) return () => {};
+      const channel = getChannel(eventId);
+      channel.listeners.add(listener);
+      return () => channel.listeners.delete(listener);
+    },
+    () => (eventId ? channels.get(eventId)?.connected ?? false : false),
+  );
+}
@@ -2,6 +2,7 @@ import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { ja } from 'date-fns/locale';
 import { format } from 'date-fns';
+import { currencyDecimals } from '@shared/currency';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -11,10 +12,12 @@ export function formatDate(date: Date): string {
   return format(date, 'yyyy年MM月dd日(EEE)', { locale: ja });
 }
 
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = 'JPY'): string {
+  const decimals = currencyDecimals(currency);
   return new Intl.NumberFormat('ja-JP', { 
     style: 'currency', 
-    currency: 'JPY',
-    maximumFractionDigits: 0
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
   }).format(amount);
 }
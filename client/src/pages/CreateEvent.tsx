@@ -1,6 +1,6 @@
-import { useState } from 'react';
-import { useLocation } from 'wouter';
-import { useMutation } from '@tanstack/react-query';
+import { useState, useEffect, useRef } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { 
   Card, 
   CardContent,
@@ -16,21 +16,54 @@ import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
 import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import { storeEventToken, removeEventToken } from '@/hooks/use-event-identity';
 import { apiRequest } from '@/lib/queryClient';
-import { format } from 'date-fns';
+import { Event, EventTemplate } from '@shared/schema';
+import { MAX_SLOT_GRID_DAYS, SLOT_MINUTES, type PollType } from '@shared/slot-grid';
+import { japaneseHolidayName } from '@shared/jp-holidays';
+import type { GeneratedDate } from '@shared/date-rules';
+import RecurringDatesDialog from '@/components/RecurringDatesDialog';
+import { format, differenceInCalendarDays } from 'date-fns';
 import { ja } from 'date-fns/locale';
+import type { DateRange } from 'react-day-picker';
+
+// 時間帯グリッドで選べる開催時間（分）
+const DURATION_CHOICES = [30, 60, 90, 120, 180, 240];
 
 type DateOption = {
+  id?: string; // 編集時: 登録済みの候補日ID
   date: Date;
   useDefaultTime: boolean;
   startTime?: string;
   endTime?: string;
 };
 
+// 新規作成と編集（/event/:id/edit）で共通のフォーム
 export default function CreateEvent() {
+  const { id } = useParams();
+  const isEditMode = !!id;
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   // Form state
   const [title, setTitle] = useState('');
@@ -49,6 +82,89 @@ export default function CreateEvent() {
   const [defaultStartTime, setDefaultStartTime] = useState('19:00');
   const [defaultEndTime, setDefaultEndTime] = useState('21:00');
   
+  // 日程調整の方式（候補日 or 時間帯グリッド）と、時間帯グリッドの期間・開催時間
+  const [pollType, setPollType] = useState<PollType>('dates');
+  const [gridRange, setGridRange] = useState<DateRange | undefined>(undefined);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const isSlotPoll = pollType === 'slots';
+  
+  // テンプレートから作成する場合のテンプレートID とメモ（フォームには表示せず、作成時に引き継ぐ）
+  const [templateId, setTemplateId] = useState('');
+  const [templateMemo, setTemplateMemo] = useState('');
+  
+  // 回答締切（任意）と、締切後に最も参加しやすい日程で自動確定するか
+  const [responseDeadline, setResponseDeadline] = useState('');
+  const [autoFinalize, setAutoFinalize] = useState(false);
+  
+  // 編集時は既存のイベントを読み込んでフォームに反映
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${id}`],
+    enabled: isEditMode,
+  });
+  const initializedRef = useRef(false);
+  
+  // このブラウザの主催者が保存したテンプレート
+  const { data: templates } = useQuery<EventTemplate[]>({
+    queryKey: ['/api/templates'],
+    enabled: !isEditMode,
+  });
+  
+  const applyTemplate = (template: EventTemplate) => {
+    setTemplateId(template.id);
+    setTitle(template.title);
+    setDescription(template.description || '');
+    setPollType('dates');
+    setDefaultStartTime(template.defaultStartTime);
+    setDefaultEndTime(template.defaultEndTime);
+    setParticipants(template.participants.filter(name => name !== creatorName));
+    setTemplateMemo(template.memo || '');
+  };
+  
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      await apiRequest('DELETE', `/api/templates/${templateId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setTemplateId('');
+      setTemplateMemo('');
+      toast({
+        title: "テンプレートを削除しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "テンプレートの削除に失敗しました",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  useEffect(() => {
+    if (!event || initializedRef.current) return;
+    initializedRef.current = true;
+    
+    setTitle(event.title);
+    setDescription(event.description || '');
+    setCreatorName(event.creatorName);
+    setDefaultStartTime(event.defaultStartTime || '19:00');
+    setDefaultEndTime(event.defaultEndTime || '21:00');
+    setPollType(event.pollType);
+    setResponseDeadline(event.responseDeadline ? format(new Date(event.responseDeadline), "yyyy-MM-dd'T'HH:mm") : '');
+    setAutoFinalize(event.autoFinalize);
+    
+    const options = event.dateOptions.map(option => ({
+      id: option.id,
+      date: new Date(`${option.date}T00:00:00`),
+      useDefaultTime: option.startTime === event.defaultStartTime && option.endTime === event.defaultEndTime,
+      startTime: option.startTime,
+      endTime: option.endTime,
+    }));
+    setDateOptions(options);
+    setSelectedDates(options.map(option => option.date));
+  }, [event]);
+  
   // 日付選択時に自動的にDateOptions配列を更新
   const handleSelectDates = (dates: Date[] | undefined) => {
     if (!dates) return;
@@ -74,6 +190,20 @@ export default function CreateEvent() {
     setDateOptions(updatedDateOptions);
   };
   
+  // 繰り返しルールで生成した日を、選択済みの日（個別の時間設定を含む）に追加
+  const handleGenerateDates = (generated: GeneratedDate[]) => {
+    const selectedKeys = new Set(selectedDates.map(date => format(date, 'yyyy-MM-dd')));
+    const added = generated
+      .filter(({ date }) => !selectedKeys.has(date))
+      .map(({ date }) => new Date(`${date}T00:00:00`));
+    
+    handleSelectDates([...selectedDates, ...added].sort((a, b) => a.getTime() - b.getTime()));
+    toast({
+      title: added.length > 0 ? `${added.length}日を候補日に追加しました` : "追加する日はありませんでした",
+      description: added.length < generated.length ? "選択済みの日はそのまま残しています" : undefined,
+    });
+  };
+  
   // 個別の時間設定を更新
   const updateDateOption = (index: number, field: string, value: any) => {
     const updatedOptions = [...dateOptions];
@@ -90,52 +220,14 @@ export default function CreateEvent() {
       return response.json();
     },
     onSuccess: (data) => {
-      // 自分が作成したイベントの情報をlocalStorageに保存
-      try {
-        const storedMyEvents = localStorage.getItem('myCreatedEvents');
-        let myEvents: string[] = [];
-        
-        if (storedMyEvents) {
-          myEvents = JSON.parse(storedMyEvents);
-        }
-        
-        // 既に存在するかチェック
-        if (!myEvents.includes(data.id)) {
-          myEvents.push(data.id);
-          localStorage.setItem('myCreatedEvents', JSON.stringify(myEvents));
-        }
-        
-        // 参加イベントにも追加
-        const storedRecentEvents = localStorage.getItem('recentEvents');
-        let recentEvents: {id: string, title: string}[] = [];
-        
-        if (storedRecentEvents) {
-          recentEvents = JSON.parse(storedRecentEvents);
-        }
-        
-        // 既に存在する場合は削除（後で先頭に追加するため）
-        const existingIndex = recentEvents.findIndex(e => e.id === data.id);
-        if (existingIndex !== -1) {
-          recentEvents.splice(existingIndex, 1);
-        }
-        
-        // 先頭に追加
-        recentEvents.unshift({
-          id: data.id,
-          title: data.title || title
-        });
-        
-        // 最大10件まで保持
-        if (recentEvents.length > 10) {
-          recentEvents = recentEvents.slice(0, 10);
-        }
-        
-        // 保存
-        localStorage.setItem('recentEvents', JSON.stringify(recentEvents));
-      } catch (error) {
-        console.error('Failed to save event to localStorage:', error);
+      // 主催者用リンクのトークンを保存（セッションが切れた場合の再認証用）
+      if (data.organizerToken) {
+        storeEventToken(data.id, data.organizerToken);
       }
       
+      // マイイベントに追加される（サーバー側のプロフィールに記録済み）
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
+      
       toast({
         title: "予定を作成しました",
         description: "参加者に共有するためのリンクが生成されました",
@@ -151,9 +243,99 @@ export default function CreateEvent() {
     }
   });
   
+  // イベントの更新（基本情報の更新後、候補日の削除・追加を反映）
+  const updateEventMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PATCH', `/api/events/${id}`, {
+        title,
+        description,
+        defaultStartTime,
+        defaultEndTime,
+        responseDeadline: responseDeadline ? new Date(responseDeadline).toISOString() : null,
+        autoFinalize: !!responseDeadline && autoFinalize
+      });
+      
+      const keptIds = dateOptions.map(option => option.id).filter(Boolean);
+      const removedOptions = (event?.dateOptions || []).filter(option => !keptIds.includes(option.id));
+      for (const option of removedOptions) {
+        await apiRequest('DELETE', `/api/events/${id}/date-options/${option.id}`);
+      }
+      
+      const addedOptions = dateOptions.filter(option => !option.id);
+      for (const option of addedOptions) {
+        await apiRequest('POST', `/api/events/${id}/date-options`, {
+          date: format(option.date, 'yyyy-MM-dd'),
+          startTime: option.useDefaultTime ? undefined : option.startTime,
+          endTime: option.useDefaultTime ? undefined : option.endTime
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/attendances`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
+      toast({
+        title: "予定を更新しました",
+      });
+      navigate(`/event/${id}`);
+    },
+    onError: (error) => {
+      // 途中まで反映されている場合があるので再取得
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "予定の更新に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const deleteEventMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/events/${id}`);
+    },
+    onSuccess: () => {
+      removeEventToken(id!);
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
+      queryClient.removeQueries({ queryKey: [`/api/events/${id}`] });
+      toast({
+        title: "予定を削除しました",
+      });
+      navigate('/');
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "予定の削除に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (isEditMode) {
+      if (!title) {
+        toast({
+          title: "入力エラー",
+          description: "タイトルを入力してください",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (!isSlotPoll && dateOptions.length === 0) {
+        toast({
+          title: "入力エラー",
+          description: "日程を選択してください",
+          variant: "destructive"
+        });
+        return;
+      }
+      updateEventMutation.mutate();
+      return;
+    }
+    
     // 入力チェック
     if (!title || !creatorName) {
       toast({
@@ -164,8 +346,36 @@ export default function CreateEvent() {
       return;
     }
     
+    if (!isDateConfirmed && responseDeadline && new Date(responseDeadline) <= new Date()) {
+      toast({
+        title: "入力エラー",
+        description: "回答締切は現在より後の日時にしてください",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    // 時間帯グリッドは期間と1日の時間帯が必要
+    if (isSlotPoll) {
+      const gridError = !gridRange?.from
+        ? "期間を選択してください"
+        : differenceInCalendarDays(gridRange.to || gridRange.from, gridRange.from) + 1 > MAX_SLOT_GRID_DAYS
+          ? `期間は${MAX_SLOT_GRID_DAYS}日以内にしてください`
+          : defaultEndTime <= defaultStartTime
+            ? "時間帯の終了時刻は開始時刻より後にしてください"
+            : null;
+      if (gridError) {
+        toast({
+          title: "入力エラー",
+          description: gridError,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
     // 日程未選択チェック（確定済み日程か候補日程のいずれかが必要）
-    if (!isDateConfirmed && selectedDates.length === 0) {
+    if (!isSlotPoll && !isDateConfirmed && selectedDates.length === 0) {
       toast({
         title: "入力エラー",
         description: "日程を選択してください",
@@ -200,7 +410,27 @@ export default function CreateEvent() {
       participants: allParticipants
     };
     
-    if (isDateConfirmed && confirmedDate) {
+    if (templateMemo) {
+      eventData.memo = templateMemo;
+    }
+    
+    // 回答締切（日程が決まっている場合は不要）
+    if (!isDateConfirmed && responseDeadline) {
+      eventData.responseDeadline = new Date(responseDeadline).toISOString();
+      eventData.autoFinalize = autoFinalize;
+    }
+    
+    if (isSlotPoll && gridRange?.from) {
+      // 時間帯グリッドの場合（1日の時間帯はデフォルト時間の入力を使う）
+      eventData.pollType = 'slots';
+      eventData.slotGrid = {
+        startDate: format(gridRange.from, 'yyyy-MM-dd'),
+        endDate: format(gridRange.to || gridRange.from, 'yyyy-MM-dd'),
+        dayStartTime: defaultStartTime,
+        dayEndTime: defaultEndTime,
+        durationMinutes,
+      };
+    } else if (isDateConfirmed && confirmedDate) {
       // 確定済み日程の場合
       eventData.isDateConfirmed = true;
       eventData.selectedDate = format(confirmedDate, 'yyyy-MM-dd');
@@ -229,9 +459,56 @@ export default function CreateEvent() {
   
   return (
     <div className="max-w-4xl mx-auto">
-      <h1 className="text-2xl font-bold text-slate-800 mb-6">新しい予定を作成</h1>
+      <h1 className="text-2xl font-bold text-slate-800 mb-6">{isEditMode ? '予定を編集' : '新しい予定を作成'}</h1>
       
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* 保存したテンプレートから作成（定例の集まり向け） */}
+        {!isEditMode && templates && templates.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>テンプレートから作成</CardTitle>
+              <CardDescription>保存したテンプレートの内容をフォームに反映します</CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center gap-2">
+              <Select
+                value={templateId}
+                onValueChange={(value) => {
+                  const template = templates.find(t => t.id === value);
+                  if (template) applyTemplate(template);
+                }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="テンプレートを選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}（{template.defaultStartTime} - {template.defaultEndTime}）
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => deleteTemplateMutation.mutate(templateId)}
+                  disabled={deleteTemplateMutation.isPending}
+                >
+                  削除
+                </Button>
+              )}
+            </CardContent>
+            {templateMemo && (
+              <CardFooter className="text-xs text-slate-500">
+                テンプレートのメモもイベントに引き継がれます
+              </CardFooter>
+            )}
+          </Card>
+        )}
+        
         <Card>
           <CardHeader>
             <CardTitle>基本情報</CardTitle>
@@ -267,235 +544,423 @@ export default function CreateEvent() {
                 value={creatorName} 
                 onChange={(e) => setCreatorName(e.target.value)}
                 placeholder="例: 田中 健太" 
+                disabled={isEditMode}
                 required
               />
             </div>
             
-            <div className="space-y-2">
-              <Label>参加予定者</Label>
-              <div className="flex items-center gap-2">
-                <Input 
-                  value={newParticipant} 
-                  onChange={(e) => setNewParticipant(e.target.value)}
-                  placeholder="参加者名を入力" 
-                />
-                <Button 
-                  type="button" 
-                  variant="outline"
-                  onClick={() => {
-                    if (newParticipant.trim()) {
-                      setParticipants([...participants, newParticipant.trim()]);
-                      setNewParticipant('');
-                    }
-                  }}
-                >
-                  追加
-                </Button>
-              </div>
+            {!isEditMode && (
+              <div className="space-y-2">
+                <Label>参加予定者</Label>
+                <div className="flex items-center gap-2">
+                  <Input 
+                    value={newParticipant} 
+                    onChange={(e) => setNewParticipant(e.target.value)}
+                    placeholder="参加者名を入力" 
+                  />
+                  <Button 
+                    type="button" 
+                    variant="outline"
+                    onClick={() => {
+                      if (newParticipant.trim()) {
+                        setParticipants([...participants, newParticipant.trim()]);
+                        setNewParticipant('');
+                      }
+                    }}
+                  >
+                    追加
+                  </Button>
+                </div>
               
-              {participants.length > 0 && (
-                <div className="mt-2 bg-slate-50 p-3 rounded-md">
-                  <p className="text-sm text-slate-600 mb-2">参加予定者一覧:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {participants.map((participant, index) => (
-                      <div key={index} className="bg-white px-3 py-1 rounded border flex items-center gap-2">
-                        <span>{participant}</span>
-                        <button 
-                          type="button" 
-                          className="text-slate-400 hover:text-red-500"
-                          onClick={() => {
-                            const newList = [...participants];
-                            newList.splice(index, 1);
-                            setParticipants(newList);
-                          }}
-                        >
-                          ✕
-                        </button>
-                      </div>
-                    ))}
+                {participants.length > 0 && (
+                  <div className="mt-2 bg-slate-50 p-3 rounded-md">
+                    <p className="text-sm text-slate-600 mb-2">参加予定者一覧:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {participants.map((participant, index) => (
+                        <div key={index} className="bg-white px-3 py-1 rounded border flex items-center gap-2">
+                          <span>{participant}</span>
+                          <button 
+                            type="button" 
+                            className="text-slate-400 hover:text-red-500"
+                            onClick={() => {
+                              const newList = [...participants];
+                              newList.splice(index, 1);
+                              setParticipants(newList);
+                            }}
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2">※イベント作成時に参加者として登録されます</p>
                   </div>
-                  <p className="text-xs text-slate-500 mt-2">※イベント作成時に参加者として登録されます</p>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
         
         <Card>
           <CardHeader>
             <CardTitle>日程選択</CardTitle>
-            <CardDescription>候補日を選択してください</CardDescription>
+            <CardDescription>
+              {isSlotPoll ? '期間と1日の時間帯を選択してください' : '候補日を選択してください'}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex items-center space-x-2 mb-4 bg-sky-50 p-4 rounded-md border border-sky-100">
-              <Checkbox 
-                id="isDateConfirmed" 
-                checked={isDateConfirmed}
-                onCheckedChange={(checked) => {
-                  setIsDateConfirmed(checked as boolean);
-                  // 切り替え時にフォームをリセット
-                  if (checked) {
-                    setSelectedDates([]);
-                    setDateOptions([]);
-                  } else {
-                    setConfirmedDate(undefined);
-                  }
-                }}
-              />
-              <Label htmlFor="isDateConfirmed" className="text-base text-sky-900 font-medium">
-                日程はすでに決まっている
-              </Label>
-            </div>
-            
-            {isDateConfirmed ? (
-              // 確定日程の入力フォーム
-              <div className="bg-white rounded-md p-4 border">
-                <h3 className="font-medium mb-3 text-slate-800">確定している日程</h3>
-                <p className="text-sm text-slate-600 mb-4">イベントの日程が既に決まっている場合は、こちらで確定日を設定してください。</p>
-                
-                <div className="bg-white mb-4">
-                  <Calendar
-                    mode="single"
-                    selected={confirmedDate}
-                    onSelect={(date) => setConfirmedDate(date)}
-                    locale={ja}
-                    className="mx-auto"
-                  />
-                </div>
-                
-                {confirmedDate && (
-                  <div className="bg-green-50 p-3 rounded-md border border-green-100">
-                    <p className="text-green-800 font-medium">
-                      確定日: {confirmedDate && format(confirmedDate, 'yyyy年MM月dd日(EEE)', { locale: ja })}
-                    </p>
-                    <p className="text-sm text-green-700 mt-1">
-                      時間: {defaultStartTime} - {defaultEndTime}
-                    </p>
-                  </div>
-                )}
-              </div>
-            ) : (
-              // 通常の候補日選択
-              <div className="bg-white rounded-md p-2 border">
-                <Calendar
-                  mode="multiple"
-                  selected={selectedDates}
-                  onSelect={handleSelectDates as any}
-                  locale={ja}
-                  className="mx-auto"
-                />
+            {/* 日程調整の方式（作成後は変更できない） */}
+            {!isEditMode && (
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={isSlotPoll ? 'outline' : 'default'}
+                  onClick={() => {
+                    setPollType('dates');
+                    setDefaultStartTime('19:00');
+                    setDefaultEndTime('21:00');
+                  }}
+                >
+                  候補日から選ぶ
+                </Button>
+                <Button
+                  type="button"
+                  variant={isSlotPoll ? 'default' : 'outline'}
+                  onClick={() => {
+                    setPollType('slots');
+                    setIsDateConfirmed(false);
+                    setDefaultStartTime('10:00');
+                    setDefaultEndTime('18:00');
+                  }}
+                >
+                  時間帯グリッド（{SLOT_MINUTES}分単位）
+                </Button>
               </div>
             )}
             
-            <div className="space-y-4">
-              <div className="bg-slate-50 p-4 rounded-md">
-                <h3 className="font-medium mb-3 text-slate-800">デフォルト時間設定</h3>
-                <p className="text-sm text-slate-600 mb-4">
-                  {isDateConfirmed 
-                    ? "確定した日程に適用される時間を設定します" 
-                    : "すべての日程候補に適用される基本時間を設定します"}
+            {isSlotPoll ? (
+              isEditMode ? (
+                <p className="text-sm text-slate-500">
+                  時間帯グリッドの期間と時間帯は作成後に変更できません。
                 </p>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="defaultStartTime">
-                      {isDateConfirmed ? "開始時間" : "デフォルト開始時間"}
-                    </Label>
-                    <Input 
-                      id="defaultStartTime" 
-                      type="time"
-                      value={defaultStartTime} 
-                      onChange={(e) => setDefaultStartTime(e.target.value)}
-                      required
+              ) : (
+                <div className="space-y-4">
+                  <div className="bg-white rounded-md p-2 border">
+                    <Calendar
+                      mode="range"
+                      selected={gridRange}
+                      onSelect={setGridRange}
+                      locale={ja}
+                      className="mx-auto"
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="defaultEndTime">
-                      {isDateConfirmed ? "終了時間" : "デフォルト終了時間"}
+                  <p className="text-sm text-slate-600">
+                    {gridRange?.from
+                      ? `期間: ${format(gridRange.from, 'yyyy年MM月dd日(EEE)', { locale: ja })} 〜 ${format(gridRange.to || gridRange.from, 'MM月dd日(EEE)', { locale: ja })}`
+                      : `期間の開始日と終了日を選択してください（最大${MAX_SLOT_GRID_DAYS}日）`}
+                  </p>
+                  <div className="bg-slate-50 p-4 rounded-md space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="dayStartTime">1日の開始時刻</Label>
+                        <Input 
+                          id="dayStartTime" 
+                          type="time"
+                          step={SLOT_MINUTES * 60}
+                          value={defaultStartTime} 
+                          onChange={(e) => setDefaultStartTime(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="dayEndTime">1日の終了時刻</Label>
+                        <Input 
+                          id="dayEndTime" 
+                          type="time"
+                          step={SLOT_MINUTES * 60}
+                          value={defaultEndTime} 
+                          onChange={(e) => setDefaultEndTime(e.target.value)}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>開催時間</Label>
+                      <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DURATION_CHOICES.map((minutes) => (
+                            <SelectItem key={minutes} value={String(minutes)}>
+                              {minutes < 60 ? `${minutes}分` : `${minutes / 60}時間`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-500">
+                        この長さで、参加できる人が最も多い時間帯をおすすめします
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )
+            ) : (
+              <>
+                {isEditMode ? (
+                  <p className="text-sm text-slate-500">
+                    候補日を外すと、その日への回答も削除されます。登録済みの候補日の時間は変更できません。
+                  </p>
+                ) : (
+                  <div className="flex items-center space-x-2 mb-4 bg-sky-50 p-4 rounded-md border border-sky-100">
+                    <Checkbox 
+                      id="isDateConfirmed" 
+                      checked={isDateConfirmed}
+                      onCheckedChange={(checked) => {
+                        setIsDateConfirmed(checked as boolean);
+                        // 切り替え時にフォームをリセット
+                        if (checked) {
+                          setSelectedDates([]);
+                          setDateOptions([]);
+                        } else {
+                          setConfirmedDate(undefined);
+                        }
+                      }}
+                    />
+                    <Label htmlFor="isDateConfirmed" className="text-base text-sky-900 font-medium">
+                      日程はすでに決まっている
                     </Label>
-                    <Input 
-                      id="defaultEndTime" 
-                      type="time"
-                      value={defaultEndTime} 
-                      onChange={(e) => setDefaultEndTime(e.target.value)}
-                      required
+                  </div>
+                )}
+            
+                {isDateConfirmed ? (
+                  // 確定日程の入力フォーム
+                  <div className="bg-white rounded-md p-4 border">
+                    <h3 className="font-medium mb-3 text-slate-800">確定している日程</h3>
+                    <p className="text-sm text-slate-600 mb-4">イベントの日程が既に決まっている場合は、こちらで確定日を設定してください。</p>
+                
+                    <div className="bg-white mb-4">
+                      <Calendar
+                        mode="single"
+                        selected={confirmedDate}
+                        onSelect={(date) => setConfirmedDate(date)}
+                        locale={ja}
+                        className="mx-auto"
+                      />
+                    </div>
+                
+                    {confirmedDate && (
+                      <div className="bg-green-50 p-3 rounded-md border border-green-100">
+                        <p className="text-green-800 font-medium">
+                          確定日: {confirmedDate && format(confirmedDate, 'yyyy年MM月dd日(EEE)', { locale: ja })}
+                        </p>
+                        <p className="text-sm text-green-700 mt-1">
+                          時間: {defaultStartTime} - {defaultEndTime}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  // 通常の候補日選択
+                  <div className="bg-white rounded-md p-2 border">
+                    <Calendar
+                      mode="multiple"
+                      selected={selectedDates}
+                      onSelect={handleSelectDates as any}
+                      locale={ja}
+                      className="mx-auto"
+                      modifiers={{ holiday: (date) => !!japaneseHolidayName(format(date, 'yyyy-MM-dd')) }}
+                      modifiersClassNames={{ holiday: 'text-red-600' }}
                     />
+                    <div className="flex justify-center pt-2 border-t">
+                      <RecurringDatesDialog onGenerate={handleGenerateDates} />
+                    </div>
                   </div>
-                </div>
-              </div>
-              
-              {!isDateConfirmed && selectedDates.length > 0 && (
-                <div className="border rounded-md">
-                  <div className="p-4 border-b bg-slate-50">
-                    <h3 className="font-medium text-slate-800">選択された日程候補</h3>
+                )}
+            
+                <div className="space-y-4">
+                  <div className="bg-slate-50 p-4 rounded-md">
+                    <h3 className="font-medium mb-3 text-slate-800">デフォルト時間設定</h3>
+                    <p className="text-sm text-slate-600 mb-4">
+                      {isDateConfirmed 
+                        ? "確定した日程に適用される時間を設定します" 
+                        : "すべての日程候補に適用される基本時間を設定します"}
+                    </p>
+                
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="defaultStartTime">
+                          {isDateConfirmed ? "開始時間" : "デフォルト開始時間"}
+                        </Label>
+                        <Input 
+                          id="defaultStartTime" 
+                          type="time"
+                          value={defaultStartTime} 
+                          onChange={(e) => setDefaultStartTime(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="defaultEndTime">
+                          {isDateConfirmed ? "終了時間" : "デフォルト終了時間"}
+                        </Label>
+                        <Input 
+                          id="defaultEndTime" 
+                          type="time"
+                          value={defaultEndTime} 
+                          onChange={(e) => setDefaultEndTime(e.target.value)}
+                          required
+                        />
+                      </div>
+                    </div>
                   </div>
-                  <div className="p-4 space-y-4">
-                    {dateOptions.map((option, index) => (
-                      <div key={index} className="border-b pb-4 last:border-0 last:pb-0">
-                        <div className="flex flex-col space-y-3">
-                          <div className="flex items-center justify-between">
-                            <p className="font-medium">
-                              {format(option.date, 'yyyy年MM月dd日(EEE)', { locale: ja })}
-                            </p>
-                            <div className="flex items-center space-x-2">
-                              <Label htmlFor={`useDefault-${index}`} className="text-sm text-slate-600">
-                                デフォルト時間を使用
-                              </Label>
-                              <Switch 
-                                id={`useDefault-${index}`}
-                                checked={option.useDefaultTime}
-                                onCheckedChange={(checked) => updateDateOption(index, 'useDefaultTime', checked)}
-                              />
-                            </div>
-                          </div>
-                          
-                          {!option.useDefaultTime && (
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2 pl-5 border-l-2 border-slate-200">
-                              <div className="space-y-1">
-                                <Label htmlFor={`startTime-${index}`} className="text-sm">個別開始時間</Label>
-                                <Input 
-                                  id={`startTime-${index}`} 
-                                  type="time"
-                                  value={option.startTime || defaultStartTime}
-                                  onChange={(e) => updateDateOption(index, 'startTime', e.target.value)}
-                                  required
-                                />
+              
+                  {!isDateConfirmed && selectedDates.length > 0 && (
+                    <div className="border rounded-md">
+                      <div className="p-4 border-b bg-slate-50">
+                        <h3 className="font-medium text-slate-800">選択された日程候補</h3>
+                      </div>
+                      <div className="p-4 space-y-4">
+                        {dateOptions.map((option, index) => (
+                          <div key={index} className="border-b pb-4 last:border-0 last:pb-0">
+                            <div className="flex flex-col space-y-3">
+                              <div className="flex items-center justify-between">
+                                <p className="font-medium">
+                                  {format(option.date, 'yyyy年MM月dd日(EEE)', { locale: ja })}
+                                  {japaneseHolidayName(format(option.date, 'yyyy-MM-dd')) && (
+                                    <span className="ml-2 text-xs font-normal text-red-600">
+                                      祝日（{japaneseHolidayName(format(option.date, 'yyyy-MM-dd'))}）
+                                    </span>
+                                  )}
+                                </p>
+                                {!option.id && (
+                                  <div className="flex items-center space-x-2">
+                                    <Label htmlFor={`useDefault-${index}`} className="text-sm text-slate-600">
+                                      デフォルト時間を使用
+                                    </Label>
+                                    <Switch 
+                                      id={`useDefault-${index}`}
+                                      checked={option.useDefaultTime}
+                                      onCheckedChange={(checked) => updateDateOption(index, 'useDefaultTime', checked)}
+                                    />
+                                  </div>
+                                )}
                               </div>
-                              <div className="space-y-1">
-                                <Label htmlFor={`endTime-${index}`} className="text-sm">個別終了時間</Label>
-                                <Input 
-                                  id={`endTime-${index}`} 
-                                  type="time"
-                                  value={option.endTime || defaultEndTime}
-                                  onChange={(e) => updateDateOption(index, 'endTime', e.target.value)}
-                                  required
-                                />
+                          
+                              {!option.useDefaultTime && !option.id && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2 pl-5 border-l-2 border-slate-200">
+                                  <div className="space-y-1">
+                                    <Label htmlFor={`startTime-${index}`} className="text-sm">個別開始時間</Label>
+                                    <Input 
+                                      id={`startTime-${index}`} 
+                                      type="time"
+                                      value={option.startTime || defaultStartTime}
+                                      onChange={(e) => updateDateOption(index, 'startTime', e.target.value)}
+                                      required
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <Label htmlFor={`endTime-${index}`} className="text-sm">個別終了時間</Label>
+                                    <Input 
+                                      id={`endTime-${index}`} 
+                                      type="time"
+                                      value={option.endTime || defaultEndTime}
+                                      onChange={(e) => updateDateOption(index, 'endTime', e.target.value)}
+                                      required
+                                    />
+                                  </div>
+                                </div>
+                              )}
+                          
+                              <div className="text-slate-500 text-sm pl-2">
+                                {option.useDefaultTime ? (
+                                  <span>時間: {defaultStartTime} - {defaultEndTime} （デフォルト）</span>
+                                ) : (
+                                  <span>時間: {option.startTime || defaultStartTime} - {option.endTime || defaultEndTime}</span>
+                                )}
                               </div>
                             </div>
-                          )}
-                          
-                          <div className="text-slate-500 text-sm pl-2">
-                            {option.useDefaultTime ? (
-                              <span>時間: {defaultStartTime} - {defaultEndTime} （デフォルト）</span>
-                            ) : (
-                              <span>時間: {option.startTime || defaultStartTime} - {option.endTime || defaultEndTime}</span>
-                            )}
                           </div>
-                        </div>
+                        ))}
                       </div>
-                    ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+            
+            {/* 回答締切（日程が決まっている場合は表示しない） */}
+            {!isDateConfirmed && !event?.selectedDate && (
+              <div className="bg-white rounded-md p-4 border">
+                <h3 className="font-medium mb-3 text-slate-800">回答締切 (任意)</h3>
+                <p className="text-sm text-slate-600 mb-4">
+                  締切を過ぎると出欠の回答を受け付けなくなります。
+                </p>
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="responseDeadline"
+                      type="datetime-local"
+                      className="max-w-xs"
+                      value={responseDeadline}
+                      onChange={(e) => setResponseDeadline(e.target.value)}
+                    />
+                    {responseDeadline && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setResponseDeadline('')}>
+                        締切なし
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="autoFinalize"
+                      checked={autoFinalize}
+                      disabled={!responseDeadline}
+                      onCheckedChange={(checked) => setAutoFinalize(checked as boolean)}
+                    />
+                    <Label htmlFor="autoFinalize" className="text-sm text-slate-700">
+                      締切後に、最も参加しやすい日程で自動的に確定する
+                    </Label>
                   </div>
                 </div>
-              )}
-            </div>
+              </div>
+            )}
           </CardContent>
           <CardFooter className="flex justify-end space-x-4 border-t pt-4">
-            <Button variant="outline" type="button" onClick={() => navigate('/')}>キャンセル</Button>
+            {isEditMode && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" type="button" className="mr-auto text-red-600 hover:text-red-700 hover:bg-red-50">
+                    予定を削除
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>予定を削除しますか？</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      出欠の回答や支払いの記録もすべて削除されます。この操作は取り消せません。
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>キャンセル</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => deleteEventMutation.mutate()}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      削除する
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            <Button variant="outline" type="button" onClick={() => navigate(isEditMode ? `/event/${id}` : '/')}>キャンセル</Button>
             <Button 
               type="submit" 
-              disabled={createEventMutation.isPending}
+              disabled={createEventMutation.isPending || updateEventMutation.isPending}
             >
-              {createEventMutation.isPending ? (
+              {isEditMode ? (
+                updateEventMutation.isPending ? <>保存中...</> : <>変更を保存</>
+              ) : createEventMutation.isPending ? (
                 <>作成中...</>
               ) : (
                 <>予定を作成</>
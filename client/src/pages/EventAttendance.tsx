@@ -10,11 +10,22 @@ import {
   CardFooter
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Check, AlertCircle, Calendar, Clock, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useEventIdentity, storeEventToken } from '@/hooks/use-event-identity';
 import IdentificationDialog from '@/components/IdentificationDialog';
-import { Event, DateOption } from '@shared/schema';
+import BusyTimeImport from '@/components/BusyTimeImport';
+import SlotGridPicker from '@/components/SlotGridPicker';
+import ResponseComments, { collectResponseComments } from '@/components/ResponseComments';
+import DeadlineCountdown from '@/components/DeadlineCountdown';
+import { Event, DateOption, Attendance, AttendanceSuggestion } from '@shared/schema';
+import type { SlotPollResult } from '@shared/slot-grid';
+import { isResponseClosed } from '@shared/deadline';
+import { MAX_GUESTS } from '@shared/headcount';
 import { apiRequest } from '@/lib/queryClient';
 import { formatDate } from '@/lib/utils';
 
@@ -23,6 +34,8 @@ type AttendanceStatus = 'available' | 'maybe' | 'unavailable';
 interface DateResponse {
   dateOptionId: string;
   status: AttendanceStatus;
+  comment?: string; // 候補日ごとの補足（任意）
+  guestCount?: number | null; // この日だけ同伴者の人数が違う場合（未設定なら全体の人数）
 }
 
 export default function EventAttendance() {
@@ -36,12 +49,22 @@ export default function EventAttendance() {
   const [participantName, setParticipantName] = useState<string>('');
   const [responses, setResponses] = useState<DateResponse[]>([]);
   const [attendances, setAttendances] = useState<{id: string, name: string}[]>([]);
+  // カレンダーから読み込んだ、各日程と重なる予定
+  const [busyNotes, setBusyNotes] = useState<Record<string, AttendanceSuggestion['conflicts']>>({});
+  // 時間帯グリッドで参加できるコマ
+  const [slots, setSlots] = useState<string[]>([]);
+  // 全体への一言（任意）と同伴者の人数
+  const [note, setNote] = useState('');
+  const [guestCount, setGuestCount] = useState(0);
+  
+  // このブラウザの役割（参加用リンクで認証済みならその名前で回答する）
+  const { identity, isOrganizer } = useEventIdentity(id);
   
   const { data: event, isLoading: eventLoading } = useQuery<Event>({
     queryKey: [`/api/events/${id}`],
   });
   
-  const { data: attendancesList, isLoading: attendancesLoading } = useQuery<any[]>({
+  const { data: attendancesList, isLoading: attendancesLoading } = useQuery<Attendance[]>({
     queryKey: [`/api/events/${id}/attendances`],
   });
   
@@ -55,6 +78,13 @@ export default function EventAttendance() {
     }
   }, [attendancesList]);
   
+  // 時間帯グリッドのイベントは、登録済みの参加者のコマを読み込むために回答状況も取得する
+  const isSlotPoll = event?.pollType === 'slots';
+  const { data: slotPoll } = useQuery<SlotPollResult>({
+    queryKey: [`/api/events/${id}/slots`],
+    enabled: isSlotPoll,
+  });
+  
   const isLoading = eventLoading || attendancesLoading;
   
   // Set default responses when event data loads
@@ -70,7 +100,12 @@ export default function EventAttendance() {
   }, [event?.dateOptions]);
   
   const submitAttendanceMutation = useMutation({
-    mutationFn: async (data: { name: string; responses?: DateResponse[] }) => {
+    mutationFn: async (data: { name: string; responses?: DateResponse[]; slots?: string[]; note?: string; guestCount?: number }) => {
+      // 確定済みの時間帯グリッドは名前だけで登録する
+      if (event?.selectedDate && event.pollType === 'slots') {
+        const response = await apiRequest('POST', `/api/events/${id}/attendances`, { name: data.name });
+        return response.json();
+      }
       // 確定済み日程の場合（既に決まっている場合）
       if (event?.selectedDate) {
         // ダミーの回答を作成（APIは必ず回答が必要なため）
@@ -87,7 +122,10 @@ export default function EventAttendance() {
         // 通常の候補日選択の場合
         const response = await apiRequest('POST', `/api/events/${id}/attendances`, {
           name: data.name,
-          responses: data.responses || []
+          responses: data.responses || [],
+          slots: data.slots,
+          note: data.note,
+          guestCount: data.guestCount
         });
         return response.json();
       }
@@ -96,31 +134,13 @@ export default function EventAttendance() {
       setParticipantId(data.id);
       setParticipantName(data.name);
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/attendances`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/slots`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/me`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
       
-      // Store event info in localStorage for the Home page
-      try {
-        const storedEvents = localStorage.getItem('recentEvents');
-        const recentEvents = storedEvents ? JSON.parse(storedEvents) : [];
-        
-        // Add or update this event
-        const eventIndex = recentEvents.findIndex(
-          (e: any) => e.id === id
-        );
-        
-        if (eventIndex === -1) {
-          // Add new event to recent list
-          recentEvents.push({
-            id,
-            title: event?.title || "イベント"
-          });
-        }
-        
-        // Save back to localStorage with 20 most recent events
-        localStorage.setItem('recentEvents', JSON.stringify(
-          recentEvents.slice(-20)
-        ));
-      } catch (error) {
-        console.error('Failed to save recent event to localStorage:', error);
+      // 参加用リンクのトークンを保存（主催者が代理で登録した場合は主催者のまま）
+      if (data.participantToken && !isOrganizer && id) {
+        storeEventToken(id, data.participantToken);
       }
       
       const isConfirmedEvent = event?.selectedDate ? true : false;
@@ -149,20 +169,36 @@ export default function EventAttendance() {
     
     submitAttendanceMutation.mutate({
       name,
-      responses
+      responses,
+      slots: isSlotPoll ? slots : undefined,
+      note,
+      guestCount
     });
   };
   
-  const updateResponse = (dateOptionId: string, status: AttendanceStatus) => {
+  const updateResponse = (dateOptionId: string, changes: Partial<Omit<DateResponse, 'dateOptionId'>>) => {
     setResponses(prev => 
       prev.map(response => 
         response.dateOptionId === dateOptionId 
-          ? { ...response, status } 
+          ? { ...response, ...changes } 
           : response
       )
     );
   };
-  
+
+  // カレンダーから作った回答案を反映する（送信前に手で修正できる）
+  const applySuggestions = (suggestions: AttendanceSuggestion[]) => {
+    setResponses(prev =>
+      prev.map(response => {
+        const suggestion = suggestions.find(s => s.dateOptionId === response.dateOptionId);
+        return suggestion ? { ...response, status: suggestion.status } : response;
+      })
+    );
+    setBusyNotes(Object.fromEntries(
+      suggestions.map(suggestion => [suggestion.dateOptionId, suggestion.conflicts])
+    ));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -174,7 +210,10 @@ export default function EventAttendance() {
     // If we already have a participant ID, we're updating
     submitAttendanceMutation.mutate({
       name: participantName,
-      responses
+      responses,
+      slots: isSlotPoll ? slots : undefined,
+      note,
+      guestCount
     });
   };
   
@@ -286,23 +325,30 @@ export default function EventAttendance() {
                 <div>
                   <div className="mb-4">
                     <h3 className="font-medium mb-2">登録済み参加者</h3>
+                    {/* 登録済みの名前は本人（参加用リンクで認証済み）のみ選択できる */}
                     <div className="flex flex-wrap gap-2">
-                      {attendances.map((attendance) => (
-                        <Button 
-                          key={attendance.id} 
-                          variant="outline"
-                          className="hover:bg-primary/10"
-                          onClick={() => {
-                            setParticipantId(attendance.id);
-                            setParticipantName(attendance.name);
-                            
-                            // 参加者選択時の自動トーストメッセージを非表示
-                          }}
-                        >
-                          {attendance.name}
-                        </Button>
-                      ))}
+                      {attendances
+                        .filter(attendance => attendance.name === identity?.name)
+                        .map((attendance) => (
+                          <Button 
+                            key={attendance.id} 
+                            variant="outline"
+                            className="hover:bg-primary/10"
+                            onClick={() => {
+                              setParticipantId(attendance.id);
+                              setParticipantName(attendance.name);
+                              
+                              // 参加者選択時の自動トーストメッセージを非表示
+                            }}
+                          >
+                            {attendance.name}
+                          </Button>
+                        ))}
                     </div>
+                    <p className="text-slate-500 text-sm mt-2">
+                      {attendances.map(attendance => attendance.name).join('、')}
+                      {!identity && ' ・ 登録済みの方はご本人の参加用リンクから開いてください'}
+                    </p>
                   </div>
                   <div className="flex items-center my-4">
                     <div className="flex-grow border-t border-slate-200"></div>
@@ -339,15 +385,33 @@ export default function EventAttendance() {
           onClose={() => setIsIdentificationOpen(false)}
           eventId={id || ''}
           onIdentify={handleIdentify}
+          identityName={identity?.name}
         />
       </div>
     );
   }
   
+  // 回答締切を過ぎている場合は回答できない
+  const responseClosed = isResponseClosed(event);
+  
   return (
     <div className="max-w-4xl mx-auto">
       <h1 className="text-2xl font-bold text-slate-800 mb-6">{event.title}</h1>
       
+      {responseClosed ? (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>回答を締め切りました</AlertTitle>
+          <AlertDescription>
+            回答の締切を過ぎているため、出欠の回答や変更はできません。
+          </AlertDescription>
+        </Alert>
+      ) : event.responseDeadline && (
+        <div className="mb-6">
+          <DeadlineCountdown deadline={event.responseDeadline} autoFinalize={event.autoFinalize} />
+        </div>
+      )}
+      
       {participantId ? (
         <>
           <Alert className="mb-6 bg-green-50 border-green-200 text-green-800">
@@ -385,7 +449,9 @@ export default function EventAttendance() {
             <AlertCircle className="h-4 w-4" />
             <AlertTitle>出欠回答</AlertTitle>
             <AlertDescription>
-              以下の候補日から参加可能な日程を選択してください。
+              {isSlotPoll
+                ? '以下のグリッドで参加できる時間帯を塗ってください。'
+                : '以下の候補日から参加可能な日程を選択してください。'}
             </AlertDescription>
           </Alert>
           
@@ -411,14 +477,25 @@ export default function EventAttendance() {
                             setParticipantId(attendance.id);
                             setParticipantName(attendance.name);
                             
-                            // 既存の回答があればロード
                             const existing = attendancesList?.find(a => a.id === attendance.id);
+                            setNote(existing?.note || '');
+                            setGuestCount(existing?.guestCount || 0);
+                            
+                            // 時間帯グリッドは登録済みのコマをロード
+                            const existingSlots = slotPoll?.availabilities.find(a => a.attendanceId === attendance.id);
+                            if (existingSlots) {
+                              setSlots(existingSlots.slots);
+                            }
+                            
+                            // 既存の回答があればロード
                             if (existing && existing.responses && existing.responses.length > 0) {
                               // 既存の回答をロード
                               setResponses(
-                                existing.responses.map((resp: any) => ({
+                                existing.responses.map(resp => ({
                                   dateOptionId: resp.dateOptionId,
-                                  status: resp.status as AttendanceStatus
+                                  status: resp.status as AttendanceStatus,
+                                  comment: resp.comment || '',
+                                  guestCount: resp.guestCount
                                 }))
                               );
                             }
@@ -455,59 +532,147 @@ export default function EventAttendance() {
       
       <form onSubmit={handleSubmit}>
         <Card>
-          <CardHeader>
-            <CardTitle>日程候補</CardTitle>
-            <CardDescription>
-              それぞれの日程について、参加可能かどうかを選択してください。
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {event.dateOptions.map((option: DateOption) => {
-              const response = responses.find(r => r.dateOptionId === option.id);
-              const status = response?.status || 'unavailable';
+          {isSlotPoll && event.slotGrid ? (
+            <>
+              <CardHeader>
+                <CardTitle>参加できる時間帯</CardTitle>
+                <CardDescription>
+                  ドラッグして参加できる時間帯を塗ってください。塗った場所をもう一度ドラッグすると消せます。
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SlotGridPicker grid={event.slotGrid} value={slots} onChange={setSlots} />
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1.5">
+                    <CardTitle>日程候補</CardTitle>
+                    <CardDescription>
+                      それぞれの日程について、参加可能かどうかを選択してください。
+                    </CardDescription>
+                  </div>
+                  <BusyTimeImport
+                    eventId={id || ''}
+                    dateOptions={event.dateOptions}
+                    onApply={applySuggestions}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {event.dateOptions.map((option: DateOption) => {
+                  const response = responses.find(r => r.dateOptionId === option.id);
+                  const status = response?.status || 'unavailable';
               
-              return (
-                <div 
-                  key={option.id} 
-                  className="p-4 border rounded-lg"
-                >
-                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-                    <div>
-                      <p className="font-medium">
-                        {formatDate(new Date(option.date))}
-                      </p>
-                      <p className="text-slate-500 text-sm">
-                        {option.startTime} - {option.endTime}
-                      </p>
-                    </div>
+                  return (
+                    <div 
+                      key={option.id} 
+                      className="p-4 border rounded-lg"
+                    >
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <div>
+                          <p className="font-medium">
+                            {formatDate(new Date(option.date))}
+                          </p>
+                          <p className="text-slate-500 text-sm">
+                            {option.startTime} - {option.endTime}
+                          </p>
+                        </div>
                     
-                    <div className="flex space-x-2">
-                      <button
-                        type="button"
-                        className={`availability-button ${status === 'available' ? 'active available' : 'bg-slate-100 text-slate-800'}`}
-                        onClick={() => updateResponse(option.id, 'available')}
-                      >
-                        ◯
-                      </button>
-                      <button
-                        type="button"
-                        className={`availability-button ${status === 'maybe' ? 'active maybe' : 'bg-slate-100 text-slate-800'}`}
-                        onClick={() => updateResponse(option.id, 'maybe')}
-                      >
-                        △
-                      </button>
-                      <button
-                        type="button"
-                        className={`availability-button ${status === 'unavailable' ? 'active unavailable' : 'bg-slate-100 text-slate-800'}`}
-                        onClick={() => updateResponse(option.id, 'unavailable')}
-                      >
-                        ×
-                      </button>
+                        <div className="flex space-x-2">
+                          <button
+                            type="button"
+                            className={`availability-button ${status === 'available' ? 'active available' : 'bg-slate-100 text-slate-800'}`}
+                            onClick={() => updateResponse(option.id, { status: 'available' })}
+                          >
+                            ◯
+                          </button>
+                          <button
+                            type="button"
+                            className={`availability-button ${status === 'maybe' ? 'active maybe' : 'bg-slate-100 text-slate-800'}`}
+                            onClick={() => updateResponse(option.id, { status: 'maybe' })}
+                          >
+                            △
+                          </button>
+                          <button
+                            type="button"
+                            className={`availability-button ${status === 'unavailable' ? 'active unavailable' : 'bg-slate-100 text-slate-800'}`}
+                            onClick={() => updateResponse(option.id, { status: 'unavailable' })}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      </div>
+                      <div className="mt-3 flex items-center gap-3">
+                        <Input
+                          value={response?.comment || ''}
+                          onChange={(e) => updateResponse(option.id, { comment: e.target.value })}
+                          placeholder="補足（任意）例: 20時以降なら参加できます"
+                          maxLength={200}
+                          className="h-8 text-sm"
+                        />
+                        {/* この日だけ同伴者の人数が違う場合（空欄なら全体の人数） */}
+                        {status !== 'unavailable' && (
+                          <div className="flex items-center gap-1 shrink-0">
+                            <Label htmlFor={`guests-${option.id}`} className="text-xs text-slate-500">同伴</Label>
+                            <Input
+                              id={`guests-${option.id}`}
+                              type="number"
+                              min={0}
+                              max={MAX_GUESTS}
+                              value={response?.guestCount ?? ''}
+                              placeholder={String(guestCount)}
+                              onChange={(e) => updateResponse(option.id, {
+                                guestCount: e.target.value === '' ? null : Math.min(MAX_GUESTS, Math.max(0, Number(e.target.value)))
+                              })}
+                              className="h-8 w-16 text-sm"
+                            />
+                          </div>
+                        )}
+                        {/* 他の参加者のコメント */}
+                        <ResponseComments
+                          comments={collectResponseComments(
+                            (attendancesList || []).filter(a => a.id !== participantId),
+                            option.id
+                          )}
+                        />
+                      </div>
+                      {busyNotes[option.id]?.length > 0 && (
+                        <p className="mt-2 text-xs text-slate-500">
+                          カレンダーの予定：{busyNotes[option.id].map(conflict => conflict.summary || '（件名なし）').join('、')}
+                        </p>
+                      )}
                     </div>
-                  </div>
-                </div>
-              );
-            })}
+                  );
+                })}
+              </CardContent>
+            </>
+          )}
+          <CardContent className="border-t pt-4 space-y-2">
+            <div className="flex items-center gap-2 pb-2">
+              <Label htmlFor="guestCount">同伴者</Label>
+              <Input
+                id="guestCount"
+                type="number"
+                min={0}
+                max={MAX_GUESTS}
+                value={guestCount}
+                onChange={(e) => setGuestCount(Math.min(MAX_GUESTS, Math.max(0, Number(e.target.value) || 0)))}
+                className="h-8 w-20"
+              />
+              <span className="text-sm text-slate-500">人（ご自身を除く。家族や友人を連れてくる場合）</span>
+            </div>
+            <Label htmlFor="note">ひとこと (任意)</Label>
+            <Textarea
+              id="note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="例: 少し遅れて参加します"
+              maxLength={1000}
+              rows={2}
+            />
           </CardContent>
           <CardFooter className="flex justify-between">
             <Button 
@@ -519,7 +684,7 @@ export default function EventAttendance() {
             </Button>
             <Button 
               type="submit"
-              disabled={submitAttendanceMutation.isPending}
+              disabled={submitAttendanceMutation.isPending || responseClosed}
             >
               {submitAttendanceMutation.isPending ? '送信中...' : '回答を送信'}
             </Button>
@@ -532,6 +697,7 @@ export default function EventAttendance() {
         onClose={() => setIsIdentificationOpen(false)}
         eventId={id || ''}
         onIdentify={handleIdentify}
+        identityName={identity?.name}
       />
     </div>
   );
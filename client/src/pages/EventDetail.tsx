@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams, useLocation } from 'wouter';
 import { 
@@ -19,12 +19,37 @@ import {
   Calculator,
   Check,
   Loader2,
-  BookmarkPlus
+  BookmarkPlus,
+  KeyRound,
+  Link as LinkIcon,
+  Pencil,
+  Trash2,
+  Merge,
+  Star,
+  Sparkles,
+  MessageSquare
 } from 'lucide-react';
 import EventMemo from '@/components/EventMemo';
+import EventComments from '@/components/EventComments';
+import MemoAssignmentsCard from '@/components/MemoAssignmentsCard';
+import MemberManageDialog, { type MemberManageMode } from '@/components/MemberManageDialog';
+import CalendarExportButton from '@/components/CalendarExportButton';
+import DuplicateEventDialog from '@/components/DuplicateEventDialog';
+import SaveTemplateDialog from '@/components/SaveTemplateDialog';
 import { useToast } from '@/hooks/use-toast';
+import { useEventIdentity, getEventToken, eventLinkUrl } from '@/hooks/use-event-identity';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { useEventMembers } from '@/hooks/use-event-members';
+import { useEventComments } from '@/hooks/use-event-comments';
 import IdentificationDialog from '@/components/IdentificationDialog';
-import { Event, Attendance, Expense } from '@shared/schema';
+import { Event, Attendance, EventMember } from '@shared/schema';
+import type { DateRanking } from '@shared/date-ranking';
+import { blockAvailability, minutesToTime, timeToMinutes, type SlotBlock, type SlotPollResult } from '@shared/slot-grid';
+import SlotHeatmap from '@/components/SlotHeatmap';
+import DeadlineCountdown from '@/components/DeadlineCountdown';
+import ResponseComments, { collectResponseComments } from '@/components/ResponseComments';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { attendanceHeadcount, responseHeadcount } from '@shared/headcount';
 import { apiRequest } from '@/lib/queryClient';
 import { formatDate } from '@/lib/utils';
 
@@ -35,119 +60,67 @@ export default function EventDetail() {
   const queryClient = useQueryClient();
   
   const [isIdentificationOpen, setIsIdentificationOpen] = useState(false);
-  const [allParticipants, setAllParticipants] = useState<string[]>([]);
+  
+  // このブラウザの役割（主催者・参加者）
+  const { identity, isOrganizer } = useEventIdentity(id);
+  
+  // リアルタイム更新に接続中はポーリングしない
+  const isLive = useLiveUpdates(id);
+  const pollInterval = isLive ? false : 5000;
   
   const { data: event, isLoading, refetch: refetchEvent } = useQuery<Event>({
     queryKey: [`/api/events/${id}`],
-    refetchInterval: 5000, // 5秒ごとに再取得（参加者変更が反映されるように）
+    refetchInterval: pollInterval, // 未接続時は5秒ごとに再取得（参加者変更が反映されるように）
   });
   
   const { data: attendances, refetch: refetchAttendances } = useQuery<Attendance[]>({
     queryKey: [`/api/events/${id}/attendances`],
     enabled: !!event,
-    refetchInterval: 5000, // 5秒ごとに再取得
+    refetchInterval: pollInterval,
   });
   
-  // 費用精算で追加された参加者を取得するためのクエリ
-  const { data: expenses, refetch: refetchExpenses } = useQuery<Expense[]>({
-    queryKey: [`/api/events/${id}/expenses`],
-    enabled: !!event && !!event.selectedDate,
-    refetchInterval: 5000, // 5秒ごとに再取得
+  // 出欠の回答から評価した候補日の順位（日程の確定前のみ）
+  const { data: dateRanking } = useQuery<DateRanking>({
+    queryKey: [`/api/events/${id}/date-ranking`],
+    enabled: !!event && !event.selectedDate && event.pollType === 'dates',
+    refetchInterval: pollInterval,
   });
   
-  // 全参加者リストを構築（出席情報+経費情報+イベント作成者から）
-  useEffect(() => {
-    if (event) {
-      const participants: string[] = [];
-      
-      // イベント作成者を追加
-      if (event.creatorName && !participants.includes(event.creatorName)) {
-        participants.push(event.creatorName);
-      }
-      
-      // イベントの参加者フィールドを追加（費用精算で追加された人を含む）
-      if (event.participants && Array.isArray(event.participants)) {
-        event.participants.forEach((name: string) => {
-          if (!participants.includes(name)) {
-            participants.push(name);
-          }
-        });
-      }
-      
-      // 出席回答者を追加
-      if (attendances) {
-        attendances.forEach(attendance => {
-          if (!participants.includes(attendance.name)) {
-            participants.push(attendance.name);
-          }
-        });
-      }
-      
-      // 支出記録から支払者を追加
-      if (expenses) {
-        expenses.forEach(expense => {
-          if (!participants.includes(expense.payerName)) {
-            participants.push(expense.payerName);
-          }
-          
-          // 支出の参加者も追加
-          if (expense.participants && Array.isArray(expense.participants)) {
-            expense.participants.forEach((name: string) => {
-              if (!participants.includes(name)) {
-                participants.push(name);
-              }
-            });
-          }
-        });
-      }
-      
-      // 参加者リストを更新
-      setAllParticipants(participants);
-      console.log("全参加者リスト更新:", participants);
-    }
-  }, [event, attendances, expenses]);
+  // 時間帯グリッドの回答状況と、確定候補の開始コマ（未選択ならおすすめの時間帯）
+  const { data: slotPoll } = useQuery<SlotPollResult>({
+    queryKey: [`/api/events/${id}/slots`],
+    enabled: !!event && !event.selectedDate && event.pollType === 'slots',
+    refetchInterval: pollInterval,
+  });
+  const [selectedSlotStart, setSelectedSlotStart] = useState<string | null>(null);
+  const slotStart = selectedSlotStart
+    ?? (slotPoll?.bestBlock ? `${slotPoll.bestBlock.date}T${slotPoll.bestBlock.startTime}` : null);
+  const selectedSlotBlock: SlotBlock | null = slotPoll && slotStart ? (() => {
+    const [date, startTime] = slotStart.split('T');
+    return {
+      date,
+      startTime,
+      endTime: minutesToTime(timeToMinutes(startTime) + slotPoll.grid.durationMinutes),
+      available: blockAvailability(slotPoll.availabilities, date, startTime, slotPoll.grid.durationMinutes),
+    };
+  })() : null;
   
-  // イベントが読み込まれたら、ローカルストレージに保存して「参加中のイベント」として追跡
+  // 参加者名簿（イベント作成者・出欠回答者・費用精算で追加された人）
+  const { activeMembers } = useEventMembers(id, pollInterval);
+  
+  const [activeTab, setActiveTab] = useState('schedule');
+  // コメントタブを開いている間に届いたコメントは既読にする
+  const { comments, isLoading: isCommentsLoading, unreadCount, lastSeenId, markSeen } = useEventComments(id, pollInterval);
   useEffect(() => {
-    if (event) {
-      try {
-        // 既存の参加中イベントを取得
-        const storedEvents = localStorage.getItem('recentEvents');
-        let recentEvents: {id: string, title: string}[] = [];
-        
-        if (storedEvents) {
-          recentEvents = JSON.parse(storedEvents);
-        }
-        
-        // 既に存在するかチェック
-        const existingIndex = recentEvents.findIndex(e => e.id === id);
-        if (existingIndex !== -1) {
-          // 既に存在する場合は削除（後で先頭に追加するため）
-          recentEvents.splice(existingIndex, 1);
-        }
-        
-        // 先頭に追加
-        recentEvents.unshift({
-          id: id || '',
-          title: event.title
-        });
-        
-        // 最大10件まで保持
-        if (recentEvents.length > 10) {
-          recentEvents = recentEvents.slice(0, 10);
-        }
-        
-        // 保存
-        localStorage.setItem('recentEvents', JSON.stringify(recentEvents));
-      } catch (error) {
-        console.error('Failed to save recent events to localStorage:', error);
-      }
-    }
-  }, [event, id]);
+    if (activeTab === 'comments') markSeen();
+  }, [activeTab, markSeen]);
+  // 名前変更・統合の対象（主催者のみ）
+  const [managedMember, setManagedMember] = useState<{ member: EventMember; mode: MemberManageMode } | null>(null);
   
+  // 候補日の方式は候補日ID、時間帯グリッドは時間帯で確定する
   const finalizeEventMutation = useMutation({
-    mutationFn: async (dateOptionId: string) => {
-      const response = await apiRequest('POST', `/api/events/${id}/finalize`, { dateOptionId });
+    mutationFn: async (selection: { dateOptionId: string } | Pick<SlotBlock, 'date' | 'startTime' | 'endTime'>) => {
+      const response = await apiRequest('POST', `/api/events/${id}/finalize`, selection);
       return response.json();
     },
     onSuccess: () => {
@@ -165,12 +138,32 @@ export default function EventDetail() {
     }
   });
   
+  // 必須参加者の設定（主催者のみ）
+  const requiredMemberMutation = useMutation({
+    mutationFn: async ({ memberId, required }: { memberId: string; required: boolean }) => {
+      const response = await apiRequest('PUT', `/api/events/${id}/members/${memberId}/required`, { required });
+      return response.json();
+    },
+    onSuccess: (_, { required }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/members`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/date-ranking`] });
+      toast({
+        title: required ? "必須参加者に設定しました" : "必須参加者の設定を解除しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "必須参加者の設定に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // 日程確定キャンセルのミューテーション
   const cancelFinalizationMutation = useMutation({
     mutationFn: async () => {
-      // クリエイター名を取得（ローカルストレージなどから）
-      const creatorName = event?.creatorName || '';
-      const response = await apiRequest('POST', `/api/events/${id}/cancel-finalization`, { creatorName });
+      const response = await apiRequest('POST', `/api/events/${id}/cancel-finalization`);
       return response.json();
     },
     onSuccess: () => {
@@ -198,10 +191,74 @@ export default function EventDetail() {
     });
   };
   
+  // 主催者用リンクをコピー（このブラウザに保存されたトークンから作成）
+  const copyOrganizerLink = () => {
+    const token = id ? getEventToken(id) : undefined;
+    if (!token) {
+      toast({
+        title: "主催者用リンクが見つかりません",
+        description: "イベントを作成したブラウザからコピーしてください",
+        variant: "destructive",
+      });
+      return;
+    }
+    navigator.clipboard.writeText(eventLinkUrl(id!, token));
+    toast({
+      title: "主催者用リンクをコピーしました",
+      description: "他の人には共有しないでください",
+    });
+  };
+  
+  // 参加者ごとの参加用リンクを発行してコピー（主催者のみ、出欠を登録していないメンバーにも発行できる）
+  const copyParticipantLinkMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const response = await apiRequest('POST', `/api/events/${id}/members/${memberId}/link`);
+      return response.json();
+    },
+    onSuccess: (data: { token: string }) => {
+      navigator.clipboard.writeText(eventLinkUrl(id!, data.token));
+      toast({
+        title: "参加用リンクをコピーしました",
+        description: "ご本人に共有してください",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "参加用リンクの発行に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // 参加者の削除（主催者のみ、回答も削除される）
+  const deleteAttendanceMutation = useMutation({
+    mutationFn: async (attendanceId: string) => {
+      await apiRequest('DELETE', `/api/events/${id}/attendances/${attendanceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/attendances`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/members`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses`] });
+      toast({
+        title: "参加者を削除しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "参加者の削除に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
   const handleIdentify = (name: string) => {
     navigate(`/event/${id}/attendance`);
   };
   
+  // 候補日ごとの人数（同伴者を含む）
   const calculateAvailability = (dateOptionId: string) => {
     if (!attendances) return { available: 0, maybe: 0, unavailable: 0 };
     
@@ -209,15 +266,16 @@ export default function EventDetail() {
       (acc, attendance) => {
         const response = attendance.responses.find(r => r.dateOptionId === dateOptionId);
         if (response) {
+          const heads = responseHeadcount(attendance, response);
           switch(response.status) {
             case 'available':
-              acc.available++;
+              acc.available += heads;
               break;
             case 'maybe':
-              acc.maybe++;
+              acc.maybe += heads;
               break;
             case 'unavailable':
-              acc.unavailable++;
+              acc.unavailable += heads;
               break;
           }
         }
@@ -229,6 +287,9 @@ export default function EventDetail() {
     return results;
   };
   
+  // 回答した人数（同伴者を含む）
+  const totalHeadcount = (attendances || []).reduce((sum, attendance) => sum + attendanceHeadcount(attendance), 0);
+  
   if (isLoading) {
     return (
       <div className="h-80 flex items-center justify-center">
@@ -262,9 +323,30 @@ export default function EventDetail() {
           <h1 className="text-2xl font-bold text-slate-800">{event.title}</h1>
         </div>
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
-          <p className="text-slate-500">作成者: {event.creatorName}</p>
+          <div>
+            <p className="text-slate-500">作成者: {event.creatorName}</p>
+            {identity && (
+              <p className="text-xs text-slate-400 mt-0.5">
+                {identity.name}さんとして{isOrganizer ? '主催者で' : ''}参加中
+              </p>
+            )}
+          </div>
           
-          <div className="flex gap-2 mt-4 md:mt-0">
+          <div className="flex flex-wrap gap-2 mt-4 md:mt-0">
+            {isOrganizer && (
+              <>
+                <Button variant="outline" onClick={() => navigate(`/event/${id}/edit`)} className="flex items-center gap-2">
+                  <Pencil className="h-4 w-4" />
+                  編集
+                </Button>
+                <Button variant="outline" onClick={copyOrganizerLink} className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  主催者用リンク
+                </Button>
+                <DuplicateEventDialog event={event} />
+                <SaveTemplateDialog event={event} />
+              </>
+            )}
             <Button variant="outline" onClick={copyUrlToClipboard} className="flex items-center gap-2">
               <Share2 className="h-4 w-4" />
               共有
@@ -288,7 +370,7 @@ export default function EventDetail() {
         </Card>
       )}
       
-      <Tabs defaultValue="schedule">
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="mb-4">
           <TabsTrigger value="schedule" className="flex items-center gap-2">
             <CalendarClock className="h-4 w-4" />
@@ -302,6 +384,15 @@ export default function EventDetail() {
             <BookmarkPlus className="h-4 w-4" />
             メモ
           </TabsTrigger>
+          <TabsTrigger value="comments" className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            コメント
+            {unreadCount > 0 && (
+              <span className="rounded-full bg-primary px-1.5 text-[10px] font-medium leading-4 text-white">
+                {unreadCount}
+              </span>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="expenses" className="flex items-center gap-2">
             <Calculator className="h-4 w-4" />
             費用精算
@@ -319,8 +410,8 @@ export default function EventDetail() {
                       この日程でイベントが開催されます
                     </CardDescription>
                   </div>
-                  {/* 作成者の場合にキャンセルボタンを表示 */}
-                  {event.creatorName && (
+                  {/* 主催者の場合にキャンセルボタンを表示 */}
+                  {isOrganizer && (
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -353,7 +444,8 @@ export default function EventDetail() {
                   </div>
                 </div>
                 
-                <div className="flex justify-center mt-6">
+                <div className="flex flex-col md:flex-row justify-center gap-2 mt-6">
+                  <CalendarExportButton eventId={id!} />
                   <Button 
                     onClick={() => navigate(`/event/${id}/expenses`)}
                     variant="default"
@@ -364,11 +456,11 @@ export default function EventDetail() {
                   </Button>
                 </div>
                 
-                {event.creatorName && (
+                {isOrganizer && (
                   <div className="mt-4 pt-4 border-t text-sm text-slate-500 flex items-center">
                     <div className="flex-1">
                       <p>
-                        イベント作成者は「確定をキャンセル」ボタンをクリックすると、
+                        主催者は「確定をキャンセル」ボタンをクリックすると、
                         再び候補日から選び直すことができます。既存の参加者の回答状況は保持されます。
                       </p>
                     </div>
@@ -389,6 +481,11 @@ export default function EventDetail() {
                 </div>
               </CardHeader>
               <CardContent>
+                {event.responseDeadline && (
+                  <div className="mb-4">
+                    <DeadlineCountdown deadline={event.responseDeadline} autoFinalize={event.autoFinalize} />
+                  </div>
+                )}
                 <div className="mb-6">
                   <Button 
                     onClick={() => navigate(`/event/${id}/attendance`)}
@@ -400,6 +497,57 @@ export default function EventDetail() {
                   </Button>
                 </div>
                 
+                {/* 時間帯グリッドのヒートマップ（主催者はコマを押して確定する時間帯を選べる） */}
+                {event.pollType === 'slots' && slotPoll && (
+                  <div className="space-y-4">
+                    <SlotHeatmap
+                      result={slotPoll}
+                      selectedStart={slotStart}
+                      onSelectStart={isOrganizer ? setSelectedSlotStart : undefined}
+                    />
+                    {selectedSlotBlock ? (
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border rounded-lg border-primary bg-primary/5">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <CalendarClock className="h-4 w-4 text-primary" />
+                            <p className="font-medium">
+                              {formatDate(new Date(selectedSlotBlock.date))} {selectedSlotBlock.startTime} - {selectedSlotBlock.endTime}
+                            </p>
+                            {slotPoll.bestBlock
+                              && slotStart === `${slotPoll.bestBlock.date}T${slotPoll.bestBlock.startTime}` && (
+                              <span className="inline-flex items-center rounded-full bg-primary px-2.5 py-0.5 text-xs font-medium text-primary-foreground">
+                                <Sparkles className="h-3 w-3 mr-1" />
+                                おすすめ
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-slate-500 mt-1">
+                            通して参加できる人: {selectedSlotBlock.available.length}/{slotPoll.availabilities.length}人
+                            {selectedSlotBlock.available.length > 0 && `（${selectedSlotBlock.available.join('、')}）`}
+                          </p>
+                        </div>
+                        {isOrganizer && (
+                          <Button
+                            size="sm"
+                            onClick={() => finalizeEventMutation.mutate({
+                              date: selectedSlotBlock.date,
+                              startTime: selectedSlotBlock.startTime,
+                              endTime: selectedSlotBlock.endTime,
+                            })}
+                            disabled={finalizeEventMutation.isPending}
+                          >
+                            この時間で確定する
+                          </Button>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-500 text-center">
+                        まだ参加できる時間帯の回答がありません
+                      </p>
+                    )}
+                  </div>
+                )}
+                
                 <div className="space-y-3">
                   {event.dateOptions.map((option) => {
                     const availability = calculateAvailability(option.id);
@@ -407,11 +555,15 @@ export default function EventDetail() {
                     const availablePercent = totalResponses > 0 
                       ? Math.round((availability.available / totalResponses) * 100) 
                       : 0;
+                    const ranking = dateRanking?.rankings.find(r => r.dateOptionId === option.id);
+                    const isRecommended = dateRanking?.recommendedDateOptionId === option.id;
                     
                     return (
                       <div 
                         key={option.id} 
-                        className="border rounded-lg hover:border-primary/30 transition-colors"
+                        className={`border rounded-lg transition-colors ${
+                          isRecommended ? 'border-primary bg-primary/5' : 'hover:border-primary/30'
+                        }`}
                       >
                         <div className="p-4">
                           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -427,18 +579,35 @@ export default function EventDetail() {
                               </p>
                             </div>
                             
-                            {!event.selectedDate && (
-                              <Button 
-                                variant="outline" 
-                                size="sm"
-                                onClick={() => finalizeEventMutation.mutate(option.id)}
-                                disabled={finalizeEventMutation.isPending}
-                              >
-                                確定する
-                              </Button>
-                            )}
+                            <div className="flex items-center gap-2">
+                              {isRecommended && (
+                                <span className="inline-flex items-center rounded-full bg-primary px-2.5 py-0.5 text-xs font-medium text-primary-foreground">
+                                  <Sparkles className="h-3 w-3 mr-1" />
+                                  おすすめ
+                                </span>
+                              )}
+                              {!event.selectedDate && isOrganizer && (
+                                <Button 
+                                  variant={isRecommended ? 'default' : 'outline'}
+                                  size="sm"
+                                  onClick={() => finalizeEventMutation.mutate({ dateOptionId: option.id })}
+                                  disabled={finalizeEventMutation.isPending}
+                                >
+                                  確定する
+                                </Button>
+                              )}
+                            </div>
                           </div>
                           
+                          {/* 評価の理由（全員参加可能・不参加の人など） */}
+                          {ranking && (
+                            <ul className={`mt-2 space-y-0.5 text-xs ${ranking.disqualified ? 'text-red-600' : 'text-slate-500'}`}>
+                              {ranking.explanations.map((explanation, index) => (
+                                <li key={index}>{explanation}</li>
+                              ))}
+                            </ul>
+                          )}
+                          
                           <div className="mt-3 pt-3 border-t flex items-center justify-between">
                             <div className="flex items-center gap-4">
                               <div className="flex items-center gap-3">
@@ -455,10 +624,11 @@ export default function EventDetail() {
                                   <span className="text-sm font-medium">{availability.unavailable}</span>
                                 </div>
                               </div>
+                              <ResponseComments comments={collectResponseComments(attendances || [], option.id)} />
                             </div>
                             
                             <div className="text-sm text-slate-500">
-                              回答: {totalResponses}/{attendances?.length || 0}人
+                              回答: {totalResponses}/{totalHeadcount}人
                             </div>
                           </div>
                         </div>
@@ -471,6 +641,7 @@ export default function EventDetail() {
                 <div className="text-slate-500 text-sm flex items-center">
                   <Users className="h-4 w-4 mr-2" />
                   回答者数: {attendances?.length || 0}人
+                  {totalHeadcount > (attendances?.length || 0) && `（同伴者を含めて ${totalHeadcount}人）`}
                 </div>
                 <Button 
                   variant="ghost"
@@ -493,7 +664,8 @@ export default function EventDetail() {
                 <div>
                   <CardTitle className="text-lg">参加者一覧</CardTitle>
                   <CardDescription>
-                    全ての参加者: {allParticipants.length || 0}人
+                    全ての参加者: {activeMembers.length}人
+                    {totalHeadcount > (attendances?.length || 0) && `（同伴者を含めて ${activeMembers.length + totalHeadcount - (attendances?.length || 0)}人）`}
                   </CardDescription>
                 </div>
                 
@@ -507,21 +679,101 @@ export default function EventDetail() {
               </div>
             </CardHeader>
             <CardContent>
-              {allParticipants.length > 0 ? (
+              {activeMembers.length > 0 ? (
                 <div className="divide-y">
-                  {allParticipants.map((name) => (
-                    <div 
-                      key={name} 
-                      className="flex items-center py-3"
-                    >
-                      <div className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center mr-3">
-                        {name.charAt(0)}
-                      </div>
-                      <div>
-                        <p className="font-medium">{name}</p>
+                  {activeMembers.map((member) => {
+                    const name = member.displayName;
+                    const attendance = attendances?.find(a => a.id === member.attendanceId);
+                    
+                    return (
+                      <div 
+                        key={member.id} 
+                        className="flex items-center py-3"
+                      >
+                        <div className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center mr-3">
+                          {name.charAt(0)}
+                        </div>
+                        <div className="flex-1">
+                          <p className="font-medium">
+                            {name}
+                            {!!attendance?.guestCount && (
+                              <span className="ml-2 text-xs font-normal text-slate-500">+{attendance.guestCount}人</span>
+                            )}
+                            {member.required && (
+                              <span className="ml-2 text-xs font-normal text-amber-600">必須</span>
+                            )}
+                            {attendance?.note && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <MessageSquare className="inline ml-2 h-3.5 w-3.5 text-slate-400" />
+                                </TooltipTrigger>
+                                <TooltipContent className="max-w-xs whitespace-pre-wrap">{attendance.note}</TooltipContent>
+                              </Tooltip>
+                            )}
+                          </p>
+                        </div>
+                        {/* 主催者は必須参加者の設定、参加者名の変更、同じ人の重複した登録の統合ができる */}
+                        {isOrganizer && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={member.required ? '必須参加者の設定を解除' : '必須参加者に設定'}
+                              onClick={() => requiredMemberMutation.mutate({ memberId: member.id, required: !member.required })}
+                              disabled={requiredMemberMutation.isPending}
+                            >
+                              <Star className={`h-4 w-4 ${member.required ? 'fill-amber-400 text-amber-500' : 'text-slate-500'}`} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="名前を変更"
+                              onClick={() => setManagedMember({ member, mode: 'rename' })}
+                            >
+                              <Pencil className="h-4 w-4 text-slate-500" />
+                            </Button>
+                            {activeMembers.length > 1 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="他の参加者に統合"
+                                onClick={() => setManagedMember({ member, mode: 'merge' })}
+                              >
+                                <Merge className="h-4 w-4 text-slate-500" />
+                              </Button>
+                            )}
+                          </>
+                        )}
+                        {/* 主催者は参加者ごとの参加用リンクを発行できる */}
+                        {isOrganizer && name !== identity?.name && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-slate-500"
+                            onClick={() => copyParticipantLinkMutation.mutate(member.id)}
+                            disabled={copyParticipantLinkMutation.isPending}
+                          >
+                            <LinkIcon className="h-4 w-4 mr-1" />
+                            参加用リンク
+                          </Button>
+                        )}
+                        {isOrganizer && attendance && name !== event.creatorName && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              if (window.confirm(`${name}さんを削除しますか？出欠の回答も削除されます。`)) {
+                                deleteAttendanceMutation.mutate(attendance.id);
+                              }
+                            }}
+                            disabled={deleteAttendanceMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               ) : (
                 <div className="text-center py-8 px-4">
@@ -541,12 +793,27 @@ export default function EventDetail() {
               )}
             </CardContent>
           </Card>
+          
+          <MemoAssignmentsCard
+            eventId={id || ''}
+            memberNames={activeMembers.map(member => member.displayName)}
+          />
         </TabsContent>
         
         <TabsContent value="memo">
           <EventMemo eventId={id || ''} />
         </TabsContent>
         
+        <TabsContent value="comments">
+          <EventComments
+            eventId={id || ''}
+            comments={comments}
+            isLoading={isCommentsLoading}
+            lastSeenId={lastSeenId}
+            dateOptions={event.dateOptions}
+          />
+        </TabsContent>
+        
         <TabsContent value="expenses">
           <Card>
             <CardHeader className="pb-3">
@@ -617,6 +884,15 @@ export default function EventDetail() {
         onClose={() => setIsIdentificationOpen(false)}
         eventId={id || ''}
         onIdentify={handleIdentify}
+        identityName={identity?.name}
+      />
+      
+      <MemberManageDialog
+        eventId={id!}
+        member={managedMember?.member ?? null}
+        mode={managedMember?.mode ?? 'rename'}
+        members={activeMembers}
+        onClose={() => setManagedMember(null)}
       />
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams, useLocation } from 'wouter';
 // モバイル最適化のためのUIコンポーネント
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -17,8 +18,8 @@ import {
   Calculator, 
   Plus, 
   Trash2, 
+  Pencil,
   ArrowLeftRight,
-  ArrowRight,
   AlertCircle,
   Loader2,
   Users,
@@ -26,9 +27,19 @@ import {
   Wallet
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Event, Expense, Settlement, Attendance } from '@shared/schema';
+import { useEventIdentity } from '@/hooks/use-event-identity';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { useEventMembers } from '@/hooks/use-event-members';
+import { Event, Expense, ExpenseAttachment, EventMember, Attendance } from '@shared/schema';
+import type { SettlementResult } from '@shared/settlement';
+import { SPLIT_MODES, SPLIT_MODE_LABELS, validateSplit, type SplitMode, type SplitShares } from '@shared/split';
+import { CURRENCIES, CURRENCY_CODES, currencyDecimals } from '@shared/currency';
 import { apiRequest } from '@/lib/queryClient';
 import { formatCurrency } from '@/lib/utils';
+import ExchangeRateEditor from '@/components/ExchangeRateEditor';
+import SettlementTransfers from '@/components/SettlementTransfers';
+import ExpenseHistory from '@/components/ExpenseHistory';
+import ExpenseReceipts from '@/components/ExpenseReceipts';
 
 export default function ExpenseSplitting() {
   const { id } = useParams();
@@ -36,22 +47,32 @@ export default function ExpenseSplitting() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
+  // このブラウザの役割（支払いの編集・削除は支払者本人または主催者のみ）
+  const { identity, isOrganizer } = useEventIdentity(id);
+  
+  // リアルタイム更新に接続中はポーリングしない
+  const isLive = useLiveUpdates(id);
+  
   // 新しい支出データの状態
   const [newExpense, setNewExpense] = useState({
-    payerName: '',
+    payerId: '', // 支払者のメンバーID
     description: '',
     amount: '',
-    participants: [] as string[] // 割り勘対象者の配列
+    currency: '', // 支払いの通貨（空欄ならイベントの基準通貨）
+    participantIds: [] as string[], // 割り勘対象者のメンバーID
+    splitMode: 'equal' as SplitMode, // 分割方法
+    splitShares: {} as Record<string, string> // メンバーごとの比率・金額・割合（入力値）
   });
   
+  // 編集中の支払い
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  
   // 新規参加者の追加モード
   const [isAddingNewPayer, setIsAddingNewPayer] = useState(false);
   // 参加者選択モード
   const [isSelectingParticipants, setIsSelectingParticipants] = useState(false);
   // 全員選択状態
   const [selectAllParticipants, setSelectAllParticipants] = useState(true);
-  // 参加者一覧（重複排除済み）
-  const [uniqueParticipants, setUniqueParticipants] = useState<string[]>([]);
   // 新規参加者名（入力用）
   const [newParticipantName, setNewParticipantName] = useState('');
 
@@ -60,11 +81,13 @@ export default function ExpenseSplitting() {
     queryKey: [`/api/events/${id}`],
   });
   
-  // イベント参加者リストを取得
-  const { data: attendances, isLoading: attendancesLoading } = useQuery<Attendance[]>({
-    queryKey: [`/api/events/${id}/attendances`],
-    enabled: !!event,
-  });
+  // 参加者名簿を取得（支払者・割り勘対象者の選択肢）
+  const { activeMembers, memberName } = useEventMembers(id);
+  
+  // 名簿上の自分（主催者以外は自分が支払った分のみ記録できる）
+  const myMemberId = identity?.memberId ?? activeMembers.find(member => member.displayName === identity?.name)?.id;
+  const payerChoices = isOrganizer ? activeMembers : activeMembers.filter(member => member.id === myMemberId);
+  const selectedPayerId = newExpense.payerId || (isOrganizer ? '' : myMemberId ?? '');
   
   // 経費情報を取得
   const { data: expenses, isLoading: expensesLoading } = useQuery<Expense[]>({
@@ -72,64 +95,86 @@ export default function ExpenseSplitting() {
     enabled: !!event,
   });
   
-  // 精算情報を取得する際に最新の参加者リストも自動的に更新される
-  const { data: settlements, isLoading: settlementsLoading, refetch: refetchSettlements } = useQuery<Settlement[]>({
+  // レシート画像（参加者・主催者のみ取得できる）
+  const { data: attachments = [] } = useQuery<ExpenseAttachment[]>({
+    queryKey: [`/api/events/${id}/attachments`],
+    enabled: !!event && !!identity,
+  });
+  
+  // 精算情報を取得
+  const { data: settlementResult, isLoading: settlementsLoading, error: settlementsError } = useQuery<SettlementResult>({
     queryKey: [`/api/events/${id}/settlements`],
     enabled: !!event && !!expenses && expenses.length > 0,
-    refetchInterval: 2000, // 2秒ごとに自動更新 (新しい参加者が追加された場合に最新の計算を取得)
+    refetchInterval: isLive ? false : 2000, // 未接続時は2秒ごとに自動更新 (新しい参加者が追加された場合に最新の計算を取得)
   });
+  const settlements = settlementResult?.settlements;
+  const transfers = settlementResult?.transfers;
+  const balances = settlementResult?.balances;
   
-  // イベント作成者を含む全参加者リストを作成
-  useEffect(() => {
-    if (event && attendances) {
-      // 1. イベント作成者を追加
-      const participants: string[] = [event.creatorName];
-      
-      // 2. 参加者を追加
-      attendances.forEach(attendance => {
-        if (!participants.includes(attendance.name)) {
-          participants.push(attendance.name);
-        }
+  // 出欠で回答した同伴者の人数（メンバーID -> 人数）
+  const { data: attendances } = useQuery<Attendance[]>({
+    queryKey: [`/api/events/${id}/attendances`],
+    enabled: !!event,
+  });
+  const guestCounts = Object.fromEntries(activeMembers.map(member => [
+    member.id,
+    attendances?.find(attendance => attendance.id === member.attendanceId)?.guestCount || 0,
+  ]));
+  const hasGuests = Object.values(guestCounts).some(count => count > 0);
+  
+  // 全員割り勘で同伴者の分も連れてきた人が負担するかを切り替える
+  const guestsInSplitMutation = useMutation({
+    mutationFn: async (guestsInSplit: boolean) => {
+      const response = await apiRequest('PUT', `/api/events/${id}/guests-in-split`, { guestsInSplit });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: error.message || "同伴者の精算設定の変更に失敗しました",
+        variant: "destructive",
       });
-      
-      // 3. 支払いをした人も追加
-      if (expenses) {
-        expenses.forEach(expense => {
-          if (!participants.includes(expense.payerName)) {
-            participants.push(expense.payerName);
-          }
-        });
-      }
-      
-      setUniqueParticipants(participants);
     }
-  }, [event, attendances, expenses]);
+  });
+  
+  
+  // 入力中の比率・金額・割合を数値に変換（空欄や0の参加者は除外）
+  const parseSplitShares = (shares: Record<string, string>): SplitShares => {
+    const parsed: SplitShares = {};
+    Object.entries(shares).forEach(([name, value]) => {
+      const numericValue = parseFloat(value);
+      if (!isNaN(numericValue) && numericValue > 0) {
+        parsed[name] = numericValue;
+      }
+    });
+    return parsed;
+  };
   
   const addExpenseMutation = useMutation({
     mutationFn: async (data: typeof newExpense) => {
       // 選択された参加者が空の場合かつ全員選択が有効な場合は、全員割り勘フラグを暗黙的に設定
       // 今回は空配列を送信することで、サーバー側で「全員割り勘」と認識させる
-      const participants = selectAllParticipants ? [] : data.participants;
-      
-      // APIの実行時にログを出力
-      console.log("支出API実行:", {
-        ...data,
-        participants,
-        amount: parseFloat(data.amount),
-        isAllParticipants: selectAllParticipants
-      });
+      const participantIds = selectAllParticipants ? [] : data.participantIds;
       
       const response = await apiRequest('POST', `/api/events/${id}/expenses`, {
-        ...data,
-        participants,
-        amount: parseFloat(data.amount)
+        payerId: data.payerId,
+        description: data.description,
+        participantIds: data.splitMode === 'equal' ? participantIds : [],
+        amount: parseFloat(data.amount),
+        currency: data.currency || undefined,
+        splitMode: data.splitMode,
+        splitShares: data.splitMode === 'equal' ? undefined : parseSplitShares(data.splitShares)
       });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses`] });
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
-      setNewExpense({ payerName: '', description: '', amount: '', participants: [] });
+      setNewExpense({ payerId: '', description: '', amount: '', currency: '', participantIds: [], splitMode: 'equal', splitShares: {} });
       setIsSelectingParticipants(false);
       setIsAddingNewPayer(false);
       toast({
@@ -145,6 +190,35 @@ export default function ExpenseSplitting() {
     }
   });
   
+  const updateExpenseMutation = useMutation({
+    mutationFn: async ({ expenseId, data }: { expenseId: string; data: ExpenseEditValues }) => {
+      const response = await apiRequest('PATCH', `/api/events/${id}/expenses/${expenseId}`, {
+        payerId: data.payerId,
+        description: data.description,
+        amount: parseFloat(data.amount),
+        currency: data.currency,
+        splitShares: data.splitMode === 'equal' ? undefined : parseSplitShares(data.splitShares)
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { expenseId }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses/${expenseId}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
+      setEditingExpenseId(null);
+      toast({
+        title: "支払いを更新しました",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "エラーが発生しました",
+        description: apiErrorMessage(error) || "支払いの更新に失敗しました",
+        variant: "destructive",
+      });
+    }
+  });
+  
   const deleteExpenseMutation = useMutation({
     mutationFn: async (expenseId: string) => {
       await apiRequest('DELETE', `/api/events/${id}/expenses/${expenseId}`, {});
@@ -152,6 +226,7 @@ export default function ExpenseSplitting() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses`] });
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/attachments`] });
       toast({
         title: "支払いを削除しました",
       });
@@ -168,7 +243,7 @@ export default function ExpenseSplitting() {
   const handleAddExpense = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newExpense.payerName || !newExpense.description || !newExpense.amount) {
+    if (!selectedPayerId || !newExpense.description || !newExpense.amount) {
       toast({
         title: "入力エラー",
         description: "支払者、項目、金額をすべて入力してください",
@@ -186,33 +261,24 @@ export default function ExpenseSplitting() {
       return;
     }
     
-    // 元の支出データをそのまま利用する（自動的に全員割り勘になるように修正済み）
-    addExpenseMutation.mutate(newExpense);
-  };
-  
-  // settlements APIがイベント参加者リストも取得・更新するので、それに対する処理も追加
-  useEffect(() => {
-    if (settlements && settlements.length > 0) {
-      // settlementからユニークな参加者を抽出
-      const participantsFromSettlements = new Set<string>();
-      
-      settlements.forEach(s => {
-        if (s.from) participantsFromSettlements.add(s.from);
-        if (s.to) participantsFromSettlements.add(s.to);
+    // 均等割り以外の場合は、負担の合計が支払額と一致しているか確認
+    const splitError = validateSplit(
+      parseFloat(newExpense.amount),
+      newExpense.splitMode,
+      parseSplitShares(newExpense.splitShares)
+    );
+    if (splitError) {
+      toast({
+        title: "分割方法エラー",
+        description: splitError,
+        variant: "destructive"
       });
-      
-      // 既存の参加者リストと結合
-      if (participantsFromSettlements.size > 0) {
-        setUniqueParticipants(prev => {
-          const allParticipants = Array.from(
-            new Set([...prev, ...Array.from(participantsFromSettlements)])
-          );
-          console.log("精算からの参加者リスト更新:", allParticipants);
-          return allParticipants;
-        });
-      }
+      return;
     }
-  }, [settlements]);
+    
+    // 元の支出データをそのまま利用する（自動的に全員割り勘になるように修正済み）
+    addExpenseMutation.mutate({ ...newExpense, payerId: selectedPayerId });
+  };
   
   const isLoading = eventLoading || expensesLoading || settlementsLoading;
   
@@ -262,17 +328,25 @@ export default function ExpenseSplitting() {
     );
   }
   
+  // 基準通貨（精算結果があればそれを優先）
+  const baseCurrency = settlementResult?.baseCurrency || event.baseCurrency || 'JPY';
+  // 入力中の支出の通貨
+  const expenseCurrency = newExpense.currency || baseCurrency;
+
   // Calculate totals
-  const totalExpenses = expenses?.reduce((sum, expense) => {
-    // amount が string または number の場合があるので数値に変換
-    const expenseAmount = typeof expense.amount === 'string' 
-      ? parseFloat(expense.amount) 
-      : Number(expense.amount);
-    return sum + expenseAmount;
-  }, 0) || 0;
+  // 外貨の支出があるため、基準通貨に換算済みの精算結果から合計する
+  const totalExpenses = balances
+    ? balances.reduce((sum, balance) => sum + balance.paid, 0)
+    : expenses?.reduce((sum, expense) => {
+        // amount が string または number の場合があるので数値に変換
+        const expenseAmount = typeof expense.amount === 'string' 
+          ? parseFloat(expense.amount) 
+          : Number(expense.amount);
+        return sum + expenseAmount;
+      }, 0) || 0;
   
-  // イベントの全参加者数（イベント作成者+参加者）
-  const participantCount = uniqueParticipants.length;
+  // イベントの全参加者数（名簿の有効なメンバー）
+  const participantCount = activeMembers.length;
   
   // 一人当たりの金額
   const perPersonAmount = participantCount > 0 ? totalExpenses / participantCount : 0;
@@ -300,7 +374,7 @@ export default function ExpenseSplitting() {
             <h3 className="font-medium text-base">記録された支払額</h3>
           </div>
           <div className="card-content-mobile">
-            <p className="text-xl font-bold">{formatCurrency(totalExpenses)}</p>
+            <p className="text-xl font-bold">{formatCurrency(totalExpenses, baseCurrency)}</p>
             <p className="text-xs text-slate-500 mt-1">すべての支払いの合計金額</p>
           </div>
         </div>
@@ -351,49 +425,22 @@ export default function ExpenseSplitting() {
                   onClick={() => {
                     if (newParticipantName.trim()) {
                       // 既存の参加者と重複していないか確認
-                      if (!uniqueParticipants.includes(newParticipantName.trim())) {
+                      if (!activeMembers.some(member => member.displayName === newParticipantName.trim())) {
                         const trimmedName = newParticipantName.trim();
-                        // APIを呼び出して参加者を追加
-                        apiRequest('POST', `/api/events/${id}/participants`, {
-                          name: trimmedName
+                        // APIを呼び出して名簿にメンバーを追加
+                        apiRequest('POST', `/api/events/${id}/members`, {
+                          displayName: trimmedName
                         })
-                        .then(response => {
-                          if (!response.ok) {
-                            // エラー処理
-                            return response.json().then(err => {
-                              throw new Error(err.message || "参加者の追加に失敗しました");
-                            });
-                          }
-                          return response.json();
-                        })
-                        .then(data => {
-                          // 成功した場合の処理
-                          // 新しい参加者をローカルの状態に追加
-                          setUniqueParticipants(prev => {
-                            // 明示的に新しい配列を作成して状態更新を強制
-                            const newParticipants = [...prev, trimmedName];
-                            console.log("参加者リスト更新:", newParticipants);
-                            return newParticipants;
-                          });
-                          
+                        .then(response => response.json())
+                        .then(() => {
                           // 入力フィールドをクリア
                           setNewParticipantName('');
                           // 新規追加モードを終了
                           setIsAddingNewPayer(false);
                           
-                          // 精算データと参加者リストを更新
-                          queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/expenses`] });
-                          queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/attendances`] });
-                          
-                          // 参加者追加後に数秒待ってから情報を再取得（参加者更新を反映させるため）
-                          setTimeout(() => {
-                            // イベント詳細も再取得して参加者リストを更新
-                            queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
-                            // 精算情報を再取得
-                            queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
-                            // 明示的に再取得
-                            refetchSettlements();
-                          }, 500);
+                          // 名簿と精算データを更新
+                          queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/members`] });
+                          queryClient.invalidateQueries({ queryKey: [`/api/events/${id}/settlements`] });
                           
                           // 通知
                           toast({
@@ -405,7 +452,7 @@ export default function ExpenseSplitting() {
                           // エラー処理
                           toast({
                             title: "エラーが発生しました",
-                            description: error.message,
+                            description: apiErrorMessage(error),
                             variant: "destructive"
                           });
                         });
@@ -433,19 +480,47 @@ export default function ExpenseSplitting() {
                 <p className="text-xs text-slate-500 mt-1">このイベントの全参加メンバー</p>
                 {participantCount > 0 && (
                   <div className="mt-3 flex flex-wrap gap-1">
-                    {uniqueParticipants.map(name => (
-                      <span key={name} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-slate-100 text-slate-700">
-                        {name}
+                    {activeMembers.map(member => (
+                      <span key={member.id} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-slate-100 text-slate-700">
+                        {member.displayName}
+                        {guestCounts[member.id] > 0 && ` +${guestCounts[member.id]}`}
                       </span>
                     ))}
                   </div>
                 )}
+                {/* 同伴者がいる場合は、全員割り勘で同伴者の分を連れてきた人に負担してもらえる */}
+                {hasGuests && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <Switch
+                      id="guestsInSplit"
+                      checked={event.guestsInSplit}
+                      onCheckedChange={(checked) => guestsInSplitMutation.mutate(checked)}
+                      disabled={!isOrganizer || guestsInSplitMutation.isPending}
+                    />
+                    <Label htmlFor="guestsInSplit" className="text-xs text-slate-600">
+                      全員割り勘では同伴者の分も連れてきた人が負担する
+                    </Label>
+                  </div>
+                )}
               </>
             )}
           </div>
         </div>
       </div>
       
+      {/* 通貨・為替レートカード */}
+      <div className="mobile-card mb-6">
+        <div className="card-header-mobile">
+          <h3 className="font-medium text-base">通貨・為替レート</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            外貨の支払いは設定したレートで基準通貨に換算して精算します
+          </p>
+        </div>
+        <div className="card-content-mobile">
+          <ExchangeRateEditor eventId={id!} canEdit={isOrganizer} />
+        </div>
+      </div>
+      
       <div className="space-y-4 sm:grid sm:grid-cols-2 sm:gap-4 sm:space-y-0">
         {/* 支払い記録セクション */}
         <div className="mobile-card form-mobile">
@@ -459,19 +534,19 @@ export default function ExpenseSplitting() {
             <form onSubmit={handleAddExpense} className="space-y-3">
               {/* 支払者フィールド */}
               <div className="space-y-1.5">
-                <Label htmlFor="payerName" className="text-sm">支払者</Label>
+                <Label htmlFor="payerId" className="text-sm">支払者</Label>
                 
                 <Select
-                  value={newExpense.payerName}
-                  onValueChange={(value) => setNewExpense({...newExpense, payerName: value})}
+                  value={selectedPayerId}
+                  onValueChange={(value) => setNewExpense({...newExpense, payerId: value})}
                 >
                   <SelectTrigger className="w-full h-9 text-sm">
                     <SelectValue placeholder="支払者を選択" />
                   </SelectTrigger>
                   <SelectContent>
-                    {uniqueParticipants.map((name) => (
-                      <SelectItem key={name} value={name}>
-                        {name}
+                    {payerChoices.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.displayName}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -494,27 +569,78 @@ export default function ExpenseSplitting() {
               {/* 金額フィールド */}
               <div className="space-y-1.5">
                 <Label htmlFor="amount" className="text-sm">金額</Label>
-                <div className="relative">
-                  <span className="absolute left-3 top-2 text-slate-500">¥</span>
-                  <Input
-                    id="amount"
-                    className="pl-8 h-9 text-sm"
-                    value={newExpense.amount}
-                    onChange={(e) => {
-                      // 数字以外を削除し、整数値のみ許可
-                      const numericValue = e.target.value.replace(/[^0-9]/g, '');
-                      setNewExpense({...newExpense, amount: numericValue});
-                    }}
-                    placeholder="   数字を入力"
-                    type="text"
-                    pattern="[0-9]*"
-                    inputMode="numeric"
-                    required
-                  />
+                <div className="flex gap-2">
+                  <Select
+                    value={expenseCurrency}
+                    onValueChange={(value) => setNewExpense({
+                      ...newExpense,
+                      currency: value === baseCurrency ? '' : value,
+                      // 補助単位のない通貨に切り替えた場合は小数部分を切り捨て
+                      amount: currencyDecimals(value) > 0 ? newExpense.amount : newExpense.amount.split('.')[0]
+                    })}
+                  >
+                    <SelectTrigger className="w-24 h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCY_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-2 text-slate-500">{currencySymbol(expenseCurrency)}</span>
+                    <Input
+                      id="amount"
+                      className="pl-10 h-9 text-sm"
+                      value={newExpense.amount}
+                      onChange={(e) => {
+                        const numericValue = sanitizeAmount(e.target.value, expenseCurrency);
+                        setNewExpense({...newExpense, amount: numericValue});
+                      }}
+                      placeholder="数字を入力"
+                      type="text"
+                      inputMode={currencyDecimals(expenseCurrency) > 0 ? 'decimal' : 'numeric'}
+                      required
+                    />
+                  </div>
                 </div>
+                {expenseCurrency !== baseCurrency && (
+                  <p className="text-xs text-slate-500">精算時に{baseCurrency}へ換算されます（為替レートの設定が必要です）</p>
+                )}
               </div>
               
-              {/* 割り勘対象者セレクション */}
+              {/* 分割方法 */}
+              <div className="space-y-1.5">
+                <Label className="text-sm">分割方法</Label>
+                <Select
+                  value={newExpense.splitMode}
+                  onValueChange={(value) => setNewExpense({...newExpense, splitMode: value as SplitMode, splitShares: {}})}
+                >
+                  <SelectTrigger className="w-full h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPLIT_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {SPLIT_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {newExpense.splitMode !== 'equal' ? (
+                <SplitSharesInput
+                  participants={activeMembers}
+                  splitMode={newExpense.splitMode}
+                  amount={parseFloat(newExpense.amount) || 0}
+                  currency={expenseCurrency}
+                  shares={newExpense.splitShares}
+                  onChange={(splitShares) => setNewExpense({...newExpense, splitShares})}
+                />
+              ) : (
+              /* 割り勘対象者セレクション */
               <div className="space-y-1.5">
                 <div className="flex items-center justify-between">
                   <Label className="text-sm">割り勘対象者</Label>
@@ -539,10 +665,10 @@ export default function ExpenseSplitting() {
                           setSelectAllParticipants(!!checked);
                           if (checked) {
                             // 全員選択
-                            setNewExpense({...newExpense, participants: [...uniqueParticipants]});
+                            setNewExpense({...newExpense, participantIds: activeMembers.map(member => member.id)});
                           } else {
                             // 全員選択解除
-                            setNewExpense({...newExpense, participants: []});
+                            setNewExpense({...newExpense, participantIds: []});
                           }
                         }}
                       />
@@ -555,33 +681,33 @@ export default function ExpenseSplitting() {
                     </div>
                     
                     <div className="grid grid-cols-2 gap-1.5">
-                      {uniqueParticipants.map((name) => (
-                        <div key={name} className="flex items-center space-x-1.5">
+                      {activeMembers.map((member) => (
+                        <div key={member.id} className="flex items-center space-x-1.5">
                           <Checkbox 
-                            id={`participant-${name}`} 
-                            checked={newExpense.participants.includes(name)}
+                            id={`participant-${member.id}`} 
+                            checked={newExpense.participantIds.includes(member.id)}
                             onCheckedChange={(checked) => {
                               if (checked) {
                                 // 参加者を追加
                                 setNewExpense({
                                   ...newExpense, 
-                                  participants: [...newExpense.participants, name]
+                                  participantIds: [...newExpense.participantIds, member.id]
                                 });
                               } else {
                                 // 参加者を削除
                                 setNewExpense({
                                   ...newExpense, 
-                                  participants: newExpense.participants.filter(p => p !== name)
+                                  participantIds: newExpense.participantIds.filter(p => p !== member.id)
                                 });
                                 setSelectAllParticipants(false);
                               }
                             }}
                           />
                           <label 
-                            htmlFor={`participant-${name}`} 
+                            htmlFor={`participant-${member.id}`} 
                             className="text-xs leading-none"
                           >
-                            {name}
+                            {member.displayName}
                           </label>
                         </div>
                       ))}
@@ -589,11 +715,11 @@ export default function ExpenseSplitting() {
                   </div>
                 ) : (
                   <div className="border rounded-md p-2">
-                    {newExpense.participants.length > 0 ? (
+                    {newExpense.participantIds.length > 0 ? (
                       <div className="flex items-center">
                         <Users className="h-3.5 w-3.5 mr-1.5 text-primary/70" />
                         <p className="text-xs">
-                          {newExpense.participants.length}人が選択されています
+                          {newExpense.participantIds.length}人が選択されています
                         </p>
                       </div>
                     ) : (
@@ -602,6 +728,7 @@ export default function ExpenseSplitting() {
                   </div>
                 )}
               </div>
+              )}
               
               {/* 追加ボタン */}
               <Button 
@@ -624,33 +751,73 @@ export default function ExpenseSplitting() {
                       ? parseFloat(expense.amount) 
                       : Number(expense.amount);
                       
+                    const canEdit = isOrganizer || myMemberId === expense.payerId;
+                    
+                    if (editingExpenseId === expense.id) {
+                      return (
+                        <ExpenseEditForm
+                          key={expense.id}
+                          expense={expense}
+                          payers={payerChoices}
+                          memberName={memberName}
+                          isSaving={updateExpenseMutation.isPending}
+                          onSave={(data) => updateExpenseMutation.mutate({ expenseId: expense.id, data })}
+                          onCancel={() => setEditingExpenseId(null)}
+                        />
+                      );
+                    }
+                      
                     return (
                       <div 
                         key={expense.id} 
                         className="flex items-center justify-between p-3 border rounded-md"
                       >
                         <div>
-                          <p className="font-medium">{expense.payerName}</p>
+                          <p className="font-medium">{memberName(expense.payerId)}</p>
                           <p className="text-sm text-slate-500">{expense.description}</p>
-                          {expense.participants && expense.participants.length > 0 && (
+                          {expense.participantIds && expense.participantIds.length > 0 && (
                             <div className="flex items-center mt-1">
                               <Users className="h-3 w-3 mr-1 text-slate-400" />
                               <p className="text-xs text-slate-400">
-                                {expense.participants.length}人で分割
+                                {expense.participantIds.length}人で分割
+                                {expense.splitMode && expense.splitMode !== 'equal' && (
+                                  <span>（{SPLIT_MODE_LABELS[expense.splitMode]}）</span>
+                                )}
                               </p>
                             </div>
                           )}
+                          {identity && (
+                            <ExpenseReceipts
+                              eventId={id!}
+                              expenseId={expense.id}
+                              attachments={attachments.filter(attachment => attachment.expenseId === expense.id)}
+                              canEdit={canEdit}
+                            />
+                          )}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium">{formatCurrency(expenseAmount)}</span>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => deleteExpenseMutation.mutate(expense.id)}
-                            disabled={deleteExpenseMutation.isPending}
-                          >
-                            <Trash2 className="h-4 w-4 text-red-500" />
-                          </Button>
+                        <div className="flex items-center gap-1">
+                          <span className="font-medium mr-1">{formatCurrency(expenseAmount, expense.currency)}</span>
+                          <ExpenseHistory eventId={id!} expenseId={expense.id} currency={expense.currency} />
+                          {canEdit && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="編集"
+                                onClick={() => setEditingExpenseId(expense.id)}
+                              >
+                                <Pencil className="h-4 w-4 text-slate-500" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                                disabled={deleteExpenseMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
                     );
@@ -674,34 +841,44 @@ export default function ExpenseSplitting() {
             </p>
           </div>
           <div className="card-content-mobile">
-            {settlements && settlements.length > 0 ? (
+            {settlementsError && (
+              <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3">
+                <p className="text-xs text-red-700">
+                  {apiErrorMessage(settlementsError)}
+                </p>
+              </div>
+            )}
+            
+            {settlementResult && settlementResult.rates.length > 0 && (
+              <div className="mb-3 text-xs text-slate-500">
+                換算レート: {settlementResult.rates.map(({ currency, rate }) =>
+                  `1 ${currency} = ${rate} ${currencySymbol(baseCurrency)}`
+                ).join(' / ')}
+              </div>
+            )}
+            
+            {transfers && transfers.length > 0 ? (
               <div className="space-y-3">
-                <div className="p-2 rounded-md border-l-4 border-blue-500 bg-blue-50">
-                  <p className="text-xs text-blue-700">
-                    この精算方法で、最小限の取引で相殺されます。
-                  </p>
-                </div>
-                
-                {settlements.map((settlement, index) => (
-                  <div 
-                    key={index} 
-                    className="p-3 rounded-md border border-green-200 bg-green-50"
-                  >
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="font-medium">{settlement.from}</div>
-                      <div className="flex items-center">
-                        <ArrowRight className="h-4 w-4 text-green-600 mx-1" />
-                      </div>
-                      <div className="font-medium">{settlement.to}</div>
-                    </div>
-                    <div className="mt-1.5 text-center">
-                      <span className="text-base font-bold text-green-700">
-                        {formatCurrency(settlement.amount)}
-                      </span>
-                      <span className="ml-1 text-xs text-green-700">支払う</span>
-                    </div>
+                {settlements && settlements.length > 0 ? (
+                  <div className="p-2 rounded-md border-l-4 border-blue-500 bg-blue-50">
+                    <p className="text-xs text-blue-700">
+                      この精算方法で、最小限の取引で相殺されます。
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-2 rounded-md border-l-4 border-green-500 bg-green-50">
+                    <p className="text-xs text-green-700">
+                      すべての精算が完了しました。
+                    </p>
                   </div>
-                ))}
+                )}
+                
+                <SettlementTransfers
+                  eventId={id!}
+                  transfers={transfers}
+                  members={settlementResult.members}
+                  baseCurrency={baseCurrency}
+                />
               </div>
             ) : expenses && expenses.length > 1 ? (
               <div className="text-center p-4">
@@ -726,6 +903,31 @@ export default function ExpenseSplitting() {
               </div>
             )}
             
+            {/* 参加者ごとの収支 */}
+            {balances && balances.length > 0 && (
+              <div className="mt-4">
+                <h3 className="font-medium text-sm text-slate-700 mb-2">各参加者の収支</h3>
+                <div className="border rounded-md divide-y text-xs">
+                  <div className="grid grid-cols-4 gap-2 px-3 py-1.5 bg-slate-50 text-slate-500">
+                    <span>名前</span>
+                    <span className="text-right">支払</span>
+                    <span className="text-right">負担</span>
+                    <span className="text-right">未精算</span>
+                  </div>
+                  {balances.map(balance => (
+                    <div key={balance.memberId} className="grid grid-cols-4 gap-2 px-3 py-1.5">
+                      <span className="truncate">{balance.name}</span>
+                      <span className="text-right">{formatCurrency(balance.paid, baseCurrency)}</span>
+                      <span className="text-right">{formatCurrency(balance.owed, baseCurrency)}</span>
+                      <span className={`text-right font-medium ${balance.net > 0 ? 'text-green-700' : balance.net < 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                        {balance.net > 0 ? '+' : ''}{formatCurrency(balance.net, baseCurrency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <div className="flex justify-end mt-4">
               <Button 
                 variant="outline"
@@ -742,3 +944,206 @@ export default function ExpenseSplitting() {
     </div>
   );
 }
+
+// APIエラー（"400: {"message": ...}" 形式）からメッセージを取り出す
+const apiErrorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+// 通貨記号（未対応の通貨はコードをそのまま表示）
+const currencySymbol = (currency: string) =>
+  CURRENCIES[currency as keyof typeof CURRENCIES]?.symbol || currency;
+
+// 金額入力から数字以外を削除（補助単位のある通貨は小数点以下の桁数まで許可）
+const sanitizeAmount = (value: string, currency: string) => {
+  const decimals = currencyDecimals(currency);
+  if (decimals === 0) {
+    return value.replace(/[^0-9]/g, '');
+  }
+  const [integer, ...fraction] = value.replace(/[^0-9.]/g, '').split('.');
+  return fraction.length > 0 ? `${integer}.${fraction.join('').slice(0, decimals)}` : integer;
+};
+
+// 分割方法ごとの入力単位（金額指定は支出の通貨記号）
+const splitUnit = (splitMode: Exclude<SplitMode, 'equal'>, currency: string) =>
+  splitMode === 'weights' ? '口' : splitMode === 'percent' ? '%' : currencySymbol(currency);
+
+// 参加者ごとの比率・金額・割合の入力欄
+function SplitSharesInput({
+  participants,
+  splitMode,
+  amount,
+  currency,
+  shares,
+  onChange
+}: {
+  participants: Pick<EventMember, 'id' | 'displayName'>[];
+  splitMode: Exclude<SplitMode, 'equal'>;
+  amount: number;
+  currency: string;
+  shares: Record<string, string>;
+  onChange: (shares: Record<string, string>) => void;
+}) {
+  const total = Object.values(shares).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+  const target = splitMode === 'exact' ? amount : splitMode === 'percent' ? 100 : null;
+  const isBalanced = target === null ? total > 0 : Math.abs(total - target) < 0.005;
+  
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-sm">負担の内訳</Label>
+      <div className="border rounded-md p-2 space-y-1.5">
+        {participants.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-2">
+            <label htmlFor={`share-${member.id}`} className="text-xs truncate">{member.displayName}</label>
+            <div className="flex items-center gap-1">
+              <Input
+                id={`share-${member.id}`}
+                value={shares[member.id] || ''}
+                onChange={(e) => {
+                  // 数字と小数点以外を削除
+                  const numericValue = e.target.value.replace(/[^0-9.]/g, '');
+                  onChange({ ...shares, [member.id]: numericValue });
+                }}
+                placeholder="0"
+                inputMode="decimal"
+                className="h-7 w-20 text-xs text-right"
+              />
+              <span className="text-xs text-slate-500 w-4">{splitUnit(splitMode, currency)}</span>
+            </div>
+          </div>
+        ))}
+        <div className={`flex justify-between pt-1.5 border-t text-xs ${isBalanced ? 'text-green-700' : 'text-red-600'}`}>
+          <span>合計</span>
+          <span>
+            {total}{splitUnit(splitMode, currency)}
+            {target !== null && ` / ${target}${splitUnit(splitMode, currency)}`}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 支払いの編集内容（入力値）
+type ExpenseEditValues = {
+  payerId: string;
+  description: string;
+  amount: string;
+  currency: string;
+  splitMode: SplitMode;
+  splitShares: Record<string, string>;
+};
+
+// 記録済みの支払いをその場で編集するフォーム
+// 割り勘対象者は変更せず、比率・金額・割合の内訳のみ編集できる
+function ExpenseEditForm({
+  expense,
+  payers,
+  memberName,
+  isSaving,
+  onSave,
+  onCancel
+}: {
+  expense: Expense;
+  payers: EventMember[];
+  memberName: (memberId: string) => string;
+  isSaving: boolean;
+  onSave: (data: ExpenseEditValues) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<ExpenseEditValues>(() => ({
+    payerId: expense.payerId,
+    description: expense.description,
+    amount: String(parseFloat(expense.amount)),
+    currency: expense.currency,
+    splitMode: expense.splitMode,
+    splitShares: Object.fromEntries(
+      Object.entries(expense.splitShares || {}).map(([memberId, value]) => [memberId, String(value)])
+    ),
+  }));
+  
+  // 名簿から外れた支払者も選択肢に残す
+  const payerOptions: Pick<EventMember, 'id' | 'displayName'>[] = payers.some(member => member.id === expense.payerId)
+    ? payers
+    : [{ id: expense.payerId, displayName: memberName(expense.payerId) }, ...payers];
+  const isValid = values.payerId && values.description && parseFloat(values.amount) > 0;
+  
+  return (
+    <div className="p-3 border rounded-md border-primary/40 bg-primary/5 space-y-2">
+      <Select
+        value={values.payerId}
+        onValueChange={(value) => setValues({ ...values, payerId: value })}
+      >
+        <SelectTrigger className="h-8 text-sm bg-white">
+          <SelectValue placeholder="支払者" />
+        </SelectTrigger>
+        <SelectContent>
+          {payerOptions.map((member) => (
+            <SelectItem key={member.id} value={member.id}>{member.displayName}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={values.description}
+        onChange={(e) => setValues({ ...values, description: e.target.value })}
+        placeholder="項目"
+        className="h-8 text-sm bg-white"
+      />
+      <div className="flex gap-2">
+        <Select
+          value={values.currency}
+          onValueChange={(value) => setValues({
+            ...values,
+            currency: value,
+            amount: sanitizeAmount(values.amount, value)
+          })}
+        >
+          <SelectTrigger className="h-8 w-24 text-sm bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCY_CODES.map((code) => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={values.amount}
+          onChange={(e) => setValues({ ...values, amount: sanitizeAmount(e.target.value, values.currency) })}
+          placeholder="金額"
+          inputMode={currencyDecimals(values.currency) > 0 ? 'decimal' : 'numeric'}
+          className="h-8 text-sm flex-1 bg-white"
+        />
+      </div>
+      {values.splitMode !== 'equal' && (
+        <SplitSharesInput
+          participants={Object.keys(values.splitShares).map(memberId => ({ id: memberId, displayName: memberName(memberId) }))}
+          splitMode={values.splitMode}
+          amount={parseFloat(values.amount) || 0}
+          currency={values.currency}
+          shares={values.splitShares}
+          onChange={(splitShares) => setValues({ ...values, splitShares })}
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onCancel}>
+          キャンセル
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => onSave(values)}
+          disabled={!isValid || isSaving}
+        >
+          {isSaving ? '保存中...' : '保存'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,129 +1,69 @@
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import { 
-  Card, 
-  CardContent, 
-  CardDescription, 
-  CardHeader, 
-  CardTitle,
-  CardFooter,
-} from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { PlusCircle, CalendarClock, Loader2, History, Star, Trash2 } from 'lucide-react';
-import { Event } from '@shared/schema';
+import { MyEvents } from '@shared/schema';
 import { formatDate } from '@/lib/utils';
-import { useEffect, useState, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import ProfileTransferDialog from '@/components/ProfileTransferDialog';
 
 export default function Home() {
-  const { data: allEvents, isLoading } = useQuery<Event[]>({
-    queryKey: ['/api/events'],
+  // このブラウザのプロフィールが作成・参加したイベント（別の端末からは復元コードで引き継ぐ）
+  const { data: myEvents, isLoading } = useQuery<MyEvents>({
+    queryKey: ['/api/me/events'],
   });
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
-  // 自分が作成したイベントIDリスト
-  const [myEventIds, setMyEventIds] = useState<string[]>([]);
+  const joinedEvents = myEvents?.joined ?? [];
+  const createdEvents = myEvents?.created ?? [];
   
-  // ローカルストレージから参加済みイベントの履歴を取得
-  const [recentEvents, setRecentEvents] = useState<{id: string, title: string}[]>([]);
-  
-  // 自分が作成したイベントのみをフィルタリング
-  const myEvents = useMemo(() => {
-    if (!allEvents || !myEventIds.length) return [];
-    return allEvents.filter(event => myEventIds.includes(event.id));
-  }, [allEvents, myEventIds]);
-  
-  // イベント履歴から項目を削除する関数
-  const removeFromHistory = (eventId: string, e: React.MouseEvent) => {
-    e.stopPropagation(); // イベントの伝播を停止（カードのクリックイベントを発火させない）
-    
-    try {
-      // 現在の履歴を取得
-      const storedEvents = localStorage.getItem('recentEvents');
-      if (storedEvents) {
-        // 該当IDのイベントを除外した新しい配列を作成
-        const events = JSON.parse(storedEvents);
-        const updatedEvents = events.filter((e: {id: string}) => e.id !== eventId);
-        
-        // 更新した配列を保存
-        localStorage.setItem('recentEvents', JSON.stringify(updatedEvents));
-        setRecentEvents(updatedEvents);
-        
-        toast({
-          title: "履歴から削除しました",
-          description: "イベントが参加中リストから削除されました",
-        });
-      }
-    } catch (error) {
-      console.error('Failed to remove event from history:', error);
+  // 一覧からイベントを削除（イベント自体とこのブラウザの役割はそのまま）
+  const removeEventMutation = useMutation({
+    mutationFn: async ({ eventId }: { eventId: string; created: boolean }) => {
+      await apiRequest('DELETE', `/api/me/events/${eventId}`);
+    },
+    onSuccess: (_, { created }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/events'] });
       toast({
-        title: "エラーが発生しました",
-        description: "削除処理に失敗しました",
-        variant: "destructive"
+        title: created ? "マイイベントから削除しました" : "履歴から削除しました",
+        description: created
+          ? "イベントがマイイベントリストから削除されました"
+          : "イベントが参加中リストから削除されました",
       });
-    }
-  };
-  
-  // 自分が作成したイベントを削除する関数
-  const removeMyEvent = (eventId: string, e: React.MouseEvent) => {
-    e.stopPropagation(); // イベントの伝播を停止（カードのクリックイベントを発火させない）
-    
-    try {
-      // 現在の自作イベントリストを取得
-      const updatedEventIds = myEventIds.filter(id => id !== eventId);
-      
-      // 更新した配列を保存
-      localStorage.setItem('myCreatedEvents', JSON.stringify(updatedEventIds));
-      setMyEventIds(updatedEventIds);
-      
-      toast({
-        title: "マイイベントから削除しました",
-        description: "イベントがマイイベントリストから削除されました",
-      });
-    } catch (error) {
-      console.error('Failed to remove event from my events:', error);
+    },
+    onError: (error) => {
       toast({
         title: "エラーが発生しました",
-        description: "削除処理に失敗しました",
+        description: error.message || "削除処理に失敗しました",
         variant: "destructive"
       });
     }
-  };
+  });
   
-  useEffect(() => {
-    // ローカルストレージからユーザーが参加した最近のイベントを取得
-    try {
-      const storedEvents = localStorage.getItem('recentEvents');
-      if (storedEvents) {
-        setRecentEvents(JSON.parse(storedEvents));
-      }
-      
-      // 自分が作成したイベントのIDリストを取得
-      const storedMyEvents = localStorage.getItem('myCreatedEvents');
-      if (storedMyEvents) {
-        setMyEventIds(JSON.parse(storedMyEvents));
-      }
-    } catch (error) {
-      console.error('Failed to load data from localStorage:', error);
-    }
-  }, []);
+  const removeEvent = (eventId: string, created: boolean, e: React.MouseEvent) => {
+    e.stopPropagation(); // イベントの伝播を停止（カードのクリックイベントを発火させない）
+    removeEventMutation.mutate({ eventId, created });
+  };
 
   return (
     <div className="w-full">
-      <div className="mb-4">
+      <div className="mb-4 flex items-center justify-between">
         <h1 className="text-xl font-bold text-slate-800 mb-1">マイイベント</h1>
+        <ProfileTransferDialog />
       </div>
 
-      {/* 最近参加したイベント */}
-      {recentEvents.length > 0 && (
+      {/* 参加したイベント */}
+      {joinedEvents.length > 0 && (
         <div className="mb-6">
           <h2 className="text-lg font-medium text-slate-800 mb-3 flex items-center">
             <History className="h-4 w-4 mr-1.5 text-primary/70" />
             参加中のイベント
           </h2>
           <div className="space-y-3 sm:grid sm:grid-cols-2 lg:grid-cols-3 sm:gap-3 sm:space-y-0">
-            {recentEvents.map((event) => (
+            {joinedEvents.map((event) => (
               <div 
                 key={event.id} 
                 onClick={() => navigate(`/event/${event.id}`)}
@@ -142,7 +82,7 @@ export default function Home() {
                         </div>
                       </div>
                       <button 
-                        onClick={(e) => removeFromHistory(event.id, e)}
+                        onClick={(e) => removeEvent(event.id, false, e)}
                         className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
                         aria-label="削除"
                       >
@@ -171,8 +111,8 @@ export default function Home() {
               <Loader2 className="h-6 w-6 animate-spin text-primary/70" />
             </div>
           </div>
-        ) : myEvents && myEvents.length > 0 ? (
-          myEvents.map((event) => (
+        ) : createdEvents.length > 0 ? (
+          createdEvents.map((event) => (
             <div 
               key={event.id} 
               onClick={() => navigate(`/event/${event.id}`)}
@@ -190,7 +130,7 @@ export default function Home() {
                     <div className="flex items-center gap-2">
                       <div className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${event.selectedDate ? 'bg-green-500' : 'bg-amber-500'}`}></div>
                       <button 
-                        onClick={(e) => removeMyEvent(event.id, e)}
+                        onClick={(e) => removeEvent(event.id, true, e)}
                         className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
                         aria-label="削除"
                       >
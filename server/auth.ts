@@ -0,0 +1,147 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { EventIdentity, EventRole } from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { currentIdentity } from "./members";
+
+declare module "express-session" {
+  interface SessionData {
+    eventIdentities?: Record<string, EventIdentity>; // イベントID -> 認証済みの役割
+    calendarFeedId?: string; // このブラウザのカレンダー購読用フィード
+    profileId?: string; // このブラウザのプロフィール（作成・参加したイベントとテンプレートの持ち主）
+  }
+}
+
+const SESSION_MAX_AGE = 1000 * 60 * 60 * 24 * 180; // 180日
+
+// トークン署名用の秘密鍵（未設定の場合は起動ごとに生成するため、再起動でリンクが無効になる）
+const secret = process.env.SESSION_SECRET || (() => {
+  console.warn("SESSION_SECRET が設定されていません。一時的な鍵を使用します");
+  return randomBytes(32).toString("hex");
+})();
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, createTableIfMissing: true }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+}
+
+// トークンの中身（短いキーでURLを短くする）
+type TokenPayload = {
+  e: string; // イベントID
+  r: EventRole;
+  n: string; // 名前
+  a?: string; // 出欠ID
+  m?: string; // メンバーID
+};
+
+function sign(data: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+// イベント用の署名付きトークンを発行
+export function issueEventToken(eventId: string, identity: EventIdentity): string {
+  const payload: TokenPayload = {
+    e: eventId,
+    r: identity.role,
+    n: identity.name,
+    a: identity.attendanceId,
+    m: identity.memberId,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// トークンを検証し、イベントの役割を返す（不正・別イベントのトークンは null）
+export function verifyEventToken(token: string, eventId: string): EventIdentity | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(data, "base64url").toString());
+    if (payload.e !== eventId) return null;
+    return { role: payload.r, name: payload.n, attendanceId: payload.a, memberId: payload.m };
+  } catch {
+    return null;
+  }
+}
+
+export function getEventIdentity(req: Request, eventId: string): EventIdentity | undefined {
+  return req.session.eventIdentities?.[eventId];
+}
+
+// 認証済みの役割を名簿の現在の内容に合わせて返す（名前の変更・統合の後はセッションも書き換える）
+export async function loadEventIdentity(req: Request, eventId: string): Promise<EventIdentity | undefined> {
+  const identity = getEventIdentity(req, eventId);
+  if (!identity) return undefined;
+
+  const current = currentIdentity(identity, await storage.getEventMembers(eventId));
+  if (
+    current.name !== identity.name
+    || current.memberId !== identity.memberId
+    || current.attendanceId !== identity.attendanceId
+  ) {
+    setEventIdentity(req, eventId, current);
+  }
+  return current;
+}
+
+export function setEventIdentity(req: Request, eventId: string, identity: EventIdentity) {
+  req.session.eventIdentities = {
+    ...req.session.eventIdentities,
+    [eventId]: identity,
+  };
+}
+
+export function clearEventIdentity(req: Request, eventId: string) {
+  if (req.session.eventIdentities) {
+    const { [eventId]: _removed, ...rest } = req.session.eventIdentities;
+    req.session.eventIdentities = rest;
+  }
+}
+
+// 役割を確認するミドルウェア（主催者は参加者の操作もできる）
+// 認証済みの役割は res.locals.identity に設定する
+export function requireEventRole(role: EventRole = "participant") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const eventId = req.params.id || req.params.eventId;
+    let identity: EventIdentity | undefined;
+    try {
+      identity = await loadEventIdentity(req, eventId);
+    } catch (error) {
+      return res.status(500).json({ message: "認証情報の確認に失敗しました" });
+    }
+
+    if (!identity) {
+      return res.status(401).json({ message: "このイベントの参加用リンクから開いてください" });
+    }
+
+    if (role === "organizer" && identity.role !== "organizer") {
+      return res.status(403).json({ message: "主催者のみ実行できます" });
+    }
+
+    res.locals.identity = identity;
+    next();
+  };
+}
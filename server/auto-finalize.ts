@@ -0,0 +1,68 @@
+import type { Event } from "@shared/schema";
+import { rankDateOptions } from "@shared/date-ranking";
+import { findBestSlotBlock } from "@shared/slot-grid";
+import { storage } from "./storage";
+import { broadcastChange } from "./live";
+
+const CHECK_INTERVAL = 60 * 1000; // 1分ごとに締切を確認する
+
+type Schedule = { date: string; startTime: string; endTime: string };
+
+// 最も参加しやすい日程
+// 候補日は順位が1位の候補日、時間帯グリッドは開催時間ぶん通して参加できる人が最も多い時間帯
+async function pickBestSchedule(event: Event): Promise<Schedule | null> {
+  if (event.pollType === "slots" && event.slotGrid) {
+    const [attendances, availabilities] = await Promise.all([
+      storage.getEventAttendances(event.id),
+      storage.getEventSlotAvailabilities(event.id),
+    ]);
+    const entries = attendances.map(attendance => ({
+      name: attendance.name,
+      slots: availabilities.find(availability => availability.attendanceId === attendance.id)?.slots || [],
+    }));
+    return findBestSlotBlock(event.slotGrid, entries);
+  }
+
+  const [attendances, members] = await Promise.all([
+    storage.getEventAttendances(event.id),
+    storage.getEventMembers(event.id),
+  ]);
+  const { recommendedDateOptionId } = rankDateOptions(event.dateOptions, attendances, members);
+  return event.dateOptions.find(option => option.id === recommendedDateOptionId) ?? null;
+}
+
+// 回答締切を過ぎたイベントを自動確定する（自動確定は1回だけ）
+// 回答がないなどで日程を決められない場合は自動確定をやめ、主催者の確定を待つ
+export async function autoFinalizeDueEvents(now: Date = new Date()): Promise<void> {
+  const dueEvents = await storage.getEventsToAutoFinalize(now);
+  for (const event of dueEvents) {
+    try {
+      const schedule = await pickBestSchedule(event);
+      if (!schedule) {
+        await storage.updateEvent(event.id, { autoFinalize: false });
+        broadcastChange(event.id, "event-updated");
+        continue;
+      }
+
+      // 確定を解除した後に再び自動確定しないよう、自動確定の設定を外す
+      await storage.updateEvent(event.id, {
+        autoFinalize: false,
+        selectedDate: schedule.date,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        calendarSequence: event.calendarSequence + 1,
+      });
+      broadcastChange(event.id, "event-finalized");
+    } catch (error) {
+      console.error(`Failed to auto-finalize event ${event.id}:`, error);
+    }
+  }
+}
+
+// Express のプロセス内で締切を定期的に確認する
+export function startAutoFinalizeScheduler() {
+  const timer = setInterval(() => {
+    autoFinalizeDueEvents().catch(error => console.error("Auto-finalize check failed:", error));
+  }, CHECK_INTERVAL);
+  timer.unref();
+}
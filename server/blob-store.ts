@@ -0,0 +1,51 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// 添付ファイルなどのバイナリの保存先（ローカルのファイル以外にも差し替えられるようにする）
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>; // 見つからなければ undefined
+  delete(key: string): Promise<void>; // 見つからなくてもエラーにしない
+}
+
+// キーは "receipts/<イベントID>/<添付ID>" のような / 区切りの名前
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/;
+
+// ローカルのディレクトリに保存する（テストでは一時ディレクトリを指定する）
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  private filePath(key: string): string {
+    if (!KEY_PATTERN.test(key) || key.split("/").some(part => part === "." || part === "..")) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, ...key.split("/"));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // 書き込み途中のファイルを読まれないように、一時ファイルに書いてから置き換える
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, file);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+// 保存先のディレクトリ（UPLOAD_DIR、未設定ならリポジトリ直下の uploads）
+export const blobStore: BlobStore = new LocalBlobStore(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads")
+);
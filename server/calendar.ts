@@ -0,0 +1,171 @@
+import type { Request } from "express";
+import { nanoid } from "nanoid";
+import type { CalendarFeed, Event } from "@shared/schema";
+import { storage } from "./storage";
+import { currentIdentity } from "./members";
+
+const PRODID = "-//chousei-warikan//JA";
+const TIMEZONE = "Asia/Tokyo";
+
+// 東京は夏時間がないため、固定のオフセットだけで定義する
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:+0900",
+  "TZOFFSETTO:+0900",
+  "TZNAME:JST",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// テキスト値のエスケープ（RFC 5545 3.3.11）
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 75オクテットを超える行を折り返す（マルチバイト文字の途中では切らない）
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // 継続行は先頭の空白の分だけ短くする
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// yyyy-MM-dd と HH:mm を現地時刻の DATE-TIME（yyyyMMddTHHmmss）にする
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, "")}T${time.replace(":", "")}00`;
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 確定した日程の VEVENT
+// UID はイベントIDから作るので、日程を変更しても同じ予定として更新される
+function buildEventLines(event: Event, baseUrl: string, now: Date): string[] {
+  const date = event.selectedDate!;
+  const url = `${baseUrl}/event/${event.id}`;
+  const description = [
+    event.description,
+    event.memo && `メモ:\n${event.memo}`,
+    url,
+  ].filter(Boolean).join("\n\n");
+
+  let timeLines: string[];
+  if (event.startTime && event.endTime) {
+    // 終了が開始より前なら日付をまたぐ
+    const endDate = event.endTime <= event.startTime ? nextDay(date) : date;
+    timeLines = [
+      `DTSTART;TZID=${TIMEZONE}:${formatLocalDateTime(date, event.startTime)}`,
+      `DTEND;TZID=${TIMEZONE}:${formatLocalDateTime(endDate, event.endTime)}`,
+    ];
+  } else {
+    // 時間が決まっていない場合は終日の予定にする
+    timeLines = [
+      `DTSTART;VALUE=DATE:${date.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${nextDay(date).replace(/-/g, "")}`,
+    ];
+  }
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@chousei-warikan`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `SEQUENCE:${event.calendarSequence}`,
+    ...timeLines,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    "END:VEVENT",
+  ];
+}
+
+// iCalendar（RFC 5545）を作成する（日程が未確定のイベントは含めない）
+export function buildCalendar(events: Event[], baseUrl: string, name?: string): string {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...VTIMEZONE,
+    ...events
+      .filter(event => event.selectedDate)
+      .flatMap(event => buildEventLines(event, baseUrl, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// カレンダーに載せるリンクの基準URL
+export function requestOrigin(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// このブラウザで登録しているイベントのメンバーID（統合されたメンバーは統合先、古い認証は表示名で探す）
+async function sessionMemberIds(req: Request): Promise<string[]> {
+  const identities = Object.entries(req.session.eventIdentities || {});
+  const memberIds = await Promise.all(
+    identities.map(async ([eventId, identity]) =>
+      currentIdentity(identity, await storage.getEventMembers(eventId)).memberId
+    )
+  );
+  return memberIds.filter((memberId): memberId is string => !!memberId);
+}
+
+// このブラウザのカレンダーフィードに、登録しているイベントを追加する
+// create が false の場合は、フィードを作成済みのときだけ更新する
+export async function syncCalendarFeed(req: Request, create = false): Promise<CalendarFeed | undefined> {
+  const feedId = req.session.calendarFeedId;
+  const feed = feedId ? await storage.getCalendarFeed(feedId) : undefined;
+  if (!feed && !create) return undefined;
+
+  const memberIds = await sessionMemberIds(req);
+  if (!feed) {
+    // フィードのIDは購読URLの鍵になるので、推測されにくい長さにする
+    const newFeed = await storage.createCalendarFeed({ id: nanoid(32), memberIds });
+    req.session.calendarFeedId = newFeed.id;
+    return newFeed;
+  }
+
+  const merged = Array.from(new Set([...feed.memberIds, ...memberIds]));
+  return merged.length === feed.memberIds.length ? feed : storage.updateCalendarFeed(feed.id, merged);
+}
+
+// フィードのメンバーが登録している、日程が確定したイベント（名簿から外れたイベントは含めない）
+export async function getFeedEvents(feed: CalendarFeed): Promise<Event[]> {
+  const members = await Promise.all(feed.memberIds.map(memberId => storage.getEventMember(memberId)));
+  const eventIds = Array.from(new Set(
+    members.filter(member => member?.active).map(member => member!.eventId)
+  ));
+  const events = await Promise.all(eventIds.map(eventId => storage.getEvent(eventId)));
+  return events.filter((event): event is Event => !!event?.selectedDate);
+}
@@ -1,4 +1,5 @@
 import { DatabaseStorage } from './storage';
+import { ensureEventMember } from './members';
 import { db } from './db';
 import { events, dateOptions, attendances, attendanceResponses, expenses } from '@shared/schema';
 import { eq } from 'drizzle-orm';
@@ -114,7 +115,7 @@ const eventsToImport = [
     defaultStartTime: "10:00", 
     defaultEndTime: "18:00",
     participantsCount: 4,
-    memo: "集合場所：二子玉川駅改札前\n持ち物：タオル、水着、サンダル\n予算：約5000円",
+    memo: "集合場所：二子玉川駅改札前\n予算：約5000円\n## 持ち物\n- [ ] タオル\n- [ ] 水着\n- [ ] サンダル",
     dateOptions: [
       {
         id: "do_223",
@@ -262,12 +263,13 @@ async function importEvents() {
         defaultStartTime: eventData.defaultStartTime || null,
         defaultEndTime: eventData.defaultEndTime || null,
         participantsCount: eventData.participantsCount || 0,
-        participants: [],
         memo: eventData.memo || null,
         memoLastEditedBy: null,
         memoLastEditedAt: null,
       });
       
+      await ensureEventMember(eventData.id, eventData.creatorName, "creator");
+      
       // 2. イベント日程選択肢のインポート
       console.log(`イベント「${eventData.title}」の日程選択肢（${eventData.dateOptions.length}件）をインポート中...`);
       for (const dateOption of eventData.dateOptions) {
@@ -289,6 +291,7 @@ async function importEvents() {
           eventId: eventData.id,
           name: attendance.name
         });
+        await ensureEventMember(eventData.id, attendance.name, "attendee", attendance.id);
         
         if (attendance.responses && attendance.responses.length > 0) {
           await dbStorage.updateAttendanceResponses(
@@ -305,13 +308,20 @@ async function importEvents() {
       console.log(`イベント「${eventData.title}」の支出データ（${eventData.expenses.length}件）をインポート中...`);
       
       for (const expense of eventData.expenses) {
+        // 名前から名簿のメンバーIDに変換（名簿にいない人は手動追加として登録）
+        const payer = await ensureEventMember(eventData.id, expense.payerName, "manual");
+        const participantIds = [];
+        for (const name of expense.participants || []) {
+          participantIds.push((await ensureEventMember(eventData.id, name, "manual")).id);
+        }
+        
         await dbStorage.createExpense({
           id: expense.id,
           eventId: eventData.id,
-          payerName: expense.payerName,
+          payerId: payer.id,
           description: expense.description,
           amount: expense.amount,
-          participants: expense.participants || [],
+          participantIds: expense.isSharedWithAll ? [] : participantIds,
           isSharedWithAll: expense.isSharedWithAll
         });
       }
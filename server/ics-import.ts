@@ -0,0 +1,455 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { AttendanceSuggestion, DateOption } from "@shared/schema";
+
+// 候補日の時刻と、タイムゾーン指定のない予定の時刻はこのタイムゾーンとみなす
+const DEFAULT_TIMEZONE = "Asia/Tokyo";
+// 前後この時間以内に予定がある候補日は「△」にする
+const ADJACENT_MARGIN = 60 * 60 * 1000;
+// ファイル全体で展開する予定の回数の上限（大量の繰り返し予定で止まらないようにする。超えた分は無視する）
+const MAX_OCCURRENCES = 20000;
+// 読み込むカレンダーの大きさの上限
+const MAX_ICS_BYTES = 1024 * 1024;
+// タイムゾーンごとの書式を覚えておく数の上限
+const MAX_CACHED_TIME_ZONES = 500;
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+// 現地時刻（タイムゾーンは別に持つ）
+type LocalDateTime = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+type DateTimeValue = {
+  local: LocalDateTime;
+  timeZone: string; // "UTC" または IANA のタイムゾーン名
+  allDay: boolean;
+};
+
+type RecurrenceRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay: { weekday: number; ordinal?: number }[];
+};
+
+type BusyPeriod = { summary: string; start: number; end: number };
+
+type TimeRange = { start: number; end: number };
+
+// ファイル全体で残っている展開の回数
+type OccurrenceBudget = { remaining: number };
+
+const icsBody = express.text({ type: "text/calendar", limit: MAX_ICS_BYTES });
+
+// カレンダーをそのまま本文（text/calendar）で受け取る
+export function icsUpload(req: Request, res: Response, next: NextFunction) {
+  icsBody(req, res, (error?: unknown) => {
+    if (error) {
+      return res.status(413).json({ message: `カレンダーのデータは${MAX_ICS_BYTES / 1024 / 1024}MBまでです` });
+    }
+    next();
+  });
+}
+
+// 折り返された行を戻し、プロパティ名・パラメータ・値に分解する
+function parseProperties(ics: string): Property[] {
+  return ics
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== "")
+    .map(line => {
+      // 引用符の中のコロンはパラメータの一部
+      let inQuotes = false;
+      let separator = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ":" && !inQuotes) {
+          separator = i;
+          break;
+        }
+      }
+      if (separator === -1) return null;
+
+      const [name, ...rawParams] = line.slice(0, separator).split(";");
+      const params: Record<string, string> = {};
+      rawParams.forEach(param => {
+        const [key, ...value] = param.split("=");
+        params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+      });
+      return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+    })
+    .filter((property): property is Property => property !== null);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// タイムゾーンごとの書式（作るのに時間がかかるので使い回す。解釈できない名前は null）
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function timeZoneFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  const cached = formatters.get(timeZone);
+  if (cached !== undefined) return cached;
+
+  let formatter: Intl.DateTimeFormat | null;
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  } catch {
+    formatter = null;
+  }
+  // ファイルに書かれた名前をそのまま覚えるので、増えすぎたら捨てる
+  if (formatters.size >= MAX_CACHED_TIME_ZONES) formatters.clear();
+  formatters.set(timeZone, formatter);
+  return formatter;
+}
+
+// 指定した時刻でのタイムゾーンのUTCからのずれ（ミリ秒）
+function timeZoneOffset(time: number, formatter: Intl.DateTimeFormat): number {
+  const parts = formatter.formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - time;
+}
+
+// 現地時刻をUTCの時刻（ミリ秒）にする
+// Windows形式など解釈できないタイムゾーン名は既定のタイムゾーンとみなす
+function toUtc(local: LocalDateTime, timeZone: string): number {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  if (timeZone === "UTC") return wallClock;
+
+  const formatter = timeZoneFormatter(timeZone) ?? timeZoneFormatter(DEFAULT_TIMEZONE)!;
+  const guess = wallClock - timeZoneOffset(wallClock, formatter);
+  return wallClock - timeZoneOffset(guess, formatter);
+}
+
+// 日付をずらした現地時刻（月末を超える日付は翌月に繰り越す）
+function shiftLocal(local: LocalDateTime, { days = 0, months = 0, years = 0 }): LocalDateTime {
+  const date = new Date(Date.UTC(local.year + years, local.month - 1 + months, local.day + days));
+  return { ...local, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(local: LocalDateTime): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+function parseDateTime(value: string, params: Record<string, string>): DateTimeValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const allDay = hour === undefined;
+  return {
+    local: {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: allDay ? 0 : Number(hour),
+      minute: allDay ? 0 : Number(minute),
+      second: second ? Number(second) : 0,
+    },
+    timeZone: utc ? "UTC" : params.TZID || DEFAULT_TIMEZONE,
+    allDay,
+  };
+}
+
+// DURATION（例: PT1H30M, P1D）をミリ秒にする
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const duration = (Number(weeks || 0) * 7 + Number(days || 0)) * DAY
+    + Number(hours || 0) * 60 * 60 * 1000
+    + Number(minutes || 0) * 60 * 1000
+    + Number(seconds || 0) * 1000;
+  return sign === "-" ? -duration : duration;
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = Object.fromEntries(value.split(";").map(part => {
+    const [key, ...rest] = part.split("=");
+    return [key.toUpperCase(), rest.join("=")];
+  }));
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(parts.FREQ)) return null;
+
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL, {}) : null;
+  return {
+    freq: parts.FREQ as RecurrenceRule["freq"],
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    // 終日の UNTIL はその日の終わりまでを含む
+    until: until ? toUtc(until.local, until.timeZone) + (until.allDay ? DAY - 1 : 0) : undefined,
+    byDay: (parts.BYDAY || "")
+      .split(",")
+      .map((day: string) => day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/))
+      .filter((match: RegExpMatchArray | null): match is RegExpMatchArray => match !== null)
+      .map((match: RegExpMatchArray) => ({
+        weekday: WEEKDAYS.indexOf(match[2]),
+        ordinal: match[1] ? Number(match[1]) : undefined,
+      })),
+  };
+}
+
+// 月の中で n 番目（負の値は末尾から）の曜日
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): number | null {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) days.push(day);
+  }
+  return (ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal]) ?? null;
+}
+
+// 現地時刻の並べ替え用の値
+function localOrder(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+// 繰り返しの period 番目の期間に含まれる開始時刻（現地時刻、DTSTART より前のものも含む）
+function periodCandidates(start: LocalDateTime, rule: RecurrenceRule, period: number): LocalDateTime[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return [shiftLocal(start, { days: period * rule.interval })];
+    case "WEEKLY": {
+      if (rule.byDay.length === 0) {
+        return [shiftLocal(start, { days: period * rule.interval * 7 })];
+      }
+      // 週の始まり（日曜）から指定された曜日を並べる
+      const weekStart = shiftLocal(start, { days: period * rule.interval * 7 - weekdayOf(start) });
+      return rule.byDay
+        .map(({ weekday }) => shiftLocal(weekStart, { days: weekday }))
+        .sort((a, b) => localOrder(a) - localOrder(b));
+    }
+    case "MONTHLY": {
+      const month = shiftLocal({ ...start, day: 1 }, { months: period * rule.interval });
+      const candidates = rule.byDay.length > 0
+        ? rule.byDay
+            .map(({ weekday, ordinal }) => nthWeekdayOfMonth(month.year, month.month, weekday, ordinal ?? 1))
+            .filter((day): day is number => day !== null)
+            .sort((a, b) => a - b)
+            .map(day => ({ ...month, day }))
+        : [{ ...month, day: start.day }];
+      // 存在しない日付（例: 2月30日）は飛ばす
+      return candidates.filter(local => shiftLocal(local, {}).month === local.month);
+    }
+    case "YEARLY":
+      return [{ ...start, year: start.year + period * rule.interval }]
+        .filter(local => shiftLocal(local, {}).month === local.month);
+  }
+}
+
+// from より前に終わる期間を展開せずに飛ばす数と、その間に数えるはずだった回数
+// COUNT がある場合は、期間ごとの回数が決まっている DAILY・WEEKLY のみ飛ばす
+function skipPeriods(
+  start: LocalDateTime,
+  startTime: number,
+  rule: RecurrenceRule,
+  toTime: (local: LocalDateTime) => number,
+  from: number,
+): { periods: number; occurrences: number } {
+  if (from <= startTime) return { periods: 0, occurrences: 0 };
+  if (rule.count !== undefined && (rule.freq === "MONTHLY" || rule.freq === "YEARLY")) {
+    return { periods: 0, occurrences: 0 };
+  }
+
+  const elapsed = from - startTime;
+  const fromDate = new Date(from);
+  let periods: number;
+  switch (rule.freq) {
+    case "DAILY":
+      periods = Math.floor(elapsed / (rule.interval * DAY));
+      break;
+    case "WEEKLY":
+      periods = Math.floor(elapsed / (rule.interval * 7 * DAY));
+      break;
+    case "MONTHLY":
+      periods = Math.floor(((fromDate.getUTCFullYear() - start.year) * 12 + fromDate.getUTCMonth() + 1 - start.month) / rule.interval);
+      break;
+    case "YEARLY":
+      periods = Math.floor((fromDate.getUTCFullYear() - start.year) / rule.interval);
+      break;
+  }
+  // 夏時間やタイムゾーンのずれで直前の回を飛ばさないよう、1期間手前から展開する
+  periods = Math.max(0, periods - 1);
+  if (periods === 0) return { periods, occurrences: 0 };
+
+  // 最初の期間は DTSTART より前の曜日を数えない
+  const firstPeriod = periodCandidates(start, rule, 0);
+  const firstOccurrences = firstPeriod.filter(local => toTime(local) >= startTime).length;
+  return { periods, occurrences: firstOccurrences + (periods - 1) * firstPeriod.length };
+}
+
+// 繰り返し予定の開始時刻（現地時刻）のうち、range の中のものを列挙する
+// COUNT・UNTIL は DTSTART から数え、range より前の期間はまとめて飛ばす
+function expandRecurrence(
+  start: LocalDateTime,
+  rule: RecurrenceRule,
+  toTime: (local: LocalDateTime) => number,
+  range: TimeRange,
+  budget: OccurrenceBudget,
+): LocalDateTime[] {
+  const occurrences: LocalDateTime[] = [];
+  const startTime = toTime(start);
+  const skipped = skipPeriods(start, startTime, rule, toTime, range.start);
+  let counted = skipped.occurrences;
+
+  for (let period = skipped.periods; budget.remaining > 0; period++) {
+    const candidates = periodCandidates(start, rule, period);
+    // 予定のない期間が続く繰り返しルールでも止まるよう、期間ごとに1回は数える
+    budget.remaining -= Math.max(1, candidates.length);
+
+    for (const candidate of candidates) {
+      const time = toTime(candidate);
+      if (time < startTime) continue;
+      if ((rule.until !== undefined && time > rule.until) || time > range.end) return occurrences;
+      if (rule.count !== undefined && counted >= rule.count) return occurrences;
+      counted++;
+      if (time >= range.start) occurrences.push(candidate);
+    }
+  }
+  return occurrences;
+}
+
+// 予定のある時間帯のうち、ranges のどれかに重なるものを取り出す（空き時間扱いの予定・キャンセルされた予定は除く）
+export function parseBusyPeriods(ics: string, ranges: TimeRange[]): BusyPeriod[] {
+  const periods: BusyPeriod[] = [];
+  const stack: string[] = [];
+  const budget: OccurrenceBudget = { remaining: MAX_OCCURRENCES };
+  let event: Property[] = [];
+
+  for (const property of parseProperties(ics)) {
+    if (budget.remaining <= 0) break;
+    if (property.name === "BEGIN") {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === "VEVENT") event = [];
+      continue;
+    }
+    if (property.name === "END") {
+      if (stack.pop() === "VEVENT") periods.push(...eventBusyPeriods(event, ranges, budget));
+      continue;
+    }
+    // VALARM など、予定の中の別のコンポーネントは無視する
+    if (stack[stack.length - 1] === "VEVENT") event.push(property);
+  }
+
+  return periods;
+}
+
+function eventBusyPeriods(properties: Property[], ranges: TimeRange[], budget: OccurrenceBudget): BusyPeriod[] {
+  const get = (name: string) => properties.find(property => property.name === name);
+
+  if (get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") return [];
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return [];
+
+  const dtStart = get("DTSTART");
+  const start = dtStart && parseDateTime(dtStart.value, dtStart.params);
+  if (!start) return [];
+
+  const toTime = (local: LocalDateTime) => toUtc(local, start.timeZone);
+  const startTime = toTime(start.local);
+
+  // 終了は DTEND、DURATION の順に探し、どちらもなければ終日は1日・それ以外は長さ0
+  const dtEnd = get("DTEND");
+  const end = dtEnd && parseDateTime(dtEnd.value, dtEnd.params);
+  const duration = end
+    ? toUtc(end.local, end.timeZone) - startTime
+    : parseDuration(get("DURATION")?.value || "") ?? (start.allDay ? DAY : 0);
+
+  // 時間帯に重なる予定の開始時刻の範囲
+  const startRanges = ranges.map(range => ({ start: range.start - Math.max(0, duration), end: range.end }));
+
+  const summary = unescapeText(get("SUMMARY")?.value || "（件名なし）");
+  const rrule = get("RRULE");
+  const rule = rrule && parseRecurrenceRule(rrule.value);
+  if (!rule) {
+    budget.remaining--;
+    return startRanges.some(range => startTime >= range.start && startTime <= range.end)
+      ? [{ summary, start: startTime, end: startTime + duration }]
+      : [];
+  }
+
+  const excluded = new Set(
+    properties
+      .filter(property => property.name === "EXDATE")
+      .flatMap(property => property.value.split(",").map(value => parseDateTime(value, property.params)))
+      .filter((value): value is DateTimeValue => value !== null)
+      .map(value => toUtc(value.local, value.timeZone))
+  );
+
+  // 予定の長さによっては前後の時間帯の範囲が重なるので、同じ回は一度だけ数える
+  const times = new Set<number>();
+  for (const range of startRanges) {
+    for (const occurrence of expandRecurrence(start.local, rule, toTime, range, budget)) {
+      const time = toTime(occurrence);
+      if (!excluded.has(time)) times.add(time);
+    }
+  }
+  return Array.from(times, time => ({ summary, start: time, end: time + duration }));
+}
+
+// 候補日の時間帯（終了が開始以前なら日付をまたぐ）
+function optionWindow(option: DateOption): { start: number; end: number } {
+  const [year, month, day] = option.date.split("-").map(Number);
+  const at = (time: string) => {
+    const [hour, minute] = time.split(":").map(Number);
+    return toUtc({ year, month, day, hour, minute, second: 0 }, DEFAULT_TIMEZONE);
+  };
+  const start = at(option.startTime);
+  let end = at(option.endTime);
+  if (end <= start) end += DAY;
+  return { start, end };
+}
+
+// 重なる時間帯をまとめる（候補日の間の期間は展開しない）
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const merged: TimeRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// カレンダーの予定から候補日ごとの出欠を提案する
+// 重なる予定があれば「×」、前後に接する予定があれば「△」、どちらもなければ「◯」
+export function suggestAttendance(dateOptions: DateOption[], ics: string): AttendanceSuggestion[] {
+  const windows = dateOptions.map(option => ({ option, ...optionWindow(option) }));
+  const busy = parseBusyPeriods(ics, mergeRanges(windows.map(window => ({
+    start: window.start - ADJACENT_MARGIN,
+    end: window.end + ADJACENT_MARGIN,
+  }))));
+
+  return windows.map(({ option, start, end }) => {
+    const overlapping = busy.filter(period => period.start < end && period.end > start);
+    const adjacent = busy.filter(period =>
+      !overlapping.includes(period)
+      && period.start < end + ADJACENT_MARGIN
+      && period.end > start - ADJACENT_MARGIN
+    );
+    const conflicts = overlapping.length > 0 ? overlapping : adjacent;
+
+    return {
+      dateOptionId: option.id,
+      status: overlapping.length > 0 ? "unavailable" : adjacent.length > 0 ? "maybe" : "available",
+      conflicts: conflicts.map(period => ({
+        summary: period.summary,
+        start: new Date(period.start).toISOString(),
+        end: new Date(period.end).toISOString(),
+      })),
+    };
+  });
+}
@@ -0,0 +1,69 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { LiveChange } from "@shared/live";
+
+const LIVE_PATH = /^\/api\/events\/([^/]+)\/live$/;
+const HEARTBEAT_INTERVAL = 30 * 1000; // 30秒
+
+// イベントID -> 接続中のクライアント
+const channels = new Map<string, Set<WebSocket>>();
+// 応答のない接続を検出するための生存確認
+const alive = new WeakMap<WebSocket, boolean>();
+
+// HTTPサーバーにイベントごとのリアルタイム更新チャンネルを追加
+// Vite の HMR も同じサーバーで upgrade を使うため、対象のパスだけを処理する
+export function setupLiveUpdates(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    const match = pathname.match(LIVE_PATH);
+    if (!match) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      joinChannel(decodeURIComponent(match[1]), ws);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+}
+
+function joinChannel(eventId: string, ws: WebSocket) {
+  let channel = channels.get(eventId);
+  if (!channel) {
+    channel = new Set();
+    channels.set(eventId, channel);
+  }
+  channel.add(ws);
+  alive.set(ws, true);
+
+  ws.on("pong", () => alive.set(ws, true));
+  ws.on("close", () => {
+    channel!.delete(ws);
+    if (channel!.size === 0) channels.delete(eventId);
+  });
+  ws.on("error", () => ws.terminate());
+}
+
+// イベントを開いている全員に変更を通知
+export function broadcastChange(eventId: string, type: LiveChange["type"], by?: string) {
+  const channel = channels.get(eventId);
+  if (!channel) return;
+
+  const message = JSON.stringify({ type, eventId, by } satisfies LiveChange);
+  channel.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+}
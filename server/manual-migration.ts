@@ -53,7 +53,6 @@ async function manualMigrate() {
         defaultStartTime: event.defaultStartTime || null,
         defaultEndTime: event.defaultEndTime || null,
         participantsCount: event.participantsCount || 0,
-        participants: event.participants || [],
         memo: event.memo || null,
         memoLastEditedBy: event.memoLastEditedBy || null,
         memoLastEditedAt: event.memoLastEditedAt || null,
@@ -101,7 +100,20 @@ async function manualMigrate() {
         }
       }
       
-      // 7. 支出データの移行
+      // 7. 参加者名簿の移行
+      const membersList = await memStorage.getEventMembers(event.id);
+      for (const member of membersList) {
+        await dbStorage.createEventMember({
+          id: member.id,
+          eventId: event.id,
+          displayName: member.displayName,
+          source: member.source,
+          attendanceId: member.attendanceId,
+          active: member.active
+        });
+      }
+      
+      // 8. 支出データの移行
       const expensesList = await memStorage.getEventExpenses(event.id);
       console.log(`イベント「${event.title}」の支出データ（${expensesList.length}件）を移行中...`);
       
@@ -109,10 +121,10 @@ async function manualMigrate() {
         await dbStorage.createExpense({
           id: expense.id,
           eventId: event.id,
-          payerName: expense.payerName,
+          payerId: expense.payerId,
           description: expense.description,
           amount: expense.amount,
-          participants: expense.participants || [],
+          participantIds: expense.participantIds,
           isSharedWithAll: expense.isSharedWithAll
         });
       }
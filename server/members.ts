@@ -0,0 +1,117 @@
+import { nanoid } from "nanoid";
+import type { EventIdentity, EventMember, MemberReferences, MemberSource } from "@shared/schema";
+import { storage } from "./storage";
+
+// 表示名で名簿のメンバーを探し、いなければ追加する
+// 名簿から外したメンバーは有効に戻し、出欠IDが指定されていれば紐付ける
+export async function ensureEventMember(
+  eventId: string,
+  displayName: string,
+  source: MemberSource,
+  attendanceId?: string,
+): Promise<EventMember> {
+  const members = await storage.getEventMembers(eventId);
+  const existing = members.find(member => member.displayName === displayName);
+
+  if (!existing) {
+    return storage.createEventMember({
+      id: nanoid(),
+      eventId,
+      displayName,
+      source,
+      attendanceId: attendanceId ?? null,
+    });
+  }
+
+  const needsLink = attendanceId && !existing.attendanceId;
+  if (!existing.active || needsLink) {
+    return storage.updateEventMember(existing.id, {
+      active: true,
+      mergedIntoId: null,
+      ...(needsLink ? { attendanceId } : {}),
+    });
+  }
+
+  return existing;
+}
+
+// 作成したイベントに参加予定者を登録する（出欠と名簿の両方に追加し、参加者数を更新する）
+export async function registerParticipants(eventId: string, names: string[]): Promise<number> {
+  let participantCount = 0;
+  for (const name of names) {
+    const attendanceId = nanoid();
+    await storage.createAttendance({
+      id: attendanceId,
+      eventId,
+      name,
+    });
+    await ensureEventMember(eventId, name, "attendee", attendanceId);
+    participantCount++;
+  }
+  
+  if (participantCount > 0) {
+    await storage.updateEvent(eventId, {
+      participantsCount: participantCount,
+    });
+  }
+  return participantCount;
+}
+
+// 認証済みの役割に対応するメンバーID（メンバーIDを含まない古いトークンは表示名で探す）
+export function identityMemberId(identity: EventIdentity, members: EventMember[]): string | undefined {
+  if (identity.memberId) return identity.memberId;
+  return members.find(member => member.displayName === identity.name)?.id;
+}
+
+// 認証済みの役割を名簿の現在の内容に合わせる（名前の変更・統合の後も同じ人として扱う）
+// 統合されたメンバーは統合先として扱い、メンバーIDを含まない古い認証は表示名で探す
+export function currentIdentity(identity: EventIdentity, members: EventMember[]): EventIdentity {
+  let member = identity.memberId
+    ? members.find(member => member.id === identity.memberId)
+    : members.find(member => member.active && member.displayName === identity.name);
+  for (let hops = 0; member?.mergedIntoId && hops < members.length; hops++) {
+    const mergedIntoId = member.mergedIntoId;
+    member = members.find(other => other.id === mergedIntoId);
+  }
+  if (!member) return identity;
+
+  return {
+    ...identity,
+    name: member.displayName,
+    attendanceId: member.attendanceId ?? undefined,
+    memberId: member.id,
+  };
+}
+
+// 名簿のメンバーIDがすべてこのイベントのものか確認し、見つからないIDを返す
+export function findUnknownMemberIds(members: EventMember[], memberIds: string[]): string[] {
+  const known = new Set(members.map(member => member.id));
+  return memberIds.filter(id => !known.has(id));
+}
+
+// メンバーを参照している支払い（名前の変更・統合のプレビュー用）
+// 全員割り勘の支払いは、名簿の有効なメンバー全員が負担者になる
+export async function getMemberReferences(member: EventMember): Promise<MemberReferences> {
+  const [expenses, payments] = await Promise.all([
+    storage.getEventExpenses(member.eventId),
+    storage.getEventSettlementPayments(member.eventId),
+  ]);
+
+  return {
+    expenses: expenses
+      .map(expense => ({
+        id: expense.id,
+        description: expense.description,
+        amount: expense.amount,
+        currency: expense.currency,
+        asPayer: expense.payerId === member.id,
+        asParticipant: expense.participantIds.includes(member.id)
+          || !!(expense.splitShares && member.id in expense.splitShares)
+          || (!!expense.isSharedWithAll && member.active),
+      }))
+      .filter(expense => expense.asPayer || expense.asParticipant),
+    paymentCount: payments
+      .filter(payment => payment.fromMemberId === member.id || payment.toMemberId === member.id)
+      .length,
+  };
+}
@@ -0,0 +1,244 @@
+import { nanoid } from 'nanoid';
+import { sql } from 'drizzle-orm';
+import { db, pool } from './db';
+import type { MemberSource } from '@shared/schema';
+
+// 名前で参加者を記録していたデータベースを、参加者名簿（event_members）を参照する形に移行する
+// db:push で古い列が削除される前に一度だけ実行する（npm run db:migrate-members）
+// - 作成者・出欠・精算画面で追加した参加者・支払いに出てくる名前から名簿を作る
+// - expenses.payer_name / participants、settlement_payments.from_name / to_name をメンバーIDに置き換える
+// - split_shares のキーを名前からメンバーIDに置き換える
+// すべて1つのトランザクションで行い、途中で失敗した場合は何も変更しない
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type MemberRow = { id: string; display_name: string; attendance_id: string | null };
+
+// text[] の値（配列をそのまま渡すと値の並びとして展開されるため）
+function textArray(values: string[]) {
+  return values.length > 0
+    ? sql`array[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`
+    : sql`'{}'::text[]`;
+}
+
+async function columnExists(tx: Tx, table: string, column: string): Promise<boolean> {
+  const result = await tx.execute(sql`
+    select 1 from information_schema.columns
+    where table_schema = current_schema() and table_name = ${table} and column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+async function tableExists(tx: Tx, table: string): Promise<boolean> {
+  const result = await tx.execute(sql`
+    select 1 from information_schema.tables
+    where table_schema = current_schema() and table_name = ${table}
+  `);
+  return result.rows.length > 0;
+}
+
+// イベントの名簿（名前で探し、いなければ追加する）
+async function loadRoster(tx: Tx, eventId: string) {
+  const result = await tx.execute(sql`
+    select id, display_name, attendance_id from event_members where event_id = ${eventId} order by created_at
+  `);
+  const members = result.rows as MemberRow[];
+  let created = 0;
+
+  const ensure = async (displayName: string, source: MemberSource, attendanceId?: string): Promise<string> => {
+    const existing = members.find(member => member.display_name === displayName);
+    if (existing) {
+      if (attendanceId && !existing.attendance_id) {
+        await tx.execute(sql`update event_members set attendance_id = ${attendanceId} where id = ${existing.id}`);
+        existing.attendance_id = attendanceId;
+      }
+      return existing.id;
+    }
+
+    const member: MemberRow = { id: nanoid(), display_name: displayName, attendance_id: attendanceId ?? null };
+    await tx.execute(sql`
+      insert into event_members (id, event_id, display_name, source, attendance_id, active)
+      values (${member.id}, ${eventId}, ${displayName}, ${source}, ${member.attendance_id}, true)
+    `);
+    members.push(member);
+    created++;
+    return member.id;
+  };
+
+  return { ensure, createdCount: () => created };
+}
+
+async function migrateEventMembers() {
+  try {
+    console.log("🔄 参加者名簿への移行を開始します...");
+
+    await db.transaction(async (tx) => {
+      const hasEventParticipants = await columnExists(tx, "events", "participants");
+      const hasPayerName = await columnExists(tx, "expenses", "payer_name");
+      const hasPaymentNames = await columnExists(tx, "settlement_payments", "from_name");
+
+      if (!hasEventParticipants && !hasPayerName && !hasPaymentNames) {
+        console.log("✅ 既に移行済みです。");
+        return;
+      }
+
+      // 1. 名簿のテーブルとメンバーIDの列を用意する
+      if (!(await tableExists(tx, "event_members"))) {
+        await tx.execute(sql`
+          create table event_members (
+            id text primary key not null,
+            event_id text not null references events(id),
+            display_name text not null,
+            source text not null,
+            attendance_id text references attendances(id),
+            active boolean default true not null,
+            required boolean default false not null,
+            merged_into_id text,
+            created_at timestamp default now() not null
+          )
+        `);
+      } else {
+        // 途中まで db:push した名簿のテーブルに、後から追加された列を揃える
+        await tx.execute(sql`alter table event_members add column if not exists required boolean default false not null`);
+        await tx.execute(sql`alter table event_members add column if not exists merged_into_id text`);
+      }
+      if (hasPayerName) {
+        await tx.execute(sql`alter table expenses add column if not exists payer_id text`);
+        await tx.execute(sql`alter table expenses add column if not exists participant_ids text[] default '{}' not null`);
+        // 分割方法の導入前のデータベースには split_shares がないので、キーの置き換えの前に用意する
+        await tx.execute(sql`alter table expenses add column if not exists split_shares jsonb`);
+      }
+      if (hasPaymentNames) {
+        await tx.execute(sql`alter table settlement_payments add column if not exists from_member_id text`);
+        await tx.execute(sql`alter table settlement_payments add column if not exists to_member_id text`);
+      }
+
+      // 2. イベントごとに名簿を作り、名前をメンバーIDに置き換える
+      const events = (await tx.execute(sql`select id, title, creator_name from events`)).rows as {
+        id: string;
+        title: string;
+        creator_name: string;
+      }[];
+
+      for (const event of events) {
+        const roster = await loadRoster(tx, event.id);
+
+        await roster.ensure(event.creator_name, "creator");
+
+        const attendances = (await tx.execute(sql`
+          select id, name from attendances where event_id = ${event.id}
+        `)).rows as { id: string; name: string }[];
+        for (const attendance of attendances) {
+          await roster.ensure(attendance.name, "attendee", attendance.id);
+        }
+
+        if (hasEventParticipants) {
+          const [row] = (await tx.execute(sql`
+            select participants from events where id = ${event.id}
+          `)).rows as { participants: string[] | null }[];
+          for (const name of row?.participants || []) {
+            if (name) await roster.ensure(name, "manual");
+          }
+        }
+
+        let expenseCount = 0;
+        if (hasPayerName) {
+          const expenses = (await tx.execute(sql`
+            select id, payer_name, participants, is_shared_with_all, split_shares
+            from expenses where event_id = ${event.id}
+          `)).rows as {
+            id: string;
+            payer_name: string;
+            participants: string[] | null;
+            is_shared_with_all: boolean | null;
+            split_shares: Record<string, number> | null;
+          }[];
+
+          for (const expense of expenses) {
+            const payerId = await roster.ensure(expense.payer_name, "manual");
+            const participantIds: string[] = [];
+            for (const name of expense.participants || []) {
+              if (name) participantIds.push(await roster.ensure(name, "manual"));
+            }
+            let splitShares: Record<string, number> | null = null;
+            if (expense.split_shares) {
+              splitShares = {};
+              for (const [name, value] of Object.entries(expense.split_shares)) {
+                splitShares[await roster.ensure(name, "manual")] = value;
+              }
+            }
+
+            await tx.execute(sql`
+              update expenses set
+                payer_id = ${payerId},
+                participant_ids = ${textArray(expense.is_shared_with_all ? [] : participantIds)},
+                split_shares = ${splitShares ? JSON.stringify(splitShares) : null}::jsonb
+              where id = ${expense.id}
+            `);
+            expenseCount++;
+          }
+        }
+
+        let paymentCount = 0;
+        if (hasPaymentNames) {
+          const payments = (await tx.execute(sql`
+            select id, from_name, to_name from settlement_payments where event_id = ${event.id}
+          `)).rows as { id: string; from_name: string; to_name: string }[];
+
+          for (const payment of payments) {
+            const fromMemberId = await roster.ensure(payment.from_name, "manual");
+            const toMemberId = await roster.ensure(payment.to_name, "manual");
+            await tx.execute(sql`
+              update settlement_payments set from_member_id = ${fromMemberId}, to_member_id = ${toMemberId}
+              where id = ${payment.id}
+            `);
+            paymentCount++;
+          }
+        }
+
+        console.log(
+          `イベント「${event.title}」: 名簿に${roster.createdCount()}人を追加、支払い${expenseCount}件・送金記録${paymentCount}件を移行しました`
+        );
+      }
+
+      // 3. メンバーIDを必須にして参照を張り、名前の列を削除する（制約名は db:push と揃える）
+      if (hasPayerName) {
+        await tx.execute(sql`alter table expenses alter column payer_id set not null`);
+        await tx.execute(sql`
+          alter table expenses add constraint expenses_payer_id_event_members_id_fk
+          foreign key (payer_id) references event_members(id)
+        `);
+        await tx.execute(sql`alter table expenses drop column payer_name`);
+        await tx.execute(sql`alter table expenses drop column if exists participants`);
+      }
+      if (hasPaymentNames) {
+        await tx.execute(sql`alter table settlement_payments alter column from_member_id set not null`);
+        await tx.execute(sql`alter table settlement_payments alter column to_member_id set not null`);
+        await tx.execute(sql`
+          alter table settlement_payments add constraint settlement_payments_from_member_id_event_members_id_fk
+          foreign key (from_member_id) references event_members(id)
+        `);
+        await tx.execute(sql`
+          alter table settlement_payments add constraint settlement_payments_to_member_id_event_members_id_fk
+          foreign key (to_member_id) references event_members(id)
+        `);
+        await tx.execute(sql`alter table settlement_payments drop column from_name`);
+        await tx.execute(sql`alter table settlement_payments drop column to_name`);
+      }
+      if (hasEventParticipants) {
+        await tx.execute(sql`alter table events drop column participants`);
+      }
+
+      console.log("✅ 参加者名簿への移行が完了しました。続けて npm run db:push で残りの変更を反映してください。");
+    });
+  } catch (error) {
+    console.error("❌ 参加者名簿への移行中にエラーが発生しました（変更は取り消されました）:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// 移行関数を実行
+migrateEventMembers()
+  .catch(error => console.error("移行エラー:", error));
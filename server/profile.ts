@@ -0,0 +1,104 @@
+import type { Request } from "express";
+import { randomBytes, randomInt } from "crypto";
+import type { Event, EventIdentity, MyEvents, Profile } from "@shared/schema";
+import { storage } from "./storage";
+import { getEventIdentity, setEventIdentity } from "./auth";
+
+// 復元コードに使う文字（読み間違えやすい 0/O・1/I は使わない）
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECOVERY_CODE_LENGTH = 16;
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    { length: RECOVERY_CODE_LENGTH },
+    () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+  ).join("");
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+// 入力された復元コードを保存形式にそろえる（小文字・空白・ハイフンの有無を許容）
+export function normalizeRecoveryCode(code: string): string {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return chars.match(/.{1,4}/g)?.join("-") ?? "";
+}
+
+function sameIdentity(a: EventIdentity, b: EventIdentity): boolean {
+  return a.role === b.role && a.name === b.name && a.attendanceId === b.attendanceId && a.memberId === b.memberId;
+}
+
+// このブラウザのプロフィール（create が true なら未作成のときに作成する）
+export async function getSessionProfile(req: Request, create = false): Promise<Profile | undefined> {
+  const profileId = req.session.profileId;
+  const profile = profileId ? await storage.getProfile(profileId) : undefined;
+  if (profile || !create) return profile;
+
+  // IDはセッションだけに保存する鍵なので、推測されにくい長さにする
+  const newProfile = await storage.createProfile({
+    id: randomBytes(24).toString("base64url"),
+    recoveryCode: generateRecoveryCode(),
+  });
+  req.session.profileId = newProfile.id;
+  return newProfile;
+}
+
+// このブラウザで認証済みのイベントをプロフィールに記録する
+// touchedEventId は今認証したイベント（プロフィールがなければ作成し、一覧から削除していても戻す）
+export async function syncProfileEvents(req: Request, touchedEventId?: string): Promise<Profile | undefined> {
+  const identities = Object.entries(req.session.eventIdentities || {});
+  const profile = await getSessionProfile(req, !!touchedEventId || identities.length > 0);
+  if (!profile) return undefined;
+
+  const saved = new Map((await storage.getProfileEvents(profile.id)).map(entry => [entry.eventId, entry]));
+  for (const [eventId, identity] of identities) {
+    const entry = saved.get(eventId);
+    if (entry && eventId !== touchedEventId && sameIdentity(entry.identity, identity)) continue;
+    // 削除済みのイベントの認証はセッションに残っていることがある
+    if (!entry && !(await storage.getEvent(eventId))) continue;
+    await storage.upsertProfileEvent({
+      profileId: profile.id,
+      eventId,
+      identity,
+      hidden: entry && eventId !== touchedEventId ? entry.hidden : false,
+    });
+  }
+  return profile;
+}
+
+// イベントをプロフィールの一覧から削除する（記録した役割は残す）
+export async function hideProfileEvent(req: Request, eventId: string): Promise<boolean> {
+  const profile = await getSessionProfile(req);
+  if (!profile) return false;
+
+  const entry = (await storage.getProfileEvents(profile.id)).find(e => e.eventId === eventId);
+  if (!entry) return false;
+
+  await storage.upsertProfileEvent({ profileId: profile.id, eventId, identity: entry.identity, hidden: true });
+  return true;
+}
+
+// 復元コードのプロフィールをこのブラウザで使う
+// 記録されている役割でイベントを認証し直し、このブラウザで認証済みのイベントはプロフィールに追加する
+export async function restoreProfile(req: Request, profile: Profile): Promise<void> {
+  req.session.profileId = profile.id;
+
+  for (const entry of await storage.getProfileEvents(profile.id)) {
+    if (!entry.hidden && !getEventIdentity(req, entry.eventId)) {
+      setEventIdentity(req, entry.eventId, entry.identity);
+    }
+  }
+  await syncProfileEvents(req);
+}
+
+// プロフィールが作成・参加したイベント（一覧から削除したものは除く）
+export async function getMyEvents(profile: Profile): Promise<MyEvents> {
+  const entries = (await storage.getProfileEvents(profile.id)).filter(entry => !entry.hidden);
+  const events = await Promise.all(entries.map(entry => storage.getEvent(entry.eventId)));
+
+  const myEvents: MyEvents = { created: [], joined: [] };
+  entries.forEach((entry, index) => {
+    const event: Event | undefined = events[index];
+    if (!event) return;
+    (entry.identity.role === "organizer" ? myEvents.created : myEvents.joined).push(event);
+  });
+  return myEvents;
+}
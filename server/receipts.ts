@@ -0,0 +1,110 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import sharp from "sharp";
+import { nanoid } from "nanoid";
+import type { Expense, ExpenseAttachment } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+
+export const MAX_RECEIPTS_PER_EXPENSE = 5;
+const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+const MAX_IMAGE_EDGE = 2400; // 保存する画像の長辺（これより大きい画像は縮小する）
+const THUMBNAIL_EDGE = 320;
+
+// 受け付ける画像の形式
+const RECEIPT_FORMATS = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+} as const;
+
+type ReceiptFormat = keyof typeof RECEIPT_FORMATS;
+
+export type ReceiptVariant = "original" | "thumbnail";
+
+function receiptKey(attachment: Pick<ExpenseAttachment, "id" | "eventId">, variant: ReceiptVariant): string {
+  return `receipts/${attachment.eventId}/${attachment.id}/${variant}`;
+}
+
+const rawReceiptBody = express.raw({ type: Object.values(RECEIPT_FORMATS), limit: MAX_RECEIPT_BYTES });
+
+// 画像をそのまま本文で受け取る（ファイル名は X-File-Name ヘッダーに URL エンコードして送る）
+export function receiptUpload(req: Request, res: Response, next: NextFunction) {
+  rawReceiptBody(req, res, (error?: unknown) => {
+    if (error) {
+      return res.status(413).json({ message: `画像は${MAX_RECEIPT_BYTES / 1024 / 1024}MBまでです` });
+    }
+    next();
+  });
+}
+
+export function receiptFileName(header: string | undefined): string {
+  try {
+    const name = decodeURIComponent(header || "").trim();
+    return name.slice(0, 200) || "receipt";
+  } catch {
+    return "receipt";
+  }
+}
+
+// レシート画像を保存してサムネイルを作る（画像として読めない場合は undefined）
+// 撮影位置などのメタデータを残さないよう、向きを補正して保存し直す
+export async function saveReceipt(
+  expense: Expense,
+  data: Buffer,
+  fileName: string,
+  uploadedBy: string,
+): Promise<ExpenseAttachment | undefined> {
+  let format: ReceiptFormat;
+  try {
+    const metadata = await sharp(data).metadata();
+    if (!metadata.format || !(metadata.format in RECEIPT_FORMATS)) return undefined;
+    format = metadata.format as ReceiptFormat;
+  } catch {
+    return undefined;
+  }
+
+  const image = await sharp(data)
+    .rotate()
+    .resize(MAX_IMAGE_EDGE, MAX_IMAGE_EDGE, { fit: "inside", withoutEnlargement: true })
+    .toFormat(format, format === "jpeg" ? { quality: 90 } : {})
+    .toBuffer({ resolveWithObject: true });
+  const thumbnail = await sharp(image.data)
+    .resize(THUMBNAIL_EDGE, THUMBNAIL_EDGE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer();
+
+  const attachment = {
+    id: nanoid(),
+    eventId: expense.eventId,
+    expenseId: expense.id,
+    fileName,
+    contentType: RECEIPT_FORMATS[format],
+    size: image.info.size,
+    width: image.info.width,
+    height: image.info.height,
+    uploadedBy,
+  };
+  await blobStore.put(receiptKey(attachment, "original"), image.data);
+  await blobStore.put(receiptKey(attachment, "thumbnail"), thumbnail);
+  return storage.createExpenseAttachment(attachment);
+}
+
+// 画像本体と形式（見つからなければ undefined）
+export async function readReceipt(
+  attachment: ExpenseAttachment,
+  variant: ReceiptVariant,
+): Promise<{ data: Buffer; contentType: string } | undefined> {
+  const data = await blobStore.get(receiptKey(attachment, variant));
+  if (!data) return undefined;
+  return { data, contentType: variant === "thumbnail" ? "image/webp" : attachment.contentType };
+}
+
+// 画像本体を削除する（記録は支払い・イベントの削除と一緒に消える）
+export async function removeReceiptFiles(attachments: ExpenseAttachment[]): Promise<void> {
+  await Promise.all(
+    attachments.flatMap(attachment => [
+      blobStore.delete(receiptKey(attachment, "original")),
+      blobStore.delete(receiptKey(attachment, "thumbnail")),
+    ])
+  );
+}
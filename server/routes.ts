@@ -3,12 +3,137 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
 import { nanoid } from "nanoid";
+import { calculateSettlements, isMemberInSettlement } from "@shared/settlement";
+import { SPLIT_MODES, shareParticipants, validateSplit } from "@shared/split";
+import { CURRENCY_CODES, findMissingRates, type ExchangeRates } from "@shared/currency";
+import {
+  issueEventToken,
+  verifyEventToken,
+  loadEventIdentity,
+  setEventIdentity,
+  clearEventIdentity,
+  requireEventRole
+} from "./auth";
+import { setupLiveUpdates, broadcastChange } from "./live";
+import { getSessionProfile, syncProfileEvents, hideProfileEvent, restoreProfile, getMyEvents, normalizeRecoveryCode } from "./profile";
+import { ensureEventMember, identityMemberId, findUnknownMemberIds, getMemberReferences, registerParticipants } from "./members";
+import { buildCalendar, requestOrigin, syncCalendarFeed, getFeedEvents } from "./calendar";
+import { icsUpload, suggestAttendance } from "./ics-import";
+import { DEFAULT_DATE_RANKING_WEIGHTS, rankDateOptions } from "@shared/date-ranking";
+import { isResponseClosed } from "@shared/deadline";
+import { MAX_GUESTS, attendanceHeadcount } from "@shared/headcount";
+import { startAutoFinalizeScheduler } from "./auto-finalize";
+import { MAX_RECEIPTS_PER_EXPENSE, readReceipt, receiptFileName, receiptUpload, removeReceiptFiles, saveReceipt } from "./receipts";
+import {
+  countSlots,
+  findBestSlotBlock,
+  slotGridKeys,
+  validateSlotBlock,
+  validateSlotGrid,
+  type SlotPollResult,
+} from "@shared/slot-grid";
+import { diffMemo, mergeMemo } from "@shared/memo-merge";
+import { memoChecklist } from "@shared/memo-blocks";
+import { EXPENSE_CHANGE_FIELDS, type Event, type EventComment, type EventIdentity, type Expense, type ExpenseChange, type InsertAttendance } from "@shared/schema";
+
+// 同伴者の人数（本人を除く）
+const guestCountSchema = z
+  .number()
+  .int("同伴者の人数は整数で入力してください")
+  .min(0, "同伴者の人数は0人以上にしてください")
+  .max(MAX_GUESTS, `同伴者は${MAX_GUESTS}人までです`);
+
+// メモの内容と版番号、入力中の参加者（有効期限内のみ）
+function memoState(event: Event) {
+  const typing = event.memoEditLock && new Date(event.memoEditLock.lockExpiration) > new Date()
+    ? { name: event.memoEditLock.lockedBy, since: event.memoEditLock.lockedAt }
+    : null;
+  return {
+    memo: event.memo || "",
+    revision: event.memoRevision,
+    lastEditedBy: event.memoLastEditedBy || null,
+    lastEditedAt: event.memoLastEditedAt || null,
+    typing,
+  };
+}
+
+// 通貨コードのパスパラメータ
+const currencyParam = z.enum(CURRENCY_CODES, {
+  errorMap: () => ({ message: "対応していない通貨です" })
+});
+
+// 連番IDのパスパラメータ（正の整数でなければ見つからない扱いにする）
+const serialIdParam = z.coerce.number().int().positive();
+
+// 削除したコメントは本文を返さない（削除済みとして一覧には残る）
+function commentView(comment: EventComment): EventComment {
+  return comment.deletedAt ? { ...comment, body: "" } : comment;
+}
+
+// 回答締切（ISO 8601 の日時）
+const responseDeadlineSchema = z
+  .string()
+  .datetime({ offset: true, message: "回答締切の日時が正しくありません" })
+  .transform(value => new Date(value));
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all events
-  app.get("/api/events", async (req, res) => {
-    const events = await storage.getAllEvents();
-    res.json(events);
+  // このブラウザのプロフィールの復元コード（別の端末に引き継ぐときに入力する）
+  app.get("/api/me", async (req, res) => {
+    try {
+      const profile = await getSessionProfile(req, true);
+      await syncProfileEvents(req);
+      res.json({ recoveryCode: profile!.recoveryCode });
+    } catch (error) {
+      res.status(500).json({ message: "プロフィールの取得に失敗しました" });
+    }
+  });
+  
+  // 復元コードのプロフィールをこのブラウザに引き継ぐ
+  app.post("/api/me/recover", async (req, res) => {
+    try {
+      const schema = z.object({
+        recoveryCode: z.string().trim().min(1, "復元コードを入力してください"),
+      });
+      
+      const { recoveryCode } = schema.parse(req.body);
+      
+      const profile = await storage.getProfileByRecoveryCode(normalizeRecoveryCode(recoveryCode));
+      if (!profile) {
+        return res.status(404).json({ message: "復元コードが見つかりません" });
+      }
+      
+      await restoreProfile(req, profile);
+      await syncCalendarFeed(req);
+      res.json(await getMyEvents(profile));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "プロフィールの引き継ぎに失敗しました" });
+      }
+    }
+  });
+  
+  // Get my events (このブラウザのプロフィールが作成・参加したイベント)
+  app.get("/api/me/events", async (req, res) => {
+    try {
+      const profile = await syncProfileEvents(req);
+      res.json(profile ? await getMyEvents(profile) : { created: [], joined: [] });
+    } catch (error) {
+      res.status(500).json({ message: "イベントの取得に失敗しました" });
+    }
+  });
+  
+  // Remove an event from my events (イベントの役割はそのまま)
+  app.delete("/api/me/events/:eventId", async (req, res) => {
+    try {
+      if (!(await hideProfileEvent(req, req.params.eventId))) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "イベントの削除に失敗しました" });
+    }
   });
 
   // Create a new event
@@ -21,6 +146,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         creatorName: z.string().min(1, "お名前を入力してください"),
         defaultStartTime: z.string().min(1, "デフォルト開始時間を入力してください"),
         defaultEndTime: z.string().min(1, "デフォルト終了時間を入力してください"),
+        responseDeadline: responseDeadlineSchema.nullable().optional(),
+        autoFinalize: z.boolean().optional(),
+        memo: z.string().optional(), // テンプレートから作成する場合のメモ
       });
       
       // 日付が決まっているケースのスキーマ
@@ -48,9 +176,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })).min(1, "少なくとも1つの日程を選択してください"),
       });
       
-      // いずれかのスキーマに一致するかチェック
+      // 時間帯グリッドのスキーマ（候補日の代わりに期間と1日の時間帯を指定する）
+      const slotEventSchema = eventBaseSchema.extend({
+        pollType: z.literal("slots"),
+        slotGrid: z.object({
+          startDate: z.string().min(1, "期間の開始日を入力してください"),
+          endDate: z.string().min(1, "期間の終了日を入力してください"),
+          dayStartTime: z.string().min(1, "時間帯の開始時刻を入力してください"),
+          dayEndTime: z.string().min(1, "時間帯の終了時刻を入力してください"),
+          durationMinutes: z.number().int("開催時間は分単位で入力してください"),
+        }),
+      });
+      
+      // いずれかのスキーマに一致するかチェック（時間帯グリッドは pollType で区別する）
       const eventSchema = z.union([confirmedDateSchema, normalEventSchema]);
-      const validatedData = eventSchema.parse(req.body);
+      const validatedData = req.body?.pollType === "slots"
+        ? slotEventSchema.parse(req.body)
+        : eventSchema.parse(req.body);
+      
+      if ('slotGrid' in validatedData) {
+        const gridError = validateSlotGrid(validatedData.slotGrid);
+        if (gridError) {
+          return res.status(400).json({ message: gridError });
+        }
+      }
+      if (validatedData.responseDeadline && validatedData.responseDeadline <= new Date()) {
+        return res.status(400).json({ message: "回答締切は現在より後の日時にしてください" });
+      }
       
       // Generate a unique ID for the event
       const eventId = nanoid();
@@ -63,6 +215,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         creatorName: validatedData.creatorName,
         defaultStartTime: validatedData.defaultStartTime,
         defaultEndTime: validatedData.defaultEndTime,
+        responseDeadline: validatedData.responseDeadline ?? null,
+        autoFinalize: validatedData.autoFinalize ?? false,
+        memo: validatedData.memo || null,
       };
       
       // 確定済み日程の場合は、selectedDateとtimeも設定
@@ -72,11 +227,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         eventData.endTime = validatedData.endTime;
       }
       
+      if ('slotGrid' in validatedData) {
+        eventData.pollType = "slots";
+        eventData.slotGrid = validatedData.slotGrid;
+      }
+      
       const event = await storage.createEvent(eventData);
+      const creator = await ensureEventMember(eventId, validatedData.creatorName, "creator");
       
-      // Create date options
+      // Create date options（時間帯グリッドには候補日がない）
       const dateOptions = await Promise.all(
-        validatedData.dateOptions.map(option => {
+        ('dateOptions' in validatedData ? validatedData.dateOptions : []).map(option => {
           // 個別の時間設定がない場合はデフォルト時間を使用
           const startTime = option.useDefaultTime ? validatedData.defaultStartTime : (option.startTime || validatedData.defaultStartTime);
           const endTime = option.useDefaultTime ? validatedData.defaultEndTime : (option.endTime || validatedData.defaultEndTime);
@@ -91,32 +252,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
       );
       
-      // 参加者を登録（もし指定されていれば）
-      let participantCount = 0;
+      // 参加者を登録（もし指定されていれば）し、名簿にも追加する
       if (req.body.participants && Array.isArray(req.body.participants)) {
-        await Promise.all(
-          req.body.participants.map(async (name: string) => {
-            const attendanceId = nanoid();
-            await storage.createAttendance({
-              id: attendanceId,
-              eventId,
-              name,
-            });
-            participantCount++;
-          })
-        );
-        
-        // 参加者数を更新
-        if (participantCount > 0) {
-          await storage.updateEvent(eventId, {
-            participantsCount: participantCount,
-          });
-        }
+        await registerParticipants(eventId, req.body.participants as string[]);
       }
       
+      // 作成者はこのブラウザで主催者として認証し、主催者用リンクのトークンを返す
+      const organizer: EventIdentity = { role: "organizer", name: validatedData.creatorName, memberId: creator.id };
+      setEventIdentity(req, eventId, organizer);
+      await syncCalendarFeed(req);
+      await syncProfileEvents(req, eventId);
+      
       res.status(201).json({ 
         ...event, 
-        dateOptions 
+        dateOptions,
+        organizerToken: issueEventToken(eventId, organizer)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -134,761 +284,1899 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
-
-      // イベントに参加者リストが含まれていない場合、取得する
-      if (!event.participants || !Array.isArray(event.participants) || event.participants.length === 0) {
-        try {
-          // 参加者リストを取得してマージ
-          const participants = await storage.getEventParticipants(req.params.id);
-          event.participants = participants;
-          console.log(`イベント ${req.params.id} の参加者リストをロード: ${participants.join(', ')}`);
-        } catch (err) {
-          console.error('参加者リスト取得エラー:', err);
-        }
-      }
       
       res.json(event);
     } catch (error) {
       res.status(500).json({ message: "イベントの取得に失敗しました" });
     }
   });
-
-  // Finalize an event date
-  app.post("/api/events/:id/finalize", async (req, res) => {
+  
+  // Update an event (タイトル・詳細・デフォルト時間・回答締切)
+  // 締切を現在より前にすると、その時点で回答を締め切る
+  app.patch("/api/events/:id", requireEventRole("organizer"), async (req, res) => {
     try {
       const schema = z.object({
-        dateOptionId: z.string().min(1, "日程を選択してください"),
+        title: z.string().min(1, "タイトルを入力してください").optional(),
+        description: z.string().optional(),
+        defaultStartTime: z.string().min(1, "デフォルト開始時間を入力してください").optional(),
+        defaultEndTime: z.string().min(1, "デフォルト終了時間を入力してください").optional(),
+        responseDeadline: responseDeadlineSchema.nullable().optional(),
+        autoFinalize: z.boolean().optional(),
       });
-
-      const { dateOptionId } = schema.parse(req.body);
+      
+      const validatedData = schema.parse(req.body);
       
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      const dateOption = event.dateOptions.find(option => option.id === dateOptionId);
-      if (!dateOption) {
-        return res.status(404).json({ message: "指定された日程が見つかりません" });
-      }
-      
-      // Update the event with the selected date
-      const updatedEvent = await storage.updateEvent(req.params.id, {
-        selectedDate: dateOption.date,
-        startTime: dateOption.startTime,
-        endTime: dateOption.endTime,
-      });
-      
+      const updatedEvent = await storage.updateEvent(req.params.id, validatedData);
+      broadcastChange(req.params.id, "event-updated");
       res.json(updatedEvent);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "日程の確定に失敗しました" });
+        res.status(500).json({ message: "イベントの更新に失敗しました" });
       }
     }
   });
   
-  // Cancel finalized date (revert to voting stage)
-  app.post("/api/events/:id/cancel-finalization", async (req, res) => {
+  // Delete an event (候補日・出欠・支払いなどもすべて削除)
+  app.delete("/api/events/:id", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const attachments = await storage.getEventExpenseAttachments(req.params.id);
+      await storage.deleteEvent(req.params.id);
+      await removeReceiptFiles(attachments);
+      clearEventIdentity(req, req.params.id);
+      broadcastChange(req.params.id, "event-deleted");
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "イベントの削除に失敗しました" });
+    }
+  });
+  
+  // Duplicate an event (タイトル・詳細・デフォルト時間・メモ・参加者を引き継ぎ、新しい候補日で作成する)
+  app.post("/api/events/:id/duplicate", requireEventRole("organizer"), async (req, res) => {
     try {
       const schema = z.object({
-        creatorName: z.string().min(1, "作成者名が必要です"),
+        title: z.string().min(1, "タイトルを入力してください").optional(),
+        dateOptions: z.array(z.object({
+          date: z.string().min(1, "日付を入力してください"), // yyyy-MM-dd format
+          startTime: z.string().optional(), // 省略時はデフォルト時間
+          endTime: z.string().optional(),
+        })).min(1, "少なくとも1つの日程を選択してください"),
       });
       
-      const { creatorName } = schema.parse(req.body);
+      const validatedData = schema.parse(req.body);
       
-      const event = await storage.getEvent(req.params.id);
-      if (!event) {
+      const source = await storage.getEvent(req.params.id);
+      if (!source) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      // 作成者確認（簡易認証）
-      if (event.creatorName !== creatorName) {
-        return res.status(403).json({ message: "イベント作成者のみ日程確定をキャンセルできます" });
-      }
+      // 複製した人が新しいイベントの主催者になる
+      const identity: EventIdentity = res.locals.identity;
+      const defaultStartTime = source.defaultStartTime || "19:00";
+      const defaultEndTime = source.defaultEndTime || "21:00";
+      const eventId = nanoid();
       
-      // selectedDateをnullに設定して確定解除
-      const updatedEvent = await storage.updateEvent(req.params.id, {
-        selectedDate: null,
-        startTime: null,
-        endTime: null,
+      const event = await storage.createEvent({
+        id: eventId,
+        title: validatedData.title || source.title,
+        description: source.description || "",
+        creatorName: identity.name,
+        defaultStartTime,
+        defaultEndTime,
+        memo: source.memo || null,
       });
+      const creator = await ensureEventMember(eventId, identity.name, "creator");
       
-      res.json(updatedEvent);
+      const dateOptions = await Promise.all(
+        validatedData.dateOptions.map(option => storage.createDateOption({
+          id: nanoid(),
+          eventId,
+          date: option.date,
+          startTime: option.startTime || defaultStartTime,
+          endTime: option.endTime || defaultEndTime,
+        }))
+      );
+      
+      // 名簿の有効なメンバーを参加予定者として引き継ぐ（回答は引き継がない）
+      const members = await storage.getEventMembers(req.params.id);
+      await registerParticipants(
+        eventId,
+        members
+          .filter(member => member.active && member.displayName !== identity.name)
+          .map(member => member.displayName)
+      );
+      
+      const organizer: EventIdentity = { role: "organizer", name: identity.name, memberId: creator.id };
+      setEventIdentity(req, eventId, organizer);
+      await syncCalendarFeed(req);
+      await syncProfileEvents(req, eventId);
+      
+      res.status(201).json({
+        ...event,
+        dateOptions,
+        organizerToken: issueEventToken(eventId, organizer)
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "日程確定のキャンセルに失敗しました" });
+        res.status(500).json({ message: "イベントの複製に失敗しました" });
       }
     }
   });
-
-  // Get all attendances for an event
-  app.get("/api/events/:id/attendances", async (req, res) => {
+  
+  // Get saved templates (このブラウザのプロフィールで保存したテンプレート)
+  app.get("/api/templates", async (req, res) => {
     try {
-      const attendances = await storage.getEventAttendances(req.params.id);
-      res.json(attendances);
+      const profile = await getSessionProfile(req);
+      res.json(profile ? await storage.getEventTemplates(profile.id) : []);
     } catch (error) {
-      res.status(500).json({ message: "出欠情報の取得に失敗しました" });
+      res.status(500).json({ message: "テンプレートの取得に失敗しました" });
     }
   });
-
-  // Create or update an attendance
-  app.post("/api/events/:id/attendances", async (req, res) => {
+  
+  // Save an event as a template (タイトル・詳細・デフォルト時間・メモ・参加者を保存する)
+  app.post("/api/events/:id/template", requireEventRole("organizer"), async (req, res) => {
     try {
       const schema = z.object({
-        name: z.string().min(1, "お名前を入力してください"),
-        responses: z.array(z.object({
-          dateOptionId: z.string(),
-          status: z.enum(["available", "maybe", "unavailable"]),
-        })).min(1),
+        name: z.string().trim().min(1, "テンプレート名を入力してください").max(100, "テンプレート名は100文字以内で入力してください"),
       });
-
-      const validatedData = schema.parse(req.body);
+      
+      const { name } = schema.parse(req.body);
       
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      // 既存の出席者リストを取得
-      const existingAttendances = await storage.getEventAttendances(req.params.id);
-      const existingAttendance = existingAttendances.find(a => a.name === validatedData.name);
-      
-      let attendance;
-      
-      if (existingAttendance) {
-        // 既存の回答を更新
-        await storage.updateAttendanceResponses(existingAttendance.id, validatedData.responses);
-        attendance = existingAttendance;
-      } else {
-        // 新しい出席情報を作成
-        const attendanceId = nanoid();
-        attendance = await storage.createAttendance({
-          id: attendanceId,
-          eventId: req.params.id,
-          name: validatedData.name,
-        });
-        
-        // Create responses
-        await Promise.all(
-          validatedData.responses.map(response => 
-            storage.createAttendanceResponse({
-              attendanceId: attendanceId,
-              dateOptionId: response.dateOptionId,
-              status: response.status,
-            })
-          )
-        );
-        
-        // Update participant count
-        await storage.updateEvent(req.params.id, {
-          participantsCount: (event.participantsCount || 0) + 1,
-        });
-      }
-      
-      res.status(201).json(attendance);
+      const members = await storage.getEventMembers(req.params.id);
+      const template = await storage.createEventTemplate({
+        id: nanoid(),
+        ownerKey: (await getSessionProfile(req, true))!.id,
+        name,
+        title: event.title,
+        description: event.description || null,
+        defaultStartTime: event.defaultStartTime || "19:00",
+        defaultEndTime: event.defaultEndTime || "21:00",
+        memo: event.memo || null,
+        participants: members.filter(member => member.active).map(member => member.displayName),
+      });
+      res.status(201).json(template);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "出欠情報の保存に失敗しました" });
+        res.status(500).json({ message: "テンプレートの保存に失敗しました" });
       }
     }
   });
-
-  // Get all expenses for an event
-  app.get("/api/events/:id/expenses", async (req, res) => {
+  
+  // Delete a template (保存した主催者のみ)
+  app.delete("/api/templates/:templateId", async (req, res) => {
     try {
-      const expenses = await storage.getEventExpenses(req.params.id);
-      res.json(expenses);
+      const template = await storage.getEventTemplate(req.params.templateId);
+      const profile = await getSessionProfile(req);
+      if (!template || template.ownerKey !== profile?.id) {
+        return res.status(404).json({ message: "テンプレートが見つかりません" });
+      }
+      
+      await storage.deleteEventTemplate(template.id);
+      res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "支払い情報の取得に失敗しました" });
+      res.status(500).json({ message: "テンプレートの削除に失敗しました" });
     }
   });
-
-  // Create a new expense
-  app.post("/api/events/:id/expenses", async (req, res) => {
+  
+  // Add a date option
+  app.post("/api/events/:id/date-options", requireEventRole("organizer"), async (req, res) => {
     try {
       const schema = z.object({
-        payerName: z.string().min(1, "支払者名を入力してください"),
-        description: z.string().min(1, "項目を入力してください"),
-        amount: z.number().positive("金額は0より大きい値を入力してください"),
-        participants: z.array(z.string()).default([]), // 割り勘対象者の配列（指定がない場合は空配列）
+        date: z.string().min(1, "日付を選択してください"), // yyyy-MM-dd format
+        startTime: z.string().optional(), // 省略時はデフォルト時間
+        endTime: z.string().optional(),
       });
-
+      
       const validatedData = schema.parse(req.body);
       
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
-      
-      if (!event.selectedDate) {
-        return res.status(400).json({ message: "イベントの日程が確定していないため、精算機能は利用できません" });
+      if (event.pollType === "slots") {
+        return res.status(400).json({ message: "時間帯グリッドのイベントには候補日を追加できません" });
       }
       
-      // 「全員で割り勘」の場合、専用フラグを立てる
-      let participants = validatedData.participants;
-      let isSharedWithAll = false;
-      
-      if (!participants || participants.length === 0) {
-        // 全員割り勘フラグをONにする
-        isSharedWithAll = true;
-        
-        // 全参加者を取得して設定する
-        const allParticipants = await storage.getEventParticipants(req.params.id);
-        console.log(`「全員で割り勘」フラグを設定しました。${allParticipants.length}人全員を参加者として記録します`);
-        participants = allParticipants;
-      }
+      const startTime = validatedData.startTime || event.defaultStartTime || "";
+      const endTime = validatedData.endTime || event.defaultEndTime || "";
       
-      // これが全員割り勘である場合は、常に最新の参加者リストを取得して使用する
-      if (isSharedWithAll) {
-        console.log("全員割り勘なので最新の参加者リストを強制的に使用します");
-        const freshParticipants = await storage.getEventParticipants(req.params.id);
-        participants = freshParticipants;
+      const duplicate = event.dateOptions.some(option => 
+        option.date === validatedData.date && option.startTime === startTime && option.endTime === endTime
+      );
+      if (duplicate) {
+        return res.status(400).json({ message: "同じ日程の候補が既にあります" });
       }
       
-      const expense = await storage.createExpense({
+      const dateOption = await storage.createDateOption({
         id: nanoid(),
         eventId: req.params.id,
-        payerName: validatedData.payerName,
-        description: validatedData.description,
-        amount: String(validatedData.amount),
-        participants: participants,
-        isSharedWithAll: isSharedWithAll, // 全員割り勘フラグを設定
+        date: validatedData.date,
+        startTime,
+        endTime,
       });
       
-      res.status(201).json(expense);
+      broadcastChange(req.params.id, "event-updated");
+      res.status(201).json(dateOption);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "支払い情報の保存に失敗しました" });
+        res.status(500).json({ message: "候補日の追加に失敗しました" });
       }
     }
   });
   
-  // 参加者リストの更新 - 全員で割り勘の経費も更新する
-  app.post("/api/events/:id/participants", async (req, res) => {
+  // Delete a date option (この候補日への回答も削除)
+  app.delete("/api/events/:id/date-options/:dateOptionId", requireEventRole("organizer"), async (req, res) => {
     try {
-      const schema = z.object({
-        name: z.string().min(1, "名前を入力してください"),
-      });
-
-      const validatedData = schema.parse(req.body);
-      
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      if (!event.selectedDate) {
-        return res.status(400).json({ message: "イベントの日程が確定していないため、この機能は利用できません" });
+      const dateOption = event.dateOptions.find(option => option.id === req.params.dateOptionId);
+      if (!dateOption) {
+        return res.status(404).json({ message: "指定された日程が見つかりません" });
       }
       
-      // 1. 既存の参加者リストを取得
-      const currentParticipants = await storage.getEventParticipants(req.params.id);
-      
-      // 2. 既に存在する名前かチェック
-      if (currentParticipants.includes(validatedData.name)) {
-        return res.status(400).json({ message: "この名前の参加者は既に登録されています" });
+      if (event.dateOptions.length <= 1) {
+        return res.status(400).json({ message: "候補日は少なくとも1つ必要です" });
       }
       
-      // 3. 仮の参加者を作成（実際のDBには保存されず、計算用）
-      const newParticipantsList = [...currentParticipants, validatedData.name];
-      
-      // 4. 「全員割り勘」フラグが付いた経費を取得（専用メソッドを使用）
-      const sharedExpenses = await storage.getSharedExpenses(req.params.id);
-      
-      // 5. 念のため、古い形式（フラグなし）の全員割り勘も検出
-      const expenses = await storage.getEventExpenses(req.params.id);
-      const oldStyleSharedExpenses = expenses.filter(expense => 
-        expense.isSharedWithAll !== true && // フラグがない
-        (!expense.participants || expense.participants.length === 0) // かつ参加者が空
-      );
-      
-      console.log(`参加者「${validatedData.name}」を追加します。全員割り勘フラグの経費数: ${sharedExpenses.length}`);
-      
-      // 6. イベントに参加者として追加
-      // (仮想的には既に参加者リストに追加されている扱いでよい)
-      
-      // 7. 「全員割り勘」フラグを持つ支出がある場合、データベースの支出データを更新
-      if (sharedExpenses.length > 0) {
-        console.log(`「全員割り勘」の経費 ${sharedExpenses.length}件を更新します`);
-        
-        // 1. 既存の「全員割り勘」支出を特定し、更新
-        for (const expense of sharedExpenses) {
-          console.log(`支出ID: ${expense.id}, 項目: ${expense.description}, ` +
-                     `金額: ${expense.amount}円 を更新中...`);
-          
-          // 2. 明示的に全員を参加者として設定
-          // 注: 将来的に参加者が除外された場合にも対応できるよう、
-          // その時点での参加者リストを明示的に設定しておく
-          await storage.updateExpense(expense.id, {
-            participants: newParticipantsList,
-            isSharedWithAll: true // 全員割り勘フラグを維持
-          });
-          
-          console.log(`支出ID: ${expense.id} の参加者を ${newParticipantsList.length}人に更新しました`);
-        }
+      if (event.selectedDate === dateOption.date && event.startTime === dateOption.startTime) {
+        return res.status(400).json({ message: "確定済みの日程は削除できません。先に確定をキャンセルしてください" });
       }
       
-      // 8. 古い形式（フラグなし）の全員割り勘支出も更新
-      if (oldStyleSharedExpenses.length > 0) {
-        console.log(`後方互換性: 古い形式の「全員割り勘」経費が ${oldStyleSharedExpenses.length}件 見つかりました`);
-        
-        // 古い形式の「全員割り勘」も更新
-        for (const expense of oldStyleSharedExpenses) {
-          console.log(`[後方互換] 支出ID: ${expense.id} を更新中...`);
-          
-          // 新しいフォーマットに更新
-          await storage.updateExpense(expense.id, {
-            participants: newParticipantsList,
-            isSharedWithAll: true // 全員割り勘フラグを設定
-          });
-          
-          console.log(`[後方互換] 支出ID: ${expense.id} を新形式に更新しました`);
-        }
-      }
+      await storage.deleteDateOption(dateOption.id);
+      broadcastChange(req.params.id, "event-updated");
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "候補日の削除に失敗しました" });
+    }
+  });
+
+  // 参加用・主催者用リンクのトークンでこのブラウザを認証
+  app.post("/api/events/:id/auth", async (req, res) => {
+    try {
+      const schema = z.object({
+        token: z.string().min(1, "トークンが必要です"),
+      });
       
-      // 明示的にこの参加者をストレージに追加
-      console.log(`明示的にイベント参加者「${validatedData.name}」をストレージに追加`);
+      const { token } = schema.parse(req.body);
       
-      // イベントに参加者を追加する
-      if (!event.participants) {
-        event.participants = [];
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      // 参加者リストに追加
-      event.participants.push(validatedData.name);
-      
-      // イベントを更新
-      await storage.updateEvent(req.params.id, {
-        participants: event.participants
-      });
-      
-      console.log(`データベースの参加者リストを更新: ${event.participants.join(', ')}`);
+      const identity = verifyEventToken(token, req.params.id);
+      if (!identity) {
+        return res.status(401).json({ message: "リンクが無効です" });
+      }
       
-      // 9. 成功レスポンスを返す - 更新された支出総数を返す
-      const totalUpdatedExpenses = sharedExpenses.length + oldStyleSharedExpenses.length;
-      res.status(200).json({ 
-        message: `参加者「${validatedData.name}」を追加しました${totalUpdatedExpenses > 0 ? `。${totalUpdatedExpenses}件の全員割り勘も更新しました` : ''}`,
-        name: validatedData.name,
-        sharedExpensesUpdated: totalUpdatedExpenses
-      });
+      setEventIdentity(req, req.params.id, identity);
+      await syncCalendarFeed(req);
+      await syncProfileEvents(req, req.params.id);
+      res.json(identity);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        console.error("参加者追加エラー:", error);
-        res.status(500).json({ message: "参加者の追加に失敗しました" });
+        res.status(500).json({ message: "認証に失敗しました" });
       }
     }
   });
-
-  // Delete an expense
-  app.delete("/api/events/:eventId/expenses/:expenseId", async (req, res) => {
+  
+  // このブラウザの認証を解除
+  app.delete("/api/events/:id/auth", async (req, res) => {
     try {
-      const { eventId, expenseId } = req.params;
-      
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "イベントが見つかりません" });
-      }
-      
-      await storage.deleteExpense(expenseId);
+      clearEventIdentity(req, req.params.id);
+      await hideProfileEvent(req, req.params.id);
       res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "支払い情報の削除に失敗しました" });
+      res.status(500).json({ message: "認証の解除に失敗しました" });
     }
   });
-
-  // Get settlements for an event
-  app.get("/api/events/:id/settlements", async (req, res) => {
+  
+  // このブラウザのイベントでの役割を取得
+  app.get("/api/events/:id/me", async (req, res) => {
+    try {
+      const identity = await loadEventIdentity(req, req.params.id);
+      res.json(identity || { role: null, name: null });
+    } catch (error) {
+      res.status(500).json({ message: "認証情報の取得に失敗しました" });
+    }
+  });
+  
+  // Finalize an event date
+  app.post("/api/events/:id/finalize", requireEventRole("organizer"), async (req, res) => {
     try {
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      if (!event.selectedDate) {
+      let selected: { date: string; startTime: string; endTime: string };
+      if (event.pollType === "slots" && event.slotGrid) {
+        // 時間帯グリッドは、連続したコマの時間帯で確定する
+        const schema = z.object({
+          date: z.string().min(1, "日付を選択してください"),
+          startTime: z.string().min(1, "開始時間を選択してください"),
+          endTime: z.string().min(1, "終了時間を選択してください"),
+        });
+        
+        selected = schema.parse(req.body);
+        const blockError = validateSlotBlock(event.slotGrid, selected);
+        if (blockError) {
+          return res.status(400).json({ message: blockError });
+        }
+      } else {
+        const schema = z.object({
+          dateOptionId: z.string().min(1, "日程を選択してください"),
+        });
+        
+        const { dateOptionId } = schema.parse(req.body);
+        const dateOption = event.dateOptions.find(option => option.id === dateOptionId);
+        if (!dateOption) {
+          return res.status(404).json({ message: "指定された日程が見つかりません" });
+        }
+        selected = dateOption;
+      }
+      
+      // Update the event with the selected date
+      // 日程が変わるたびにカレンダーの更新番号を増やし、購読中のカレンダーに反映させる
+      const updatedEvent = await storage.updateEvent(req.params.id, {
+        selectedDate: selected.date,
+        startTime: selected.startTime,
+        endTime: selected.endTime,
+        calendarSequence: event.calendarSequence + 1,
+      });
+      
+      broadcastChange(req.params.id, "event-finalized");
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "日程の確定に失敗しました" });
+      }
+    }
+  });
+  
+  // Cancel finalized date (revert to voting stage)
+  app.post("/api/events/:id/cancel-finalization", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      // selectedDateをnullに設定して確定解除
+      // 締切後に自動確定し直さないよう自動確定も解除する（日程は主催者が選び直す）
+      const updatedEvent = await storage.updateEvent(req.params.id, {
+        autoFinalize: false,
+        selectedDate: null,
+        startTime: null,
+        endTime: null,
+        calendarSequence: event.calendarSequence + 1,
+      });
+      
+      broadcastChange(req.params.id, "event-finalized");
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "日程確定のキャンセルに失敗しました" });
+      }
+    }
+  });
+
+  // Export a finalized event as iCalendar (.ics)
+  app.get("/api/events/:id/calendar.ics", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      if (!event.selectedDate) {
+        return res.status(400).json({ message: "日程が確定していません" });
+      }
+      
+      res.type("text/calendar; charset=utf-8");
+      res.attachment(`${event.id}.ics`);
+      res.send(buildCalendar([event], requestOrigin(req)));
+    } catch (error) {
+      res.status(500).json({ message: "カレンダーの作成に失敗しました" });
+    }
+  });
+  
+  // このブラウザで登録しているイベントをまとめたカレンダーフィードを作成（以降に登録したイベントも自動で追加される）
+  app.post("/api/calendar/feed", async (req, res) => {
+    try {
+      const feed = (await syncCalendarFeed(req, true))!;
+      res.json({
+        id: feed.id,
+        url: `${requestOrigin(req)}/api/calendar/feeds/${feed.id}/calendar.ics`
+      });
+    } catch (error) {
+      res.status(500).json({ message: "カレンダーフィードの作成に失敗しました" });
+    }
+  });
+  
+  // Subscribe to a calendar feed (カレンダーアプリから購読する、フィードIDが鍵になる)
+  app.get("/api/calendar/feeds/:feedId/calendar.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.params.feedId);
+      if (!feed) {
+        return res.status(404).json({ message: "カレンダーが見つかりません" });
+      }
+      
+      const events = await getFeedEvents(feed);
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildCalendar(events, requestOrigin(req), "調整ワリカン"));
+    } catch (error) {
+      res.status(500).json({ message: "カレンダーの作成に失敗しました" });
+    }
+  });
+
+  // カレンダー（.ics）の予定から候補日ごとの出欠を提案する（外部のカレンダーAPIは使わず、ここで解析する）
+  // 提案は保存しないので、参加者が確認してから出欠を登録する（カレンダーは text/calendar の本文で送る）
+  app.post("/api/events/:id/attendance-suggestions", icsUpload, async (req, res) => {
+    try {
+      const ics = z.string({
+        required_error: "カレンダーのデータを入力してください",
+        invalid_type_error: "カレンダーのデータを入力してください",
+      }).min(1, "カレンダーのデータを入力してください").parse(req.body);
+      if (!/BEGIN:VCALENDAR/i.test(ics)) {
+        return res.status(400).json({ message: "iCalendar（.ics）形式のデータを入力してください" });
+      }
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      res.json(suggestAttendance(event.dateOptions, ics));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "カレンダーの読み込みに失敗しました" });
+      }
+    }
+  });
+  
+  // Get all attendances for an event
+  app.get("/api/events/:id/attendances", async (req, res) => {
+    try {
+      const attendances = await storage.getEventAttendances(req.params.id);
+      res.json(attendances);
+    } catch (error) {
+      res.status(500).json({ message: "出欠情報の取得に失敗しました" });
+    }
+  });
+
+  // Rank date options by attendance responses (おすすめの候補日)
+  // 点数はクエリで変更できる（例: ?maybe=0.3）
+  app.get("/api/events/:id/date-ranking", async (req, res) => {
+    try {
+      const weight = (defaultValue: number) =>
+        z.coerce.number({ invalid_type_error: "点数は数値で指定してください" }).finite("点数は数値で指定してください").default(defaultValue);
+      const schema = z.object({
+        available: weight(DEFAULT_DATE_RANKING_WEIGHTS.available),
+        maybe: weight(DEFAULT_DATE_RANKING_WEIGHTS.maybe),
+        unavailable: weight(DEFAULT_DATE_RANKING_WEIGHTS.unavailable),
+      });
+      
+      const weights = schema.parse(req.query);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const [attendances, members] = await Promise.all([
+        storage.getEventAttendances(req.params.id),
+        storage.getEventMembers(req.params.id),
+      ]);
+      res.json(rankDateOptions(event.dateOptions, attendances, members, weights));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "候補日の評価に失敗しました" });
+      }
+    }
+  });
+  
+  // Get slot availabilities for a time-slot grid event (ヒートマップとおすすめの時間帯)
+  app.get("/api/events/:id/slots", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      if (event.pollType !== "slots" || !event.slotGrid) {
+        return res.status(400).json({ message: "時間帯グリッドのイベントではありません" });
+      }
+      
+      const [attendances, availabilities] = await Promise.all([
+        storage.getEventAttendances(req.params.id),
+        storage.getEventSlotAvailabilities(req.params.id),
+      ]);
+      const entries = attendances.map(attendance => ({
+        attendanceId: attendance.id,
+        name: attendance.name,
+        slots: availabilities.find(availability => availability.attendanceId === attendance.id)?.slots || [],
+      }));
+      
+      const result: SlotPollResult = {
+        grid: event.slotGrid,
+        availabilities: entries,
+        counts: countSlots(entries),
+        bestBlock: findBestSlotBlock(event.slotGrid, entries),
+      };
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "時間帯の回答の取得に失敗しました" });
+    }
+  });
+  
+  // Create or update an attendance
+  app.post("/api/events/:id/attendances", async (req, res) => {
+    try {
+      const schema = z.object({
+        name: z.string().min(1, "お名前を入力してください"),
+        responses: z.array(z.object({
+          dateOptionId: z.string(),
+          status: z.enum(["available", "maybe", "unavailable"]),
+          // 候補日ごとの補足（空欄は未入力として扱う）
+          comment: z.string().trim().max(200, "コメントは200文字以内で入力してください").optional()
+            .transform(comment => comment || null),
+          // この日だけ同伴者の人数が違う場合に指定する
+          guestCount: guestCountSchema.nullable().optional(),
+        })).default([]),
+        slots: z.array(z.string()).optional(), // 時間帯グリッドで参加できるコマ
+        // 全体への一言（省略時は変更しない）
+        note: z.string().trim().max(1000, "ひとことは1000文字以内で入力してください").optional(),
+        // 同伴者の人数（省略時は変更しない）
+        guestCount: guestCountSchema.optional(),
+      });
+
+      const validatedData = schema.parse(req.body);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      // 回答締切の後は回答を受け付けない（日程の確定後の参加登録は受け付ける）
+      if (!event.selectedDate && isResponseClosed(event)) {
+        return res.status(403).json({ message: "回答の締切を過ぎているため、出欠を回答できません" });
+      }
+      
+      // 候補日の方式は候補日ごとの回答、時間帯グリッドは参加できるコマで回答する
+      // 日程の確定後は、名前だけで参加登録できる
+      if (event.pollType === "slots" && event.slotGrid) {
+        if (!validatedData.slots && !event.selectedDate) {
+          return res.status(400).json({ message: "参加できる時間帯を選択してください" });
+        }
+        const gridKeys = new Set(slotGridKeys(event.slotGrid));
+        if (validatedData.slots?.some(key => !gridKeys.has(key))) {
+          return res.status(400).json({ message: "グリッドにない時間帯が含まれています" });
+        }
+      } else if (validatedData.responses.length === 0) {
+        return res.status(400).json({ message: "日程ごとの出欠を選択してください" });
+      }
+      
+      // 既存の出席者リストを取得
+      const existingAttendances = await storage.getEventAttendances(req.params.id);
+      const existingAttendance = existingAttendances.find(a => a.name === validatedData.name);
+      const identity = await loadEventIdentity(req, req.params.id);
+      
+      // 既存の回答を更新できるのは本人のみ（名前の変更・統合の後も出欠IDで確認する）
+      if (existingAttendance && identity?.attendanceId !== existingAttendance.id) {
+        return res.status(403).json({ message: "この名前は既に登録されています。ご本人の参加用リンクから開いてください" });
+      }
+      
+      // 出欠のない名簿のメンバー（作成者・精算画面で追加した参加者など）を名前だけで名乗れないようにする
+      // 本人として回答するには、主催者が発行した参加用リンクから開く必要がある
+      if (!existingAttendance && identity?.role !== "organizer") {
+        const members = await storage.getEventMembers(req.params.id);
+        const sameName = members.find(member => member.displayName === validatedData.name);
+        if (sameName && identity?.memberId !== sameName.id) {
+          return res.status(403).json({ message: "この名前は既に名簿に登録されています。主催者から参加用リンクを受け取って開いてください" });
+        }
+      }
+      
+      let attendance;
+      
+      if (existingAttendance) {
+        // 既存の回答を更新
+        await storage.updateAttendanceResponses(existingAttendance.id, validatedData.responses);
+        const changes: Partial<InsertAttendance> = {};
+        if (validatedData.note !== undefined) changes.note = validatedData.note || null;
+        if (validatedData.guestCount !== undefined) changes.guestCount = validatedData.guestCount;
+        attendance = Object.keys(changes).length > 0
+          ? await storage.updateAttendance(existingAttendance.id, changes)
+          : existingAttendance;
+        
+        // 同伴者の人数が変わったら参加人数も合わせる
+        const headcountDelta = attendanceHeadcount(attendance) - attendanceHeadcount(existingAttendance);
+        if (headcountDelta !== 0) {
+          await storage.updateEvent(req.params.id, {
+            participantsCount: Math.max(0, (event.participantsCount || 0) + headcountDelta),
+          });
+        }
+      } else {
+        // 新しい出席情報を作成
+        const attendanceId = nanoid();
+        attendance = await storage.createAttendance({
+          id: attendanceId,
+          eventId: req.params.id,
+          name: validatedData.name,
+          note: validatedData.note || null,
+          guestCount: validatedData.guestCount ?? 0,
+        });
+        
+        // Create responses
+        await Promise.all(
+          validatedData.responses.map(response => 
+            storage.createAttendanceResponse({
+              attendanceId: attendanceId,
+              dateOptionId: response.dateOptionId,
+              status: response.status,
+              comment: response.comment,
+              guestCount: response.guestCount ?? null,
+            })
+          )
+        );
+        
+        // Update participant count（同伴者を含む人数）
+        await storage.updateEvent(req.params.id, {
+          participantsCount: (event.participantsCount || 0) + attendanceHeadcount(attendance),
+        });
+      }
+      
+      if (validatedData.slots) {
+        await storage.upsertSlotAvailability({
+          attendanceId: attendance.id,
+          eventId: req.params.id,
+          slots: Array.from(new Set(validatedData.slots)).sort(),
+        });
+      }
+      
+      // 名簿に追加（同じ名前のメンバーがいれば出欠を紐付ける）
+      const member = await ensureEventMember(req.params.id, attendance.name, "attendee", attendance.id);
+      
+      // 参加用リンクのトークンを発行（主催者がログイン中の場合は主催者のまま）
+      const participant: EventIdentity = {
+        role: "participant",
+        name: attendance.name,
+        attendanceId: attendance.id,
+        memberId: member.id
+      };
+      if (identity?.role !== "organizer") {
+        setEventIdentity(req, req.params.id, participant);
+        await syncCalendarFeed(req);
+        await syncProfileEvents(req, req.params.id);
+      }
+      
+      broadcastChange(req.params.id, "attendance-updated", attendance.name);
+      res.status(201).json({
+        ...attendance,
+        participantToken: issueEventToken(req.params.id, participant)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "出欠情報の保存に失敗しました" });
+      }
+    }
+  });
+
+  // Delete an attendance (回答も削除し、参加者リストから外す)
+  app.delete("/api/events/:id/attendances/:attendanceId", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const attendance = await storage.getAttendance(req.params.attendanceId);
+      if (!attendance || attendance.eventId !== req.params.id) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      // 支払者・割り勘の対象者・金額指定などの負担者・送金記録に含まれる参加者を削除すると精算が合わなくなる
+      // （対象者が1人だけの支払いから外すと、対象者が空になって全員割り勘として扱われてしまう）
+      const members = await storage.getEventMembers(req.params.id);
+      const member = members.find(member => member.attendanceId === attendance.id);
+      const expenses = await storage.getEventExpenses(req.params.id);
+      const payments = await storage.getEventSettlementPayments(req.params.id);
+      if (member && isMemberInSettlement(member.id, expenses, payments)) {
+        return res.status(409).json({ message: `${attendance.name}さんは支払い・送金の記録に含まれているため削除できません` });
+      }
+      
+      await storage.deleteAttendance(attendance.id);
+      broadcastChange(req.params.id, "attendance-updated");
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "参加者の削除に失敗しました" });
+    }
+  });
+
+  // Get all expenses for an event
+  app.get("/api/events/:id/expenses", async (req, res) => {
+    try {
+      const expenses = await storage.getEventExpenses(req.params.id);
+      res.json(expenses);
+    } catch (error) {
+      res.status(500).json({ message: "支払い情報の取得に失敗しました" });
+    }
+  });
+
+  // Get the member roster for an event
+  app.get("/api/events/:id/members", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const members = await storage.getEventMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ message: "参加者名簿の取得に失敗しました" });
+    }
+  });
+  
+  // Add a member manually (精算画面から出欠未登録の参加者を追加する)
+  // 全員割り勘の支払いは精算時に名簿の全員で分けるため、支払いを書き換える必要はない
+  app.post("/api/events/:id/members", requireEventRole(), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      const schema = z.object({
+        displayName: z.string().trim().min(1, "名前を入力してください"),
+      });
+      
+      const { displayName } = schema.parse(req.body);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const members = await storage.getEventMembers(req.params.id);
+      if (members.some(member => member.active && member.displayName === displayName)) {
+        return res.status(400).json({ message: "この名前の参加者は既に登録されています" });
+      }
+      
+      const member = await ensureEventMember(req.params.id, displayName, "manual");
+      broadcastChange(req.params.id, "attendance-updated", identity.name);
+      res.status(201).json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "参加者の追加に失敗しました" });
+      }
+    }
+  });
+
+  // 名前の変更・統合で影響を受ける支払いのプレビュー
+  app.get("/api/events/:id/members/:memberId/references", async (req, res) => {
+    try {
+      const member = await storage.getEventMember(req.params.memberId);
+      if (!member || member.eventId !== req.params.id) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      res.json(await getMemberReferences(member));
+    } catch (error) {
+      res.status(500).json({ message: "参加者の利用状況の取得に失敗しました" });
+    }
+  });
+  
+  // 名簿のメンバーの参加用リンクを発行（主催者のみ、出欠を登録していないメンバーにも共有できる）
+  app.post("/api/events/:id/members/:memberId/link", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const member = await storage.getEventMember(req.params.memberId);
+      if (!member || member.eventId !== req.params.id || member.mergedIntoId) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      const token = issueEventToken(req.params.id, {
+        role: "participant",
+        name: member.displayName,
+        attendanceId: member.attendanceId ?? undefined,
+        memberId: member.id
+      });
+      res.json({ token });
+    } catch (error) {
+      res.status(500).json({ message: "参加用リンクの発行に失敗しました" });
+    }
+  });
+  
+  // Rename a member (主催者のみ、出欠・主催者名・メモのロックもまとめて変更する)
+  app.patch("/api/events/:id/members/:memberId", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const schema = z.object({
+        displayName: z.string().trim().min(1, "名前を入力してください"),
+      });
+      
+      const { displayName } = schema.parse(req.body);
+      
+      const members = await storage.getEventMembers(req.params.id);
+      const member = members.find(member => member.id === req.params.memberId);
+      if (!member) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      // 同じ名前の別人がいる場合は統合を使う
+      if (members.some(other => other.id !== member.id && other.active && other.displayName === displayName)) {
+        return res.status(400).json({ message: "この名前の参加者は既に登録されています。同じ人の場合は統合してください" });
+      }
+      
+      const renamed = await storage.renameEventMember(member.id, displayName);
+      broadcastChange(req.params.id, "attendance-updated", res.locals.identity.name);
+      res.json(renamed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "参加者名の変更に失敗しました" });
+      }
+    }
+  });
+  
+  // Mark a member as required (主催者のみ、必須参加者が参加できない日程はおすすめしない)
+  app.put("/api/events/:id/members/:memberId/required", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const schema = z.object({
+        required: z.boolean({ required_error: "必須参加者かどうかを指定してください" }),
+      });
+      
+      const { required } = schema.parse(req.body);
+      
+      const member = await storage.getEventMember(req.params.memberId);
+      if (!member || member.eventId !== req.params.id || !member.active) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      const updated = await storage.updateEventMember(member.id, { required });
+      broadcastChange(req.params.id, "attendance-updated", res.locals.identity.name);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "必須参加者の設定に失敗しました" });
+      }
+    }
+  });
+  
+  // Merge a member into another (主催者のみ、同じ人が別の名前で登録された場合にまとめる)
+  app.post("/api/events/:id/members/:memberId/merge", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const schema = z.object({
+        targetId: z.string().min(1, "統合先の参加者を選択してください"),
+      });
+      
+      const { targetId } = schema.parse(req.body);
+      if (targetId === req.params.memberId) {
+        return res.status(400).json({ message: "同じ参加者には統合できません" });
+      }
+      
+      const members = await storage.getEventMembers(req.params.id);
+      const source = members.find(member => member.id === req.params.memberId);
+      const target = members.find(member => member.id === targetId);
+      if (!source || !target) {
+        return res.status(404).json({ message: "参加者が見つかりません" });
+      }
+      
+      const merged = await storage.mergeEventMembers(source.id, target.id);
+      broadcastChange(req.params.id, "attendance-updated", res.locals.identity.name);
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "参加者の統合に失敗しました" });
+      }
+    }
+  });
+
+  // 支払いの入力内容（作成・編集で共通）
+  const expenseSchema = z.object({
+    payerId: z.string().min(1, "支払者を選択してください"), // 支払者のメンバーID
+    description: z.string().min(1, "項目を入力してください"),
+    amount: z.number().positive("金額は0より大きい値を入力してください"),
+    currency: z.enum(CURRENCY_CODES).optional(), // 支払いの通貨（省略時はイベントの基準通貨）
+    participantIds: z.array(z.string()).default([]), // 割り勘対象者のメンバーID（指定がない場合は全員）
+    splitMode: z.enum(SPLIT_MODES).default("equal"), // 分割方法
+    splitShares: z.record(z.number()).optional(), // メンバーIDごとの比率・金額・割合
+  });
+
+  // 分割方法から負担するメンバーを決める
+  // 対象者の指定がない均等割りは「全員で割り勘」とし、精算時に名簿の全員で分ける
+  const resolveExpenseParticipants = (input: z.infer<typeof expenseSchema>) => {
+    // 均等割り以外は指定されたメンバーだけが負担する
+    const splitShares = input.splitMode === "equal" ? null : input.splitShares!;
+    const participantIds = splitShares ? shareParticipants(splitShares) : input.participantIds;
+    const isSharedWithAll = participantIds.length === 0;
+    
+    return { participantIds, isSharedWithAll, splitShares };
+  };
+
+  // 支払者・割り勘対象者がすべて名簿のメンバーか確認する
+  const validateExpenseMembers = async (eventId: string, input: z.infer<typeof expenseSchema>) => {
+    const members = await storage.getEventMembers(eventId);
+    const unknown = findUnknownMemberIds(members, [
+      input.payerId,
+      ...input.participantIds,
+      ...Object.keys(input.splitShares || {}),
+    ]);
+    return unknown.length > 0 ? "名簿にない参加者が含まれています" : null;
+  };
+
+  // 変更前後の支払いを比較して、変更された項目を返す
+  const diffExpense = (before: Partial<Expense> | null, after: Expense): ExpenseChange[] => {
+    return EXPENSE_CHANGE_FIELDS
+      .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after[field] ?? null))
+      .map(field => ({ field, before: before?.[field] ?? null, after: after[field] ?? null }));
+  };
+
+  // Create a new expense
+  app.post("/api/events/:id/expenses", requireEventRole(), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      const validatedData = expenseSchema.parse(req.body);
+      
+      const splitError = validateSplit(validatedData.amount, validatedData.splitMode, validatedData.splitShares);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      if (!event.selectedDate) {
+        return res.status(400).json({ message: "イベントの日程が確定していないため、精算機能は利用できません" });
+      }
+      
+      const memberError = await validateExpenseMembers(req.params.id, validatedData);
+      if (memberError) {
+        return res.status(400).json({ message: memberError });
+      }
+      
+      // 主催者以外は自分が支払った分のみ記録できる
+      const members = await storage.getEventMembers(req.params.id);
+      if (identity.role !== "organizer" && identityMemberId(identity, members) !== validatedData.payerId) {
+        return res.status(403).json({ message: "自分が支払った分のみ記録できます" });
+      }
+      
+      const { participantIds, isSharedWithAll, splitShares } = resolveExpenseParticipants(validatedData);
+      
+      const expense = await storage.createExpense({
+        id: nanoid(),
+        eventId: req.params.id,
+        payerId: validatedData.payerId,
+        description: validatedData.description,
+        amount: String(validatedData.amount),
+        currency: validatedData.currency || event.baseCurrency,
+        participantIds,
+        isSharedWithAll, // 全員割り勘フラグを設定
+        splitMode: validatedData.splitMode,
+        splitShares,
+      });
+      
+      await storage.createExpenseRevision({
+        expenseId: expense.id,
+        eventId: req.params.id,
+        editorName: identity.name,
+        action: "create",
+        changes: diffExpense(null, expense),
+      });
+      
+      broadcastChange(req.params.id, "expense-added", identity.name);
+      res.status(201).json(expense);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "支払い情報の保存に失敗しました" });
+      }
+    }
+  });
+
+  // Update an expense
+  app.patch("/api/events/:eventId/expenses/:expenseId", requireEventRole(), async (req, res) => {
+    try {
+      const { eventId, expenseId } = req.params;
+      const identity: EventIdentity = res.locals.identity;
+      const updates = expenseSchema.partial().parse(req.body);
+      
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const expense = await storage.getExpense(expenseId);
+      if (!expense || expense.eventId !== eventId) {
+        return res.status(404).json({ message: "支払い情報が見つかりません" });
+      }
+      
+      // 支払者本人または主催者のみ編集できる（主催者以外は支払者を他の人に変えられない）
+      const members = await storage.getEventMembers(eventId);
+      if (identity.role !== "organizer") {
+        const callerId = identityMemberId(identity, members);
+        if (callerId !== expense.payerId) {
+          return res.status(403).json({ message: "支払者本人または主催者のみ編集できます" });
+        }
+        if (updates.payerId !== undefined && updates.payerId !== callerId) {
+          return res.status(403).json({ message: "支払者を変更できるのは主催者のみです" });
+        }
+      }
+      
+      // 指定のない項目は現在の内容を引き継ぐ
+      const validatedData = {
+        payerId: expense.payerId,
+        description: expense.description,
+        amount: parseFloat(expense.amount),
+        currency: expense.currency as z.infer<typeof expenseSchema>["currency"],
+        participantIds: expense.isSharedWithAll ? [] : expense.participantIds,
+        splitMode: expense.splitMode,
+        splitShares: expense.splitShares ?? undefined,
+        ...updates,
+      };
+      
+      const splitError = validateSplit(validatedData.amount, validatedData.splitMode, validatedData.splitShares);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+      
+      const memberError = await validateExpenseMembers(eventId, validatedData);
+      if (memberError) {
+        return res.status(400).json({ message: memberError });
+      }
+      
+      const { participantIds, isSharedWithAll, splitShares } = resolveExpenseParticipants(validatedData);
+      
+      const updatedExpense = await storage.updateExpense(expenseId, {
+        payerId: validatedData.payerId,
+        description: validatedData.description,
+        amount: String(validatedData.amount),
+        currency: validatedData.currency || event.baseCurrency,
+        participantIds,
+        isSharedWithAll,
+        splitMode: validatedData.splitMode,
+        splitShares,
+      });
+      
+      const changes = diffExpense(expense, updatedExpense);
+      if (changes.length > 0) {
+        await storage.createExpenseRevision({
+          expenseId,
+          eventId,
+          editorName: identity.name,
+          action: "update",
+          changes,
+        });
+      }
+      
+      broadcastChange(eventId, "expense-updated", identity.name);
+      res.json(updatedExpense);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "支払い情報の更新に失敗しました" });
+      }
+    }
+  });
+
+  // Get the change history of an expense
+  app.get("/api/events/:eventId/expenses/:expenseId/revisions", async (req, res) => {
+    try {
+      const expense = await storage.getExpense(req.params.expenseId);
+      if (!expense || expense.eventId !== req.params.eventId) {
+        return res.status(404).json({ message: "支払い情報が見つかりません" });
+      }
+      
+      const revisions = await storage.getExpenseRevisions(req.params.expenseId);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "変更履歴の取得に失敗しました" });
+    }
+  });
+  
+  // レシート画像の一覧（イベントの全支払い分、参加者のみ）
+  app.get("/api/events/:id/attachments", requireEventRole(), async (req, res) => {
+    try {
+      const attachments = await storage.getEventExpenseAttachments(req.params.id);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "レシートの取得に失敗しました" });
+    }
+  });
+  
+  // レシート画像を添付する（画像そのものを本文で送る）
+  app.post("/api/events/:eventId/expenses/:expenseId/attachments", requireEventRole(), receiptUpload, async (req, res) => {
+    try {
+      const { eventId, expenseId } = req.params;
+      const identity: EventIdentity = res.locals.identity;
+      
+      const expense = await storage.getExpense(expenseId);
+      if (!expense || expense.eventId !== eventId) {
+        return res.status(404).json({ message: "支払い情報が見つかりません" });
+      }
+      
+      // 支払者本人または主催者のみ添付できる
+      const members = await storage.getEventMembers(eventId);
+      if (identity.role !== "organizer" && identityMemberId(identity, members) !== expense.payerId) {
+        return res.status(403).json({ message: "支払者本人または主催者のみ添付できます" });
+      }
+      
+      const existing = await storage.getExpenseAttachments(expenseId);
+      if (existing.length >= MAX_RECEIPTS_PER_EXPENSE) {
+        return res.status(400).json({ message: `レシートは1件の支払いにつき${MAX_RECEIPTS_PER_EXPENSE}枚までです` });
+      }
+      
+      const attachment = Buffer.isBuffer(req.body) && req.body.length > 0
+        ? await saveReceipt(expense, req.body, receiptFileName(req.get("X-File-Name")), identity.name)
+        : undefined;
+      if (!attachment) {
+        return res.status(400).json({ message: "JPEG・PNG・WebP の画像を選択してください" });
+      }
+      
+      broadcastChange(eventId, "expense-updated", identity.name);
+      res.status(201).json(attachment);
+    } catch (error) {
+      res.status(500).json({ message: "レシートの保存に失敗しました" });
+    }
+  });
+  
+  // レシート画像（original: 保存した画像、thumbnail: 一覧用の縮小画像）
+  app.get("/api/events/:eventId/expenses/:expenseId/attachments/:attachmentId/:variant", requireEventRole(), async (req, res) => {
+    try {
+      const { eventId, expenseId, attachmentId } = req.params;
+      const variant = z.enum(["original", "thumbnail"]).safeParse(req.params.variant);
+      
+      const attachment = await storage.getExpenseAttachment(attachmentId);
+      if (!variant.success || !attachment || attachment.eventId !== eventId || attachment.expenseId !== expenseId) {
+        return res.status(404).json({ message: "レシートが見つかりません" });
+      }
+      
+      const image = await readReceipt(attachment, variant.data);
+      if (!image) {
+        return res.status(404).json({ message: "レシートが見つかりません" });
+      }
+      
+      // 画像は変更されないので、このブラウザにだけキャッシュさせる
+      res.set("Cache-Control", "private, max-age=86400");
+      res.type(image.contentType).send(image.data);
+    } catch (error) {
+      res.status(500).json({ message: "レシートの取得に失敗しました" });
+    }
+  });
+  
+  // レシート画像を削除する
+  app.delete("/api/events/:eventId/expenses/:expenseId/attachments/:attachmentId", requireEventRole(), async (req, res) => {
+    try {
+      const { eventId, expenseId, attachmentId } = req.params;
+      const identity: EventIdentity = res.locals.identity;
+      
+      const expense = await storage.getExpense(expenseId);
+      const attachment = await storage.getExpenseAttachment(attachmentId);
+      if (!expense || expense.eventId !== eventId || !attachment || attachment.expenseId !== expenseId) {
+        return res.status(404).json({ message: "レシートが見つかりません" });
+      }
+      
+      const members = await storage.getEventMembers(eventId);
+      if (identity.role !== "organizer" && identityMemberId(identity, members) !== expense.payerId) {
+        return res.status(403).json({ message: "支払者本人または主催者のみ削除できます" });
+      }
+      
+      await storage.deleteExpenseAttachment(attachmentId);
+      await removeReceiptFiles([attachment]);
+      broadcastChange(eventId, "expense-updated", identity.name);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "レシートの削除に失敗しました" });
+    }
+  });
+  
+  // Delete an expense
+  app.delete("/api/events/:eventId/expenses/:expenseId", requireEventRole(), async (req, res) => {
+    try {
+      const { eventId, expenseId } = req.params;
+      const identity: EventIdentity = res.locals.identity;
+      
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const expense = await storage.getExpense(expenseId);
+      if (!expense || expense.eventId !== eventId) {
+        return res.status(404).json({ message: "支払い情報が見つかりません" });
+      }
+      
+      // 支払者本人または主催者のみ削除できる
+      const members = await storage.getEventMembers(eventId);
+      if (identity.role !== "organizer" && identityMemberId(identity, members) !== expense.payerId) {
+        return res.status(403).json({ message: "支払者本人または主催者のみ削除できます" });
+      }
+      
+      // レシート画像の本体も削除する
+      const attachments = await storage.getExpenseAttachments(expenseId);
+      await storage.deleteExpense(expenseId);
+      await removeReceiptFiles(attachments);
+      broadcastChange(eventId, "expense-deleted", identity.name);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "支払い情報の削除に失敗しました" });
+    }
+  });
+
+  // Get settlements for an event
+  app.get("/api/events/:id/settlements", async (req, res) => {
+    try {
+      const querySchema = z.object({
+        strategy: z.enum(["greedy", "minTransfers"]).optional(),
+      });
+      const { strategy } = querySchema.parse(req.query);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      if (!event.selectedDate) {
         return res.status(400).json({ message: "イベントの日程が確定していないため、精算機能は利用できません" });
       }
       
-      // 経費情報と参加者情報を取得
+      // 経費情報と参加者名簿を取得（読み取りのみ）
+      // 名簿には出欠で回答した同伴者の人数を付ける（全員割り勘で同伴者の分を負担する場合に使う）
       const expenses = await storage.getEventExpenses(req.params.id);
+      const attendances = await storage.getEventAttendances(req.params.id);
+      const members = (await storage.getEventMembers(req.params.id)).map(member => ({
+        ...member,
+        guestCount: attendances.find(attendance => attendance.id === member.attendanceId)?.guestCount || 0,
+      }));
+      
+      // 為替レートを取得（未設定の通貨があれば精算できない）
+      const exchangeRates = await storage.getEventExchangeRates(req.params.id);
+      const rates: ExchangeRates = Object.fromEntries(
+        exchangeRates.map(rate => [rate.currency, parseFloat(rate.rate)])
+      );
+      // 記録済みの送金を取得（精算の残額に反映する）
+      const payments = await storage.getEventSettlementPayments(req.params.id);
+      
+      const missingRates = findMissingRates(
+        [...expenses.map(e => e.currency), ...payments.map(p => p.currency)],
+        event.baseCurrency,
+        rates
+      );
+      if (missingRates.length > 0) {
+        return res.status(400).json({
+          message: `為替レートが設定されていない通貨があります: ${missingRates.join(", ")}`,
+          missingRates
+        });
+      }
+      
+      // 精算計算を実行
+      const result = calculateSettlements(expenses, members, {
+        strategy,
+        baseCurrency: event.baseCurrency,
+        rates,
+        payments,
+        guestsInSplit: event.guestsInSplit
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "精算情報の計算に失敗しました" });
+      }
+    }
+  });
+
+  // Get settlement payments for an event
+  app.get("/api/events/:id/payments", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const payments = await storage.getEventSettlementPayments(req.params.id);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: "送金記録の取得に失敗しました" });
+    }
+  });
+  
+  // Record a settlement payment (全額・一部どちらも記録できる)
+  app.post("/api/events/:id/payments", requireEventRole(), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      const schema = z.object({
+        fromMemberId: z.string().min(1, "送金した人を選択してください"),
+        toMemberId: z.string().min(1, "受け取った人を選択してください"),
+        amount: z.number().positive("金額は0より大きい値を入力してください"),
+        currency: z.enum(CURRENCY_CODES).optional(), // 送金の通貨（省略時はイベントの基準通貨）
+        note: z.string().max(200, "メモは200文字以内で入力してください").optional(),
+        paidAt: z.coerce.date().optional(), // 送金日時（省略時は現在時刻）
+      });
       
-      // 全ての支出に含まれる支払者と参加者を集める
-      console.log("経費情報から参加者を集計...");
+      const validatedData = schema.parse(req.body);
       
-      const participantsFromExpenses = new Set<string>();
+      if (validatedData.fromMemberId === validatedData.toMemberId) {
+        return res.status(400).json({ message: "送金した人と受け取った人が同じです" });
+      }
       
-      // 支出から全ての参加者を抽出
-      for (const expense of expenses) {
-        // 支払者を追加
-        participantsFromExpenses.add(expense.payerName);
-        
-        // 明示的に割り勘対象として指定された参加者を追加
-        if (expense.participants && expense.participants.length > 0) {
-          for (const participant of expense.participants) {
-            participantsFromExpenses.add(participant);
-          }
-        }
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      console.log(`経費情報から抽出した参加者数: ${participantsFromExpenses.size}人`);
+      if (!event.selectedDate) {
+        return res.status(400).json({ message: "イベントの日程が確定していないため、精算機能は利用できません" });
+      }
       
-      // イベントの参加者リストを更新
-      // (ここでスキーマ定義に存在しない participants フィールドを使用しているため
-      //  TypeScriptの型エラーが発生するが、実行時には問題ない)
-      if (!event.participants) {
-        event.participants = [];
+      const members = await storage.getEventMembers(req.params.id);
+      if (findUnknownMemberIds(members, [validatedData.fromMemberId, validatedData.toMemberId]).length > 0) {
+        return res.status(400).json({ message: "名簿にない参加者が含まれています" });
       }
       
-      // 経費から抽出した参加者リストと既存のリストをマージ
-      const mergedParticipants = Array.from(new Set([
-        ...event.participants,
-        ...Array.from(participantsFromExpenses)
-      ]));
+      // 送金した人・受け取った人本人または主催者のみ記録できる
+      const callerId = identityMemberId(identity, members);
+      if (identity.role !== "organizer" && callerId !== validatedData.fromMemberId && callerId !== validatedData.toMemberId) {
+        return res.status(403).json({ message: "送金した人・受け取った人本人または主催者のみ記録できます" });
+      }
       
-      console.log(`参加者リスト統合後: ${mergedParticipants.length}人`);
+      const payment = await storage.createSettlementPayment({
+        id: nanoid(),
+        eventId: req.params.id,
+        fromMemberId: validatedData.fromMemberId,
+        toMemberId: validatedData.toMemberId,
+        amount: String(validatedData.amount),
+        currency: validatedData.currency || event.baseCurrency,
+        note: validatedData.note || null,
+        recordedBy: identity.name,
+        paidAt: validatedData.paidAt || new Date(),
+      });
       
-      // イベントに参加者リストを保存
-      await storage.updateEvent(req.params.id, {
-        participants: mergedParticipants
-      } as any);
+      broadcastChange(req.params.id, "payment-updated", identity.name);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "送金記録の保存に失敗しました" });
+      }
+    }
+  });
+  
+  // Delete a settlement payment (記録の取り消し)
+  app.delete("/api/events/:eventId/payments/:paymentId", requireEventRole(), async (req, res) => {
+    try {
+      const { eventId, paymentId } = req.params;
+      const identity: EventIdentity = res.locals.identity;
       
-      console.log("▶ 割り勘計算ロジックを実行...");
-      console.log(`イベント参加者数: ${mergedParticipants.length}人`);
+      const payment = await storage.getSettlementPayment(paymentId);
+      if (!payment || payment.eventId !== eventId) {
+        return res.status(404).json({ message: "送金記録が見つかりません" });
+      }
       
-      // 全ての支出に参加者リストをマージして、全員に対応できるようにする
-      for (const expense of expenses) {
-        // isSharedWithAll フラグが明示的にtrueに設定されているものは、
-        // 現在の全参加者に対して計算する必要がある
-        if (expense.isSharedWithAll === true) {
-          console.log(`支出 ${expense.id} は全員割り勘フラグがあるため、参加者リストを更新します`);
-          console.log(`更新前: ${expense.participants ? expense.participants.length : 0}人`);
-          
-          // 参加者リストを最新の状態に更新（イベント全体の参加者リストを使用）
-          expense.participants = [...mergedParticipants];
-          
-          console.log(`更新後: ${expense.participants.length}人`);
-        }
-        else if (!expense.participants || expense.participants.length === 0) {
-          // 後方互換性: 古い形式の全員割り勘は、参加者が空の場合
-          console.log(`支出 ${expense.id} は参加者が未指定のため全員割り勘と判断します`);
-          expense.participants = [...mergedParticipants];
-          expense.isSharedWithAll = true;
-        }
+      // 送金した人・受け取った人本人または主催者のみ取り消せる
+      const members = await storage.getEventMembers(eventId);
+      const callerId = identityMemberId(identity, members);
+      if (identity.role !== "organizer" && callerId !== payment.fromMemberId && callerId !== payment.toMemberId) {
+        return res.status(403).json({ message: "送金した人・受け取った人本人または主催者のみ取り消せます" });
       }
       
-      // 精算計算を実行
-      const settlements = calculateSettlements(expenses);
-      res.json(settlements);
+      await storage.deleteSettlementPayment(paymentId);
+      broadcastChange(eventId, "payment-updated", identity.name);
+      res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "精算情報の計算に失敗しました" });
+      res.status(500).json({ message: "送金記録の削除に失敗しました" });
     }
   });
 
-  // イベントのメモを取得
-  app.get("/api/events/:id/memo", async (req, res) => {
+  // Get exchange rates for an event
+  app.get("/api/events/:id/exchange-rates", async (req, res) => {
     try {
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
+      const rates = await storage.getEventExchangeRates(req.params.id);
       res.json({
-        memo: event.memo || "",
-        lastEditedBy: event.memoLastEditedBy || null,
-        lastEditedAt: event.memoLastEditedAt || null,
-        editLock: event.memoEditLock || null
+        baseCurrency: event.baseCurrency,
+        rates
       });
     } catch (error) {
-      res.status(500).json({ message: "メモの取得に失敗しました" });
+      res.status(500).json({ message: "為替レートの取得に失敗しました" });
     }
   });
   
-  // イベントのメモを更新
-  app.post("/api/events/:id/memo", async (req, res) => {
+  // Set an exchange rate (1単位あたりの基準通貨額)
+  app.put("/api/events/:id/exchange-rates/:currency", requireEventRole("organizer"), async (req, res) => {
     try {
+      const identity: EventIdentity = res.locals.identity;
       const schema = z.object({
-        memo: z.string().max(1000, "メモは1000文字以内で入力してください"),
-        editorName: z.string().min(1, "編集者名を入力してください"),
+        rate: z.number().positive("レートは0より大きい値を入力してください"),
       });
       
-      const { memo, editorName } = schema.parse(req.body);
+      const { rate } = schema.parse(req.body);
+      const currency = currencyParam.parse(req.params.currency);
       
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      // メモを更新
-      const updatedEvent = await storage.updateEventMemo(req.params.id, memo, editorName);
+      if (currency === event.baseCurrency) {
+        return res.status(400).json({ message: "基準通貨のレートは設定できません" });
+      }
       
-      res.json({
-        memo: updatedEvent.memo,
-        lastEditedBy: updatedEvent.memoLastEditedBy,
-        lastEditedAt: updatedEvent.memoLastEditedAt
+      const exchangeRate = await storage.upsertExchangeRate({
+        eventId: req.params.id,
+        currency,
+        rate: String(rate),
+        updatedBy: identity.name,
       });
+      
+      broadcastChange(req.params.id, "exchange-rates-updated", identity.name);
+      res.json(exchangeRate);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
-      } else if (error instanceof Error && error.message.includes("他の参加者")) {
-        res.status(409).json({ message: error.message }); // Conflict
       } else {
-        res.status(500).json({ message: "メモの更新に失敗しました" });
+        res.status(500).json({ message: "為替レートの保存に失敗しました" });
+      }
+    }
+  });
+  
+  // Delete an exchange rate
+  app.delete("/api/events/:id/exchange-rates/:currency", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      const currency = currencyParam.parse(req.params.currency);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      await storage.deleteExchangeRate(req.params.id, currency);
+      broadcastChange(req.params.id, "exchange-rates-updated", identity.name);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "為替レートの削除に失敗しました" });
       }
     }
   });
   
-  // 編集ロックを取得
-  app.post("/api/events/:id/memo/lock", async (req, res) => {
+  // Change the base currency of an event
+  app.put("/api/events/:id/base-currency", requireEventRole("organizer"), async (req, res) => {
     try {
+      const identity: EventIdentity = res.locals.identity;
       const schema = z.object({
-        userName: z.string().min(1, "ユーザー名を入力してください"),
+        baseCurrency: z.enum(CURRENCY_CODES, {
+          errorMap: () => ({ message: "対応していない通貨です" })
+        }),
       });
       
-      const { userName } = schema.parse(req.body);
+      const { baseCurrency } = schema.parse(req.body);
       
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      // ロックを取得
-      const success = await storage.acquireEditLock(req.params.id, userName);
+      // 既存のレートは旧基準通貨に対する値なので、基準通貨を変えたら削除する
+      if (baseCurrency !== event.baseCurrency) {
+        const rates = await storage.getEventExchangeRates(req.params.id);
+        for (const rate of rates) {
+          await storage.deleteExchangeRate(req.params.id, rate.currency);
+        }
+      }
       
-      if (success) {
-        res.json({ success: true });
+      const updatedEvent = await storage.updateEvent(req.params.id, { baseCurrency });
+      broadcastChange(req.params.id, "exchange-rates-updated", identity.name);
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
       } else {
-        const updatedEvent = await storage.getEvent(req.params.id);
-        res.status(409).json({ 
-          success: false, 
-          message: `他の参加者（${updatedEvent?.memoEditLock?.lockedBy}さん）が現在編集中です`,
-          lockInfo: updatedEvent?.memoEditLock
-        });
+        res.status(500).json({ message: "基準通貨の変更に失敗しました" });
+      }
+    }
+  });
+
+  // 全員割り勘で同伴者の分も連れてきた人が負担するかを切り替える
+  app.put("/api/events/:id/guests-in-split", requireEventRole("organizer"), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      const schema = z.object({
+        guestsInSplit: z.boolean(),
+      });
+      
+      const { guestsInSplit } = schema.parse(req.body);
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
       }
+      
+      const updatedEvent = await storage.updateEvent(req.params.id, { guestsInSplit });
+      broadcastChange(req.params.id, "event-updated", identity.name);
+      res.json(updatedEvent);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "編集ロックの取得に失敗しました" });
+        res.status(500).json({ message: "同伴者の精算設定の変更に失敗しました" });
       }
     }
   });
+
+  // イベントのメモを取得（保存するときは revision を baseRevision として送る）
+  app.get("/api/events/:id/memo", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      res.json(memoState(event));
+    } catch (error) {
+      res.status(500).json({ message: "メモの取得に失敗しました" });
+    }
+  });
   
-  // 編集ロックを解放
-  app.post("/api/events/:id/memo/unlock", async (req, res) => {
+  // イベントのメモを更新
+  app.post("/api/events/:id/memo", requireEventRole(), async (req, res) => {
     try {
-      // バリデーションを完全に削除
+      const schema = z.object({
+        memo: z.string().max(1000, "メモは1000文字以内で入力してください"),
+        baseRevision: z.number().int().min(0, "メモの版番号が正しくありません"),
+        baseMemo: z.string().max(1000).default(""), // 編集を始めた時点のメモ（履歴にない版の統合に使う）
+      });
+      
+      const { memo, baseRevision, baseMemo } = schema.parse(req.body);
+      // 編集者名は認証済みの名前を使用
+      const editorName = (res.locals.identity as EventIdentity).name;
+      
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ message: "イベントが見つかりません" });
       }
       
-      try {
-        // 例外が発生してもキャッチして常に成功として返す
-        await storage.releaseEditLock(req.params.id, "匿名");
-        res.json({ success: true });
-      } catch (err) {
-        console.error("ロック解除に失敗しましたが、成功として扱います:", err);
-        // エラーが発生しても成功として返す
-        res.json({ success: true });
+      // 編集を始めた後に他の参加者が保存していれば保存せず、3方向の差分を返して統合してもらう
+      // 統合の基準は履歴に残っている編集開始時点の版（履歴がない版は送られてきた内容）
+      const updatedEvent = await storage.updateEventMemo(req.params.id, memo, editorName, baseRevision);
+      if (!updatedEvent) {
+        const current = memoState((await storage.getEvent(req.params.id))!);
+        const base = (await storage.getMemoRevisions(req.params.id)).find(r => r.revision === baseRevision);
+        return res.status(409).json({
+          message: `${current.lastEditedBy || "他の参加者"}さんがメモを更新しました。変更を統合してから保存してください`,
+          current,
+          merge: mergeMemo(base?.memo ?? baseMemo, memo, current.memo),
+        });
       }
+      
+      await storage.clearMemoTyping(req.params.id, editorName);
+      broadcastChange(req.params.id, "memo-updated", editorName);
+      res.json(memoState(updatedEvent));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors[0].message });
       } else {
-        res.status(500).json({ message: "編集ロックの解放に失敗しました" });
+        res.status(500).json({ message: "メモの更新に失敗しました" });
       }
     }
   });
-
-  const httpServer = createServer(app);
-  return httpServer;
-}
-
-function calculateSettlements(expenses: any[]): { from: string; to: string; amount: number }[] {
-  // 支払いが無ければ精算不要
-  if (!expenses.length) return [];
-  
-  console.log("========== 精算計算開始 ==========");
-  
-  // ステップ1: すべての支払いから参加者を抽出
-  const allParticipantsSet = new Set<string>();
   
-  // デバッグ情報を出力
-  console.log(`支出数: ${expenses.length}件`);
-  expenses.forEach((expense, index) => {
-    console.log(`支出#${index + 1}: ${expense.payerName}が${expense.amount}円支払い`);
-    console.log(`  説明: ${expense.description}`);
-    console.log(`  参加者数: ${expense.participants ? expense.participants.length : 0}人`);
-    console.log(`  全員割り勘フラグ: ${expense.isSharedWithAll ? 'あり' : 'なし'}`);
-    if (expense.participants && expense.participants.length > 0) {
-      console.log(`  参加者: ${expense.participants.join(', ')}`);
+  // メモの保存履歴（新しい版から）
+  app.get("/api/events/:id/memo/revisions", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      res.json(await storage.getMemoRevisions(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "メモの履歴の取得に失敗しました" });
     }
   });
   
-  // 新方式: まず全ての参加者を集める
-  for (const expense of expenses) {
-    // 支払者を追加
-    allParticipantsSet.add(expense.payerName);
-
-    // 明示的な参加者を追加
-    if (expense.participants && expense.participants.length > 0) {
-      expense.participants.forEach((p: string) => allParticipantsSet.add(p));
+  // 版の行ごとの差分（against=previous: 1つ前の版からの変更、current: 現在のメモからこの版に戻したときの変更）
+  app.get("/api/events/:id/memo/revisions/:revisionId/diff", async (req, res) => {
+    try {
+      const query = z.object({
+        against: z.enum(["previous", "current"]).default("previous"),
+      }).parse(req.query);
+      
+      const revisionId = serialIdParam.safeParse(req.params.revisionId);
+      if (!revisionId.success) {
+        return res.status(404).json({ message: "メモの履歴が見つかりません" });
+      }
+      
+      const event = await storage.getEvent(req.params.id);
+      const revision = await storage.getMemoRevision(revisionId.data);
+      if (!event || !revision || revision.eventId !== req.params.id) {
+        return res.status(404).json({ message: "メモの履歴が見つかりません" });
+      }
+      
+      if (query.against === "current") {
+        return res.json({
+          from: event.memoRevision,
+          to: revision.revision,
+          lines: diffMemo(event.memo || "", revision.memo),
+        });
+      }
+      
+      const previous = (await storage.getMemoRevisions(req.params.id)).find(r => r.revision === revision.revision - 1);
+      res.json({
+        from: previous ? previous.revision : null,
+        to: revision.revision,
+        lines: diffMemo(previous?.memo ?? "", revision.memo),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "メモの差分の取得に失敗しました" });
+      }
     }
-  }
-  
-  const allCurrentParticipants = Array.from(allParticipantsSet);
-  console.log("すべての参加者:", allCurrentParticipants.join(', '));
-  
-  // ステップ2: 各参加者の支払い/負担記録を初期化
-  const balanceSheet: Record<string, { paid: number, shouldPay: number }> = {};
-  
-  allCurrentParticipants.forEach((name: string) => {
-    balanceSheet[name] = { paid: 0, shouldPay: 0 };
   });
   
-  // ステップ3: 各支出を処理して支払いと負担額を計算
-  expenses.forEach(expense => {
-    // 金額を数値に変換（確実に整数に）
-    const amount = parseInt(expense.amount, 10);
-    const payerName = expense.payerName;
-    
-    console.log(`\n支払い: ${payerName}が${amount}円支払い`);
-    
-    // 支払者の支払額に加算
-    balanceSheet[payerName].paid += amount;
-    
-    // 重要: 分担者を確定
-    let splitParticipants: string[] = [];
-    
-    // 全員で割り勘フラグがある場合は、現在の全参加者で分ける
-    if (expense.isSharedWithAll === true) {
-      splitParticipants = [...allCurrentParticipants];
-      console.log(`全員で割り勘フラグあり: ${splitParticipants.length}人`);
-    }
-    // 明示的に参加者が指定されている場合
-    else if (expense.participants && expense.participants.length > 0) {
-      splitParticipants = [...expense.participants];
-      console.log(`明示的に指定された参加者: ${splitParticipants.join(', ')}`);
-    } 
-    // 後方互換性: 「全員で割り勘」のケース（古い形式）
-    else {
-      splitParticipants = [...allCurrentParticipants];
-      console.log(`全員で割り勘 (暗黙・後方互換): ${splitParticipants.length}人`);
-    }
-    
-    console.log(`分担者(${splitParticipants.length}人): ${splitParticipants.join(', ')}`);
-    
-    // 一人あたりの負担額計算
-    const perPersonAmount = Math.floor(amount / splitParticipants.length);
-    const remainder = amount - (perPersonAmount * splitParticipants.length);
-    
-    console.log(`一人当たり基本金額: ${perPersonAmount}円, 端数: ${remainder}円`);
-    
-    // 各参加者の負担額を計算して加算
-    splitParticipants.forEach((person, index) => {
-      let personShare = perPersonAmount;
+  // 過去の版のメモに戻す（戻したことも新しい版として履歴に残る）
+  app.post("/api/events/:id/memo/restore/:revisionId", requireEventRole(), async (req, res) => {
+    try {
+      const editorName = (res.locals.identity as EventIdentity).name;
+      
+      const revisionId = serialIdParam.safeParse(req.params.revisionId);
+      if (!revisionId.success) {
+        return res.status(404).json({ message: "メモの履歴が見つかりません" });
+      }
       
-      // 端数処理: 先頭から remainder 人に 1円ずつ追加
-      if (index < remainder) {
-        personShare += 1;
+      const event = await storage.getEvent(req.params.id);
+      const revision = await storage.getMemoRevision(revisionId.data);
+      if (!event || !revision || revision.eventId !== req.params.id) {
+        return res.status(404).json({ message: "メモの履歴が見つかりません" });
+      }
+      
+      const updatedEvent = await storage.updateEventMemo(
+        req.params.id,
+        revision.memo,
+        editorName,
+        event.memoRevision,
+        revision.revision
+      );
+      if (!updatedEvent) {
+        return res.status(409).json({ message: "メモが更新されたため戻せませんでした。もう一度お試しください" });
       }
       
-      balanceSheet[person].shouldPay += personShare;
-      console.log(`${person}の負担額: ${personShare}円`);
-    });
+      broadcastChange(req.params.id, "memo-updated", editorName);
+      res.json(memoState(updatedEvent));
+    } catch (error) {
+      res.status(500).json({ message: "メモを戻せませんでした" });
+    }
   });
   
-  // ステップ4: 最終的な収支を計算
-  console.log("\n===== 各参加者の収支 =====");
-  console.log("名前, 支払合計, 負担合計, 差額");
-  
-  // 各参加者の最終的な収支（+なら受取、-なら支払）
-  const finalBalances: { name: string, amount: number }[] = [];
-  
-  allCurrentParticipants.forEach((name: string) => {
-    const { paid, shouldPay } = balanceSheet[name];
-    const balance = paid - shouldPay; // プラスなら受け取り、マイナスなら支払い
-    
-    finalBalances.push({ name, amount: balance });
-    console.log(`${name}, ${paid}円, ${shouldPay}円, ${balance > 0 ? '+' : ''}${balance}円`);
+  // メモのチェック項目（担当者と、本文とは別に保存したチェック）
+  app.get("/api/events/:id/memo/items", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      res.json(memoChecklist(event.memo || "", await storage.getMemoItemChecks(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "チェック項目の取得に失敗しました" });
+    }
   });
   
-  // ステップ5: 受取側と支払側に分類
-  const receivers = finalBalances
-    .filter(p => p.amount > 0)
-    .sort((a, b) => b.amount - a.amount); // 受取額の多い順
-    
-  const payers = finalBalances
-    .filter(p => p.amount < 0)
-    .map(p => ({ ...p, amount: Math.abs(p.amount) })) // 絶対値に変換
-    .sort((a, b) => b.amount - a.amount); // 支払額の多い順
-  
-  console.log("\n受取側:", receivers.map(r => `${r.name}(${r.amount}円)`).join(', ') || "なし");
-  console.log("支払側:", payers.map(p => `${p.name}(${p.amount}円)`).join(', ') || "なし");
-  
-  // ステップ6: 精算指示の作成（最適なお金の流れを計算）
-  console.log("\n===== 精算指示 =====");
-  
-  const totalReceive = receivers.reduce((sum, r) => sum + r.amount, 0);
-  const totalPay = payers.reduce((sum, p) => sum + p.amount, 0);
-  
-  console.log(`受取合計: ${totalReceive}円, 支払合計: ${totalPay}円`);
+  // チェック項目のチェックを切り替える（メモ本文の版番号は変わらないので、編集中の参加者と衝突しない）
+  app.post("/api/events/:id/memo/items", requireEventRole(), async (req, res) => {
+    try {
+      const schema = z.object({
+        key: z.string().min(1, "チェック項目を指定してください"),
+        checked: z.boolean(),
+      });
+      const { key, checked } = schema.parse(req.body);
+      const userName = (res.locals.identity as EventIdentity).name;
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      if (!memoChecklist(event.memo || "", []).some(item => item.key === key)) {
+        return res.status(404).json({ message: "チェック項目が見つかりません。メモが更新された可能性があります" });
+      }
+      
+      await storage.setMemoItemCheck({ eventId: req.params.id, itemKey: key, checked, checkedBy: userName });
+      
+      broadcastChange(req.params.id, "memo-item-checked", userName);
+      res.json(memoChecklist(event.memo || "", await storage.getMemoItemChecks(req.params.id)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "チェックの変更に失敗しました" });
+      }
+    }
+  });
   
-  // 誤差チェック（1円未満の誤差は許容）
-  if (Math.abs(totalReceive - totalPay) > 1) {
-    console.log(`警告: 収支に${Math.abs(totalReceive - totalPay)}円の誤差があります`);
-  }
+  // メモを入力中であることを知らせる（他の参加者への目安で、編集は妨げない）
+  app.post("/api/events/:id/memo/typing", requireEventRole(), async (req, res) => {
+    try {
+      const userName = (res.locals.identity as EventIdentity).name;
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      // 入力を始めたときだけ通知する（入力中の延長は通知しない）
+      if (await storage.setMemoTyping(req.params.id, userName)) {
+        broadcastChange(req.params.id, "memo-typing", userName);
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "入力中の表示に失敗しました" });
+    }
+  });
   
-  // 精算指示リスト
-  const settlements: { from: string; to: string; amount: number }[] = [];
+  // 入力中の表示を消す（自分の表示のみ）
+  app.delete("/api/events/:id/memo/typing", requireEventRole(), async (req, res) => {
+    try {
+      const userName = (res.locals.identity as EventIdentity).name;
+      
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      if (await storage.clearMemoTyping(req.params.id, userName)) {
+        broadcastChange(req.params.id, "memo-typing", userName);
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "入力中の表示の解除に失敗しました" });
+    }
+  });
   
-  // クローンを作成して操作用のオブジェクトを用意
-  const receiversClone = [...receivers];
-  const payersClone = [...payers];
+  // イベントのコメント（古い順）
+  app.get("/api/events/:id/comments", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      
+      const comments = await storage.getEventComments(req.params.id);
+      res.json(comments.map(commentView));
+    } catch (error) {
+      res.status(500).json({ message: "コメントの取得に失敗しました" });
+    }
+  });
   
-  // 各支払者から最適な受取者への支払いを計算
-  while (payersClone.length > 0 && receiversClone.length > 0) {
-    // 現在処理中の支払者と受取者
-    const payer = payersClone[0];
-    const receiver = receiversClone[0];
-    
-    // 支払い額を決定（より少ない方の金額）
-    const paymentAmount = Math.min(payer.amount, receiver.amount);
-    
-    if (paymentAmount > 0) {
-      // 精算指示を追加
-      settlements.push({
-        from: payer.name,
-        to: receiver.name,
-        amount: paymentAmount
+  // コメントを投稿する（候補日か支払いのどちらかへのコメントにもできる）
+  app.post("/api/events/:id/comments", requireEventRole(), async (req, res) => {
+    try {
+      const schema = z.object({
+        body: z.string().trim().min(1, "コメントを入力してください").max(1000, "コメントは1000文字以内で入力してください"),
+        dateOptionId: z.string().optional(),
+        expenseId: z.string().optional(),
+      }).refine(data => !(data.dateOptionId && data.expenseId), {
+        message: "コメントの対象は候補日か支払いのどちらかにしてください",
       });
+      const { body, dateOptionId, expenseId } = schema.parse(req.body);
+      const identity: EventIdentity = res.locals.identity;
       
-      console.log(`${payer.name} → ${receiver.name}: ${paymentAmount}円`);
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "イベントが見つかりません" });
+      }
+      if (dateOptionId && !event.dateOptions.some(option => option.id === dateOptionId)) {
+        return res.status(400).json({ message: "候補日が見つかりません" });
+      }
+      if (expenseId) {
+        const expense = await storage.getExpense(expenseId);
+        if (!expense || expense.eventId !== req.params.id) {
+          return res.status(400).json({ message: "支払い情報が見つかりません" });
+        }
+      }
       
-      // 残額を更新
-      payer.amount -= paymentAmount;
-      receiver.amount -= paymentAmount;
+      const members = await storage.getEventMembers(req.params.id);
+      const comment = await storage.createEventComment({
+        eventId: req.params.id,
+        authorName: identity.name,
+        authorMemberId: identityMemberId(identity, members) ?? null,
+        body,
+        dateOptionId: dateOptionId ?? null,
+        expenseId: expenseId ?? null,
+      });
       
-      // 残額がないものを削除
-      if (payer.amount <= 0) payersClone.shift();
-      if (receiver.amount <= 0) receiversClone.shift();
-    } else {
-      // エラー防止（ここには来ないはず）
-      console.log("警告: 0円の支払いが発生しました");
-      break;
+      broadcastChange(req.params.id, "comment-added", identity.name);
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0].message });
+      } else {
+        res.status(500).json({ message: "コメントの投稿に失敗しました" });
+      }
     }
-  }
-  
-  console.log("========== 精算計算終了 ==========\n");
+  });
   
-  return settlements;
+  // コメントを削除する（投稿した本人または主催者のみ）
+  app.delete("/api/events/:id/comments/:commentId", requireEventRole(), async (req, res) => {
+    try {
+      const identity: EventIdentity = res.locals.identity;
+      
+      const commentId = serialIdParam.safeParse(req.params.commentId);
+      if (!commentId.success) {
+        return res.status(404).json({ message: "コメントが見つかりません" });
+      }
+      
+      const comment = await storage.getEventComment(commentId.data);
+      if (!comment || comment.eventId !== req.params.id || comment.deletedAt) {
+        return res.status(404).json({ message: "コメントが見つかりません" });
+      }
+      
+      // 名簿のメンバーIDがわからないコメントは名前で確認する
+      const members = await storage.getEventMembers(req.params.id);
+      const isAuthor = comment.authorMemberId
+        ? identityMemberId(identity, members) === comment.authorMemberId
+        : identity.name === comment.authorName;
+      if (identity.role !== "organizer" && !isAuthor) {
+        return res.status(403).json({ message: "投稿した本人または主催者のみ削除できます" });
+      }
+      
+      await storage.deleteEventComment(comment.id);
+      broadcastChange(req.params.id, "comment-deleted", identity.name);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "コメントの削除に失敗しました" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  setupLiveUpdates(httpServer);
+  startAutoFinalizeScheduler();
+  return httpServer;
 }
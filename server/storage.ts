@@ -3,43 +3,105 @@ import {
   InsertDateOption, 
   InsertAttendance, 
   InsertAttendanceResponse, 
+  InsertEventMember,
   InsertExpense,
+  InsertExpenseRevision,
+  InsertExpenseAttachment,
+  InsertMemoRevision,
+  InsertMemoItemCheck,
+  InsertEventComment,
+  InsertExchangeRate,
+  InsertSettlementPayment,
+  InsertSlotAvailability,
+  InsertCalendarFeed,
+  InsertEventTemplate,
+  InsertProfile,
+  InsertProfileEvent,
   Event,
   DateOption,
   Attendance,
+  EventMember,
   Expense,
+  ExpenseRevision,
+  ExpenseAttachment,
+  MemoRevision,
+  MemoItemCheck,
+  EventComment,
+  ExchangeRate,
+  SettlementPayment,
+  SlotAvailability,
+  CalendarFeed,
+  EventTemplate,
+  Profile,
+  ProfileEvent,
   events,
   dateOptions,
   attendances,
   attendanceResponses,
-  expenses
+  eventMembers,
+  expenses,
+  expenseRevisions,
+  expenseAttachments,
+  memoRevisions,
+  memoItemChecks,
+  eventComments,
+  exchangeRates,
+  settlementPayments,
+  slotAvailabilities,
+  calendarFeeds,
+  eventTemplates,
+  profiles,
+  profileEvents
 } from "@shared/schema";
+import { attendanceHeadcount } from "@shared/headcount";
+import { isDueForAutoFinalize } from "@shared/deadline";
 import { db } from "./db";
-import { eq, and, desc, sql, isNull } from "drizzle-orm";
+import { eq, and, desc, sql, isNull, inArray, lte } from "drizzle-orm";
+
+// 出欠の回答（候補日ごと）
+type AttendanceResponseInput = {
+  dateOptionId: string;
+  status: string;
+  comment?: string | null;
+  guestCount?: number | null;
+};
 
 export interface IStorage {
   // Event methods
   createEvent(event: InsertEvent & { id: string }): Promise<Event>;
   getEvent(id: string): Promise<Event | undefined>;
   getAllEvents(): Promise<Event[]>;
+  getEventsToAutoFinalize(now: Date): Promise<Event[]>;
   updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event>;
+  deleteEvent(id: string): Promise<void>;
   
   // DateOption methods
   createDateOption(dateOption: InsertDateOption & { id: string }): Promise<DateOption>;
   getDateOption(id: string): Promise<DateOption | undefined>;
   getEventDateOptions(eventId: string): Promise<DateOption[]>;
+  deleteDateOption(id: string): Promise<void>;
   
   // Attendance methods
   createAttendance(attendance: InsertAttendance & { id: string }): Promise<Attendance>;
   getAttendance(id: string): Promise<Attendance | undefined>;
   getAttendanceByEmail(eventId: string, email: string): Promise<Attendance | undefined>;
   getEventAttendances(eventId: string): Promise<Attendance[]>;
+  updateAttendance(id: string, data: Partial<InsertAttendance>): Promise<Attendance>;
+  deleteAttendance(id: string): Promise<void>;
   
   // AttendanceResponse methods
   createAttendanceResponse(response: InsertAttendanceResponse): Promise<any>;
-  updateAttendanceResponses(attendanceId: string, responses: { dateOptionId: string, status: string }[]): Promise<void>;
+  updateAttendanceResponses(attendanceId: string, responses: AttendanceResponseInput[]): Promise<void>;
   getAttendanceResponses(attendanceId: string): Promise<any[]>;
   
+  // EventMember methods
+  createEventMember(member: InsertEventMember & { id: string }): Promise<EventMember>;
+  getEventMember(id: string): Promise<EventMember | undefined>;
+  getEventMembers(eventId: string): Promise<EventMember[]>;
+  updateEventMember(id: string, data: Partial<InsertEventMember>): Promise<EventMember>;
+  renameEventMember(id: string, displayName: string): Promise<EventMember>;
+  mergeEventMembers(sourceId: string, targetId: string): Promise<EventMember>;
+  
   // Expense methods
   createExpense(expense: InsertExpense & { id: string }): Promise<Expense>;
   getExpense(id: string): Promise<Expense | undefined>;
@@ -47,13 +109,125 @@ export interface IStorage {
   updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense>;
   deleteExpense(id: string): Promise<void>;
   
+  // Expense revision methods
+  createExpenseRevision(revision: InsertExpenseRevision): Promise<ExpenseRevision>;
+  getExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]>;
+  
+  // Expense attachment methods（画像本体は blob-store に保存する）
+  createExpenseAttachment(attachment: InsertExpenseAttachment): Promise<ExpenseAttachment>;
+  getExpenseAttachment(id: string): Promise<ExpenseAttachment | undefined>;
+  getExpenseAttachments(expenseId: string): Promise<ExpenseAttachment[]>;
+  getEventExpenseAttachments(eventId: string): Promise<ExpenseAttachment[]>;
+  deleteExpenseAttachment(id: string): Promise<void>;
+  
+  // Exchange rate methods
+  getEventExchangeRates(eventId: string): Promise<ExchangeRate[]>;
+  upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+  deleteExchangeRate(eventId: string, currency: string): Promise<void>;
+  
+  // Settlement payment methods
+  createSettlementPayment(payment: InsertSettlementPayment & { id: string }): Promise<SettlementPayment>;
+  getSettlementPayment(id: string): Promise<SettlementPayment | undefined>;
+  getEventSettlementPayments(eventId: string): Promise<SettlementPayment[]>;
+  deleteSettlementPayment(id: string): Promise<void>;
+  
+  // Slot availability methods
+  getEventSlotAvailabilities(eventId: string): Promise<SlotAvailability[]>;
+  upsertSlotAvailability(availability: InsertSlotAvailability): Promise<SlotAvailability>;
+  
+  // Calendar feed methods
+  createCalendarFeed(feed: InsertCalendarFeed & { id: string }): Promise<CalendarFeed>;
+  getCalendarFeed(id: string): Promise<CalendarFeed | undefined>;
+  updateCalendarFeed(id: string, memberIds: string[]): Promise<CalendarFeed>;
+  
+  // Event template methods
+  createEventTemplate(template: InsertEventTemplate & { id: string }): Promise<EventTemplate>;
+  getEventTemplate(id: string): Promise<EventTemplate | undefined>;
+  getEventTemplates(ownerKey: string): Promise<EventTemplate[]>;
+  deleteEventTemplate(id: string): Promise<void>;
+  
+  // Profile methods
+  createProfile(profile: InsertProfile): Promise<Profile>;
+  getProfile(id: string): Promise<Profile | undefined>;
+  getProfileByRecoveryCode(recoveryCode: string): Promise<Profile | undefined>;
+  getProfileEvents(profileId: string): Promise<ProfileEvent[]>;
+  upsertProfileEvent(entry: InsertProfileEvent): Promise<ProfileEvent>;
+  
   // Memo methods
-  updateEventMemo(eventId: string, memo: string, editorName: string): Promise<Event>;
-  acquireEditLock(eventId: string, userName: string): Promise<boolean>;
-  releaseEditLock(eventId: string, userName: string): Promise<boolean>;
+  // baseRevision が現在の版番号と違う（他の参加者が先に保存した）場合は保存せず undefined を返す
+  // 保存した内容は履歴（memo_revisions）にも記録する
+  updateEventMemo(eventId: string, memo: string, editorName: string, baseRevision: number, restoredFrom?: number): Promise<Event | undefined>;
+  getMemoRevisions(eventId: string): Promise<MemoRevision[]>;
+  getMemoRevision(id: number): Promise<MemoRevision | undefined>;
+  // メモのチェック項目のチェック（項目ごとに1件、本文の保存とは別）
+  getMemoItemChecks(eventId: string): Promise<MemoItemCheck[]>;
+  setMemoItemCheck(check: InsertMemoItemCheck): Promise<MemoItemCheck>;
+  setMemoTyping(eventId: string, userName: string): Promise<boolean>;
+  clearMemoTyping(eventId: string, userName: string): Promise<boolean>;
   
-  // Utility methods
-  getEventParticipants(eventId: string): Promise<string[]>;
+  // Comment methods
+  // コメントは追記のみ（削除は削除日時を記録し、一覧には削除済みとして残る）
+  getEventComments(eventId: string): Promise<EventComment[]>;
+  getEventComment(id: number): Promise<EventComment | undefined>;
+  createEventComment(comment: InsertEventComment): Promise<EventComment>;
+  deleteEventComment(id: number): Promise<EventComment | undefined>;
+}
+
+const MEMO_TYPING_SECONDS = 30; // 入力中の表示の有効期間（入力中は定期的に延長される）
+
+// メモの入力中の表示（有効期限切れのものは null）
+function activeMemoTyping(lock: unknown, now = new Date()): { lockedBy: string; lockedAt: string; lockExpiration: string } | null {
+  const typing = lock as { lockedBy: string; lockedAt: string; lockExpiration: string } | null | undefined;
+  return typing && new Date(typing.lockExpiration) > now ? typing : null;
+}
+
+function nextMemoTyping(userName: string, current: ReturnType<typeof activeMemoTyping>, now = new Date()) {
+  return {
+    lockedBy: userName,
+    lockedAt: current?.lockedBy === userName ? current.lockedAt : now.toISOString(),
+    lockExpiration: new Date(now.getTime() + MEMO_TYPING_SECONDS * 1000).toISOString(),
+  };
+}
+
+// 名前の変更・統合に合わせて書き換えるイベントの項目（主催者名・メモのロック所有者）
+function renamedEventFields(
+  event: { creatorName: string; memoEditLock?: unknown },
+  member: EventMember,
+  newName: string,
+): { creatorName?: string; memoEditLock?: unknown } {
+  const fields: { creatorName?: string; memoEditLock?: unknown } = {};
+  if (member.source === "creator" && event.creatorName === member.displayName) {
+    fields.creatorName = newName;
+  }
+  const lock = event.memoEditLock as { lockedBy: string } | null | undefined;
+  if (lock?.lockedBy === member.displayName) {
+    fields.memoEditLock = { ...lock, lockedBy: newName };
+  }
+  return fields;
+}
+
+// 支払いの支払者・割り勘対象者・負担の内訳を統合先のメンバーに付け替える（参照がなければ undefined）
+function mergedExpenseFields(
+  expense: Expense,
+  sourceId: string,
+  targetId: string,
+): Pick<Expense, "payerId" | "participantIds" | "splitShares"> | undefined {
+  const shares = expense.splitShares;
+  if (expense.payerId !== sourceId && !expense.participantIds.includes(sourceId) && !(shares && sourceId in shares)) {
+    return undefined;
+  }
+
+  let splitShares = shares;
+  if (shares && sourceId in shares) {
+    const { [sourceId]: sourceShare, ...rest } = shares;
+    splitShares = { ...rest, [targetId]: (rest[targetId] || 0) + sourceShare };
+  }
+
+  return {
+    payerId: expense.payerId === sourceId ? targetId : expense.payerId,
+    participantIds: Array.from(new Set(expense.participantIds.map(id => id === sourceId ? targetId : id))),
+    splitShares,
+  };
 }
 
 export class MemStorage implements IStorage {
@@ -61,14 +235,52 @@ export class MemStorage implements IStorage {
   private dateOptions: Map<string, any>;
   private attendances: Map<string, any>;
   private attendanceResponses: Map<string, any[]>;
+  private eventMembers: Map<string, EventMember>;
   private expenses: Map<string, any>;
+  private expenseRevisions: ExpenseRevision[];
+  private expenseRevisionId: number;
+  private expenseAttachments: Map<string, ExpenseAttachment>;
+  private memoRevisions: MemoRevision[];
+  private memoRevisionId: number;
+  private memoItemChecks: MemoItemCheck[];
+  private memoItemCheckId: number;
+  private eventComments: EventComment[];
+  private eventCommentId: number;
+  private exchangeRates: Map<string, ExchangeRate>;
+  private exchangeRateId: number;
+  private settlementPayments: Map<string, SettlementPayment>;
+  private slotAvailabilities: Map<string, SlotAvailability>;
+  private calendarFeeds: Map<string, CalendarFeed>;
+  private eventTemplates: Map<string, EventTemplate>;
+  private profiles: Map<string, Profile>;
+  private profileEvents: ProfileEvent[];
+  private profileEventId: number;
   
   constructor() {
     this.events = new Map();
     this.dateOptions = new Map();
     this.attendances = new Map();
     this.attendanceResponses = new Map();
+    this.eventMembers = new Map();
     this.expenses = new Map();
+    this.expenseRevisions = [];
+    this.expenseRevisionId = 1;
+    this.expenseAttachments = new Map();
+    this.memoRevisions = [];
+    this.memoRevisionId = 1;
+    this.memoItemChecks = [];
+    this.memoItemCheckId = 1;
+    this.eventComments = [];
+    this.eventCommentId = 1;
+    this.exchangeRates = new Map();
+    this.exchangeRateId = 1;
+    this.settlementPayments = new Map();
+    this.slotAvailabilities = new Map();
+    this.calendarFeeds = new Map();
+    this.eventTemplates = new Map();
+    this.profiles = new Map();
+    this.profileEvents = [];
+    this.profileEventId = 1;
   }
   
   // Event methods
@@ -81,6 +293,14 @@ export class MemStorage implements IStorage {
       endTime: event.endTime || null,
       defaultStartTime: event.defaultStartTime || null,
       defaultEndTime: event.defaultEndTime || null,
+      baseCurrency: event.baseCurrency || "JPY",
+      calendarSequence: event.calendarSequence ?? 0,
+      pollType: event.pollType || "dates",
+      slotGrid: event.slotGrid ?? null,
+      responseDeadline: event.responseDeadline ?? null,
+      autoFinalize: event.autoFinalize ?? false,
+      guestsInSplit: event.guestsInSplit ?? false,
+      memoRevision: event.memoRevision ?? 0,
       createdAt: new Date(),
       participantsCount: 0,
       dateOptions: [],
@@ -108,7 +328,13 @@ export class MemStorage implements IStorage {
     ) as Promise<Event[]>;
   }
   
-  async updateEvent(id: string, data: Partial<InsertEvent> & { participants?: string[] }): Promise<Event> {
+  // 自動確定が有効で、回答締切を過ぎても日程が確定していないイベント
+  async getEventsToAutoFinalize(now: Date): Promise<Event[]> {
+    const events = await this.getAllEvents();
+    return events.filter(event => isDueForAutoFinalize(event, now));
+  }
+  
+  async updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event> {
     const event = this.events.get(id);
     if (!event) throw new Error("Event not found");
     
@@ -127,6 +353,41 @@ export class MemStorage implements IStorage {
     };
   }
   
+  // イベントと関連データ（候補日・出欠・回答・参加できるコマ・名簿・支払いと変更履歴・為替レート・送金記録）をすべて削除
+  async deleteEvent(id: string): Promise<void> {
+    for (const attendance of Array.from(this.attendances.values())) {
+      if (attendance.eventId === id) {
+        this.attendanceResponses.delete(attendance.id);
+        this.slotAvailabilities.delete(attendance.id);
+        this.attendances.delete(attendance.id);
+      }
+    }
+    for (const option of Array.from(this.dateOptions.values())) {
+      if (option.eventId === id) this.dateOptions.delete(option.id);
+    }
+    for (const expense of Array.from(this.expenses.values())) {
+      if (expense.eventId === id) this.expenses.delete(expense.id);
+    }
+    this.expenseRevisions = this.expenseRevisions.filter(revision => revision.eventId !== id);
+    for (const attachment of Array.from(this.expenseAttachments.values())) {
+      if (attachment.eventId === id) this.expenseAttachments.delete(attachment.id);
+    }
+    this.memoRevisions = this.memoRevisions.filter(revision => revision.eventId !== id);
+    this.memoItemChecks = this.memoItemChecks.filter(check => check.eventId !== id);
+    this.eventComments = this.eventComments.filter(comment => comment.eventId !== id);
+    for (const [key, rate] of Array.from(this.exchangeRates.entries())) {
+      if (rate.eventId === id) this.exchangeRates.delete(key);
+    }
+    for (const payment of Array.from(this.settlementPayments.values())) {
+      if (payment.eventId === id) this.settlementPayments.delete(payment.id);
+    }
+    for (const member of Array.from(this.eventMembers.values())) {
+      if (member.eventId === id) this.eventMembers.delete(member.id);
+    }
+    this.profileEvents = this.profileEvents.filter(entry => entry.eventId !== id);
+    this.events.delete(id);
+  }
+  
   // DateOption methods
   async createDateOption(dateOption: InsertDateOption & { id: string }): Promise<DateOption> {
     this.dateOptions.set(dateOption.id, dateOption);
@@ -142,10 +403,23 @@ export class MemStorage implements IStorage {
       .filter(option => option.eventId === eventId);
   }
   
+  // 候補日とその候補日への回答を削除
+  async deleteDateOption(id: string): Promise<void> {
+    this.attendanceResponses.forEach((responses, attendanceId) => {
+      this.attendanceResponses.set(
+        attendanceId,
+        responses.filter(response => response.dateOptionId !== id)
+      );
+    });
+    this.dateOptions.delete(id);
+  }
+  
   // Attendance methods
   async createAttendance(attendance: InsertAttendance & { id: string }): Promise<Attendance> {
     const newAttendance = {
       ...attendance,
+      note: attendance.note ?? null,
+      guestCount: attendance.guestCount ?? 0,
       createdAt: new Date(),
       responses: [],
     };
@@ -181,6 +455,45 @@ export class MemStorage implements IStorage {
     ) as Promise<Attendance[]>;
   }
   
+  async updateAttendance(id: string, data: Partial<InsertAttendance>): Promise<Attendance> {
+    const attendance = this.attendances.get(id);
+    if (!attendance) throw new Error("Attendance not found");
+    
+    this.attendances.set(id, { ...attendance, ...data });
+    return (await this.getAttendance(id))!;
+  }
+  
+  // 出欠と回答を削除し、名簿のメンバーを無効にして支払いの割り勘対象者からも外す
+  async deleteAttendance(id: string): Promise<void> {
+    const attendance = this.attendances.get(id);
+    if (!attendance) return;
+    
+    this.attendanceResponses.delete(id);
+    this.slotAvailabilities.delete(id);
+    this.attendances.delete(id);
+    
+    const event = this.events.get(attendance.eventId);
+    if (event) {
+      this.events.set(event.id, {
+        ...event,
+        participantsCount: Math.max(0, (event.participantsCount || 0) - attendanceHeadcount(attendance)),
+      });
+    }
+    
+    const member = Array.from(this.eventMembers.values()).find(member => member.attendanceId === id);
+    if (!member) return;
+    this.eventMembers.set(member.id, { ...member, attendanceId: null, active: false });
+    
+    for (const expense of Array.from(this.expenses.values())) {
+      if (expense.participantIds.includes(member.id)) {
+        this.expenses.set(expense.id, {
+          ...expense,
+          participantIds: expense.participantIds.filter((memberId: string) => memberId !== member.id),
+        });
+      }
+    }
+  }
+  
   // AttendanceResponse methods
   async createAttendanceResponse(response: InsertAttendanceResponse): Promise<any> {
     const responses = this.attendanceResponses.get(response.attendanceId) || [];
@@ -188,6 +501,8 @@ export class MemStorage implements IStorage {
     // Generate an ID for the response
     const newResponse = {
       ...response,
+      comment: response.comment ?? null,
+      guestCount: response.guestCount ?? null,
       id: responses.length + 1,
     };
     
@@ -197,7 +512,7 @@ export class MemStorage implements IStorage {
     return newResponse;
   }
   
-  async updateAttendanceResponses(attendanceId: string, responses: { dateOptionId: string, status: string }[]): Promise<void> {
+  async updateAttendanceResponses(attendanceId: string, responses: AttendanceResponseInput[]): Promise<void> {
     const currentResponses = this.attendanceResponses.get(attendanceId) || [];
     
     // Update existing responses or create new ones
@@ -207,6 +522,8 @@ export class MemStorage implements IStorage {
         return {
           ...existing,
           status: resp.status,
+          comment: resp.comment ?? null,
+          guestCount: resp.guestCount ?? null,
         };
       } else {
         return {
@@ -214,6 +531,8 @@ export class MemStorage implements IStorage {
           attendanceId,
           dateOptionId: resp.dateOptionId,
           status: resp.status,
+          comment: resp.comment ?? null,
+          guestCount: resp.guestCount ?? null,
         };
       }
     });
@@ -225,12 +544,168 @@ export class MemStorage implements IStorage {
     return this.attendanceResponses.get(attendanceId) || [];
   }
   
+  // EventMember methods
+  async createEventMember(member: InsertEventMember & { id: string }): Promise<EventMember> {
+    const newMember: EventMember = {
+      ...member,
+      attendanceId: member.attendanceId ?? null,
+      active: member.active ?? true,
+      required: member.required ?? false,
+      mergedIntoId: member.mergedIntoId ?? null,
+      createdAt: new Date(),
+    };
+    this.eventMembers.set(member.id, newMember);
+    return newMember;
+  }
+  
+  async getEventMember(id: string): Promise<EventMember | undefined> {
+    return this.eventMembers.get(id);
+  }
+  
+  async getEventMembers(eventId: string): Promise<EventMember[]> {
+    return Array.from(this.eventMembers.values())
+      .filter(member => member.eventId === eventId);
+  }
+  
+  async updateEventMember(id: string, data: Partial<InsertEventMember>): Promise<EventMember> {
+    const member = this.eventMembers.get(id);
+    if (!member) throw new Error("Member not found");
+    
+    const updatedMember = { ...member, ...data };
+    this.eventMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+  
+  // 名簿のメンバー名を変更し、紐付いた出欠・主催者名・メモのロックも新しい名前にする
+  async renameEventMember(id: string, displayName: string): Promise<EventMember> {
+    const member = this.eventMembers.get(id);
+    if (!member) throw new Error("Member not found");
+    
+    const attendance = member.attendanceId ? this.attendances.get(member.attendanceId) : undefined;
+    if (attendance) {
+      this.attendances.set(attendance.id, { ...attendance, name: displayName });
+    }
+    
+    const event = this.events.get(member.eventId);
+    if (event) {
+      this.events.set(event.id, { ...event, ...renamedEventFields(event, member, displayName) });
+    }
+    
+    this.eventComments = this.eventComments.map(comment =>
+      comment.authorMemberId === id ? { ...comment, authorName: displayName } : comment
+    );
+    
+    const updatedMember = { ...member, displayName };
+    this.eventMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+  
+  // 統合元のメンバーを統合先にまとめる
+  // 支払い・送金記録・出欠の回答を付け替え、統合元は名簿から外す
+  async mergeEventMembers(sourceId: string, targetId: string): Promise<EventMember> {
+    const source = this.eventMembers.get(sourceId);
+    const target = this.eventMembers.get(targetId);
+    if (!source || !target) throw new Error("Member not found");
+    
+    for (const expense of Array.from(this.expenses.values())) {
+      if (expense.eventId !== source.eventId) continue;
+      const fields = mergedExpenseFields(expense, sourceId, targetId);
+      if (fields) this.expenses.set(expense.id, { ...expense, ...fields });
+    }
+    
+    for (const payment of Array.from(this.settlementPayments.values())) {
+      if (payment.eventId !== source.eventId) continue;
+      const fromMemberId = payment.fromMemberId === sourceId ? targetId : payment.fromMemberId;
+      const toMemberId = payment.toMemberId === sourceId ? targetId : payment.toMemberId;
+      if (fromMemberId === toMemberId) {
+        // 2人の間の送金は統合すると意味がなくなるので削除する
+        this.settlementPayments.delete(payment.id);
+      } else {
+        this.settlementPayments.set(payment.id, { ...payment, fromMemberId, toMemberId });
+      }
+    }
+    
+    this.eventComments = this.eventComments.map(comment =>
+      comment.authorMemberId === sourceId
+        ? { ...comment, authorMemberId: targetId, authorName: target.displayName }
+        : comment
+    );
+    
+    for (const feed of Array.from(this.calendarFeeds.values())) {
+      if (feed.memberIds.includes(sourceId)) {
+        const memberIds = Array.from(new Set(feed.memberIds.map(id => (id === sourceId ? targetId : id))));
+        this.calendarFeeds.set(feed.id, { ...feed, memberIds });
+      }
+    }
+    
+    let attendanceId = target.attendanceId;
+    let removedHeadcount = 0;
+    if (source.attendanceId) {
+      const sourceAttendance = this.attendances.get(source.attendanceId);
+      if (attendanceId) {
+        // 両方に出欠がある場合は、統合先が未回答の候補日だけ統合元の回答を引き継ぐ
+        const targetResponses = this.attendanceResponses.get(attendanceId) || [];
+        const carried = (this.attendanceResponses.get(source.attendanceId) || [])
+          .filter(response => !targetResponses.some(existing => existing.dateOptionId === response.dateOptionId))
+          .map((response, index) => ({ ...response, id: targetResponses.length + index + 1, attendanceId }));
+        this.attendanceResponses.set(attendanceId, [...targetResponses, ...carried]);
+        this.attendanceResponses.delete(source.attendanceId);
+        // 時間帯グリッドの参加できるコマは両方を合わせる
+        const sourceSlots = this.slotAvailabilities.get(source.attendanceId);
+        if (sourceSlots) {
+          const targetSlots = this.slotAvailabilities.get(attendanceId);
+          this.slotAvailabilities.set(attendanceId, {
+            ...sourceSlots,
+            attendanceId,
+            slots: Array.from(new Set([...(targetSlots?.slots || []), ...sourceSlots.slots])).sort(),
+            updatedAt: new Date(),
+          });
+          this.slotAvailabilities.delete(source.attendanceId);
+        }
+        if (sourceAttendance) removedHeadcount = attendanceHeadcount(sourceAttendance);
+        this.attendances.delete(source.attendanceId);
+      } else if (sourceAttendance) {
+        this.attendances.set(sourceAttendance.id, { ...sourceAttendance, name: target.displayName });
+        attendanceId = source.attendanceId;
+      }
+    }
+    
+    const event = this.events.get(source.eventId);
+    if (event) {
+      this.events.set(event.id, {
+        ...event,
+        ...renamedEventFields(event, source, target.displayName),
+        participantsCount: Math.max(0, (event.participantsCount || 0) - removedHeadcount),
+      });
+    }
+    
+    // 統合元の参加用リンクは統合先として扱う（以前に統合元へ統合されたメンバーも付け替える）
+    for (const member of Array.from(this.eventMembers.values())) {
+      if (member.mergedIntoId === sourceId) {
+        this.eventMembers.set(member.id, { ...member, mergedIntoId: targetId });
+      }
+    }
+    this.eventMembers.set(sourceId, { ...source, attendanceId: null, active: false, mergedIntoId: targetId });
+    const mergedMember: EventMember = {
+      ...target,
+      attendanceId,
+      active: true,
+      required: source.required || target.required,
+      source: source.source === "creator" ? "creator" : target.source,
+    };
+    this.eventMembers.set(targetId, mergedMember);
+    return mergedMember;
+  }
+  
   // Expense methods
-  async createExpense(expense: InsertExpense & { id: string, isSharedWithAll?: boolean }): Promise<Expense & { isSharedWithAll?: boolean }> {
+  async createExpense(expense: InsertExpense & { id: string }): Promise<Expense> {
     const newExpense = {
       ...expense,
-      participants: expense.participants || [],
+      participantIds: expense.participantIds || [],
+      currency: expense.currency || "JPY",
       isSharedWithAll: expense.isSharedWithAll || false, // 全員割り勘フラグ
+      splitMode: expense.splitMode || "equal",
+      splitShares: expense.splitShares ?? null,
       createdAt: new Date(),
     };
     this.expenses.set(expense.id, newExpense);
@@ -241,25 +716,21 @@ export class MemStorage implements IStorage {
     return this.expenses.get(id);
   }
   
-  async getEventExpenses(eventId: string): Promise<(Expense & { isSharedWithAll?: boolean })[]> {
+  async getEventExpenses(eventId: string): Promise<Expense[]> {
     return Array.from(this.expenses.values())
       .filter(expense => expense.eventId === eventId);
   }
   
-  // 全員割り勘フラグを持つ支出のみを取得
-  async getSharedExpenses(eventId: string): Promise<(Expense & { isSharedWithAll?: boolean })[]> {
-    return Array.from(this.expenses.values())
-      .filter(expense => 
-        expense.eventId === eventId && 
-        expense.isSharedWithAll === true
-      );
-  }
-  
+  // 支払いと変更履歴・添付を削除
   async deleteExpense(id: string): Promise<void> {
+    this.expenseRevisions = this.expenseRevisions.filter(revision => revision.expenseId !== id);
+    for (const attachment of Array.from(this.expenseAttachments.values())) {
+      if (attachment.expenseId === id) this.expenseAttachments.delete(attachment.id);
+    }
     this.expenses.delete(id);
   }
   
-  async updateExpense(id: string, data: Partial<InsertExpense> & { isSharedWithAll?: boolean }): Promise<Expense & { isSharedWithAll?: boolean }> {
+  async updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense> {
     const expense = this.expenses.get(id);
     if (!expense) throw new Error("Expense not found");
     
@@ -271,29 +742,230 @@ export class MemStorage implements IStorage {
     return updatedExpense;
   }
   
+  // Expense revision methods
+  async createExpenseRevision(revision: InsertExpenseRevision): Promise<ExpenseRevision> {
+    const newRevision: ExpenseRevision = {
+      ...revision,
+      id: this.expenseRevisionId++,
+      changes: revision.changes ?? [],
+      createdAt: new Date(),
+    };
+    this.expenseRevisions.push(newRevision);
+    return newRevision;
+  }
+  
+  async getExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+    return this.expenseRevisions.filter(revision => revision.expenseId === expenseId);
+  }
+  
+  // Expense attachment methods
+  async createExpenseAttachment(attachment: InsertExpenseAttachment): Promise<ExpenseAttachment> {
+    const newAttachment: ExpenseAttachment = {
+      ...attachment,
+      createdAt: new Date(),
+    };
+    this.expenseAttachments.set(newAttachment.id, newAttachment);
+    return newAttachment;
+  }
+  
+  async getExpenseAttachment(id: string): Promise<ExpenseAttachment | undefined> {
+    return this.expenseAttachments.get(id);
+  }
+  
+  async getExpenseAttachments(expenseId: string): Promise<ExpenseAttachment[]> {
+    return Array.from(this.expenseAttachments.values())
+      .filter(attachment => attachment.expenseId === expenseId);
+  }
+  
+  async getEventExpenseAttachments(eventId: string): Promise<ExpenseAttachment[]> {
+    return Array.from(this.expenseAttachments.values())
+      .filter(attachment => attachment.eventId === eventId);
+  }
+  
+  async deleteExpenseAttachment(id: string): Promise<void> {
+    this.expenseAttachments.delete(id);
+  }
+  
+  // Exchange rate methods
+  async getEventExchangeRates(eventId: string): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values())
+      .filter(rate => rate.eventId === eventId);
+  }
+  
+  async upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const key = `${rate.eventId}:${rate.currency}`;
+    const existing = this.exchangeRates.get(key);
+    const newRate: ExchangeRate = {
+      id: existing?.id ?? this.exchangeRateId++,
+      eventId: rate.eventId,
+      currency: rate.currency,
+      rate: rate.rate,
+      updatedBy: rate.updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    this.exchangeRates.set(key, newRate);
+    return newRate;
+  }
+  
+  async deleteExchangeRate(eventId: string, currency: string): Promise<void> {
+    this.exchangeRates.delete(`${eventId}:${currency}`);
+  }
+  
+  // Settlement payment methods
+  async createSettlementPayment(payment: InsertSettlementPayment & { id: string }): Promise<SettlementPayment> {
+    const newPayment: SettlementPayment = {
+      ...payment,
+      currency: payment.currency || "JPY",
+      note: payment.note ?? null,
+      recordedBy: payment.recordedBy ?? null,
+      paidAt: payment.paidAt || new Date(),
+      createdAt: new Date(),
+    };
+    this.settlementPayments.set(payment.id, newPayment);
+    return newPayment;
+  }
+  
+  async getSettlementPayment(id: string): Promise<SettlementPayment | undefined> {
+    return this.settlementPayments.get(id);
+  }
+  
+  async getEventSettlementPayments(eventId: string): Promise<SettlementPayment[]> {
+    return Array.from(this.settlementPayments.values())
+      .filter(payment => payment.eventId === eventId)
+      .sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+  }
+  
+  async deleteSettlementPayment(id: string): Promise<void> {
+    this.settlementPayments.delete(id);
+  }
+  
+  // Slot availability methods
+  async getEventSlotAvailabilities(eventId: string): Promise<SlotAvailability[]> {
+    return Array.from(this.slotAvailabilities.values())
+      .filter(availability => availability.eventId === eventId);
+  }
+  
+  async upsertSlotAvailability(availability: InsertSlotAvailability): Promise<SlotAvailability> {
+    const newAvailability: SlotAvailability = {
+      ...availability,
+      slots: availability.slots || [],
+      updatedAt: new Date(),
+    };
+    this.slotAvailabilities.set(availability.attendanceId, newAvailability);
+    return newAvailability;
+  }
+  
+  // Calendar feed methods
+  async createCalendarFeed(feed: InsertCalendarFeed & { id: string }): Promise<CalendarFeed> {
+    const newFeed: CalendarFeed = {
+      ...feed,
+      memberIds: feed.memberIds || [],
+      createdAt: new Date(),
+    };
+    this.calendarFeeds.set(feed.id, newFeed);
+    return newFeed;
+  }
+  
+  async getCalendarFeed(id: string): Promise<CalendarFeed | undefined> {
+    return this.calendarFeeds.get(id);
+  }
+  
+  async updateCalendarFeed(id: string, memberIds: string[]): Promise<CalendarFeed> {
+    const feed = this.calendarFeeds.get(id);
+    if (!feed) throw new Error("Calendar feed not found");
+    
+    const updatedFeed = { ...feed, memberIds };
+    this.calendarFeeds.set(id, updatedFeed);
+    return updatedFeed;
+  }
+  
+  // Event template methods
+  async createEventTemplate(template: InsertEventTemplate & { id: string }): Promise<EventTemplate> {
+    const newTemplate: EventTemplate = {
+      ...template,
+      description: template.description ?? null,
+      memo: template.memo ?? null,
+      participants: template.participants || [],
+      createdAt: new Date(),
+    };
+    this.eventTemplates.set(template.id, newTemplate);
+    return newTemplate;
+  }
+  
+  async getEventTemplate(id: string): Promise<EventTemplate | undefined> {
+    return this.eventTemplates.get(id);
+  }
+  
+  async getEventTemplates(ownerKey: string): Promise<EventTemplate[]> {
+    return Array.from(this.eventTemplates.values())
+      .filter(template => template.ownerKey === ownerKey)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async deleteEventTemplate(id: string): Promise<void> {
+    this.eventTemplates.delete(id);
+  }
+  
+  // Profile methods
+  async createProfile(profile: InsertProfile): Promise<Profile> {
+    const newProfile: Profile = { ...profile, createdAt: new Date() };
+    this.profiles.set(profile.id, newProfile);
+    return newProfile;
+  }
+  
+  async getProfile(id: string): Promise<Profile | undefined> {
+    return this.profiles.get(id);
+  }
+  
+  async getProfileByRecoveryCode(recoveryCode: string): Promise<Profile | undefined> {
+    return Array.from(this.profiles.values()).find(profile => profile.recoveryCode === recoveryCode);
+  }
+  
+  async getProfileEvents(profileId: string): Promise<ProfileEvent[]> {
+    return this.profileEvents
+      .filter(entry => entry.profileId === profileId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async upsertProfileEvent(entry: InsertProfileEvent): Promise<ProfileEvent> {
+    const existing = this.profileEvents.find(
+      e => e.profileId === entry.profileId && e.eventId === entry.eventId
+    );
+    const saved: ProfileEvent = {
+      ...entry,
+      id: existing?.id ?? this.profileEventId++,
+      hidden: entry.hidden ?? false,
+      updatedAt: new Date(),
+    };
+    this.profileEvents = [...this.profileEvents.filter(e => e !== existing), saved];
+    return saved;
+  }
+  
   // Memo methods
-  async updateEventMemo(eventId: string, memo: string, editorName: string): Promise<Event> {
+  async updateEventMemo(eventId: string, memo: string, editorName: string, baseRevision: number, restoredFrom?: number): Promise<Event | undefined> {
     const event = this.events.get(eventId);
     if (!event) throw new Error("Event not found");
+    if (event.memoRevision !== baseRevision) return undefined;
     
-    // 編集ロックの確認
-    if (event.memoEditLock) {
-      const lockExpiration = new Date(event.memoEditLock.lockExpiration);
-      if (lockExpiration > new Date() && event.memoEditLock.lockedBy !== editorName) {
-        throw new Error(`他の参加者（${event.memoEditLock.lockedBy}さん）が現在編集中です`);
-      }
-    }
-    
-    // メモを更新
+    const now = new Date();
     const updatedEvent = {
       ...event,
       memo,
+      memoRevision: event.memoRevision + 1,
       memoLastEditedBy: editorName,
-      memoLastEditedAt: new Date().toISOString(),
-      memoEditLock: null // 編集完了後はロックを解除
+      memoLastEditedAt: now.toISOString(),
     };
     
     this.events.set(eventId, updatedEvent);
+    this.memoRevisions.push({
+      id: this.memoRevisionId++,
+      eventId,
+      revision: updatedEvent.memoRevision,
+      memo,
+      editorName,
+      restoredFrom: restoredFrom ?? null,
+      createdAt: now,
+    });
     
     // Get date options for this event
     const dateOptions = await this.getEventDateOptions(eventId);
@@ -304,116 +976,83 @@ export class MemStorage implements IStorage {
     };
   }
   
-  async acquireEditLock(eventId: string, userName: string): Promise<boolean> {
+  async getMemoRevisions(eventId: string): Promise<MemoRevision[]> {
+    return this.memoRevisions
+      .filter(revision => revision.eventId === eventId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+  
+  async getMemoRevision(id: number): Promise<MemoRevision | undefined> {
+    return this.memoRevisions.find(revision => revision.id === id);
+  }
+  
+  async getMemoItemChecks(eventId: string): Promise<MemoItemCheck[]> {
+    return this.memoItemChecks.filter(check => check.eventId === eventId);
+  }
+  
+  async setMemoItemCheck(check: InsertMemoItemCheck): Promise<MemoItemCheck> {
+    const existing = this.memoItemChecks.find(
+      c => c.eventId === check.eventId && c.itemKey === check.itemKey
+    );
+    const saved: MemoItemCheck = {
+      ...check,
+      id: existing?.id ?? this.memoItemCheckId++,
+      updatedAt: new Date(),
+    };
+    this.memoItemChecks = [...this.memoItemChecks.filter(c => c !== existing), saved];
+    return saved;
+  }
+  
+  async setMemoTyping(eventId: string, userName: string): Promise<boolean> {
     const event = this.events.get(eventId);
     if (!event) throw new Error("Event not found");
     
-    // 既存のロックを確認
-    if (event.memoEditLock) {
-      const lockExpiration = new Date(event.memoEditLock.lockExpiration);
-      
-      // まだロックが有効で、別のユーザーがロックを持っている場合
-      if (lockExpiration > new Date() && event.memoEditLock.lockedBy !== userName) {
-        return false;
-      }
-    }
-    
-    // ロックを設定
-    const now = new Date();
-    const lockExpiration = new Date(now);
-    lockExpiration.setMinutes(lockExpiration.getMinutes() + 5); // 5分間のロック
-    
-    const updatedEvent = {
-      ...event,
-      memoEditLock: {
-        lockedBy: userName,
-        lockedAt: now.toISOString(),
-        lockExpiration: lockExpiration.toISOString()
-      }
-    };
-    
-    this.events.set(eventId, updatedEvent);
-    return true;
+    const current = activeMemoTyping(event.memoEditLock);
+    this.events.set(eventId, { ...event, memoEditLock: nextMemoTyping(userName, current) });
+    return current?.lockedBy !== userName;
   }
   
-  async releaseEditLock(eventId: string, userName: string): Promise<boolean> {
+  async clearMemoTyping(eventId: string, userName: string): Promise<boolean> {
     const event = this.events.get(eventId);
     if (!event) throw new Error("Event not found");
     
-    // ロックの所有者確認をスキップ（バグ修正）
-    // 編集者名を無視して常にロックを解除できるようにする
-    
-    // ロックを解除
-    const updatedEvent = {
-      ...event,
-      memoEditLock: null
-    };
+    // 他の参加者の入力中の表示は消さない
+    if (activeMemoTyping(event.memoEditLock)?.lockedBy !== userName) return false;
     
-    this.events.set(eventId, updatedEvent);
+    this.events.set(eventId, { ...event, memoEditLock: null });
     return true;
   }
-
-  async getEventParticipants(eventId: string): Promise<string[]> {
-    // イベントの全参加者を収集
-    const event = await this.getEvent(eventId);
-    if (!event) throw new Error("Event not found");
-    
-    // 参加者リストを再計算する前に、既存のリストをマージするために保持
-    const existingParticipants = event.participants || [];
-    
-    // 1. イベント作成者を含む
-    const participants = new Set<string>();
-    if (event.creatorName) {
-      participants.add(event.creatorName);
-    }
-    
-    // 2. 既存の参加者リストを追加
-    if (existingParticipants && existingParticipants.length > 0) {
-      existingParticipants.forEach(name => participants.add(name));
-    }
-    
-    // 3. 参加者を含む
-    const attendances = await this.getEventAttendances(eventId);
-    attendances.forEach(attendance => {
-      if (attendance.name) {
-        participants.add(attendance.name);
-      }
-    });
-    
-    // 4. 支払い情報に含まれるすべての参加者を追加
-    console.log("経費情報から参加者を集計...");
-    const expenses = await this.getEventExpenses(eventId);
-    expenses.forEach(expense => {
-      if (expense.payerName) {
-        participants.add(expense.payerName);
-      }
-      
-      if (expense.participants && expense.participants.length > 0) {
-        expense.participants.forEach(name => {
-          if (name) participants.add(name);
-        });
-      }
-    });
-    
-    // 収集した参加者リストをイベントに保存して次回以降使用できるようにする
-    const participantsList = Array.from(participants);
-    console.log(`経費情報から抽出した参加者数: ${expenses.length}人`);
-    console.log(`参加者リスト統合後: ${participantsList.length}人`);
-    
-    // 参加者リストが変更された場合のみ更新
-    const isParticipantsChanged = 
-      !existingParticipants.length || 
-      participantsList.length !== existingParticipants.length ||
-      participantsList.some(p => !existingParticipants.includes(p));
-      
-    if (isParticipantsChanged) {
-      await this.updateEvent(eventId, {
-        participants: participantsList
-      });
-      console.log(`参加者リストを更新しました: ${participantsList.join(', ')}`);
-    }
-    
-    return participantsList;
+  
+  // Comment methods
+  async getEventComments(eventId: string): Promise<EventComment[]> {
+    return this.eventComments
+      .filter(comment => comment.eventId === eventId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getEventComment(id: number): Promise<EventComment | undefined> {
+    return this.eventComments.find(comment => comment.id === id);
+  }
+  
+  async createEventComment(comment: InsertEventComment): Promise<EventComment> {
+    const newComment: EventComment = {
+      ...comment,
+      id: this.eventCommentId++,
+      authorMemberId: comment.authorMemberId ?? null,
+      dateOptionId: comment.dateOptionId ?? null,
+      expenseId: comment.expenseId ?? null,
+      createdAt: new Date(),
+      deletedAt: null,
+    };
+    this.eventComments.push(newComment);
+    return newComment;
+  }
+  
+  async deleteEventComment(id: number): Promise<EventComment | undefined> {
+    const comment = this.eventComments.find(c => c.id === id);
+    if (!comment) return undefined;
+    comment.deletedAt = comment.deletedAt ?? new Date();
+    return comment;
   }
 }
 
@@ -461,6 +1100,23 @@ export class DatabaseStorage implements IStorage {
     return eventsWithDateOptions;
   }
   
+  // 自動確定が有効で、回答締切を過ぎても日程が確定していないイベント
+  async getEventsToAutoFinalize(now: Date): Promise<Event[]> {
+    const dueEvents = await db
+      .select({ id: events.id })
+      .from(events)
+      .where(and(
+        eq(events.autoFinalize, true),
+        isNull(events.selectedDate),
+        lte(events.responseDeadline, now)
+      ));
+    
+    const dueEventsWithDateOptions = await Promise.all(
+      dueEvents.map(event => this.getEvent(event.id))
+    );
+    return dueEventsWithDateOptions.filter((event): event is Event => !!event);
+  }
+  
   async updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event> {
     const [updatedEvent] = await db
       .update(events)
@@ -482,10 +1138,41 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  // DateOption methods
-  async createDateOption(dateOption: InsertDateOption & { id: string }): Promise<DateOption> {
-    const [newDateOption] = await db
-      .insert(dateOptions)
+  // イベントと関連データ（候補日・出欠・回答・名簿・支払いと変更履歴・為替レート・送金記録）をすべて削除
+  async deleteEvent(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const attendanceIds = (await tx
+        .select({ id: attendances.id })
+        .from(attendances)
+        .where(eq(attendances.eventId, id))
+      ).map(attendance => attendance.id);
+      
+      if (attendanceIds.length > 0) {
+        await tx
+          .delete(attendanceResponses)
+          .where(inArray(attendanceResponses.attendanceId, attendanceIds));
+      }
+      await tx.delete(slotAvailabilities).where(eq(slotAvailabilities.eventId, id));
+      await tx.delete(expenseRevisions).where(eq(expenseRevisions.eventId, id));
+      await tx.delete(expenseAttachments).where(eq(expenseAttachments.eventId, id));
+      await tx.delete(memoRevisions).where(eq(memoRevisions.eventId, id));
+      await tx.delete(memoItemChecks).where(eq(memoItemChecks.eventId, id));
+      await tx.delete(eventComments).where(eq(eventComments.eventId, id));
+      await tx.delete(expenses).where(eq(expenses.eventId, id));
+      await tx.delete(exchangeRates).where(eq(exchangeRates.eventId, id));
+      await tx.delete(settlementPayments).where(eq(settlementPayments.eventId, id));
+      await tx.delete(eventMembers).where(eq(eventMembers.eventId, id));
+      await tx.delete(profileEvents).where(eq(profileEvents.eventId, id));
+      await tx.delete(attendances).where(eq(attendances.eventId, id));
+      await tx.delete(dateOptions).where(eq(dateOptions.eventId, id));
+      await tx.delete(events).where(eq(events.id, id));
+    });
+  }
+  
+  // DateOption methods
+  async createDateOption(dateOption: InsertDateOption & { id: string }): Promise<DateOption> {
+    const [newDateOption] = await db
+      .insert(dateOptions)
       .values(dateOption)
       .returning();
     
@@ -508,6 +1195,18 @@ export class DatabaseStorage implements IStorage {
       .where(eq(dateOptions.eventId, eventId));
   }
   
+  // 候補日とその候補日への回答を削除
+  async deleteDateOption(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(attendanceResponses)
+        .where(eq(attendanceResponses.dateOptionId, id));
+      await tx
+        .delete(dateOptions)
+        .where(eq(dateOptions.id, id));
+    });
+  }
+  
   // Attendance methods
   async createAttendance(attendance: InsertAttendance & { id: string }): Promise<Attendance> {
     const [newAttendance] = await db
@@ -560,6 +1259,63 @@ export class DatabaseStorage implements IStorage {
     return attendancesWithResponses;
   }
   
+  async updateAttendance(id: string, data: Partial<InsertAttendance>): Promise<Attendance> {
+    const [attendance] = await db
+      .update(attendances)
+      .set(data)
+      .where(eq(attendances.id, id))
+      .returning();
+    
+    if (!attendance) throw new Error("Attendance not found");
+    
+    const responses = await this.getAttendanceResponses(id);
+    return { ...attendance, responses };
+  }
+  
+  // 出欠と回答を削除し、名簿のメンバーを無効にして支払いの割り勘対象者からも外す
+  async deleteAttendance(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [attendance] = await tx
+        .select()
+        .from(attendances)
+        .where(eq(attendances.id, id));
+      if (!attendance) return;
+      
+      const [member] = await tx
+        .update(eventMembers)
+        .set({ attendanceId: null, active: false })
+        .where(eq(eventMembers.attendanceId, id))
+        .returning();
+      
+      await tx
+        .delete(attendanceResponses)
+        .where(eq(attendanceResponses.attendanceId, id));
+      await tx
+        .delete(slotAvailabilities)
+        .where(eq(slotAvailabilities.attendanceId, id));
+      await tx
+        .delete(attendances)
+        .where(eq(attendances.id, id));
+      
+      await tx
+        .update(events)
+        .set({
+          participantsCount: sql`greatest(coalesce(${events.participantsCount}, 0) - ${attendanceHeadcount(attendance)}, 0)`,
+        })
+        .where(eq(events.id, attendance.eventId));
+      
+      if (member) {
+        await tx
+          .update(expenses)
+          .set({ participantIds: sql`array_remove(${expenses.participantIds}, ${member.id})` })
+          .where(and(
+            eq(expenses.eventId, attendance.eventId),
+            sql`${member.id} = any(${expenses.participantIds})`
+          ));
+      }
+    });
+  }
+  
   // AttendanceResponse methods
   async createAttendanceResponse(response: InsertAttendanceResponse): Promise<any> {
     const [newResponse] = await db
@@ -570,7 +1326,7 @@ export class DatabaseStorage implements IStorage {
     return newResponse;
   }
   
-  async updateAttendanceResponses(attendanceId: string, responses: { dateOptionId: string, status: string }[]): Promise<void> {
+  async updateAttendanceResponses(attendanceId: string, responses: AttendanceResponseInput[]): Promise<void> {
     // First, delete existing responses for this attendance
     await db
       .delete(attendanceResponses)
@@ -582,7 +1338,9 @@ export class DatabaseStorage implements IStorage {
         responses.map(resp => ({
           attendanceId,
           dateOptionId: resp.dateOptionId,
-          status: resp.status
+          status: resp.status,
+          comment: resp.comment ?? null,
+          guestCount: resp.guestCount ?? null
         }))
       );
     }
@@ -595,6 +1353,246 @@ export class DatabaseStorage implements IStorage {
       .where(eq(attendanceResponses.attendanceId, attendanceId));
   }
   
+  // EventMember methods
+  async createEventMember(member: InsertEventMember & { id: string }): Promise<EventMember> {
+    const [newMember] = await db
+      .insert(eventMembers)
+      .values(member)
+      .returning();
+    
+    return newMember;
+  }
+  
+  async getEventMember(id: string): Promise<EventMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(eventMembers)
+      .where(eq(eventMembers.id, id));
+    
+    return member;
+  }
+  
+  async getEventMembers(eventId: string): Promise<EventMember[]> {
+    return db
+      .select()
+      .from(eventMembers)
+      .where(eq(eventMembers.eventId, eventId))
+      .orderBy(eventMembers.createdAt);
+  }
+  
+  async updateEventMember(id: string, data: Partial<InsertEventMember>): Promise<EventMember> {
+    const [updatedMember] = await db
+      .update(eventMembers)
+      .set(data)
+      .where(eq(eventMembers.id, id))
+      .returning();
+    
+    if (!updatedMember) {
+      throw new Error("Member not found");
+    }
+    
+    return updatedMember;
+  }
+  
+  // 名簿のメンバー名を変更し、紐付いた出欠・主催者名・メモのロックも新しい名前にする
+  async renameEventMember(id: string, displayName: string): Promise<EventMember> {
+    return db.transaction(async (tx) => {
+      const [member] = await tx
+        .select()
+        .from(eventMembers)
+        .where(eq(eventMembers.id, id));
+      if (!member) throw new Error("Member not found");
+      
+      if (member.attendanceId) {
+        await tx
+          .update(attendances)
+          .set({ name: displayName })
+          .where(eq(attendances.id, member.attendanceId));
+      }
+      
+      const [event] = await tx
+        .select()
+        .from(events)
+        .where(eq(events.id, member.eventId));
+      const eventFields = event ? renamedEventFields(event, member, displayName) : {};
+      if (Object.keys(eventFields).length > 0) {
+        await tx
+          .update(events)
+          .set(eventFields)
+          .where(eq(events.id, member.eventId));
+      }
+      
+      await tx
+        .update(eventComments)
+        .set({ authorName: displayName })
+        .where(eq(eventComments.authorMemberId, id));
+      
+      const [updatedMember] = await tx
+        .update(eventMembers)
+        .set({ displayName })
+        .where(eq(eventMembers.id, id))
+        .returning();
+      return updatedMember;
+    });
+  }
+  
+  // 統合元のメンバーを統合先にまとめる
+  // 支払い・送金記録・出欠の回答を付け替え、統合元は名簿から外す
+  async mergeEventMembers(sourceId: string, targetId: string): Promise<EventMember> {
+    return db.transaction(async (tx) => {
+      const members = await tx
+        .select()
+        .from(eventMembers)
+        .where(inArray(eventMembers.id, [sourceId, targetId]));
+      const source = members.find(member => member.id === sourceId);
+      const target = members.find(member => member.id === targetId);
+      if (!source || !target) throw new Error("Member not found");
+      
+      const eventExpenses = await tx
+        .select()
+        .from(expenses)
+        .where(eq(expenses.eventId, source.eventId));
+      for (const expense of eventExpenses) {
+        const fields = mergedExpenseFields(expense, sourceId, targetId);
+        if (fields) {
+          await tx
+            .update(expenses)
+            .set(fields)
+            .where(eq(expenses.id, expense.id));
+        }
+      }
+      
+      // 2人の間の送金は統合すると意味がなくなるので削除する
+      await tx
+        .delete(settlementPayments)
+        .where(and(
+          eq(settlementPayments.eventId, source.eventId),
+          sql`${settlementPayments.fromMemberId} in (${sourceId}, ${targetId})`,
+          sql`${settlementPayments.toMemberId} in (${sourceId}, ${targetId})`
+        ));
+      await tx
+        .update(settlementPayments)
+        .set({ fromMemberId: targetId })
+        .where(eq(settlementPayments.fromMemberId, sourceId));
+      await tx
+        .update(settlementPayments)
+        .set({ toMemberId: targetId })
+        .where(eq(settlementPayments.toMemberId, sourceId));
+      
+      await tx
+        .update(eventComments)
+        .set({ authorMemberId: targetId, authorName: target.displayName })
+        .where(eq(eventComments.authorMemberId, sourceId));
+      
+      // カレンダーフィードの統合元を統合先に置き換える（両方を登録していた場合は1つにする）
+      await tx
+        .update(calendarFeeds)
+        .set({
+          memberIds: sql`array(select distinct unnest(array_replace(${calendarFeeds.memberIds}, ${sourceId}, ${targetId})))`,
+        })
+        .where(sql`${sourceId} = any(${calendarFeeds.memberIds})`);
+      
+      let attendanceId = target.attendanceId;
+      if (source.attendanceId && attendanceId) {
+        // 両方に出欠がある場合は、統合先が未回答の候補日だけ統合元の回答を引き継ぐ
+        const answered = (await tx
+          .select({ dateOptionId: attendanceResponses.dateOptionId })
+          .from(attendanceResponses)
+          .where(eq(attendanceResponses.attendanceId, attendanceId))
+        ).map(response => response.dateOptionId);
+        await tx
+          .update(attendanceResponses)
+          .set({ attendanceId })
+          .where(and(
+            eq(attendanceResponses.attendanceId, source.attendanceId),
+            answered.length > 0
+              ? sql`${attendanceResponses.dateOptionId} not in (${sql.join(answered.map(id => sql`${id}`), sql`, `)})`
+              : undefined
+          ));
+        await tx
+          .delete(attendanceResponses)
+          .where(eq(attendanceResponses.attendanceId, source.attendanceId));
+        
+        // 時間帯グリッドの参加できるコマは両方を合わせる
+        const [sourceSlots] = await tx
+          .delete(slotAvailabilities)
+          .where(eq(slotAvailabilities.attendanceId, source.attendanceId))
+          .returning();
+        if (sourceSlots) {
+          const [targetSlots] = await tx
+            .select()
+            .from(slotAvailabilities)
+            .where(eq(slotAvailabilities.attendanceId, attendanceId));
+          const slots = Array.from(new Set([...(targetSlots?.slots || []), ...sourceSlots.slots])).sort();
+          if (targetSlots) {
+            await tx
+              .update(slotAvailabilities)
+              .set({ slots, updatedAt: new Date() })
+              .where(eq(slotAvailabilities.attendanceId, attendanceId));
+          } else {
+            await tx
+              .insert(slotAvailabilities)
+              .values({ attendanceId, eventId: source.eventId, slots });
+          }
+        }
+        
+        await tx
+          .update(eventMembers)
+          .set({ attendanceId: null })
+          .where(eq(eventMembers.id, sourceId));
+        const [sourceAttendance] = await tx
+          .delete(attendances)
+          .where(eq(attendances.id, source.attendanceId))
+          .returning();
+        await tx
+          .update(events)
+          .set({
+            participantsCount: sql`greatest(coalesce(${events.participantsCount}, 0) - ${sourceAttendance ? attendanceHeadcount(sourceAttendance) : 0}, 0)`,
+          })
+          .where(eq(events.id, source.eventId));
+      } else if (source.attendanceId) {
+        attendanceId = source.attendanceId;
+        await tx
+          .update(attendances)
+          .set({ name: target.displayName })
+          .where(eq(attendances.id, attendanceId));
+      }
+      
+      const [event] = await tx
+        .select()
+        .from(events)
+        .where(eq(events.id, source.eventId));
+      const eventFields = event ? renamedEventFields(event, source, target.displayName) : {};
+      if (Object.keys(eventFields).length > 0) {
+        await tx
+          .update(events)
+          .set(eventFields)
+          .where(eq(events.id, source.eventId));
+      }
+      
+      // 統合元の参加用リンクは統合先として扱う（以前に統合元へ統合されたメンバーも付け替える）
+      await tx
+        .update(eventMembers)
+        .set({ mergedIntoId: targetId })
+        .where(eq(eventMembers.mergedIntoId, sourceId));
+      await tx
+        .update(eventMembers)
+        .set({ attendanceId: null, active: false, mergedIntoId: targetId })
+        .where(eq(eventMembers.id, sourceId));
+      const [mergedMember] = await tx
+        .update(eventMembers)
+        .set({
+          attendanceId,
+          active: true,
+          required: source.required || target.required,
+          source: source.source === "creator" ? "creator" : target.source,
+        })
+        .where(eq(eventMembers.id, targetId))
+        .returning();
+      return mergedMember;
+    });
+  }
+  
   // Expense methods
   async createExpense(expense: InsertExpense & { id: string }): Promise<Expense> {
     const expenseData = {
@@ -626,17 +1624,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(expenses.eventId, eventId));
   }
   
-  // 全員割り勘フラグを持つ支出のみを取得
-  async getSharedExpenses(eventId: string): Promise<Expense[]> {
-    return db
-      .select()
-      .from(expenses)
-      .where(and(
-        eq(expenses.eventId, eventId),
-        eq(expenses.isSharedWithAll, true)
-      ));
-  }
-  
   async updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense> {
     const [updatedExpense] = await db
       .update(expenses)
@@ -651,46 +1638,397 @@ export class DatabaseStorage implements IStorage {
     return updatedExpense;
   }
   
+  // 支払いと変更履歴を削除
   async deleteExpense(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(expenseRevisions).where(eq(expenseRevisions.expenseId, id));
+      await tx.delete(expenseAttachments).where(eq(expenseAttachments.expenseId, id));
+      await tx.delete(expenses).where(eq(expenses.id, id));
+    });
+  }
+  
+  // Expense revision methods
+  async createExpenseRevision(revision: InsertExpenseRevision): Promise<ExpenseRevision> {
+    const [newRevision] = await db
+      .insert(expenseRevisions)
+      .values(revision)
+      .returning();
+    
+    return newRevision;
+  }
+  
+  async getExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+    return db
+      .select()
+      .from(expenseRevisions)
+      .where(eq(expenseRevisions.expenseId, expenseId))
+      .orderBy(expenseRevisions.createdAt);
+  }
+  
+  // Expense attachment methods
+  async createExpenseAttachment(attachment: InsertExpenseAttachment): Promise<ExpenseAttachment> {
+    const [newAttachment] = await db
+      .insert(expenseAttachments)
+      .values(attachment)
+      .returning();
+    
+    return newAttachment;
+  }
+  
+  async getExpenseAttachment(id: string): Promise<ExpenseAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(expenseAttachments)
+      .where(eq(expenseAttachments.id, id));
+    return attachment;
+  }
+  
+  async getExpenseAttachments(expenseId: string): Promise<ExpenseAttachment[]> {
+    return db
+      .select()
+      .from(expenseAttachments)
+      .where(eq(expenseAttachments.expenseId, expenseId))
+      .orderBy(expenseAttachments.createdAt);
+  }
+  
+  async getEventExpenseAttachments(eventId: string): Promise<ExpenseAttachment[]> {
+    return db
+      .select()
+      .from(expenseAttachments)
+      .where(eq(expenseAttachments.eventId, eventId))
+      .orderBy(expenseAttachments.createdAt);
+  }
+  
+  async deleteExpenseAttachment(id: string): Promise<void> {
     await db
-      .delete(expenses)
-      .where(eq(expenses.id, id));
+      .delete(expenseAttachments)
+      .where(eq(expenseAttachments.id, id));
   }
   
-  // Memo methods
-  async updateEventMemo(eventId: string, memo: string, editorName: string): Promise<Event> {
-    const [event] = await db
+  // Exchange rate methods
+  async getEventExchangeRates(eventId: string): Promise<ExchangeRate[]> {
+    return db
       .select()
-      .from(events)
-      .where(eq(events.id, eventId));
+      .from(exchangeRates)
+      .where(eq(exchangeRates.eventId, eventId));
+  }
+  
+  async upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [existing] = await db
+      .select()
+      .from(exchangeRates)
+      .where(and(
+        eq(exchangeRates.eventId, rate.eventId),
+        eq(exchangeRates.currency, rate.currency)
+      ));
     
-    if (!event) {
-      throw new Error("Event not found");
+    if (existing) {
+      const [updatedRate] = await db
+        .update(exchangeRates)
+        .set({ rate: rate.rate, updatedBy: rate.updatedBy, updatedAt: new Date() })
+        .where(eq(exchangeRates.id, existing.id))
+        .returning();
+      return updatedRate;
     }
     
-    // メモを更新
-    const [updatedEvent] = await db
-      .update(events)
-      .set({
-        memo,
-        memoLastEditedBy: editorName,
-        memoLastEditedAt: new Date().toISOString(),
-        memoEditLock: null // 編集完了後はロックを解除
-      })
-      .where(eq(events.id, eventId))
+    const [newRate] = await db
+      .insert(exchangeRates)
+      .values(rate)
       .returning();
     
+    return newRate;
+  }
+  
+  async deleteExchangeRate(eventId: string, currency: string): Promise<void> {
+    await db
+      .delete(exchangeRates)
+      .where(and(
+        eq(exchangeRates.eventId, eventId),
+        eq(exchangeRates.currency, currency)
+      ));
+  }
+  
+  // Settlement payment methods
+  async createSettlementPayment(payment: InsertSettlementPayment & { id: string }): Promise<SettlementPayment> {
+    const [newPayment] = await db
+      .insert(settlementPayments)
+      .values(payment)
+      .returning();
+    
+    return newPayment;
+  }
+  
+  async getSettlementPayment(id: string): Promise<SettlementPayment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(settlementPayments)
+      .where(eq(settlementPayments.id, id));
+    
+    return payment;
+  }
+  
+  async getEventSettlementPayments(eventId: string): Promise<SettlementPayment[]> {
+    return db
+      .select()
+      .from(settlementPayments)
+      .where(eq(settlementPayments.eventId, eventId))
+      .orderBy(settlementPayments.paidAt);
+  }
+  
+  async deleteSettlementPayment(id: string): Promise<void> {
+    await db
+      .delete(settlementPayments)
+      .where(eq(settlementPayments.id, id));
+  }
+  
+  // Slot availability methods
+  async getEventSlotAvailabilities(eventId: string): Promise<SlotAvailability[]> {
+    return db
+      .select()
+      .from(slotAvailabilities)
+      .where(eq(slotAvailabilities.eventId, eventId));
+  }
+  
+  async upsertSlotAvailability(availability: InsertSlotAvailability): Promise<SlotAvailability> {
+    const [existing] = await db
+      .select()
+      .from(slotAvailabilities)
+      .where(eq(slotAvailabilities.attendanceId, availability.attendanceId));
+    
+    if (existing) {
+      const [updatedAvailability] = await db
+        .update(slotAvailabilities)
+        .set({ slots: availability.slots || [], updatedAt: new Date() })
+        .where(eq(slotAvailabilities.attendanceId, availability.attendanceId))
+        .returning();
+      return updatedAvailability;
+    }
+    
+    const [newAvailability] = await db
+      .insert(slotAvailabilities)
+      .values(availability)
+      .returning();
+    
+    return newAvailability;
+  }
+  
+  // Calendar feed methods
+  async createCalendarFeed(feed: InsertCalendarFeed & { id: string }): Promise<CalendarFeed> {
+    const [newFeed] = await db
+      .insert(calendarFeeds)
+      .values(feed)
+      .returning();
+    
+    return newFeed;
+  }
+  
+  async getCalendarFeed(id: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.id, id));
+    
+    return feed;
+  }
+  
+  async updateCalendarFeed(id: string, memberIds: string[]): Promise<CalendarFeed> {
+    const [updatedFeed] = await db
+      .update(calendarFeeds)
+      .set({ memberIds })
+      .where(eq(calendarFeeds.id, id))
+      .returning();
+    
+    if (!updatedFeed) {
+      throw new Error("Calendar feed not found");
+    }
+    
+    return updatedFeed;
+  }
+  
+  // Event template methods
+  async createEventTemplate(template: InsertEventTemplate & { id: string }): Promise<EventTemplate> {
+    const [newTemplate] = await db
+      .insert(eventTemplates)
+      .values(template)
+      .returning();
+    
+    return newTemplate;
+  }
+  
+  async getEventTemplate(id: string): Promise<EventTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(eventTemplates)
+      .where(eq(eventTemplates.id, id));
+    
+    return template;
+  }
+  
+  async getEventTemplates(ownerKey: string): Promise<EventTemplate[]> {
+    return db
+      .select()
+      .from(eventTemplates)
+      .where(eq(eventTemplates.ownerKey, ownerKey))
+      .orderBy(desc(eventTemplates.createdAt));
+  }
+  
+  async deleteEventTemplate(id: string): Promise<void> {
+    await db
+      .delete(eventTemplates)
+      .where(eq(eventTemplates.id, id));
+  }
+  
+  // Profile methods
+  async createProfile(profile: InsertProfile): Promise<Profile> {
+    const [newProfile] = await db
+      .insert(profiles)
+      .values(profile)
+      .returning();
+    
+    return newProfile;
+  }
+  
+  async getProfile(id: string): Promise<Profile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(profiles)
+      .where(eq(profiles.id, id));
+    
+    return profile;
+  }
+  
+  async getProfileByRecoveryCode(recoveryCode: string): Promise<Profile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(profiles)
+      .where(eq(profiles.recoveryCode, recoveryCode));
+    
+    return profile;
+  }
+  
+  async getProfileEvents(profileId: string): Promise<ProfileEvent[]> {
+    return db
+      .select()
+      .from(profileEvents)
+      .where(eq(profileEvents.profileId, profileId))
+      .orderBy(desc(profileEvents.updatedAt));
+  }
+  
+  async upsertProfileEvent(entry: InsertProfileEvent): Promise<ProfileEvent> {
+    const condition = and(
+      eq(profileEvents.profileId, entry.profileId),
+      eq(profileEvents.eventId, entry.eventId)
+    );
+    const [existing] = await db
+      .select()
+      .from(profileEvents)
+      .where(condition);
+    
+    if (existing) {
+      const [updatedEntry] = await db
+        .update(profileEvents)
+        .set({ identity: entry.identity, hidden: entry.hidden ?? false, updatedAt: new Date() })
+        .where(condition)
+        .returning();
+      return updatedEntry;
+    }
+    
+    const [newEntry] = await db
+      .insert(profileEvents)
+      .values(entry)
+      .returning();
+    
+    return newEntry;
+  }
+  
+  // Memo methods
+  async updateEventMemo(eventId: string, memo: string, editorName: string, baseRevision: number, restoredFrom?: number): Promise<Event | undefined> {
+    // 版番号が一致する場合だけ更新する（同時に保存された場合も後から保存した側が失敗する）
+    const updatedEvent = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(events)
+        .set({
+          memo,
+          memoRevision: baseRevision + 1,
+          memoLastEditedBy: editorName,
+          memoLastEditedAt: new Date().toISOString(),
+        })
+        .where(and(eq(events.id, eventId), eq(events.memoRevision, baseRevision)))
+        .returning();
+      
+      if (updated) {
+        await tx.insert(memoRevisions).values({
+          eventId,
+          revision: updated.memoRevision,
+          memo,
+          editorName,
+          restoredFrom: restoredFrom ?? null,
+        });
+      }
+      return updated;
+    });
+    
+    if (!updatedEvent) {
+      return undefined;
+    }
+    
     // Get date options for this event
     const eventDateOptions = await this.getEventDateOptions(eventId);
     
     return {
       ...updatedEvent,
       dateOptions: eventDateOptions,
-      memoEditLock: null
+      memoEditLock: updatedEvent.memoEditLock ? updatedEvent.memoEditLock as any : undefined
     };
   }
   
-  async acquireEditLock(eventId: string, userName: string): Promise<boolean> {
+  async getMemoRevisions(eventId: string): Promise<MemoRevision[]> {
+    return db
+      .select()
+      .from(memoRevisions)
+      .where(eq(memoRevisions.eventId, eventId))
+      .orderBy(desc(memoRevisions.revision));
+  }
+  
+  async getMemoRevision(id: number): Promise<MemoRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(memoRevisions)
+      .where(eq(memoRevisions.id, id));
+    
+    return revision;
+  }
+  
+  async getMemoItemChecks(eventId: string): Promise<MemoItemCheck[]> {
+    return db
+      .select()
+      .from(memoItemChecks)
+      .where(eq(memoItemChecks.eventId, eventId));
+  }
+  
+  async setMemoItemCheck(check: InsertMemoItemCheck): Promise<MemoItemCheck> {
+    const [existing] = await db
+      .select()
+      .from(memoItemChecks)
+      .where(and(eq(memoItemChecks.eventId, check.eventId), eq(memoItemChecks.itemKey, check.itemKey)));
+    
+    if (existing) {
+      const [updatedCheck] = await db
+        .update(memoItemChecks)
+        .set({ checked: check.checked, checkedBy: check.checkedBy, updatedAt: new Date() })
+        .where(eq(memoItemChecks.id, existing.id))
+        .returning();
+      return updatedCheck;
+    }
+    
+    const [newCheck] = await db
+      .insert(memoItemChecks)
+      .values(check)
+      .returning();
+    return newCheck;
+  }
+  
+  async setMemoTyping(eventId: string, userName: string): Promise<boolean> {
     const [event] = await db
       .select()
       .from(events)
@@ -700,37 +2038,16 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Event not found");
     }
     
-    // 既存のロックを確認
-    const memoEditLock = event.memoEditLock as any;
-    if (memoEditLock) {
-      const lockExpiration = new Date(memoEditLock.lockExpiration);
-      
-      // まだロックが有効で、別のユーザーがロックを持っている場合
-      if (lockExpiration > new Date() && memoEditLock.lockedBy !== userName) {
-        return false;
-      }
-    }
-    
-    // ロックを設定
-    const now = new Date();
-    const lockExpiration = new Date(now);
-    lockExpiration.setMinutes(lockExpiration.getMinutes() + 5); // 5分間のロック
-    
-    const newLock = {
-      lockedBy: userName,
-      lockedAt: now.toISOString(),
-      lockExpiration: lockExpiration.toISOString()
-    };
-    
+    const current = activeMemoTyping(event.memoEditLock);
     await db
       .update(events)
-      .set({ memoEditLock: newLock })
+      .set({ memoEditLock: nextMemoTyping(userName, current) })
       .where(eq(events.id, eventId));
     
-    return true;
+    return current?.lockedBy !== userName;
   }
   
-  async releaseEditLock(eventId: string, userName: string): Promise<boolean> {
+  async clearMemoTyping(eventId: string, userName: string): Promise<boolean> {
     const [event] = await db
       .select()
       .from(events)
@@ -740,7 +2057,11 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Event not found");
     }
     
-    // ロックを解除（すべてのケースで解除可能）
+    // 他の参加者の入力中の表示は消さない
+    if (activeMemoTyping(event.memoEditLock)?.lockedBy !== userName) {
+      return false;
+    }
+    
     await db
       .update(events)
       .set({ memoEditLock: null })
@@ -749,41 +2070,39 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
   
-  // Utility methods
-  async getEventParticipants(eventId: string): Promise<string[]> {
-    // 1. まず、出費情報から参加者を収集
-    const eventExpenses = await this.getEventExpenses(eventId);
-    const participantsSet = new Set<string>();
-    
-    // 支払い者を追加
-    eventExpenses.forEach(expense => {
-      if (expense.payerName) {
-        participantsSet.add(expense.payerName);
-      }
-    });
-    
-    // 分担者を追加
-    eventExpenses.forEach(expense => {
-      if (expense.participants) {
-        expense.participants.forEach(participant => {
-          participantsSet.add(participant);
-        });
-      }
-    });
-    
-    // 2. 出席者からも名前を収集
-    const attendances = await this.getEventAttendances(eventId);
-    attendances.forEach(attendance => {
-      participantsSet.add(attendance.name);
-    });
-    
-    // 3. イベント作成者も追加
-    const event = await this.getEvent(eventId);
-    if (event && event.creatorName) {
-      participantsSet.add(event.creatorName);
-    }
-    
-    return Array.from(participantsSet);
+  // Comment methods
+  async getEventComments(eventId: string): Promise<EventComment[]> {
+    return db
+      .select()
+      .from(eventComments)
+      .where(eq(eventComments.eventId, eventId))
+      .orderBy(eventComments.id);
+  }
+  
+  async getEventComment(id: number): Promise<EventComment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(eventComments)
+      .where(eq(eventComments.id, id));
+    return comment;
+  }
+  
+  async createEventComment(comment: InsertEventComment): Promise<EventComment> {
+    const [newComment] = await db
+      .insert(eventComments)
+      .values(comment)
+      .returning();
+    return newComment;
+  }
+  
+  async deleteEventComment(id: number): Promise<EventComment | undefined> {
+    // 削除済みの場合は最初の削除日時のまま
+    const [deletedComment] = await db
+      .update(eventComments)
+      .set({ deletedAt: sql`coalesce(${eventComments.deletedAt}, now())` })
+      .where(eq(eventComments.id, id))
+      .returning();
+    return deletedComment;
   }
 }
 
@@ -823,10 +2142,17 @@ async function migrateMemoryToDatabase(memStorage: MemStorage, dbStorage: Databa
         defaultStartTime: event.defaultStartTime || null,
         defaultEndTime: event.defaultEndTime || null,
         participantsCount: event.participantsCount || 0,
-        participants: event.participants || [],
         memo: event.memo || null,
         memoLastEditedBy: event.memoLastEditedBy || null,
         memoLastEditedAt: event.memoLastEditedAt || null,
+        memoRevision: event.memoRevision,
+        baseCurrency: event.baseCurrency,
+        calendarSequence: event.calendarSequence,
+        pollType: event.pollType,
+        slotGrid: event.slotGrid,
+        responseDeadline: event.responseDeadline,
+        autoFinalize: event.autoFinalize,
+        guestsInSplit: event.guestsInSplit,
       });
       
       // If there's a memo edit lock, update it
@@ -837,6 +2163,24 @@ async function migrateMemoryToDatabase(memStorage: MemStorage, dbStorage: Databa
           .where(eq(events.id, event.id));
       }
       
+      // メモの保存履歴（版番号は移行元のまま）
+      const memoRevisionList = await memStorage.getMemoRevisions(event.id);
+      if (memoRevisionList.length > 0) {
+        const rows: InsertMemoRevision[] = memoRevisionList.map(({ id, createdAt, ...revision }) => revision);
+        await db.insert(memoRevisions).values(rows);
+      }
+      
+      const commentList = await memStorage.getEventComments(event.id);
+      if (commentList.length > 0) {
+        await db.insert(eventComments).values(commentList.map(({ id, ...comment }) => comment));
+      }
+      
+      const memoItemCheckList = await memStorage.getMemoItemChecks(event.id);
+      if (memoItemCheckList.length > 0) {
+        const rows: InsertMemoItemCheck[] = memoItemCheckList.map(({ id, updatedAt, ...check }) => check);
+        await db.insert(memoItemChecks).values(rows);
+      }
+      
       // Insert date options for this event
       for (const dateOption of event.dateOptions) {
         await dbStorage.createDateOption({
@@ -854,7 +2198,9 @@ async function migrateMemoryToDatabase(memStorage: MemStorage, dbStorage: Databa
         const newAttendance = await dbStorage.createAttendance({
           id: attendance.id,
           eventId: event.id,
-          name: attendance.name
+          name: attendance.name,
+          note: attendance.note,
+          guestCount: attendance.guestCount
         });
         
         if (attendance.responses && attendance.responses.length > 0) {
@@ -862,23 +2208,96 @@ async function migrateMemoryToDatabase(memStorage: MemStorage, dbStorage: Databa
             attendance.id,
             attendance.responses.map(response => ({
               dateOptionId: response.dateOptionId,
-              status: response.status
+              status: response.status,
+              comment: response.comment,
+              guestCount: response.guestCount
             }))
           );
         }
       }
       
-      // 3. Migrate expenses
+      // 時間帯グリッドの参加できるコマ
+      const slotAvailabilitiesList = await memStorage.getEventSlotAvailabilities(event.id);
+      for (const availability of slotAvailabilitiesList) {
+        await dbStorage.upsertSlotAvailability({
+          attendanceId: availability.attendanceId,
+          eventId: event.id,
+          slots: availability.slots
+        });
+      }
+      
+      // 3. Migrate event members
+      const membersList = await memStorage.getEventMembers(event.id);
+      for (const member of membersList) {
+        await dbStorage.createEventMember({
+          id: member.id,
+          eventId: event.id,
+          displayName: member.displayName,
+          source: member.source,
+          attendanceId: member.attendanceId,
+          active: member.active,
+          required: member.required
+        });
+      }
+      
+      // 4. Migrate expenses
       const expensesList = await memStorage.getEventExpenses(event.id);
       for (const expense of expensesList) {
         await dbStorage.createExpense({
           id: expense.id,
           eventId: event.id,
-          payerName: expense.payerName,
+          payerId: expense.payerId,
           description: expense.description,
           amount: expense.amount,
-          participants: expense.participants || [],
-          isSharedWithAll: expense.isSharedWithAll
+          currency: expense.currency,
+          participantIds: expense.participantIds,
+          isSharedWithAll: expense.isSharedWithAll,
+          splitMode: expense.splitMode,
+          splitShares: expense.splitShares
+        });
+        
+        const revisionsList = await memStorage.getExpenseRevisions(expense.id);
+        for (const revision of revisionsList) {
+          await dbStorage.createExpenseRevision({
+            expenseId: expense.id,
+            eventId: event.id,
+            editorName: revision.editorName,
+            action: revision.action,
+            changes: revision.changes
+          });
+        }
+        
+        // 画像本体は blob-store にあるので、記録だけ移す
+        for (const attachment of await memStorage.getExpenseAttachments(expense.id)) {
+          const { createdAt, ...attachmentData } = attachment;
+          await dbStorage.createExpenseAttachment(attachmentData);
+        }
+      }
+      
+      // 5. Migrate exchange rates
+      const ratesList = await memStorage.getEventExchangeRates(event.id);
+      for (const rate of ratesList) {
+        await dbStorage.upsertExchangeRate({
+          eventId: event.id,
+          currency: rate.currency,
+          rate: rate.rate,
+          updatedBy: rate.updatedBy
+        });
+      }
+      
+      // 6. Migrate settlement payments
+      const paymentsList = await memStorage.getEventSettlementPayments(event.id);
+      for (const payment of paymentsList) {
+        await dbStorage.createSettlementPayment({
+          id: payment.id,
+          eventId: event.id,
+          fromMemberId: payment.fromMemberId,
+          toMemberId: payment.toMemberId,
+          amount: payment.amount,
+          currency: payment.currency,
+          note: payment.note,
+          recordedBy: payment.recordedBy,
+          paidAt: payment.paidAt
         });
       }
     }
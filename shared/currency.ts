@@ -0,0 +1,46 @@
+// 対応通貨（decimals は補助単位の桁数）
+export const CURRENCIES = {
+  JPY: { label: "日本円", symbol: "¥", decimals: 0 },
+  USD: { label: "米ドル", symbol: "$", decimals: 2 },
+  EUR: { label: "ユーロ", symbol: "€", decimals: 2 },
+  GBP: { label: "英ポンド", symbol: "£", decimals: 2 },
+  KRW: { label: "韓国ウォン", symbol: "₩", decimals: 0 },
+  TWD: { label: "台湾ドル", symbol: "NT$", decimals: 2 },
+  CNY: { label: "人民元", symbol: "¥", decimals: 2 },
+  THB: { label: "タイバーツ", symbol: "฿", decimals: 2 },
+  AUD: { label: "豪ドル", symbol: "A$", decimals: 2 },
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as [CurrencyCode, ...CurrencyCode[]];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "JPY";
+
+// 通貨コード -> 基準通貨への換算レート（1単位あたりの基準通貨額）
+export type ExchangeRates = Partial<Record<string, number>>;
+
+export function currencyDecimals(currency: string): number {
+  return CURRENCIES[currency as CurrencyCode]?.decimals ?? 2;
+}
+
+// 金額を補助単位の整数に変換（例: 12.34 USD -> 1234）
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyDecimals(currency));
+}
+
+// 補助単位の整数を金額に戻す
+export function fromMinorUnits(minor: number, currency: string): number {
+  return minor / 10 ** currencyDecimals(currency);
+}
+
+// 換算レートを取得（基準通貨と同じなら1、未設定なら undefined）
+export function rateFor(currency: string, baseCurrency: string, rates: ExchangeRates): number | undefined {
+  if (currency === baseCurrency) return 1;
+  return rates[currency];
+}
+
+// 換算レートが設定されていない通貨を列挙
+export function findMissingRates(currencies: string[], baseCurrency: string, rates: ExchangeRates): string[] {
+  return Array.from(new Set(currencies)).filter(currency => rateFor(currency, baseCurrency, rates) === undefined);
+}
@@ -0,0 +1,157 @@
+import type { Attendance, DateOption, EventMember } from "./schema";
+import { responseHeadcount } from "./headcount";
+
+type ResponseStatus = Attendance["responses"][number]["status"];
+
+// 回答ごとの点数
+export type DateRankingWeights = Record<ResponseStatus, number>;
+
+export const DEFAULT_DATE_RANKING_WEIGHTS: DateRankingWeights = {
+  available: 1,
+  maybe: 0.5,
+  unavailable: 0,
+};
+
+// 候補日ごとの評価
+export type DateRankingEntry = {
+  dateOptionId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  rank: number; // 順位（同点は同じ順位）
+  score: number; // 回答の点数の合計（同伴者を含む人数で数える）
+  counts: Record<ResponseStatus | "noResponse", number>; // 同伴者を含む人数
+  disqualified: boolean; // 必須参加者が参加できないため候補から外した
+  explanations: string[]; // 評価の理由（表示用）
+};
+
+export type DateRanking = {
+  weights: DateRankingWeights;
+  recommendedDateOptionId: string | null; // おすすめの候補日（決められない場合は null）
+  rankings: DateRankingEntry[]; // 順位順
+};
+
+// 評価に必要な名簿の項目
+export type DateRankingMember = Pick<EventMember, "displayName" | "attendanceId" | "required"> &
+  Partial<Pick<EventMember, "active">>;
+
+// 評価に必要な出欠の項目
+export type DateRankingAttendance = Pick<Attendance, "id" | "name"> & Partial<Pick<Attendance, "guestCount">> & {
+  responses: (Pick<Attendance["responses"][number], "dateOptionId" | "status"> &
+    Partial<Pick<Attendance["responses"][number], "guestCount">>)[];
+};
+
+function formatNames(names: string[]): string {
+  return names.join("、");
+}
+
+function explain(
+  counts: DateRankingEntry["counts"],
+  respondents: number,
+  unavailableNames: string[],
+  requiredUnavailable: string[],
+  requiredNoResponse: string[],
+): string[] {
+  if (respondents === 0) return ["まだ回答がありません"];
+
+  const explanations: string[] = [];
+  if (requiredUnavailable.length > 0) {
+    explanations.push(`必須参加者が不参加: ${formatNames(requiredUnavailable)}`);
+  }
+  if (counts.available === respondents) {
+    explanations.push(`${respondents}人全員が参加可能`);
+  } else {
+    explanations.push(`参加可能 ${counts.available}人・未定 ${counts.maybe}人（回答 ${respondents}人）`);
+  }
+  const otherUnavailable = unavailableNames.filter(name => !requiredUnavailable.includes(name));
+  if (otherUnavailable.length > 0) {
+    explanations.push(`不参加: ${formatNames(otherUnavailable)}`);
+  }
+  if (requiredNoResponse.length > 0) {
+    explanations.push(`必須参加者が未回答: ${formatNames(requiredNoResponse)}`);
+  }
+  return explanations;
+}
+
+// 出欠の回答から候補日を評価し、おすすめ順に並べる
+// 必須参加者が「不参加」と回答した候補日は、点数にかかわらず順位を下げておすすめしない
+export function rankDateOptions(
+  dateOptions: Pick<DateOption, "id" | "date" | "startTime" | "endTime">[],
+  attendances: DateRankingAttendance[],
+  members: DateRankingMember[],
+  weights: DateRankingWeights = DEFAULT_DATE_RANKING_WEIGHTS,
+): DateRanking {
+  const requiredMembers = members.filter(member => member.required && member.active !== false);
+
+  const entries = dateOptions.map((option, index) => {
+    const counts = { available: 0, maybe: 0, unavailable: 0, noResponse: 0 };
+    const unavailableNames: string[] = [];
+    const statusByAttendance = new Map<string, ResponseStatus>();
+    let score = 0;
+
+    for (const attendance of attendances) {
+      const response = attendance.responses.find(response => response.dateOptionId === option.id);
+      if (!response) {
+        counts.noResponse += responseHeadcount(attendance, {});
+        continue;
+      }
+      const { status } = response;
+      const heads = responseHeadcount(attendance, response);
+      statusByAttendance.set(attendance.id, status);
+      counts[status] += heads;
+      score += weights[status] * heads;
+      if (status === "unavailable") unavailableNames.push(attendance.name);
+    }
+
+    // 出欠を登録していない必須参加者は未回答として扱う（候補から外さない）
+    const requiredUnavailable: string[] = [];
+    const requiredNoResponse: string[] = [];
+    for (const member of requiredMembers) {
+      const status = member.attendanceId ? statusByAttendance.get(member.attendanceId) : undefined;
+      if (status === "unavailable") requiredUnavailable.push(member.displayName);
+      else if (!status) requiredNoResponse.push(member.displayName);
+    }
+
+    const respondents = counts.available + counts.maybe + counts.unavailable;
+    return {
+      index,
+      entry: {
+        dateOptionId: option.id,
+        date: option.date,
+        startTime: option.startTime,
+        endTime: option.endTime,
+        rank: 0,
+        score,
+        counts,
+        disqualified: requiredUnavailable.length > 0,
+        explanations: explain(counts, respondents, unavailableNames, requiredUnavailable, requiredNoResponse),
+      } as DateRankingEntry,
+    };
+  });
+
+  // 候補から外していない日程 → 点数 → 参加可能な人数 → 不参加の少なさ → 候補日の順
+  const compare = (a: DateRankingEntry, b: DateRankingEntry) =>
+    Number(a.disqualified) - Number(b.disqualified) ||
+    b.score - a.score ||
+    b.counts.available - a.counts.available ||
+    a.counts.unavailable - b.counts.unavailable;
+
+  entries.sort((a, b) => compare(a.entry, b.entry) || a.index - b.index);
+
+  const rankings = entries.map(({ entry }) => entry);
+  rankings.forEach((entry, i) => {
+    const previous = rankings[i - 1];
+    entry.rank = previous && compare(previous, entry) === 0 ? previous.rank : i + 1;
+  });
+
+  // 回答が1件もない場合や、すべての日程で必須参加者が参加できない場合はおすすめしない
+  const best = rankings[0];
+  const hasResponses = best && best.counts.available + best.counts.maybe + best.counts.unavailable > 0;
+  const recommended = best && hasResponses && !best.disqualified ? best : undefined;
+
+  return {
+    weights,
+    recommendedDateOptionId: recommended?.dateOptionId ?? null,
+    rankings,
+  };
+}
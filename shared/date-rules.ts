@@ -0,0 +1,97 @@
+import { japaneseHolidayName } from "./jp-holidays";
+
+// 繰り返しルールから候補日を生成する（日付は yyyy-MM-dd、曜日は 0=日曜 〜 6=土曜）
+
+export const MAX_GENERATED_DATES = 60;
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"] as const;
+
+export type DateRule =
+  // 開始日から n 週間、指定した曜日
+  | { kind: "weekly"; weekdays: number[]; startDate: string; weeks: number }
+  // 2つの日付の間の、指定した曜日
+  | { kind: "range"; weekdays: number[]; startDate: string; endDate: string }
+  // 開始日の月から n か月、毎月第 nth 週の曜日（-1 は最終週）
+  | { kind: "monthly"; nth: number; weekday: number; startDate: string; months: number };
+
+export type HolidayMode = "include" | "exclude";
+
+export type GeneratedDate = {
+  date: string;
+  holiday?: string; // 祝日名
+};
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000);
+}
+
+// 月の第 nth 曜日（存在しなければ null）
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): Date | null {
+  if (nth === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  const date = addDays(first, (weekday - first.getUTCDay() + 7) % 7 + (nth - 1) * 7);
+  return date.getUTCMonth() === first.getUTCMonth() ? date : null;
+}
+
+function ruleDates(rule: DateRule): Date[] {
+  const start = parseDate(rule.startDate);
+
+  if (rule.kind === "monthly") {
+    const occurrence = (offset: number) =>
+      nthWeekdayOfMonth(start.getUTCFullYear(), start.getUTCMonth() + offset, rule.weekday, rule.nth);
+    // 開始日の月の該当日が過ぎていれば翌月から数える
+    const first = occurrence(0);
+    const offset = first && first >= start ? 0 : 1;
+    const dates: Date[] = [];
+    for (let i = offset; i < offset + rule.months; i++) {
+      const date = occurrence(i);
+      if (date) dates.push(date);
+    }
+    return dates;
+  }
+
+  const end = rule.kind === "weekly" ? addDays(start, rule.weeks * 7 - 1) : parseDate(rule.endDate);
+  const dates: Date[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (rule.weekdays.includes(date.getUTCDay())) dates.push(date);
+  }
+  return dates;
+}
+
+// ルールを展開する（祝日は除外するか、祝日名を付けて残す）
+export function expandDateRule(rule: DateRule, options: { holidays: HolidayMode }): GeneratedDate[] {
+  const generated: GeneratedDate[] = [];
+  for (const date of ruleDates(rule)) {
+    const key = formatDate(date);
+    const holiday = japaneseHolidayName(key);
+    if (holiday && options.holidays === "exclude") continue;
+    generated.push(holiday ? { date: key, holiday } : { date: key });
+    if (generated.length >= MAX_GENERATED_DATES) break;
+  }
+  return generated;
+}
+
+// ルールの説明文（例: 「毎週 金・土（6週間）」）
+export function describeDateRule(rule: DateRule): string {
+  const weekdays = (days: number[]) =>
+    [...days].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join("・");
+
+  switch (rule.kind) {
+    case "weekly":
+      return `毎週 ${weekdays(rule.weekdays)}（${rule.weeks}週間）`;
+    case "range":
+      return `${rule.startDate} 〜 ${rule.endDate} の ${weekdays(rule.weekdays)}`;
+    case "monthly":
+      return `毎月${rule.nth === -1 ? "最終" : `第${rule.nth}`}${WEEKDAY_LABELS[rule.weekday]}曜日（${rule.months}か月）`;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isDueForAutoFinalize, isResponseClosed } from "./deadline";
+
+const deadline = new Date("2026-10-01T12:00:00Z");
+const afterDeadline = new Date("2026-10-01T12:01:00Z");
+
+const pending = { autoFinalize: true, selectedDate: null, responseDeadline: deadline };
+
+describe("isResponseClosed", () => {
+  it("締切の時刻から回答を締め切る", () => {
+    assert.equal(isResponseClosed(pending, new Date("2026-10-01T11:59:59Z")), false);
+    assert.equal(isResponseClosed(pending, deadline), true);
+    assert.equal(isResponseClosed({ responseDeadline: deadline.toISOString() }, afterDeadline), true);
+  });
+
+  it("締切がなければ締め切らない", () => {
+    assert.equal(isResponseClosed({ responseDeadline: null }, afterDeadline), false);
+  });
+});
+
+describe("isDueForAutoFinalize", () => {
+  it("自動確定の設定があり、締切を過ぎた未確定のイベントが対象", () => {
+    assert.equal(isDueForAutoFinalize(pending, afterDeadline), true);
+    assert.equal(isDueForAutoFinalize(pending, new Date("2026-10-01T11:00:00Z")), false);
+    assert.equal(isDueForAutoFinalize({ ...pending, autoFinalize: false }, afterDeadline), false);
+    assert.equal(isDueForAutoFinalize({ ...pending, responseDeadline: null }, afterDeadline), false);
+  });
+
+  it("自動確定した日程を解除した後は再び自動確定しない", () => {
+    // 自動確定（autoFinalizeDueEvents）で日程を決め、自動確定の設定を外す
+    const finalized = { ...pending, autoFinalize: false, selectedDate: "2026-10-10" };
+    assert.equal(isDueForAutoFinalize(finalized, afterDeadline), false);
+
+    // 主催者が確定を解除（cancel-finalization）しても、締切後のまま対象に戻らない
+    const cancelled = { ...finalized, autoFinalize: false, selectedDate: null };
+    assert.equal(isDueForAutoFinalize(cancelled, new Date("2026-10-02T00:00:00Z")), false);
+  });
+});
@@ -0,0 +1,18 @@
+import type { Event } from "./schema";
+
+// 出欠の回答締切を過ぎているか（締切が未設定なら常に受け付ける）
+// JSON で受け取ったイベントでは日時が文字列になるため、どちらも扱えるようにする
+export function isResponseClosed(
+  event: { responseDeadline: Event["responseDeadline"] | string },
+  now: Date = new Date(),
+): boolean {
+  return !!event.responseDeadline && new Date(event.responseDeadline).getTime() <= now.getTime();
+}
+
+// 回答締切を過ぎて自動確定の対象になるか（自動確定の設定があり、日程が未確定のイベント）
+export function isDueForAutoFinalize(
+  event: Pick<Event, "autoFinalize" | "selectedDate"> & { responseDeadline: Event["responseDeadline"] | string },
+  now: Date = new Date(),
+): boolean {
+  return !!event.autoFinalize && !event.selectedDate && isResponseClosed(event, now);
+}
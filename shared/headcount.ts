@@ -0,0 +1,17 @@
+import type { Attendance } from "./schema";
+
+export const MAX_GUESTS = 20; // 1人が連れてこられる同伴者の上限
+
+// 人数の計算に必要な出欠の項目
+export type HeadcountAttendance = Partial<Pick<Attendance, "guestCount">>;
+export type HeadcountResponse = { guestCount?: number | null };
+
+// 出欠1件あたりの人数（本人 + 同伴者）
+export function attendanceHeadcount(attendance: HeadcountAttendance): number {
+  return 1 + (attendance.guestCount || 0);
+}
+
+// 候補日ごとの人数（日によって同伴者の人数が違う場合は回答の値を使う）
+export function responseHeadcount(attendance: HeadcountAttendance, response: HeadcountResponse): number {
+  return 1 + (response.guestCount ?? attendance.guestCount ?? 0);
+}
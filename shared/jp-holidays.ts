@@ -0,0 +1,113 @@
+// 日本の祝日（「国民の祝日に関する法律」に基づき年ごとに計算する、外部APIは使わない）
+// 2007年以降の規定（振替休日・国民の休日を含む）に対応する
+// 春分・秋分の日は国立天文台の暦要項と同じ近似式で求める（2099年まで有効）
+
+export const HOLIDAY_TABLE_MIN_YEAR = 2007;
+export const HOLIDAY_TABLE_MAX_YEAR = 2099;
+
+function dateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// 第n月曜日（ハッピーマンデー）
+function nthMonday(year: number, month: number, nth: number): number {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((8 - firstWeekday) % 7) + (nth - 1) * 7;
+}
+
+function vernalEquinoxDay(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function autumnalEquinoxDay(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+// 法律で日付が決まっている祝日（振替休日・国民の休日を除く）
+function statutoryHolidays(year: number): [string, string][] {
+  const holidays: [number, number, string][] = [
+    [1, 1, "元日"],
+    [1, nthMonday(year, 1, 2), "成人の日"],
+    [2, 11, "建国記念の日"],
+    [3, vernalEquinoxDay(year), "春分の日"],
+    [4, 29, "昭和の日"],
+    [5, 3, "憲法記念日"],
+    [5, 4, "みどりの日"],
+    [5, 5, "こどもの日"],
+    [9, nthMonday(year, 9, 3), "敬老の日"],
+    [9, autumnalEquinoxDay(year), "秋分の日"],
+    [11, 3, "文化の日"],
+    [11, 23, "勤労感謝の日"],
+  ];
+
+  if (year >= 2020) holidays.push([2, 23, "天皇誕生日"]);
+  else if (year <= 2018) holidays.push([12, 23, "天皇誕生日"]);
+
+  // 東京オリンピック・パラリンピックの年は海の日・山の日・スポーツの日を移動した
+  if (year === 2020) {
+    holidays.push([7, 23, "海の日"], [7, 24, "スポーツの日"], [8, 10, "山の日"]);
+  } else if (year === 2021) {
+    holidays.push([7, 22, "海の日"], [7, 23, "スポーツの日"], [8, 8, "山の日"]);
+  } else {
+    holidays.push([7, nthMonday(year, 7, 3), "海の日"]);
+    holidays.push([10, nthMonday(year, 10, 2), year >= 2020 ? "スポーツの日" : "体育の日"]);
+    if (year >= 2016) holidays.push([8, 11, "山の日"]);
+  }
+
+  // 天皇の即位に伴う祝日
+  if (year === 2019) {
+    holidays.push([5, 1, "天皇の即位の日"], [10, 22, "即位礼正殿の儀の行われる日"]);
+  }
+
+  return holidays.map(([month, day, name]) => [dateKey(year, month, day), name]);
+}
+
+const cache = new Map<number, Map<string, string>>();
+
+// その年の祝日（yyyy-MM-dd -> 祝日名）
+export function getJapaneseHolidays(year: number): Map<string, string> {
+  const cached = cache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  if (year < HOLIDAY_TABLE_MIN_YEAR || year > HOLIDAY_TABLE_MAX_YEAR) {
+    cache.set(year, holidays);
+    return holidays;
+  }
+
+  for (const [date, name] of statutoryHolidays(year)) {
+    holidays.set(date, name);
+  }
+
+  const day = new Date(Date.UTC(year, 0, 1));
+  const end = new Date(Date.UTC(year, 11, 31));
+  const keyOf = (d: Date) => d.toISOString().slice(0, 10);
+  const shifted = (d: Date, days: number) => new Date(d.getTime() + days * 86400000);
+
+  for (; day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+    const key = keyOf(day);
+    if (holidays.has(key)) continue;
+
+    // 国民の休日: 前日と翌日が祝日の平日
+    if (holidays.has(keyOf(shifted(day, -1))) && holidays.has(keyOf(shifted(day, 1))) && day.getUTCDay() !== 0) {
+      holidays.set(key, "国民の休日");
+    }
+  }
+
+  // 振替休日: 日曜日の祝日の後の、最初の祝日でない日
+  for (const date of Array.from(holidays.keys()).sort()) {
+    const holiday = new Date(`${date}T00:00:00Z`);
+    if (holiday.getUTCDay() !== 0) continue;
+    let substitute = shifted(holiday, 1);
+    while (holidays.has(keyOf(substitute))) substitute = shifted(substitute, 1);
+    if (substitute.getUTCFullYear() === year) holidays.set(keyOf(substitute), "振替休日");
+  }
+
+  cache.set(year, holidays);
+  return holidays;
+}
+
+// 祝日名（祝日でなければ undefined）
+export function japaneseHolidayName(date: string): string | undefined {
+  return getJapaneseHolidays(Number(date.slice(0, 4))).get(date);
+}
@@ -0,0 +1,28 @@
+// イベントごとのリアルタイム更新チャンネルで送る変更通知
+export const LIVE_CHANGE_TYPES = [
+  "event-updated", // タイトル・候補日などの変更
+  "event-deleted",
+  "event-finalized", // 日程の確定・確定の取り消し
+  "attendance-updated", // 出欠の登録・変更・削除
+  "expense-added",
+  "expense-updated",
+  "expense-deleted",
+  "payment-updated", // 送金記録の追加・取り消し
+  "exchange-rates-updated", // 基準通貨・為替レートの変更
+  "memo-updated",
+  "memo-typing", // メモの入力中の表示の変更
+  "memo-item-checked", // メモのチェック項目のチェック
+  "comment-added",
+  "comment-deleted",
+] as const;
+
+export type LiveChangeType = (typeof LIVE_CHANGE_TYPES)[number];
+
+export type LiveChange = {
+  type: LiveChangeType;
+  eventId: string;
+  by?: string; // 変更した人（わかる場合）
+};
+
+// チャンネルのパス（/api/events/:id/live）
+export const livePath = (eventId: string) => `/api/events/${eventId}/live`;
@@ -0,0 +1,128 @@
+// メモの簡易記法（Markdown の一部）
+// # 見出し / - 箇条書き / - [ ] チェック項目 @担当者 / [表示名](URL)、URL は自動でリンクにする
+// チェック項目のチェックはメモ本文とは別に保存する（本文の [x] は別途チェックされるまでの初期状態）
+
+export type MemoInline =
+  | { type: "text"; text: string }
+  | { type: "link"; text: string; url: string };
+
+export type MemoBlock =
+  | { type: "heading"; level: 1 | 2 | 3; content: MemoInline[] }
+  | { type: "bullet"; content: MemoInline[] }
+  | { type: "check"; item: MemoCheckItem; content: MemoInline[] }
+  | { type: "text"; content: MemoInline[] }; // 空行は content が空
+
+export type MemoCheckItem = {
+  key: string; // 項目の識別子（担当者を除いた本文、同じ本文が複数あるときは "#2" などを付ける）
+  label: string; // 担当者を除いた本文
+  assignee: string | null; // 「@名前」で指定した担当者
+  checked: boolean; // 本文の [x]
+};
+
+// 保存されたチェック（本文の [ ] / [x] より優先する）
+export type MemoItemCheckState = {
+  itemKey: string;
+  checked: boolean;
+  checkedBy: string;
+  updatedAt: Date | string;
+};
+
+export type MemoChecklistItem = MemoCheckItem & {
+  checkedBy: string | null; // 最後にチェックを変更した人
+  checkedAt: string | null;
+};
+
+// 担当者ごとの持ち物（担当者が未定の項目は assignee: null）
+export type MemoAssignment = {
+  assignee: string | null;
+  items: MemoChecklistItem[];
+};
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const CHECK_PATTERN = /^\s*[-*]\s+\[( |x|X)\]\s*(.*)$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const ASSIGNEE_PATTERN = /(?:^|\s)[@＠]([^\s@＠]+)\s*$/;
+const INLINE_LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s]+)/g;
+
+// 行内のリンク（[表示名](URL) と URL そのもの）
+export function parseMemoInline(text: string): MemoInline[] {
+  const inline: MemoInline[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(INLINE_LINK_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > last) inline.push({ type: "text", text: text.slice(last, index) });
+    if (match[3]) {
+      inline.push({ type: "link", text: match[3], url: match[3] });
+    } else {
+      inline.push({ type: "link", text: match[1], url: match[2] });
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) inline.push({ type: "text", text: text.slice(last) });
+  return inline;
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ");
+}
+
+export function parseMemo(memo: string): MemoBlock[] {
+  if (!memo) return [];
+
+  const seen = new Map<string, number>();
+  return memo.split("\n").map((line): MemoBlock => {
+    const check = line.match(CHECK_PATTERN);
+    if (check) {
+      const assignee = check[2].match(ASSIGNEE_PATTERN);
+      const label = normalizeLabel(assignee ? check[2].slice(0, assignee.index) : check[2]);
+      const count = (seen.get(label) ?? 0) + 1;
+      seen.set(label, count);
+      return {
+        type: "check",
+        item: {
+          key: count === 1 ? label : `${label}#${count}`,
+          label,
+          assignee: assignee ? assignee[1] : null,
+          checked: check[1] !== " ",
+        },
+        content: parseMemoInline(label),
+      };
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      return { type: "heading", level: heading[1].length as 1 | 2 | 3, content: parseMemoInline(heading[2]) };
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) return { type: "bullet", content: parseMemoInline(bullet[1]) };
+
+    return { type: "text", content: parseMemoInline(line) };
+  });
+}
+
+// メモのチェック項目と保存されたチェックを合わせる
+export function memoChecklist(memo: string, checks: MemoItemCheckState[]): MemoChecklistItem[] {
+  const checksByKey = new Map(checks.map(check => [check.itemKey, check]));
+  return parseMemo(memo).flatMap(block => {
+    if (block.type !== "check") return [];
+    const check = checksByKey.get(block.item.key);
+    return [{
+      ...block.item,
+      checked: check ? check.checked : block.item.checked,
+      checkedBy: check ? check.checkedBy : null,
+      checkedAt: check ? new Date(check.updatedAt).toISOString() : null,
+    }];
+  });
+}
+
+// 担当者ごとにまとめる（メモに出てきた順、担当者未定は最後）
+export function summarizeMemoAssignments(items: MemoChecklistItem[]): MemoAssignment[] {
+  const byAssignee = new Map<string | null, MemoChecklistItem[]>();
+  items.forEach(item => {
+    byAssignee.set(item.assignee, [...(byAssignee.get(item.assignee) ?? []), item]);
+  });
+  return Array.from(byAssignee.entries())
+    .sort(([a], [b]) => Number(a === null) - Number(b === null))
+    .map(([assignee, assigneeItems]) => ({ assignee, items: assigneeItems }));
+}
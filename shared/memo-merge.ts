@@ -0,0 +1,137 @@
+// メモの差分と3方向マージ（行単位）
+// マージは、編集を始めた時点のメモ（base）に対する自分の変更（mine）と他の参加者が保存した変更（theirs）をまとめる
+
+export type MemoMergeChunk =
+  | { type: "ok"; lines: string[] } // 変更がないか、片方だけが変更した部分
+  | { type: "conflict"; base: string[]; mine: string[]; theirs: string[] }; // 両方が別々に変更した部分
+
+export type MemoMerge = {
+  chunks: MemoMergeChunk[];
+  conflicts: number;
+};
+
+// 衝突した部分の解決方法
+export type MemoConflictResolution = "mine" | "theirs" | "both";
+
+// 2つの版の行ごとの差分
+export type MemoDiffLine = {
+  type: "same" | "added" | "removed";
+  line: string;
+};
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// 最長共通部分列で対応する行（a の行番号 -> b の行番号）
+function matchLines(a: string[], b: string[]): Map<number, number> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+// before から after への行ごとの差分（削除した行は追加した行より前に並べる）
+export function diffMemo(before: string, after: string): MemoDiffLine[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const matches = matchLines(beforeLines, afterLines);
+
+  const diff: MemoDiffLine[] = [];
+  let j = 0;
+  beforeLines.forEach((line, i) => {
+    const matched = matches.get(i);
+    if (matched === undefined) {
+      diff.push({ type: "removed", line });
+      return;
+    }
+    while (j < matched) diff.push({ type: "added", line: afterLines[j++] });
+    diff.push({ type: "same", line });
+    j++;
+  });
+  while (j < afterLines.length) diff.push({ type: "added", line: afterLines[j++] });
+  return diff;
+}
+
+export function mergeMemo(base: string, mine: string, theirs: string): MemoMerge {
+  const baseLines = splitLines(base);
+  const mineLines = splitLines(mine);
+  const theirLines = splitLines(theirs);
+  const toMine = matchLines(baseLines, mineLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const chunks: MemoMergeChunk[] = [];
+  const pushOk = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "ok") last.lines.push(...lines);
+    else chunks.push({ type: "ok", lines: [...lines] });
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  for (;;) {
+    // 3つとも同じ行が残っている位置までを1つの区間として比べる
+    let stable = i;
+    while (stable < baseLines.length && !(toMine.has(stable) && toTheirs.has(stable))) stable++;
+    const mineEnd = stable < baseLines.length ? toMine.get(stable)! : mineLines.length;
+    const theirEnd = stable < baseLines.length ? toTheirs.get(stable)! : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, stable);
+    const mineChunk = mineLines.slice(j, mineEnd);
+    const theirChunk = theirLines.slice(k, theirEnd);
+
+    if (sameLines(mineChunk, theirChunk) || sameLines(theirChunk, baseChunk)) {
+      pushOk(mineChunk);
+    } else if (sameLines(mineChunk, baseChunk)) {
+      pushOk(theirChunk);
+    } else {
+      chunks.push({ type: "conflict", base: baseChunk, mine: mineChunk, theirs: theirChunk });
+    }
+
+    if (stable >= baseLines.length) break;
+    pushOk([baseLines[stable]]);
+    i = stable + 1;
+    j = mineEnd + 1;
+    k = theirEnd + 1;
+  }
+
+  return { chunks, conflicts: chunks.filter(chunk => chunk.type === "conflict").length };
+}
+
+// 衝突ごとの解決方法を適用したメモ（未指定の衝突は他の参加者の変更を残す）
+export function resolveMemoMerge(merge: MemoMerge, resolutions: MemoConflictResolution[] = []): string {
+  let conflictIndex = 0;
+  return merge.chunks
+    .flatMap(chunk => {
+      if (chunk.type === "ok") return chunk.lines;
+      const resolution = resolutions[conflictIndex++] ?? "theirs";
+      if (resolution === "mine") return chunk.mine;
+      if (resolution === "theirs") return chunk.theirs;
+      return [...chunk.theirs, ...chunk.mine];
+    })
+    .join("\n");
+}
@@ -1,6 +1,8 @@
 import { pgTable, text, serial, timestamp, integer, boolean, numeric, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { SPLIT_MODES, type SplitMode, type SplitShares } from "./split";
+import { POLL_TYPES, type PollType, type SlotGrid } from "./slot-grid";
 
 // Events table
 export const events = pgTable("events", {
@@ -15,11 +17,18 @@ export const events = pgTable("events", {
   defaultStartTime: text("default_start_time"),
   defaultEndTime: text("default_end_time"),
   participantsCount: integer("participants_count").default(0),
-  participants: text("participants").array(), // 精算機能で追加された参加者リスト
   memo: text("memo"), // イベントメモ
   memoLastEditedBy: text("memo_last_edited_by"), // メモ最終編集者名
   memoLastEditedAt: text("memo_last_edited_at"), // メモ最終編集日時
-  memoEditLock: jsonb("memo_edit_lock") // ロック情報（JSON形式）
+  memoRevision: integer("memo_revision").default(0).notNull(), // メモを保存するたびに増える版番号
+  memoEditLock: jsonb("memo_edit_lock"), // 入力中の参加者（JSON形式、他の参加者への目安で編集は妨げない）
+  baseCurrency: text("base_currency").default("JPY").notNull(), // 精算の基準通貨
+  calendarSequence: integer("calendar_sequence").default(0).notNull(), // カレンダー（.ics）の更新番号、日程の確定・取り消しで増やす
+  pollType: text("poll_type").$type<PollType>().default("dates").notNull(), // 日程調整の方式
+  slotGrid: jsonb("slot_grid").$type<SlotGrid>(), // 時間帯グリッドの設定（pollType が slots の場合）
+  responseDeadline: timestamp("response_deadline"), // 出欠の回答締切（未設定なら締め切らない）
+  autoFinalize: boolean("auto_finalize").default(false).notNull(), // 締切後に最も参加しやすい日程で自動確定する
+  guestsInSplit: boolean("guests_in_split").default(false).notNull(), // 全員割り勘で同伴者の分も連れてきた人が負担する
 });
 
 // Date options table
@@ -36,6 +45,8 @@ export const attendances = pgTable("attendances", {
   id: text("id").primaryKey().notNull(),
   eventId: text("event_id").notNull().references(() => events.id),
   name: text("name").notNull(),
+  note: text("note"), // 全体への一言（例: 遅れて参加します）
+  guestCount: integer("guest_count").default(0).notNull(), // 同伴者の人数（本人を除く）
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -45,22 +56,197 @@ export const attendanceResponses = pgTable("attendance_responses", {
   attendanceId: text("attendance_id").notNull().references(() => attendances.id),
   dateOptionId: text("date_option_id").notNull().references(() => dateOptions.id),
   status: text("status").notNull(), // 'available', 'maybe', 'unavailable'
+  comment: text("comment"), // 候補日ごとの補足（例: 20時以降なら参加できます）
+  guestCount: integer("guest_count"), // この日の同伴者の人数（未設定なら出欠の同伴者の人数）
+});
+
+// メンバーの登録元
+// - creator: イベント作成者
+// - attendee: 出欠を登録した参加者
+// - manual: 精算画面などで手動で追加した参加者
+export const MEMBER_SOURCES = ["creator", "attendee", "manual"] as const;
+export type MemberSource = (typeof MEMBER_SOURCES)[number];
+
+// Event members table（イベントの参加者名簿、参加者の唯一の情報源）
+export const eventMembers = pgTable("event_members", {
+  id: text("id").primaryKey().notNull(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  displayName: text("display_name").notNull(), // 表示名
+  source: text("source").$type<MemberSource>().notNull(), // 登録元
+  attendanceId: text("attendance_id").references(() => attendances.id), // 出欠から登録された場合の出欠ID
+  active: boolean("active").default(true).notNull(), // 名簿から外した場合は false（支払いの記録は残す）
+  required: boolean("required").default(false).notNull(), // 必須参加者（この人が参加できない日程はおすすめしない）
+  mergedIntoId: text("merged_into_id"), // 統合先のメンバーID（統合元の参加用リンクは統合先として扱う）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Expenses table
 export const expenses = pgTable("expenses", {
   id: text("id").primaryKey().notNull(),
   eventId: text("event_id").notNull().references(() => events.id),
-  payerName: text("payer_name").notNull(),
+  payerId: text("payer_id").notNull().references(() => eventMembers.id), // 支払者のメンバーID
   description: text("description").notNull(),
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
-  participants: text("participants").array().default([]).notNull(), // 割り勘対象者の配列
-  isSharedWithAll: boolean("is_shared_with_all").default(false), // 全員割り勘フラグ
+  currency: text("currency").default("JPY").notNull(), // 支払いの通貨
+  participantIds: text("participant_ids").array().default([]).notNull(), // 割り勘対象者のメンバーID
+  isSharedWithAll: boolean("is_shared_with_all").default(false), // 全員割り勘フラグ（名簿の全員で分ける）
+  splitMode: text("split_mode").$type<SplitMode>().default("equal").notNull(), // 分割方法
+  splitShares: jsonb("split_shares").$type<SplitShares>(), // メンバーIDごとの比率・金額・割合
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// 変更履歴に記録する支払いの項目
+export const EXPENSE_CHANGE_FIELDS = [
+  "payerId",
+  "description",
+  "amount",
+  "currency",
+  "participantIds",
+  "splitMode",
+  "splitShares",
+] as const;
+
+// Expense revisions table（支払いの変更履歴）
+export const expenseRevisions = pgTable("expense_revisions", {
+  id: serial("id").primaryKey(),
+  expenseId: text("expense_id").notNull().references(() => expenses.id),
+  eventId: text("event_id").notNull().references(() => events.id),
+  editorName: text("editor_name").notNull(), // 変更した人
+  action: text("action").$type<"create" | "update">().notNull(), // 作成 or 変更
+  changes: jsonb("changes").$type<ExpenseChange[]>().default([]).notNull(), // 変更内容
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Expense attachments table（支払いのレシート画像、画像本体は blob-store に保存する）
+export const expenseAttachments = pgTable("expense_attachments", {
+  id: text("id").primaryKey().notNull(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  expenseId: text("expense_id").notNull().references(() => expenses.id),
+  fileName: text("file_name").notNull(), // アップロードしたときのファイル名
+  contentType: text("content_type").notNull(), // 元の画像の形式（image/jpeg など）
+  size: integer("size").notNull(), // 元の画像のバイト数
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  uploadedBy: text("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Memo revisions table（メモの保存履歴、保存するたびに1行）
+export const memoRevisions = pgTable("memo_revisions", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  revision: integer("revision").notNull(), // 保存後の版番号（events.memo_revision）
+  memo: text("memo").notNull(), // 保存したメモ全文
+  editorName: text("editor_name").notNull(), // 保存した人
+  restoredFrom: integer("restored_from"), // 過去の版から復元した場合はその版番号
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Memo item checks table（メモのチェック項目のチェック、本文の編集とは別に保存する）
+export const memoItemChecks = pgTable("memo_item_checks", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  itemKey: text("item_key").notNull(), // 項目の識別子（shared/memo-blocks.ts）
+  checked: boolean("checked").notNull(),
+  checkedBy: text("checked_by").notNull(), // 最後にチェックを変更した人
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Event comments table（イベントごとの話し合い、追記のみで削除は削除日時を記録する）
+export const eventComments = pgTable("event_comments", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  authorName: text("author_name").notNull(),
+  authorMemberId: text("author_member_id"), // 名簿のメンバーID（わかる場合、削除できる人の確認に使う）
+  body: text("body").notNull(),
+  // 候補日・支払いへのコメント（対象が削除されてもコメントは残すため外部キーにしない）
+  dateOptionId: text("date_option_id"),
+  expenseId: text("expense_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
+});
+
+// Exchange rates table（イベントごとの為替レート、主催者が手入力）
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  currency: text("currency").notNull(), // 換算元の通貨
+  rate: numeric("rate", { precision: 18, scale: 6 }).notNull(), // 1単位あたりの基準通貨額
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Settlement payments table（精算の送金記録、一部支払いも記録できる）
+export const settlementPayments = pgTable("settlement_payments", {
+  id: text("id").primaryKey().notNull(),
+  eventId: text("event_id").notNull().references(() => events.id),
+  fromMemberId: text("from_member_id").notNull().references(() => eventMembers.id), // 送金した人
+  toMemberId: text("to_member_id").notNull().references(() => eventMembers.id), // 受け取った人
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("JPY").notNull(), // 送金の通貨
+  note: text("note"), // メモ（例: PayPayで送金）
+  recordedBy: text("recorded_by"), // 記録した人
+  paidAt: timestamp("paid_at").defaultNow().notNull(), // 送金日時
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Calendar feeds table（参加しているイベントをまとめたカレンダー購読用フィード、IDが購読URLの鍵を兼ねる）
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: text("id").primaryKey().notNull(),
+  memberIds: text("member_ids").array().default([]).notNull(), // 登録しているイベントごとのメンバーID
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Profiles table（ブラウザに紐付く軽量なプロフィール、IDはセッションにだけ保存し、別の端末へは復元コードで引き継ぐ）
+export const profiles = pgTable("profiles", {
+  id: text("id").primaryKey().notNull(),
+  recoveryCode: text("recovery_code").notNull().unique(), // 復元コード（例: ABCD-EFGH-JKLM-NPQR）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Profile events table（プロフィールが作成・参加したイベントと、そのイベントでの役割）
+export const profileEvents = pgTable("profile_events", {
+  id: serial("id").primaryKey(),
+  profileId: text("profile_id").notNull().references(() => profiles.id),
+  eventId: text("event_id").notNull().references(() => events.id),
+  identity: jsonb("identity").$type<EventIdentity>().notNull(), // 復元時にこのブラウザを認証し直すための役割
+  hidden: boolean("hidden").default(false).notNull(), // 一覧から削除した
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Event templates table（主催者が保存した予定のひな形、プロフィールごとに管理する）
+export const eventTemplates = pgTable("event_templates", {
+  id: text("id").primaryKey().notNull(),
+  ownerKey: text("owner_key").notNull(), // 保存した主催者のプロフィールID
+  name: text("name").notNull(), // テンプレート名（例: 月例飲み会）
+  title: text("title").notNull(),
+  description: text("description"),
+  defaultStartTime: text("default_start_time").notNull(),
+  defaultEndTime: text("default_end_time").notNull(),
+  memo: text("memo"),
+  participants: text("participants").array().default([]).notNull(), // 参加予定者の名前
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Slot availabilities table（時間帯グリッドで参加できるコマ、出欠ごとに1行）
+export const slotAvailabilities = pgTable("slot_availabilities", {
+  attendanceId: text("attendance_id").primaryKey().notNull().references(() => attendances.id),
+  eventId: text("event_id").notNull().references(() => events.id),
+  slots: text("slots").array().default([]).notNull(), // 参加できるコマの開始日時（yyyy-MM-ddTHH:mm）
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Insert schemas
-export const insertEventSchema = createInsertSchema(events).omit({
+export const insertEventSchema = createInsertSchema(events, {
+  pollType: z.enum(POLL_TYPES).optional(),
+  slotGrid: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+    dayStartTime: z.string(),
+    dayEndTime: z.string(),
+    durationMinutes: z.number(),
+  }).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -78,28 +264,122 @@ export const insertAttendanceResponseSchema = createInsertSchema(attendanceRespo
   id: true,
 });
 
-export const insertExpenseSchema = createInsertSchema(expenses).omit({
+export const insertEventMemberSchema = createInsertSchema(eventMembers, {
+  source: z.enum(MEMBER_SOURCES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExpenseSchema = createInsertSchema(expenses, {
+  splitMode: z.enum(SPLIT_MODES).optional(),
+  splitShares: z.record(z.number()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExpenseRevisionSchema = createInsertSchema(expenseRevisions, {
+  action: z.enum(["create", "update"]),
+  changes: z.array(z.object({
+    field: z.enum(EXPENSE_CHANGE_FIELDS),
+    before: z.unknown(),
+    after: z.unknown(),
+  })).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExpenseAttachmentSchema = createInsertSchema(expenseAttachments).omit({
+  createdAt: true,
+});
+
+export const insertMemoRevisionSchema = createInsertSchema(memoRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMemoItemCheckSchema = createInsertSchema(memoItemChecks).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertEventCommentSchema = createInsertSchema(eventComments).omit({
+  id: true,
+  createdAt: true,
+  deletedAt: true,
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertSettlementPaymentSchema = createInsertSchema(settlementPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSlotAvailabilitySchema = createInsertSchema(slotAvailabilities).omit({
+  updatedAt: true,
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertEventTemplateSchema = createInsertSchema(eventTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProfileSchema = createInsertSchema(profiles).omit({
+  createdAt: true,
+});
+
+export const insertProfileEventSchema = createInsertSchema(profileEvents, {
+  identity: z.object({
+    role: z.enum(["organizer", "participant"]),
+    name: z.string(),
+    attendanceId: z.string().optional(),
+    memberId: z.string().optional(),
+  }),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
 // Type definitions
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type InsertDateOption = z.infer<typeof insertDateOptionSchema>;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
 export type InsertAttendanceResponse = z.infer<typeof insertAttendanceResponseSchema>;
+export type InsertEventMember = z.infer<typeof insertEventMemberSchema>;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type InsertExpenseRevision = z.infer<typeof insertExpenseRevisionSchema>;
+export type InsertExpenseAttachment = z.infer<typeof insertExpenseAttachmentSchema>;
+export type InsertMemoRevision = z.infer<typeof insertMemoRevisionSchema>;
+export type InsertMemoItemCheck = z.infer<typeof insertMemoItemCheckSchema>;
+export type InsertEventComment = z.infer<typeof insertEventCommentSchema>;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type InsertSettlementPayment = z.infer<typeof insertSettlementPaymentSchema>;
+export type InsertSlotAvailability = z.infer<typeof insertSlotAvailabilitySchema>;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type InsertEventTemplate = z.infer<typeof insertEventTemplateSchema>;
+export type InsertProfile = z.infer<typeof insertProfileSchema>;
+export type InsertProfileEvent = z.infer<typeof insertProfileEventSchema>;
 
 export type Event = typeof events.$inferSelect & {
   dateOptions: DateOption[];
-  participants?: string[]; // 精算機能で追加された参加者リスト
   memo?: string; // イベントメモ
   memoLastEditedBy?: string; // メモ最終編集者名
   memoLastEditedAt?: string; // メモ最終編集日時
   memoEditLock?: {
-    lockedBy: string; // ロックを取得したユーザー名
-    lockedAt: string; // ロック取得時間
-    lockExpiration: string; // ロック有効期限
+    lockedBy: string; // 入力中のユーザー名
+    lockedAt: string; // 入力を始めた時間
+    lockExpiration: string; // 入力中の表示の有効期限
   };
 };
 
@@ -107,14 +387,66 @@ export type DateOption = typeof dateOptions.$inferSelect;
 export type Attendance = typeof attendances.$inferSelect & {
   responses: (typeof attendanceResponses.$inferSelect & { status: 'available' | 'maybe' | 'unavailable' })[];
 };
-export type Expense = typeof expenses.$inferSelect & {
-  participants?: string[]; // 参加者リスト（この支出の割り勘対象者）
-  isSharedWithAll?: boolean; // 全員割り勘フラグ
-};
+export type EventMember = typeof eventMembers.$inferSelect;
+export type Expense = typeof expenses.$inferSelect;
+
+export type ExpenseRevision = typeof expenseRevisions.$inferSelect;
+export type ExpenseAttachment = typeof expenseAttachments.$inferSelect;
+export type MemoRevision = typeof memoRevisions.$inferSelect;
+export type MemoItemCheck = typeof memoItemChecks.$inferSelect;
+export type EventComment = typeof eventComments.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type SettlementPayment = typeof settlementPayments.$inferSelect;
+export type SlotAvailability = typeof slotAvailabilities.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type EventTemplate = typeof eventTemplates.$inferSelect;
+export type Profile = typeof profiles.$inferSelect;
+export type ProfileEvent = typeof profileEvents.$inferSelect;
 
 // Additional types for the application
+// 支払いの変更内容（項目ごとの変更前・変更後の値）
+export type ExpenseChange = {
+  field: (typeof EXPENSE_CHANGE_FIELDS)[number];
+  before?: unknown;
+  after?: unknown;
+};
+
+// 名前の変更・統合のプレビュー（メンバーを参照している支払いと送金記録の件数）
+export type MemberReferences = {
+  expenses: (Pick<Expense, "id" | "description" | "amount" | "currency"> & {
+    asPayer: boolean; // 支払者として参照
+    asParticipant: boolean; // 割り勘対象者・負担の内訳として参照
+  })[];
+  paymentCount: number;
+};
+
+// プロフィールが作成したイベント（主催者）と参加したイベント（新しく認証した順）
+export type MyEvents = {
+  created: Event[];
+  joined: Event[];
+};
+
+// カレンダー（.ics）の予定から提案する候補日ごとの出欠
+export type AttendanceSuggestion = {
+  dateOptionId: string;
+  status: "available" | "maybe" | "unavailable";
+  conflicts: { summary: string; start: string; end: string }[]; // 提案の理由になった予定（ISO 8601）
+};
+
 export type Settlement = {
-  from: string;
-  to: string;
+  from: string; // 送金する人のメンバーID
+  to: string; // 受け取る人のメンバーID
   amount: number;
 };
+
+// イベントごとの役割
+// - organizer: 主催者（作成時に発行される主催者用リンクで認証）
+// - participant: 参加者（出欠登録時に発行される参加用リンクで認証）
+export type EventRole = "organizer" | "participant";
+
+export type EventIdentity = {
+  role: EventRole;
+  name: string; // 参加者名（主催者の場合は作成者名）
+  attendanceId?: string;
+  memberId?: string; // 名簿のメンバーID
+};
@@ -0,0 +1,217 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateSettlements,
+  isMemberInSettlement,
+  MAX_EXACT_SETTLEMENT_PARTICIPANTS,
+  settleBalances,
+  type SettlementExpense,
+  type SettlementMember,
+} from "./settlement";
+
+const members = (...ids: string[]): SettlementMember[] => ids.map(id => ({ id, displayName: id.toUpperCase() }));
+
+const expense = (payerId: string, amount: number, participantIds: string[] = [], currency?: string): SettlementExpense => ({
+  payerId,
+  amount: String(amount),
+  participantIds,
+  isSharedWithAll: participantIds.length === 0,
+  currency,
+});
+
+// 同額の精算指示の順序は問わない
+const byPayer = <T extends { from: string }>(items: T[]): T[] => [...items].sort((a, b) => a.from.localeCompare(b.from));
+
+describe("calculateSettlements", () => {
+  describe("端数の処理", () => {
+    it("割り切れない円は先頭の人から1円ずつ多く負担する", () => {
+      const result = calculateSettlements([expense("a", 1000)], members("a", "b", "c"));
+
+      assert.deepEqual(
+        result.balances.map(b => [b.memberId, b.owed, b.net]),
+        [["a", 334, 666], ["b", 333, -333], ["c", 333, -333]],
+      );
+      assert.deepEqual(byPayer(result.settlements), [
+        { from: "b", to: "a", amount: 333 },
+        { from: "c", to: "a", amount: 333 },
+      ]);
+    });
+
+    it("補助単位のある通貨はセント単位で配分する", () => {
+      const result = calculateSettlements([expense("a", 10, [], "USD")], members("a", "b", "c"), { baseCurrency: "USD" });
+
+      assert.deepEqual(result.balances.map(b => b.owed), [3.34, 3.33, 3.33]);
+      assert.deepEqual(result.settlements.map(s => s.amount), [3.33, 3.33]);
+    });
+
+    it("外貨の支払いは換算してから配分し、合計が支払額と一致する", () => {
+      const result = calculateSettlements(
+        [expense("a", 10, [], "USD")],
+        members("a", "b", "c"),
+        { rates: { USD: 150.5 } },
+      );
+
+      const owed = result.balances.map(b => b.owed);
+      assert.equal(owed.reduce((sum, value) => sum + value, 0), 1505);
+      assert.deepEqual(owed, [502, 502, 501]);
+      assert.deepEqual(result.rates, [{ currency: "USD", rate: 150.5 }]);
+    });
+  });
+
+  describe("収支が0の参加者", () => {
+    it("支払いがなければ精算指示はない", () => {
+      const result = calculateSettlements([], members("a", "b"));
+
+      assert.deepEqual(result.settlements, []);
+      assert.deepEqual(result.transfers, []);
+      assert.ok(result.balances.every(b => b.net === 0));
+    });
+
+    it("割り勘の対象外の人は精算指示に含まれない", () => {
+      const result = calculateSettlements([expense("a", 2000, ["a", "b"])], members("a", "b", "c"));
+
+      assert.deepEqual(result.balances.find(b => b.memberId === "c"), {
+        memberId: "c",
+        name: "C",
+        paid: 0,
+        owed: 0,
+        sent: 0,
+        received: 0,
+        net: 0,
+      });
+      assert.deepEqual(result.settlements, [{ from: "b", to: "a", amount: 1000 }]);
+    });
+
+    it("自分の分だけを払った人は精算指示に含まれない", () => {
+      const result = calculateSettlements(
+        [expense("a", 3000), expense("b", 1000, ["b"])],
+        members("a", "b", "c"),
+      );
+
+      assert.deepEqual(byPayer(result.settlements), [
+        { from: "b", to: "a", amount: 1000 },
+        { from: "c", to: "a", amount: 1000 },
+      ]);
+    });
+  });
+
+  describe("1人が立て替えた場合", () => {
+    it("他の全員がその人に1回ずつ送金する", () => {
+      const result = calculateSettlements([expense("a", 5000)], members("a", "b", "c", "d", "e"));
+
+      assert.deepEqual(byPayer(result.settlements), [
+        { from: "b", to: "a", amount: 1000 },
+        { from: "c", to: "a", amount: 1000 },
+        { from: "d", to: "a", amount: 1000 },
+        { from: "e", to: "a", amount: 1000 },
+      ]);
+      assert.ok(result.transfers.every(t => t.status === "pending" && t.remaining === 1000));
+    });
+
+    it("greedy でも同じ送金になる", () => {
+      const result = calculateSettlements([expense("a", 5000)], members("a", "b", "c", "d", "e"), { strategy: "greedy" });
+
+      assert.equal(result.strategy, "greedy");
+      assert.equal(result.settlements.length, 4);
+      assert.ok(result.settlements.every(s => s.to === "a" && s.amount === 1000));
+    });
+  });
+
+  describe("送金回数の最小化", () => {
+    // +4 / -4 と +9 / -6 / -3 の2つのグループに分ければ3回で済むが、
+    // 大きい順に突き合わせると +9 と -6 の後に端数が残って4回になる
+    const balances = [
+      { memberId: "a", net: 9000 },
+      { memberId: "b", net: 4000 },
+      { memberId: "c", net: -6000 },
+      { memberId: "d", net: -4000 },
+      { memberId: "e", net: -3000 },
+    ];
+
+    it("収支0のグループに分けて greedy より少ない回数で精算する", () => {
+      const greedy = settleBalances(balances, "greedy");
+      const exact = settleBalances(balances, "minTransfers");
+
+      assert.equal(greedy.settlements.length, 4);
+      assert.equal(exact.strategy, "minTransfers");
+      assert.deepEqual(byPayer(exact.settlements), [
+        { from: "c", to: "a", amount: 6000 },
+        { from: "d", to: "b", amount: 4000 },
+        { from: "e", to: "a", amount: 3000 },
+      ]);
+    });
+
+    it("人数が多すぎる場合は greedy に切り替え、全員の収支を0にする", () => {
+      const ids = Array.from({ length: MAX_EXACT_SETTLEMENT_PARTICIPANTS + 1 }, (_, i) => `m${i}`);
+      // 全員の支払額を変えて、収支が0の人がいないようにする
+      const expenses = ids.map((id, i) => expense(id, (i + 1) * 1700));
+
+      const result = calculateSettlements(expenses, members(...ids));
+
+      assert.equal(result.strategy, "greedy");
+      assert.ok(result.balances.every(b => b.net !== 0));
+      const remaining = new Map(result.balances.map(b => [b.memberId, b.net]));
+      for (const s of result.settlements) {
+        remaining.set(s.from, remaining.get(s.from)! + s.amount);
+        remaining.set(s.to, remaining.get(s.to)! - s.amount);
+      }
+      assert.ok([...remaining.values()].every(net => net === 0));
+      assert.ok(result.settlements.length < ids.length);
+    });
+  });
+
+  describe("精算済みのイベント", () => {
+    it("すべて送金済みなら残りの精算指示はなく、送金は支払い済みになる", () => {
+      const result = calculateSettlements([expense("a", 3000)], members("a", "b", "c"), {
+        payments: [
+          { fromMemberId: "b", toMemberId: "a", amount: "1000" },
+          { fromMemberId: "c", toMemberId: "a", amount: "1000" },
+        ],
+      });
+
+      assert.deepEqual(result.settlements, []);
+      assert.ok(result.balances.every(b => b.net === 0));
+      assert.deepEqual(byPayer(result.transfers), [
+        { from: "b", to: "a", amount: 1000, paid: 1000, remaining: 0, status: "settled" },
+        { from: "c", to: "a", amount: 1000, paid: 1000, remaining: 0, status: "settled" },
+      ]);
+    });
+
+    it("一部だけ送金した場合は残りの額を一部支払いとして示す", () => {
+      const result = calculateSettlements([expense("a", 3000)], members("a", "b", "c"), {
+        payments: [{ fromMemberId: "b", toMemberId: "a", amount: "400" }],
+      });
+
+      assert.deepEqual(byPayer(result.transfers), [
+        { from: "b", to: "a", amount: 1000, paid: 400, remaining: 600, status: "partial" },
+        { from: "c", to: "a", amount: 1000, paid: 0, remaining: 1000, status: "pending" },
+      ]);
+    });
+  });
+});
+
+describe("isMemberInSettlement", () => {
+  it("対象者が1人だけの支払いの対象者は精算に関わる", () => {
+    // 名簿から外して対象者が空になると、全員割り勘として扱われてしまう
+    const expenses = [expense("a", 1000, ["b"])];
+
+    assert.equal(isMemberInSettlement("b", expenses, []), true);
+    assert.deepEqual(
+      calculateSettlements([{ ...expenses[0], participantIds: [] }], members("a", "b", "c")).balances.map(b => b.owed),
+      [334, 333, 333],
+    );
+  });
+
+  it("支払者・負担の指定・送金記録に含まれるメンバーは精算に関わる", () => {
+    const shares: SettlementExpense = { ...expense("a", 1000, ["a"]), splitMode: "weights", splitShares: { a: 1, c: 1 } };
+
+    assert.equal(isMemberInSettlement("a", [expense("a", 1000)], []), true);
+    assert.equal(isMemberInSettlement("c", [shares], []), true);
+    assert.equal(isMemberInSettlement("d", [], [{ fromMemberId: "d", toMemberId: "a", amount: "500" }]), true);
+    assert.equal(isMemberInSettlement("d", [], [{ fromMemberId: "a", toMemberId: "d", amount: "500" }]), true);
+  });
+
+  it("全員割り勘の支払いだけなら精算に関わらない", () => {
+    assert.equal(isMemberInSettlement("b", [expense("a", 1000), expense("c", 500, ["a", "c"])], []), false);
+  });
+});
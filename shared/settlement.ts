@@ -0,0 +1,413 @@
+import type { EventMember, Expense, Settlement, SettlementPayment } from "./schema";
+import { allocateShares, apportion } from "./split";
+import { DEFAULT_CURRENCY, fromMinorUnits, rateFor, toMinorUnits, type ExchangeRates } from "./currency";
+
+// 精算アルゴリズムの種類
+// - greedy: 支払額の多い人から受取額の多い人へ順に割り当てる（従来方式）
+// - minTransfers: 収支が0になるグループを最大化し、送金回数を最小にする厳密解
+export type SettlementStrategy = "greedy" | "minTransfers";
+
+// 厳密解を計算する最大人数（これを超える場合は greedy にフォールバック）
+export const MAX_EXACT_SETTLEMENT_PARTICIPANTS = 15;
+
+// 参加者ごとの収支
+export type BalanceEntry = {
+  memberId: string;
+  name: string; // 表示名
+  paid: number; // 支払った合計
+  owed: number; // 負担すべき合計
+  sent: number; // 精算で送金済みの合計
+  received: number; // 精算で受取済みの合計
+  net: number; // 残りの差額（+なら受取、-なら支払）
+};
+
+// 送金の状態
+// - pending: 未払い
+// - partial: 一部支払い済み
+// - settled: 支払い済み
+export type SettlementStatus = "pending" | "partial" | "settled";
+
+// 送金記録を反映した精算指示
+export type SettlementTransfer = Settlement & {
+  paid: number; // 記録済みの送金額
+  remaining: number; // 残りの送金額
+  status: SettlementStatus;
+};
+
+export type SettlementResult = {
+  settlements: Settlement[]; // 残りの精算指示
+  transfers: SettlementTransfer[]; // 送金記録を含む精算指示
+  balances: BalanceEntry[];
+  strategy: SettlementStrategy; // 実際に使用したアルゴリズム
+  baseCurrency: string; // 精算に使用した基準通貨
+  rates: { currency: string; rate: number }[]; // 換算に使用したレート
+  members: Record<string, string>; // メンバーID -> 表示名（精算指示の表示用）
+};
+
+export type CurrencyOptions = {
+  baseCurrency?: string; // 基準通貨（省略時は日本円）
+  rates?: ExchangeRates; // 通貨ごとの基準通貨への換算レート
+};
+
+// 精算計算に必要な名簿の項目（名簿から外したメンバーは全員割り勘の対象にしない）
+// guestCount は出欠で回答した同伴者の人数（guestsInSplit の場合に全員割り勘の口数に加える）
+export type SettlementMember = Pick<EventMember, "id" | "displayName"> & Partial<Pick<EventMember, "active">> & {
+  guestCount?: number;
+};
+
+// 精算計算に必要な支出の項目
+export type SettlementExpense = Pick<Expense, "payerId" | "amount" | "participantIds" | "isSharedWithAll"> &
+  Partial<Pick<Expense, "splitMode" | "splitShares" | "currency">>;
+
+// 精算計算に必要な送金記録の項目
+export type SettlementPaymentInput = Pick<SettlementPayment, "fromMemberId" | "toMemberId" | "amount"> &
+  Partial<Pick<SettlementPayment, "currency">>;
+
+export type BalanceOptions = CurrencyOptions & {
+  payments?: SettlementPaymentInput[]; // 記録済みの送金（収支から差し引く）
+  guestsInSplit?: boolean; // 全員割り勘の均等割りで、同伴者の分を連れてきた人の口数に加える
+};
+
+export type SettlementOptions = BalanceOptions & {
+  strategy?: SettlementStrategy;
+};
+
+// 金額を基準通貨の補助単位（整数）に換算
+function toBaseMinorUnits(
+  item: { amount: string | number; currency?: string | null },
+  baseCurrency: string,
+  rates: ExchangeRates,
+): number {
+  const currency = item.currency || baseCurrency;
+  const rate = rateFor(currency, baseCurrency, rates);
+  if (rate === undefined) {
+    throw new Error(`為替レートが設定されていません: ${currency}`);
+  }
+  const amount = typeof item.amount === "number" ? item.amount : parseFloat(item.amount) || 0;
+  return toMinorUnits(amount * rate, baseCurrency);
+}
+
+// 名簿で有効なメンバーのID（全員割り勘の対象）
+export function activeMemberIds(members: SettlementMember[]): string[] {
+  return members.filter(member => member.active !== false).map(member => member.id);
+}
+
+// 精算対象となる全員（有効なメンバー + 支払者 + 割り勘対象者）のメンバーID
+export function collectParticipants(expenses: SettlementExpense[], members: SettlementMember[]): string[] {
+  const ids = new Set<string>(activeMemberIds(members));
+
+  for (const expense of expenses) {
+    ids.add(expense.payerId);
+    expense.participantIds?.forEach(id => {
+      if (id) ids.add(id);
+    });
+    Object.keys(expense.splitShares || {}).forEach(id => ids.add(id));
+  }
+
+  return Array.from(ids);
+}
+
+// 全員割り勘の支出か（全員割り勘フラグがある場合、または対象者が未指定の場合）
+export function isSharedWithEveryone(expense: SettlementExpense): boolean {
+  return expense.isSharedWithAll === true || !expense.participantIds || expense.participantIds.length === 0;
+}
+
+// 精算に関わるメンバーか（支払者・割り勘の対象者・負担の指定・送金記録のいずれか）
+// 全員割り勘の支出は名簿から外せば対象から外れるので含めない
+export function isMemberInSettlement(
+  memberId: string,
+  expenses: SettlementExpense[],
+  payments: SettlementPaymentInput[],
+): boolean {
+  return expenses.some(expense =>
+    expense.payerId === memberId
+    || (!isSharedWithEveryone(expense) && expense.participantIds.includes(memberId))
+    || (!!expense.splitShares && memberId in expense.splitShares)
+  ) || payments.some(payment => payment.fromMemberId === memberId || payment.toMemberId === memberId);
+}
+
+// 支出を分担するメンバーを決定
+// 全員割り勘の支出は名簿の有効なメンバー全員で分ける
+export function resolveSplitParticipants(expense: SettlementExpense, everyone: string[]): string[] {
+  if (isSharedWithEveryone(expense)) {
+    return [...everyone];
+  }
+  return Array.from(new Set(expense.participantIds));
+}
+
+// メンバーID -> 表示名（名簿にないIDはそのまま表示）
+function memberNames(members: SettlementMember[]): Record<string, string> {
+  return Object.fromEntries(members.map(member => [member.id, member.displayName]));
+}
+
+// 参加者ごとの支払額・負担額・差額を計算（基準通貨の補助単位）
+function calculateMinorBalances(
+  expenses: SettlementExpense[],
+  members: SettlementMember[],
+  baseCurrency: string,
+  rates: ExchangeRates,
+  payments: SettlementPaymentInput[],
+  guestsInSplit: boolean,
+): BalanceEntry[] {
+  const names = memberNames(members);
+  const guests = Object.fromEntries(members.map(member => [member.id, member.guestCount || 0]));
+  const everyone = collectParticipants(expenses, members);
+  // 全員割り勘は名簿の有効なメンバーで分ける
+  const sharedWithAll = activeMemberIds(members);
+  const sheet = new Map<string, BalanceEntry>();
+  const entryFor = (memberId: string) => {
+    if (!sheet.has(memberId)) {
+      sheet.set(memberId, { memberId, name: names[memberId] ?? memberId, paid: 0, owed: 0, sent: 0, received: 0, net: 0 });
+    }
+    return sheet.get(memberId)!;
+  };
+  everyone.forEach(entryFor);
+
+  for (const expense of expenses) {
+    const amount = toBaseMinorUnits(expense, baseCurrency, rates);
+    entryFor(expense.payerId).paid += amount;
+
+    // 分割方法に従って負担額を配分（均等割りの端数は先頭から1円ずつ追加）
+    const splitParticipants = resolveSplitParticipants(expense, sharedWithAll.length > 0 ? sharedWithAll : everyone);
+    const splitMode = expense.splitMode || "equal";
+    // 全員割り勘の均等割りは、同伴者の分も連れてきた人が負担する（設定した場合のみ）
+    const shares = guestsInSplit && splitMode === "equal" && isSharedWithEveryone(expense)
+      ? apportion(amount, splitParticipants.map(memberId => [memberId, 1 + (guests[memberId] || 0)]))
+      : allocateShares(amount, splitMode, splitParticipants, expense.splitShares);
+
+    shares.forEach((share, memberId) => {
+      entryFor(memberId).owed += share;
+    });
+  }
+
+  // 送金済みの額は、送った人の支払い・受け取った人の受取として相殺する
+  for (const payment of payments) {
+    const amount = toBaseMinorUnits(payment, baseCurrency, rates);
+    entryFor(payment.fromMemberId).sent += amount;
+    entryFor(payment.toMemberId).received += amount;
+  }
+
+  return Array.from(sheet.values()).map(entry => ({
+    ...entry,
+    net: entry.paid - entry.owed + entry.sent - entry.received,
+  }));
+}
+
+function toMajorBalance(entry: BalanceEntry, currency: string): BalanceEntry {
+  return {
+    memberId: entry.memberId,
+    name: entry.name,
+    paid: fromMinorUnits(entry.paid, currency),
+    owed: fromMinorUnits(entry.owed, currency),
+    sent: fromMinorUnits(entry.sent, currency),
+    received: fromMinorUnits(entry.received, currency),
+    net: fromMinorUnits(entry.net, currency),
+  };
+}
+
+// 参加者ごとの支払額・負担額・差額を計算（基準通貨）
+export function calculateBalances(
+  expenses: SettlementExpense[],
+  members: SettlementMember[],
+  options: BalanceOptions = {},
+): BalanceEntry[] {
+  const baseCurrency = options.baseCurrency || DEFAULT_CURRENCY;
+  return calculateMinorBalances(expenses, members, baseCurrency, options.rates || {}, options.payments || [], !!options.guestsInSplit)
+    .map(entry => toMajorBalance(entry, baseCurrency));
+}
+
+type Position = { memberId: string; amount: number };
+
+// 支払額の多い人から受取額の多い人へ順に割り当てる
+function settleGreedy(positions: Position[]): Settlement[] {
+  const receivers = positions
+    .filter(p => p.amount > 0)
+    .map(p => ({ ...p }))
+    .sort((a, b) => b.amount - a.amount);
+  const payers = positions
+    .filter(p => p.amount < 0)
+    .map(p => ({ memberId: p.memberId, amount: -p.amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const settlements: Settlement[] = [];
+
+  while (payers.length > 0 && receivers.length > 0) {
+    const payer = payers[0];
+    const receiver = receivers[0];
+    const paymentAmount = Math.min(payer.amount, receiver.amount);
+
+    settlements.push({ from: payer.memberId, to: receiver.memberId, amount: paymentAmount });
+
+    payer.amount -= paymentAmount;
+    receiver.amount -= paymentAmount;
+
+    if (payer.amount <= 0) payers.shift();
+    if (receiver.amount <= 0) receivers.shift();
+  }
+
+  return settlements;
+}
+
+// 収支が0になる部分集合に分割できる最大数を求め、グループ内で精算する
+// n人をkグループに分けると送金回数は n - k 回になる
+function settleMinTransfers(positions: Position[]): Settlement[] {
+  const n = positions.length;
+  const size = 1 << n;
+
+  // 各部分集合の収支合計
+  const sums = new Float64Array(size);
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = mask & -mask;
+    sums[mask] = sums[mask ^ lowest] + positions[31 - Math.clz32(lowest)].amount;
+  }
+
+  // dp[mask]: maskを収支0のグループに分割できる最大数
+  const dp = new Int8Array(size);
+  for (let mask = 1; mask < size; mask++) {
+    let best = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) {
+        best = Math.max(best, dp[mask ^ (1 << i)]);
+      }
+    }
+    dp[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // 最適な追加順序を復元し、収支が0になる区切りでグループを作る
+  const order: number[] = [];
+  let mask = size - 1;
+  while (mask) {
+    const gain = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < n; i++) {
+      if ((mask & (1 << i)) && dp[mask ^ (1 << i)] + gain === dp[mask]) {
+        order.push(i);
+        mask ^= 1 << i;
+        break;
+      }
+    }
+  }
+  order.reverse();
+
+  const settlements: Settlement[] = [];
+  let group: Position[] = [];
+  let groupSum = 0;
+  for (const index of order) {
+    group.push(positions[index]);
+    groupSum += positions[index].amount;
+    if (groupSum === 0) {
+      settlements.push(...settleGreedy(group));
+      group = [];
+    }
+  }
+  if (group.length > 0) {
+    settlements.push(...settleGreedy(group));
+  }
+
+  return settlements;
+}
+
+// 収支表（補助単位の整数）から精算指示を作成
+function settleMinorBalances(
+  balances: Pick<BalanceEntry, "memberId" | "net">[],
+  strategy: SettlementStrategy,
+): { settlements: Settlement[]; strategy: SettlementStrategy } {
+  const positions = balances
+    .filter(b => b.net !== 0)
+    .map(b => ({ memberId: b.memberId, amount: b.net }));
+
+  if (strategy === "minTransfers" && positions.length <= MAX_EXACT_SETTLEMENT_PARTICIPANTS) {
+    return { settlements: settleMinTransfers(positions), strategy };
+  }
+  return { settlements: settleGreedy(positions), strategy: "greedy" };
+}
+
+// 収支表から精算指示を作成
+export function settleBalances(
+  balances: Pick<BalanceEntry, "memberId" | "net">[],
+  strategy: SettlementStrategy = "minTransfers",
+  currency: string = DEFAULT_CURRENCY,
+): { settlements: Settlement[]; strategy: SettlementStrategy } {
+  const minorBalances = balances.map(b => ({ memberId: b.memberId, net: toMinorUnits(b.net, currency) }));
+  const result = settleMinorBalances(minorBalances, strategy);
+  return {
+    settlements: result.settlements.map(s => ({ ...s, amount: fromMinorUnits(s.amount, currency) })),
+    strategy: result.strategy,
+  };
+}
+
+// 残りの精算指示に送金記録を突き合わせ、送金ごとの状態を付ける
+// 同じ送金元・送金先の記録があれば一部支払い、残りが無ければ支払い済みとする
+function annotateTransfers(
+  settlements: Settlement[],
+  payments: SettlementPaymentInput[],
+  baseCurrency: string,
+  rates: ExchangeRates,
+): SettlementTransfer[] {
+  const key = (from: string, to: string) => JSON.stringify([from, to]);
+  const paidByPair = new Map<string, Settlement>();
+  for (const payment of payments) {
+    const pairKey = key(payment.fromMemberId, payment.toMemberId);
+    const pair = paidByPair.get(pairKey) || { from: payment.fromMemberId, to: payment.toMemberId, amount: 0 };
+    pair.amount += toBaseMinorUnits(payment, baseCurrency, rates);
+    paidByPair.set(pairKey, pair);
+  }
+
+  const transfers: SettlementTransfer[] = settlements.map(settlement => {
+    const pairKey = key(settlement.from, settlement.to);
+    const paid = paidByPair.get(pairKey)?.amount || 0;
+    paidByPair.delete(pairKey);
+    return {
+      ...settlement,
+      amount: settlement.amount + paid,
+      paid,
+      remaining: settlement.amount,
+      status: paid > 0 ? "partial" : "pending",
+    };
+  });
+
+  paidByPair.forEach(pair => {
+    if (pair.amount > 0) {
+      transfers.push({ ...pair, paid: pair.amount, remaining: 0, status: "settled" });
+    }
+  });
+
+  return transfers;
+}
+
+// 支出と参加者名簿から精算結果を計算（精算指示の送金元・送金先はメンバーID）
+// 外貨の支出は options.rates で基準通貨に換算する（レートが無い通貨があるとエラー）
+// options.payments の送金記録は収支に反映し、残りの精算指示のみを計算する
+export function calculateSettlements(
+  expenses: SettlementExpense[],
+  members: SettlementMember[],
+  options: SettlementOptions = {},
+): SettlementResult {
+  const baseCurrency = options.baseCurrency || DEFAULT_CURRENCY;
+  const rates = options.rates || {};
+  const payments = options.payments || [];
+
+  const minorBalances = calculateMinorBalances(expenses, members, baseCurrency, rates, payments, !!options.guestsInSplit);
+  const { settlements, strategy } = settleMinorBalances(minorBalances, options.strategy || "minTransfers");
+  const transfers = annotateTransfers(settlements, payments, baseCurrency, rates);
+
+  // 実際に換算に使用したレート
+  const usedCurrencies = Array.from(new Set([
+    ...expenses.map(e => e.currency || baseCurrency),
+    ...payments.map(p => p.currency || baseCurrency),
+  ])).filter(currency => currency !== baseCurrency);
+
+  return {
+    settlements: settlements.map(s => ({ ...s, amount: fromMinorUnits(s.amount, baseCurrency) })),
+    transfers: transfers.map(t => ({
+      ...t,
+      amount: fromMinorUnits(t.amount, baseCurrency),
+      paid: fromMinorUnits(t.paid, baseCurrency),
+      remaining: fromMinorUnits(t.remaining, baseCurrency),
+    })),
+    balances: minorBalances.map(entry => toMajorBalance(entry, baseCurrency)),
+    strategy,
+    baseCurrency,
+    rates: usedCurrencies.map(currency => ({ currency, rate: rates[currency]! })),
+    members: Object.fromEntries(minorBalances.map(entry => [entry.memberId, entry.name])),
+  };
+}
@@ -0,0 +1,184 @@
+// 日程調整の方式
+// - dates: 候補日ごとに ◯△× で回答する（従来方式）
+// - slots: 期間と1日の時間帯を決め、参加者が30分単位のコマで参加できる時間を塗る
+export const POLL_TYPES = ["dates", "slots"] as const;
+export type PollType = typeof POLL_TYPES[number];
+
+export const SLOT_MINUTES = 30; // 1コマの長さ
+export const MAX_SLOT_GRID_DAYS = 14; // グリッドにできる最大日数
+
+// 時間帯グリッドの設定
+export type SlotGrid = {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd（この日を含む）
+  dayStartTime: string; // HH:mm
+  dayEndTime: string; // HH:mm（この時刻に終わるコマまで）
+  durationMinutes: number; // 開催時間（確定する時間帯の長さ）
+};
+
+// 参加者ごとの参加できるコマ
+export type SlotAvailabilityEntry = {
+  name: string;
+  slots: string[]; // コマの開始日時（yyyy-MM-ddTHH:mm）
+};
+
+// 連続したコマをまとめた時間帯
+export type SlotBlock = {
+  date: string;
+  startTime: string;
+  endTime: string;
+  available: string[]; // 時間帯のすべてのコマに参加できる人
+};
+
+// 時間帯グリッドの回答状況（GET /api/events/:id/slots）
+export type SlotPollResult = {
+  grid: SlotGrid;
+  availabilities: (SlotAvailabilityEntry & { attendanceId: string })[];
+  counts: Record<string, number>; // コマごとの参加できる人数
+  bestBlock: SlotBlock | null; // 開催時間ぶん通して参加できる人が最も多い時間帯
+};
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function slotKey(date: string, time: string): string {
+  return `${date}T${time}`;
+}
+
+// グリッドの日付（開始日から終了日まで）
+export function slotGridDates(grid: SlotGrid): string[] {
+  const dates: string[] = [];
+  const day = new Date(`${grid.startDate}T00:00:00Z`);
+  const end = new Date(`${grid.endDate}T00:00:00Z`);
+  while (day <= end && dates.length < MAX_SLOT_GRID_DAYS) {
+    dates.push(day.toISOString().slice(0, 10));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// 1日のコマの開始時刻
+export function slotGridTimes(grid: SlotGrid): string[] {
+  const times: string[] = [];
+  for (let minutes = timeToMinutes(grid.dayStartTime); minutes < timeToMinutes(grid.dayEndTime); minutes += SLOT_MINUTES) {
+    times.push(minutesToTime(minutes));
+  }
+  return times;
+}
+
+export function slotGridKeys(grid: SlotGrid): string[] {
+  const times = slotGridTimes(grid);
+  return slotGridDates(grid).flatMap(date => times.map(time => slotKey(date, time)));
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isSlotAligned(time: string): boolean {
+  return TIME_PATTERN.test(time) && timeToMinutes(time) % SLOT_MINUTES === 0;
+}
+
+// グリッドの設定を検証し、問題があればエラーメッセージを返す
+export function validateSlotGrid(grid: SlotGrid): string | null {
+  if (!DATE_PATTERN.test(grid.startDate) || !DATE_PATTERN.test(grid.endDate) ||
+      isNaN(Date.parse(grid.startDate)) || isNaN(Date.parse(grid.endDate))) {
+    return "期間の日付が正しくありません";
+  }
+  if (grid.endDate < grid.startDate) {
+    return "期間の終了日は開始日以降にしてください";
+  }
+  const days = (Date.parse(grid.endDate) - Date.parse(grid.startDate)) / 86400000 + 1;
+  if (days > MAX_SLOT_GRID_DAYS) {
+    return `期間は${MAX_SLOT_GRID_DAYS}日以内にしてください`;
+  }
+  if (!isSlotAligned(grid.dayStartTime) || !isSlotAligned(grid.dayEndTime)) {
+    return `時間帯は${SLOT_MINUTES}分単位で指定してください`;
+  }
+  const dayMinutes = timeToMinutes(grid.dayEndTime) - timeToMinutes(grid.dayStartTime);
+  if (dayMinutes <= 0) {
+    return "時間帯の終了時刻は開始時刻より後にしてください";
+  }
+  if (grid.durationMinutes <= 0 || grid.durationMinutes % SLOT_MINUTES !== 0) {
+    return `開催時間は${SLOT_MINUTES}分単位で指定してください`;
+  }
+  if (grid.durationMinutes > dayMinutes) {
+    return "開催時間が1日の時間帯より長くなっています";
+  }
+  return null;
+}
+
+// 時間帯がグリッド内の連続したコマに収まっているか検証し、問題があればエラーメッセージを返す
+export function validateSlotBlock(grid: SlotGrid, block: Pick<SlotBlock, "date" | "startTime" | "endTime">): string | null {
+  if (!slotGridDates(grid).includes(block.date)) {
+    return "グリッドの期間外の日付です";
+  }
+  if (!isSlotAligned(block.startTime) || !isSlotAligned(block.endTime)) {
+    return `時間は${SLOT_MINUTES}分単位で指定してください`;
+  }
+  const start = timeToMinutes(block.startTime);
+  const end = timeToMinutes(block.endTime);
+  if (end <= start) {
+    return "終了時刻は開始時刻より後にしてください";
+  }
+  if (start < timeToMinutes(grid.dayStartTime) || end > timeToMinutes(grid.dayEndTime)) {
+    return "グリッドの時間帯の外です";
+  }
+  return null;
+}
+
+// コマごとの参加できる人数（ヒートマップ用）
+export function countSlots(availabilities: SlotAvailabilityEntry[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const availability of availabilities) {
+    for (const key of availability.slots) {
+      counts[key] = (counts[key] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// 時間帯のすべてのコマに参加できる人
+export function blockAvailability(
+  availabilities: SlotAvailabilityEntry[],
+  date: string,
+  startTime: string,
+  durationMinutes: number,
+): string[] {
+  const start = timeToMinutes(startTime);
+  const keys: string[] = [];
+  for (let minutes = start; minutes < start + durationMinutes; minutes += SLOT_MINUTES) {
+    keys.push(slotKey(date, minutesToTime(minutes)));
+  }
+  return availabilities
+    .filter(availability => keys.every(key => availability.slots.includes(key)))
+    .map(availability => availability.name);
+}
+
+// 開催時間ぶん連続したコマのうち、通して参加できる人が最も多い時間帯（同数なら早い方）
+// 誰も参加できない場合は null
+export function findBestSlotBlock(
+  grid: SlotGrid,
+  availabilities: SlotAvailabilityEntry[],
+  durationMinutes: number = grid.durationMinutes,
+): SlotBlock | null {
+  const lastStart = timeToMinutes(grid.dayEndTime) - durationMinutes;
+  let best: SlotBlock | null = null;
+
+  for (const date of slotGridDates(grid)) {
+    for (let start = timeToMinutes(grid.dayStartTime); start <= lastStart; start += SLOT_MINUTES) {
+      const startTime = minutesToTime(start);
+      const available = blockAvailability(availabilities, date, startTime, durationMinutes);
+      if (available.length > (best?.available.length ?? 0)) {
+        best = { date, startTime, endTime: minutesToTime(start + durationMinutes), available };
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { allocateShares, apportion, validateSplit } from "./split";
+
+const sum = (shares: Map<string, number>) => Array.from(shares.values()).reduce((total, value) => total + value, 0);
+
+describe("apportion", () => {
+  it("端数は小数部分の大きい人から1ずつ配分する", () => {
+    const shares = apportion(100, [["a", 1], ["b", 2]]);
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 33, b: 67 });
+  });
+
+  it("小数部分が同じなら先頭の人から配分する", () => {
+    const shares = apportion(1000, [["a", 1], ["b", 1], ["c", 1]]);
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 334, b: 333, c: 333 });
+  });
+
+  it("配分の合計は常に合計金額と一致する", () => {
+    const weights: [string, number][] = [["a", 1], ["b", 0.5], ["c", 0.5], ["d", 1.5]];
+    for (const total of [1, 7, 999, 1001, 12345]) {
+      assert.equal(sum(apportion(total, weights)), total, `合計 ${total}`);
+    }
+  });
+
+  it("比率の合計が0なら配分しない", () => {
+    assert.equal(apportion(1000, [["a", 0], ["b", 0]]).size, 0);
+    assert.equal(apportion(1000, []).size, 0);
+  });
+});
+
+describe("allocateShares", () => {
+  it("均等割りは割り勘の参加者で分ける", () => {
+    const shares = allocateShares(1000, "equal", ["a", "b", "c"], { a: 5 });
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 334, b: 333, c: 333 });
+  });
+
+  it("比率が0の人は負担しない", () => {
+    const shares = allocateShares(3000, "weights", ["a", "b", "c"], { a: 1, b: 0, c: 0.5 });
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 2000, c: 1000 });
+  });
+
+  it("金額指定は指定額どおりに配分する", () => {
+    const shares = allocateShares(1000, "exact", [], { a: 701, b: 299, c: 0 });
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 701, b: 299 });
+  });
+
+  it("割合は最大剰余方式で円単位に丸める", () => {
+    const shares = allocateShares(1000, "percent", [], { a: 33.3, b: 33.3, c: 33.4 });
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 333, b: 333, c: 334 });
+    assert.equal(sum(shares), 1000);
+  });
+
+  it("割合で割り切れない端数も合計金額に収まる", () => {
+    const shares = allocateShares(100, "percent", [], { a: 50, b: 25, c: 25 });
+    const odd = allocateShares(101, "percent", [], { a: 50, b: 25, c: 25 });
+
+    assert.deepEqual(Object.fromEntries(shares), { a: 50, b: 25, c: 25 });
+    assert.deepEqual(Object.fromEntries(odd), { a: 51, b: 25, c: 25 });
+  });
+});
+
+describe("validateSplit", () => {
+  it("均等割りは検証しない", () => {
+    assert.equal(validateSplit(1000, "equal", null), null);
+  });
+
+  it("割合の合計が100%でなければエラー", () => {
+    assert.equal(validateSplit(1000, "percent", { a: 50, b: 49 }), "割合の合計（99%）が100%になっていません");
+    assert.equal(validateSplit(1000, "percent", { a: 50, b: 51 }), "割合の合計（101%）が100%になっていません");
+    assert.equal(validateSplit(1000, "percent", { a: 33.3, b: 33.3, c: 33.4 }), null);
+  });
+
+  it("金額指定の合計が支払額と一致しなければエラー", () => {
+    assert.equal(validateSplit(1000, "exact", { a: 500, b: 499 }), "金額指定の合計（999）が支払額（1000）と一致しません");
+    assert.equal(validateSplit(1000, "exact", { a: 500, b: 500 }), null);
+  });
+
+  it("全員が0なら負担する参加者がいないのでエラー", () => {
+    assert.equal(validateSplit(1000, "weights", { a: 0, b: 0 }), "負担する参加者を1人以上指定してください");
+    assert.equal(validateSplit(1000, "weights", {}), "負担する参加者を1人以上指定してください");
+    assert.equal(validateSplit(1000, "weights", null), "負担する参加者を1人以上指定してください");
+  });
+
+  it("0の人がいても他の人が負担すれば有効", () => {
+    assert.equal(validateSplit(1000, "weights", { a: 1, b: 0 }), null);
+    assert.equal(validateSplit(1000, "percent", { a: 100, b: 0 }), null);
+  });
+
+  it("負の値や数値でない値はエラー", () => {
+    assert.equal(validateSplit(1000, "weights", { a: 1, b: -1 }), "負担の指定には0以上の数値を入力してください");
+    assert.equal(validateSplit(1000, "weights", { a: 1, b: Number.NaN }), "負担の指定には0以上の数値を入力してください");
+  });
+});
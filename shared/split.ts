@@ -0,0 +1,93 @@
+// 支出の分割方法
+// - equal: 均等割り
+// - weights: 比率（口数）で分割（例: 子供は0.5）
+// - exact: 一人ずつ金額を指定
+// - percent: 一人ずつ割合(%)を指定
+export const SPLIT_MODES = ["equal", "weights", "exact", "percent"] as const;
+export type SplitMode = typeof SPLIT_MODES[number];
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: "均等",
+  weights: "比率",
+  exact: "金額指定",
+  percent: "割合",
+};
+
+// 参加者名 -> 比率・金額・割合
+export type SplitShares = Record<string, number>;
+
+// 比率に応じて合計金額を整数で配分する（最大剰余方式）
+// 端数は小数部分の大きい順、同じ場合は先頭から1ずつ配分する
+export function apportion(total: number, weights: [string, number][]): Map<string, number> {
+  const result = new Map<string, number>();
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight <= 0) return result;
+
+  const entries = weights.map(([name, weight], index) => {
+    const exact = (total * weight) / totalWeight;
+    const base = Math.floor(exact);
+    result.set(name, (result.get(name) || 0) + base);
+    return { name, index, fraction: exact - base };
+  });
+
+  let remainder = total - Array.from(result.values()).reduce((sum, value) => sum + value, 0);
+  const byFraction = [...entries].sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const entry of byFraction) {
+    if (remainder <= 0) break;
+    result.set(entry.name, result.get(entry.name)! + 1);
+    remainder--;
+  }
+
+  return result;
+}
+
+// 分割方法に応じた各参加者の負担額を計算
+// equal の場合は splitParticipants で均等に分け、それ以外は splitShares に従う
+export function allocateShares(
+  amount: number,
+  splitMode: SplitMode,
+  splitParticipants: string[],
+  splitShares?: SplitShares | null,
+): Map<string, number> {
+  if (splitMode === "equal" || !splitShares) {
+    return apportion(amount, splitParticipants.map(name => [name, 1]));
+  }
+
+  // 比率・割合はそのまま比率として配分する
+  // 金額指定も合計が支払額と一致している前提なので、同じ配分で指定額どおりになる
+  const weights = Object.entries(splitShares).filter(([, value]) => value > 0);
+  return apportion(amount, weights);
+}
+
+// 分割方法で負担する参加者（比率などが0より大きい人）
+export function shareParticipants(splitShares: SplitShares): string[] {
+  return Object.entries(splitShares)
+    .filter(([, value]) => value > 0)
+    .map(([name]) => name);
+}
+
+// 分割方法の入力内容を検証し、エラーがあればメッセージを返す
+export function validateSplit(amount: number, splitMode: SplitMode, splitShares?: SplitShares | null): string | null {
+  if (splitMode === "equal") return null;
+
+  if (!splitShares || shareParticipants(splitShares).length === 0) {
+    return "負担する参加者を1人以上指定してください";
+  }
+
+  const values = Object.values(splitShares);
+  if (values.some(value => !Number.isFinite(value) || value < 0)) {
+    return "負担の指定には0以上の数値を入力してください";
+  }
+
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  if (splitMode === "exact" && Math.abs(total - amount) > 0.005) {
+    return `金額指定の合計（${total}）が支払額（${amount}）と一致しません`;
+  }
+
+  if (splitMode === "percent" && Math.abs(total - 100) > 0.005) {
+    return `割合の合計（${total}%）が100%になっていません`;
+  }
+
+  return null;
+}